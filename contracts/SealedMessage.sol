@@ -1,57 +1,218 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
+import {SafeCast} from "@openzeppelin/contracts/utils/math/SafeCast.sol";
+
 /// @title SealedMessage
-/// @notice Stores AES/ECDH encrypted metadata with optional time- and payment-based unlock conditions
+/// @notice Stores AES/ECDH encrypted metadata with optional time-, payment-, check-in-, guardian- and consent-based
+///         unlock conditions, combined through an AND/OR unlock expression
 /// @dev The contract never receives plaintext payloads. Off-chain clients encrypt data using
 ///      AES-256-GCM, publish the ciphertext to IPFS (or similar) and submit integrity metadata here.
-contract SealedMessage {
+contract SealedMessage is EIP712, AccessControl {
+    using SafeERC20 for IERC20;
+    using SafeCast for uint256;
+
     uint8 private constant CONDITION_TIME = 0x01;
     uint8 private constant CONDITION_PAYMENT = 0x02;
+    // Not an unlock condition by itself: voids the message if the others are not met by expiresAt
+    uint8 private constant CONDITION_EXPIRY = 0x04;
+    // Dead man's switch: unlocks once the sender misses a check-in
+    uint8 private constant CONDITION_HEARTBEAT = 0x08;
+    uint256 private constant MIN_CHECK_IN_INTERVAL = 1 hours;
+    // M-of-N guardians must approve the unlock (approveUnlock or an EIP-712 signature)
+    uint8 private constant CONDITION_GUARDIANS = 0x10;
+    uint256 private constant MAX_GUARDIANS = 16;
+    // The sender explicitly releases the message (consentToUnlock)
+    uint8 private constant CONDITION_CONSENT = 0x20;
+    // Chained message: waits for another message to unlock (or to be acknowledged by its receiver)
+    uint8 private constant CONDITION_DEPENDENCY = 0x40;
+    uint8 private constant DEPENDENCY_UNLOCKED = 1;
+    uint8 private constant DEPENDENCY_ACKNOWLEDGED = 2;
+    // Bounds the recursive evaluation of a chain
+    uint8 private constant MAX_CHAIN_DEPTH = 8;
+    // Not an unlock condition: the sender lets releaseSessionKey publish the session key once the message unlocks
+    uint8 private constant FLAG_KEY_RELEASE = 0x80;
+    uint8 private constant UNLOCK_CONDITIONS =
+        CONDITION_TIME | CONDITION_PAYMENT | CONDITION_HEARTBEAT | CONDITION_GUARDIANS | CONDITION_CONSENT | CONDITION_DEPENDENCY;
+    // Unlock expression: OR over clauses, each clause is an AND over the condition bits it contains
+    uint256 private constant MAX_UNLOCK_CLAUSES = 8;
+    uint8 private constant NO_CLAUSE = type(uint8).max;
+
+    // DEFAULT_ADMIN_ROLE (owner) manages roles and the treasury; ADMIN_ROLE tunes the fees
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    uint16 public constant MAX_PROTOCOL_FEE_BPS = 1000;
 
+    bytes32 private constant UNLOCK_APPROVAL_TYPEHASH =
+        keccak256("UnlockApproval(uint256 messageId,address guardian,uint256 deadline)");
+    bytes32 private constant ACKNOWLEDGEMENT_TYPEHASH =
+        keccak256("Acknowledgement(uint256 messageId,address receiver,uint256 deadline)");
+    // Meta-transactions: a relayer submits on behalf of a signer who may hold no gas
+    bytes32 private constant MESSAGE_PARAMS_TYPEHASH =
+        keccak256(
+            "MessageParams(address receiver,string uri,bytes iv,bytes authTag,bytes32 ciphertextHash,bytes32 metadataHash,bytes escrowCiphertext,bytes escrowIv,bytes escrowAuthTag,bytes32 sessionKeyCommitment,bytes32 receiverEnvelopeHash,uint16 escrowKeyVersion,uint32 encryptionKeyVersion,uint256 unlockTime,uint256 expiresAt,uint256 checkInInterval,uint256 requiredPayment,address paymentToken,uint8 conditionMask,address[] guardians,uint8 guardianThreshold,uint8[] unlockClauses,uint256 dependsOn,uint8 dependencyKind)"
+        );
+    bytes32 private constant SEND_MESSAGE_TYPEHASH =
+        keccak256(
+            "SendMessage(address sender,MessageParams params,uint256 nonce,uint256 deadline)"
+            "MessageParams(address receiver,string uri,bytes iv,bytes authTag,bytes32 ciphertextHash,bytes32 metadataHash,bytes escrowCiphertext,bytes escrowIv,bytes escrowAuthTag,bytes32 sessionKeyCommitment,bytes32 receiverEnvelopeHash,uint16 escrowKeyVersion,uint32 encryptionKeyVersion,uint256 unlockTime,uint256 expiresAt,uint256 checkInInterval,uint256 requiredPayment,address paymentToken,uint8 conditionMask,address[] guardians,uint8 guardianThreshold,uint8[] unlockClauses,uint256 dependsOn,uint8 dependencyKind)"
+        );
+    bytes32 private constant REGISTER_ENCRYPTION_KEY_TYPEHASH =
+        keccak256("RegisterEncryptionKey(address user,bytes publicKey,uint256 nonce,uint256 deadline)");
+
+    // Packed layout: fixed-size crypto fields as bytesN, uint40 timestamps, uint96 amounts, grouped by slot.
+    // Views and sendMessage keep the original uint256 / bytes ABI; values are narrowed on write.
     struct Message {
+        // slot 0
         address sender;
+        uint40 createdAt;
+        uint40 unlockTime;
+        uint8 conditionMask;
+        uint8 guardianThreshold;
+        // slot 1
         address receiver;
-        string uri;
-        bytes iv;
-        bytes authTag;
+        uint40 expiresAt;
+        uint40 checkInInterval;
+        uint8 guardianApprovals;
+        uint8 dependencyKind;
+        // slot 2
+        address paymentToken;
+        uint40 lastCheckIn;
+        uint40 acknowledgedAt;
+        uint16 escrowKeyVersion;
+        // slot 3
+        uint96 requiredPayment;
+        uint96 paidAmount;
+        // Protocol fee at send time, taken from the payments when they are released
+        uint16 protocolFeeBps;
+        uint8 chainDepth;
+        bool senderConsented;
+        bool paymentReleased;
+        bool revoked;
+        bool exists;
+        // slot 4: payments sit here until the message unlocks, then move to the sender's pending withdrawals
+        uint96 heldAmount;
+        bytes12 iv;
+        uint64 dependsOn;
+        // slot 5
+        bytes16 authTag;
+        bytes16 escrowAuthTag;
+        // slot 6
+        bytes12 escrowIv;
+        // Receiver key the message was sealed to (1-based, 0 = receiver had no key, fallback key was used)
+        uint32 encryptionKeyVersion;
+        uint40 revokedAt;
+        bytes32 escrowCiphertext;
         bytes32 ciphertextHash;
         bytes32 metadataHash;
-        bytes escrowCiphertext;
-        bytes escrowIv;
-        bytes escrowAuthTag;
         bytes32 sessionKeyCommitment;
         bytes32 receiverEnvelopeHash;
-        uint16 escrowKeyVersion;
-        uint256 createdAt;
+        string uri;
+        uint8[] unlockClauses;
+    }
+
+    struct MessageFinancialView {
         uint256 unlockTime;
         uint256 requiredPayment;
         uint256 paidAmount;
         uint8 conditionMask;
+        bool isUnlocked;
+        address paymentToken;
+        uint256 expiresAt;
+        bool isExpired;
+        uint256 checkInInterval;
+        uint256 lastCheckIn;
+        uint8 guardianThreshold;
+        uint8 guardianApprovals;
+        uint256 dependsOn;
+        uint8 dependencyKind;
+        uint256 acknowledgedAt;
+        uint256 encryptionKeyVersion;
+        uint256 heldAmount;
+        uint16 protocolFeeBps;
+    }
+
+    // Inbox listing entry: everything but the ciphertext fields, so it needs no sender/receiver check
+    struct MessageHeader {
+        uint256 id;
+        address sender;
+        address receiver;
+        uint256 createdAt;
         bool revoked;
-        bool exists;
+        MessageFinancialView financial;
     }
 
-    struct MessageFinancialView {
+    struct EncryptionKey {
+        bytes publicKey;
+        uint256 registeredAt;
+    }
+
+    /// @dev sendMessage arguments, bundled so they can be signed for sendMessageBySig
+    struct MessageParams {
+        address receiver;
+        string uri;
+        bytes iv;
+        bytes authTag;
+        bytes32 ciphertextHash;
+        bytes32 metadataHash;
+        bytes escrowCiphertext;
+        bytes escrowIv;
+        bytes escrowAuthTag;
+        bytes32 sessionKeyCommitment;
+        bytes32 receiverEnvelopeHash;
+        uint16 escrowKeyVersion;
+        uint32 encryptionKeyVersion;
         uint256 unlockTime;
+        uint256 expiresAt;
+        uint256 checkInInterval;
         uint256 requiredPayment;
-        uint256 paidAmount;
+        address paymentToken;
         uint8 conditionMask;
-        bool isUnlocked;
+        address[] guardians;
+        uint8 guardianThreshold;
+        uint8[] unlockClauses;
+        uint256 dependsOn;
+        uint8 dependencyKind;
     }
 
     uint256 public messageCount;
-    mapping(uint256 => Message) private _messages;
+    mapping(uint256 => Message) internal _messages;
     mapping(address => uint256[]) private _sentMessages;
     mapping(address => uint256[]) private _receivedMessages;
-    mapping(address => bytes) private _encryptionKeys;
+    // Every key a user ever registered; the last entry is the current one
+    mapping(address => EncryptionKey[]) private _encryptionKeys;
+    // account => token => credited amount; address(0) is native ETH
+    mapping(address => mapping(address => uint256)) private _pendingWithdrawals;
+    // messageId => payer => amount paid; refundable while the payment is still held
+    mapping(uint256 => mapping(address => uint256)) private _contributions;
+    mapping(uint256 => address[]) private _guardians;
+    mapping(uint256 => mapping(address => bool)) private _isGuardian;
+    mapping(uint256 => mapping(address => bool)) private _guardianApproved;
+    mapping(address => uint256[]) private _guardianMessages;
+    // messageId => messages chained to it
+    mapping(uint256 => uint256[]) private _dependents;
+    // messageId => session key published after unlock (keccak256 matches sessionKeyCommitment)
+    mapping(uint256 => bytes32) public releasedSessionKeys;
+    // Signer => next nonce for sendMessageBySig / registerEncryptionKeyBySig
+    mapping(address => uint256) public nonces;
+
+    address public treasury;
+    // Share of every unlock payment credited to the treasury
+    uint16 public protocolFeeBps;
+    // Flat native fee charged by sendMessage / sendMessageBySig
+    uint256 public sendFee;
 
     uint256 private constant _NOT_ENTERED = 1;
     uint256 private constant _ENTERED = 2;
     uint256 private _status = _NOT_ENTERED;
 
     modifier nonReentrant() {
-        require(_status != _ENTERED, "Reentrancy");
+        if (_status == _ENTERED) revert Reentrancy();
         _status = _ENTERED;
         _;
         _status = _NOT_ENTERED;
@@ -70,12 +231,120 @@ contract SealedMessage {
     );
 
     event MessageRevoked(uint256 indexed messageId, address indexed sender);
-    event MessagePaid(uint256 indexed messageId, address indexed payer, uint256 amount, uint256 totalPaid);
+    event MessagePaid(
+        uint256 indexed messageId,
+        address indexed payer,
+        address indexed token,
+        uint256 amount,
+        uint256 totalPaid
+    );
     event MessageUnlocked(uint256 indexed messageId, string reason);
-    event EncryptionKeyRegistered(address indexed user, bytes publicKey);
+    event EncryptionKeyRegistered(address indexed user, bytes publicKey, uint256 version);
+    event PaymentCredited(uint256 indexed messageId, address indexed recipient, address indexed token, uint256 amount);
+    event Withdrawn(address indexed account, address indexed to, address indexed token, uint256 amount);
+    event PaymentRefunded(uint256 indexed messageId, address indexed payer, address indexed token, uint256 amount);
+    event SenderCheckedIn(uint256 indexed messageId, address indexed sender, uint256 nextCheckInDue);
+    event GuardianApproved(uint256 indexed messageId, address indexed guardian, uint8 approvals, uint8 threshold);
+    event SenderConsented(uint256 indexed messageId, address indexed sender);
+    event MessageChained(uint256 indexed messageId, uint256 indexed dependsOn, uint8 dependencyKind);
+    event MessageAcknowledged(uint256 indexed messageId, address indexed receiver, uint256 acknowledgedAt);
+    event SessionKeyReleased(uint256 indexed messageId, bytes32 sessionKey);
+    event ProtocolFeeUpdated(uint16 oldFeeBps, uint16 newFeeBps);
+    event SendFeeUpdated(uint256 oldFee, uint256 newFee);
+    event TreasuryUpdated(address indexed oldTreasury, address indexed newTreasury);
 
     error MessageNotFound();
     error NotSender();
+    error NotGuardian();
+    error Reentrancy();
+    error FeeTooHigh();
+    error InvalidTreasury();
+    error SignatureExpired();
+    error InvalidSignature();
+    error InvalidReceiver();
+    error SelfTarget();
+    error EmptyUri();
+    error InvalidIvLength();
+    error InvalidTagLength();
+    error MissingCiphertextHash();
+    error MissingMetadataHash();
+    error InvalidEscrowCipherLength();
+    error InvalidEscrowIvLength();
+    error InvalidEscrowTagLength();
+    error MissingSessionKeyCommitment();
+    error MissingReceiverEnvelopeHash();
+    error InvalidEscrowKeyVersion();
+    error EmptyMask();
+    error IncorrectSendFee();
+    error UnlockInPast();
+    error PaymentRequired();
+    error InvalidToken();
+    error InvalidCheckInInterval();
+    error ExpiryInPast();
+    error ExpiryBeforeUnlock();
+    error TokenPayment();
+    error NoPayment();
+    error RefundFailed();
+    error InvalidRecipient();
+    error NotRefundable();
+    error PaymentAlreadyReleased();
+    error NothingToRefund();
+    error Revoked();
+    error NothingHeld();
+    error Locked();
+    error NoPaymentCondition();
+    error Expired();
+    error AlreadyPaid();
+    error NativePayment();
+    error NothingToWithdraw();
+    error WithdrawFailed();
+    error UnknownDependency();
+    error InvalidDependencyKind();
+    error DependencyRevoked();
+    error ChainTooDeep();
+    error InvalidClauseCount();
+    error InvalidClause();
+    error UnusedCondition();
+    error InvalidGuardianCount();
+    error InvalidGuardianThreshold();
+    error InvalidGuardian();
+    error DuplicateGuardian();
+    error AlreadyApproved();
+    error NotReceiver();
+    error AlreadyAcknowledged();
+    error NoConsentCondition();
+    error AlreadyConsented();
+    error AlreadyRevoked();
+    error NoHeartbeatCondition();
+    error CheckInMissed();
+    error InvalidKeyLength();
+    error UnknownKeyVersion();
+    error InvalidSessionKey();
+    error SessionKeyAlreadyReleased();
+    error KeyReleaseNotAllowed();
+
+    constructor() EIP712("SealedMessage", "1") {
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _grantRole(ADMIN_ROLE, msg.sender);
+        treasury = msg.sender;
+    }
+
+    function setProtocolFee(uint16 newFeeBps) external onlyRole(ADMIN_ROLE) {
+        if (newFeeBps > MAX_PROTOCOL_FEE_BPS) revert FeeTooHigh();
+        emit ProtocolFeeUpdated(protocolFeeBps, newFeeBps);
+        protocolFeeBps = newFeeBps;
+    }
+
+    function setSendFee(uint256 newFee) external onlyRole(ADMIN_ROLE) {
+        emit SendFeeUpdated(sendFee, newFee);
+        sendFee = newFee;
+    }
+
+    function setTreasury(address newTreasury) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (newTreasury == address(0)) revert InvalidTreasury();
+        emit TreasuryUpdated(treasury, newTreasury);
+        treasury = newTreasury;
+    }
 
     function sendMessage(
         address receiver,
@@ -90,124 +359,662 @@ contract SealedMessage {
         bytes32 sessionKeyCommitment,
         bytes32 receiverEnvelopeHash,
         uint16 escrowKeyVersion,
+        uint32 encryptionKeyVersion,
         uint256 unlockTime,
+        uint256 expiresAt,
+        uint256 checkInInterval,
         uint256 requiredPayment,
-        uint8 conditionMask
-    ) external returns (uint256 messageId) {
-        require(receiver != address(0), "Invalid receiver");
-        require(receiver != msg.sender, "Self target");
-        require(bytes(uri).length != 0, "Empty uri");
-        require(iv.length == 12, "IV length");
-        require(authTag.length == 16, "Tag length");
-        require(ciphertextHash != bytes32(0), "Cipher hash");
-        require(metadataHash != bytes32(0), "Metadata hash");
-        require(escrowCiphertext.length == 32, "Escrow cipher length");
-        require(escrowIv.length == 12, "Escrow IV length");
-        require(escrowAuthTag.length == 16, "Escrow tag length");
-        require(sessionKeyCommitment != bytes32(0), "Session key commitment");
-        require(receiverEnvelopeHash != bytes32(0), "Receiver envelope hash");
-        require(escrowKeyVersion != 0, "Escrow key version");
-        require(conditionMask & (CONDITION_TIME | CONDITION_PAYMENT) != 0, "Empty mask");
-
-        bool hasTime = (conditionMask & CONDITION_TIME) != 0;
-        bool hasPayment = (conditionMask & CONDITION_PAYMENT) != 0;
+        address paymentToken,
+        uint8 conditionMask,
+        address[] calldata guardians,
+        uint8 guardianThreshold,
+        uint8[] calldata unlockClauses,
+        uint256 dependsOn,
+        uint8 dependencyKind
+    ) external payable returns (uint256 messageId) {
+        return _sendMessage(
+            msg.sender,
+            MessageParams({
+                receiver: receiver,
+                uri: uri,
+                iv: iv,
+                authTag: authTag,
+                ciphertextHash: ciphertextHash,
+                metadataHash: metadataHash,
+                escrowCiphertext: escrowCiphertext,
+                escrowIv: escrowIv,
+                escrowAuthTag: escrowAuthTag,
+                sessionKeyCommitment: sessionKeyCommitment,
+                receiverEnvelopeHash: receiverEnvelopeHash,
+                escrowKeyVersion: escrowKeyVersion,
+                encryptionKeyVersion: encryptionKeyVersion,
+                unlockTime: unlockTime,
+                expiresAt: expiresAt,
+                checkInInterval: checkInInterval,
+                requiredPayment: requiredPayment,
+                paymentToken: paymentToken,
+                conditionMask: conditionMask,
+                guardians: guardians,
+                guardianThreshold: guardianThreshold,
+                unlockClauses: unlockClauses,
+                dependsOn: dependsOn,
+                dependencyKind: dependencyKind
+            })
+        );
+    }
+
+    /// @notice Stores a message signed off-chain by `sender`; the caller (relayer) pays the gas and the send fee
+    function sendMessageBySig(
+        MessageParams calldata params,
+        address sender,
+        uint256 deadline,
+        bytes calldata signature
+    ) external payable returns (uint256 messageId) {
+        if (block.timestamp > deadline) revert SignatureExpired();
+        bytes32 digest = _hashTypedDataV4(
+            keccak256(abi.encode(SEND_MESSAGE_TYPEHASH, sender, _hashMessageParams(params), nonces[sender]++, deadline))
+        );
+        if (ECDSA.recover(digest, signature) != sender) revert InvalidSignature();
+        return _sendMessage(sender, params);
+    }
+
+    /// @dev EIP-712 hashStruct(MessageParams), split in two encodes to keep the stack shallow
+    function _hashMessageParams(MessageParams calldata p) private pure returns (bytes32) {
+        return keccak256(
+            bytes.concat(
+                abi.encode(
+                    MESSAGE_PARAMS_TYPEHASH,
+                    p.receiver,
+                    keccak256(bytes(p.uri)),
+                    keccak256(p.iv),
+                    keccak256(p.authTag),
+                    p.ciphertextHash,
+                    p.metadataHash,
+                    keccak256(p.escrowCiphertext),
+                    keccak256(p.escrowIv),
+                    keccak256(p.escrowAuthTag),
+                    p.sessionKeyCommitment,
+                    p.receiverEnvelopeHash
+                ),
+                abi.encode(
+                    p.escrowKeyVersion,
+                    p.encryptionKeyVersion,
+                    p.unlockTime,
+                    p.expiresAt,
+                    p.checkInInterval,
+                    p.requiredPayment,
+                    p.paymentToken,
+                    p.conditionMask,
+                    keccak256(abi.encodePacked(p.guardians)),
+                    p.guardianThreshold,
+                    keccak256(abi.encodePacked(p.unlockClauses)),
+                    p.dependsOn,
+                    p.dependencyKind
+                )
+            )
+        );
+    }
+
+    function _sendMessage(address sender, MessageParams memory p) private returns (uint256 messageId) {
+        if (p.receiver == address(0)) revert InvalidReceiver();
+        if (p.receiver == sender) revert SelfTarget();
+        if (bytes(p.uri).length == 0) revert EmptyUri();
+        if (p.iv.length != 12) revert InvalidIvLength();
+        if (p.authTag.length != 16) revert InvalidTagLength();
+        if (p.ciphertextHash == bytes32(0)) revert MissingCiphertextHash();
+        if (p.metadataHash == bytes32(0)) revert MissingMetadataHash();
+        if (p.escrowCiphertext.length != 32) revert InvalidEscrowCipherLength();
+        if (p.escrowIv.length != 12) revert InvalidEscrowIvLength();
+        if (p.escrowAuthTag.length != 16) revert InvalidEscrowTagLength();
+        if (p.sessionKeyCommitment == bytes32(0)) revert MissingSessionKeyCommitment();
+        if (p.receiverEnvelopeHash == bytes32(0)) revert MissingReceiverEnvelopeHash();
+        if (p.escrowKeyVersion == 0) revert InvalidEscrowKeyVersion();
+        if (p.encryptionKeyVersion > _encryptionKeys[p.receiver].length) revert UnknownKeyVersion();
+        if (p.conditionMask & UNLOCK_CONDITIONS == 0) revert EmptyMask();
+        if (msg.value != sendFee) revert IncorrectSendFee();
+
+        bool hasTime = (p.conditionMask & CONDITION_TIME) != 0;
+        bool hasPayment = (p.conditionMask & CONDITION_PAYMENT) != 0;
 
         if (hasTime) {
-            require(unlockTime > block.timestamp, "Unlock in past");
+            if (p.unlockTime <= block.timestamp) revert UnlockInPast();
         } else {
-            unlockTime = 0;
+            p.unlockTime = 0;
         }
 
         if (hasPayment) {
-            require(requiredPayment > 0, "Payment required");
+            if (p.requiredPayment == 0) revert PaymentRequired();
+            if (p.paymentToken != address(0) && p.paymentToken.code.length == 0) revert InvalidToken();
+        } else {
+            p.requiredPayment = 0;
+            p.paymentToken = address(0);
+        }
+
+        if ((p.conditionMask & CONDITION_HEARTBEAT) != 0) {
+            if (p.checkInInterval < MIN_CHECK_IN_INTERVAL) revert InvalidCheckInInterval();
         } else {
-            requiredPayment = 0;
+            p.checkInInterval = 0;
+        }
+
+        if ((p.conditionMask & CONDITION_EXPIRY) != 0) {
+            if (p.expiresAt <= block.timestamp) revert ExpiryInPast();
+            if (p.expiresAt <= p.unlockTime) revert ExpiryBeforeUnlock();
+        } else {
+            p.expiresAt = 0;
         }
 
         messageId = messageCount;
         messageCount += 1;
 
         Message storage message = _messages[messageId];
-        message.sender = msg.sender;
-        message.receiver = receiver;
-        message.uri = uri;
-        message.iv = iv;
-        message.authTag = authTag;
-        message.ciphertextHash = ciphertextHash;
-        message.metadataHash = metadataHash;
-    message.escrowCiphertext = escrowCiphertext;
-    message.escrowIv = escrowIv;
-    message.escrowAuthTag = escrowAuthTag;
-    message.sessionKeyCommitment = sessionKeyCommitment;
-    message.receiverEnvelopeHash = receiverEnvelopeHash;
-    message.escrowKeyVersion = escrowKeyVersion;
-        message.createdAt = block.timestamp;
-        message.unlockTime = unlockTime;
-        message.requiredPayment = requiredPayment;
-        message.paidAmount = 0;
-        message.conditionMask = conditionMask;
-        message.revoked = false;
+        message.sender = sender;
+        message.receiver = p.receiver;
+        message.ciphertextHash = p.ciphertextHash;
+        message.sessionKeyCommitment = p.sessionKeyCommitment;
+        _storeEnvelope(messageId, message, p);
+        message.createdAt = uint40(block.timestamp);
+        message.unlockTime = p.unlockTime.toUint40();
+        message.expiresAt = p.expiresAt.toUint40();
+        message.checkInInterval = p.checkInInterval.toUint40();
+        message.lastCheckIn = p.checkInInterval != 0 ? uint40(block.timestamp) : 0;
+        message.requiredPayment = p.requiredPayment.toUint96();
+        message.paymentToken = p.paymentToken;
+        message.conditionMask = p.conditionMask;
+        // The key the sender actually encrypted to; a key registered between reading it and sending must not change it
+        message.encryptionKeyVersion = p.encryptionKeyVersion;
+        message.protocolFeeBps = protocolFeeBps;
         message.exists = true;
 
-        _sentMessages[msg.sender].push(messageId);
-        _receivedMessages[receiver].push(messageId);
+        if (msg.value != 0) {
+            _pendingWithdrawals[treasury][address(0)] += msg.value;
+            emit PaymentCredited(messageId, treasury, address(0), msg.value);
+        }
+
+        if ((p.conditionMask & CONDITION_GUARDIANS) != 0) {
+            _setGuardians(messageId, message, p.guardians, p.guardianThreshold);
+        }
+        if ((p.conditionMask & CONDITION_DEPENDENCY) != 0) {
+            _setDependency(messageId, message, p.dependsOn, p.dependencyKind);
+        }
+        _setUnlockClauses(message, p.unlockClauses);
+
+        _sentMessages[sender].push(messageId);
+        _receivedMessages[p.receiver].push(messageId);
 
         emit MessageStored(
             messageId,
-            msg.sender,
-            receiver,
-            conditionMask,
-            unlockTime,
-            requiredPayment,
-            uri,
-            sessionKeyCommitment,
-            escrowKeyVersion
+            sender,
+            p.receiver,
+            p.conditionMask,
+            p.unlockTime,
+            p.requiredPayment,
+            p.uri,
+            p.sessionKeyCommitment,
+            p.escrowKeyVersion
         );
     }
 
+    /// @dev Persists the fields getMessage returns besides participants, conditions and the two hashes.
+    ///      SealedMessageL2 overrides this to emit them instead.
+    function _storeEnvelope(uint256, Message storage message, MessageParams memory p) internal virtual {
+        message.uri = p.uri;
+        // Lengths were checked in _sendMessage, so the bytesN conversions never truncate
+        message.iv = bytes12(p.iv);
+        message.authTag = bytes16(p.authTag);
+        message.metadataHash = p.metadataHash;
+        message.escrowCiphertext = bytes32(p.escrowCiphertext);
+        message.escrowIv = bytes12(p.escrowIv);
+        message.escrowAuthTag = bytes16(p.escrowAuthTag);
+        message.receiverEnvelopeHash = p.receiverEnvelopeHash;
+        message.escrowKeyVersion = p.escrowKeyVersion;
+    }
+
     function payToUnlock(uint256 messageId) external payable nonReentrant {
-        Message storage message = _messages[messageId];
-        if (!message.exists) revert MessageNotFound();
-        require((message.conditionMask & CONDITION_PAYMENT) != 0, "No payment condition");
-        require(!message.revoked, "Revoked");
-        require(msg.value > 0, "No payment");
-        require(message.paidAmount < message.requiredPayment, "Paid");
+        Message storage message = _payableMessage(messageId);
+        if (message.paymentToken != address(0)) revert TokenPayment();
+        if (msg.value == 0) revert NoPayment();
 
         uint256 remaining = message.requiredPayment - message.paidAmount;
         uint256 contribution = msg.value;
+        uint256 refund;
 
         if (contribution > remaining) {
-            uint256 refund = contribution - remaining;
+            refund = contribution - remaining;
             contribution = remaining;
+        }
+
+        _creditPayment(messageId, message, contribution);
+
+        if (refund > 0) {
             (bool refundOk, ) = msg.sender.call{value: refund}("");
-            require(refundOk, "Refund failed");
+            if (!refundOk) revert RefundFailed();
+        }
+    }
+
+    /// @dev Caller must have approved at least `amount` of the message's payment token.
+    ///      Only the outstanding part of `amount` is pulled.
+    function payToUnlockWithToken(uint256 messageId, uint256 amount) external nonReentrant {
+        _payWithToken(messageId, amount);
+    }
+
+    /// @dev Same as payToUnlockWithToken, but sets the allowance with an EIP-2612 permit first.
+    ///      A failing permit is ignored so a front-run permit does not block the payment.
+    function payToUnlockWithTokenPermit(
+        uint256 messageId,
+        uint256 amount,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external nonReentrant {
+        address token = _messages[messageId].paymentToken;
+        if (token != address(0)) {
+            try IERC20Permit(token).permit(msg.sender, address(this), amount, deadline, v, r, s) {} catch {}
         }
+        _payWithToken(messageId, amount);
+    }
+
+    function withdraw() external nonReentrant returns (uint256 amount) {
+        amount = _withdraw(address(0), payable(msg.sender));
+    }
+
+    function withdrawTo(address payable to) external nonReentrant returns (uint256 amount) {
+        if (to == address(0)) revert InvalidRecipient();
+        amount = _withdraw(address(0), to);
+    }
 
-        message.paidAmount += contribution;
+    function withdrawToken(address token) external nonReentrant returns (uint256 amount) {
+        if (token == address(0)) revert InvalidToken();
+        amount = _withdraw(token, payable(msg.sender));
+    }
+
+    function withdrawTokenTo(address token, address to) external nonReentrant returns (uint256 amount) {
+        if (token == address(0)) revert InvalidToken();
+        if (to == address(0)) revert InvalidRecipient();
+        amount = _withdraw(token, payable(to));
+    }
+
+    /// @dev Returns a payer's escrowed contribution once the message was revoked or expired before unlocking.
+    function claimRefund(uint256 messageId) external nonReentrant returns (uint256 amount) {
+        Message storage message = _existingMessage(messageId);
+        if (!message.revoked && !_isExpired(message)) revert NotRefundable();
+        if (message.paymentReleased) revert PaymentAlreadyReleased();
+
+        amount = _contributions[messageId][msg.sender];
+        if (amount == 0) revert NothingToRefund();
 
-        (bool success, ) = message.sender.call{value: contribution}("");
-        require(success, "Forward failed");
+        _contributions[messageId][msg.sender] = 0;
+        message.heldAmount -= uint96(amount);
 
-        emit MessagePaid(messageId, msg.sender, contribution, message.paidAmount);
+        if (message.paymentToken == address(0)) {
+            (bool success, ) = msg.sender.call{value: amount}("");
+            if (!success) revert RefundFailed();
+        } else {
+            IERC20(message.paymentToken).safeTransfer(msg.sender, amount);
+        }
+
+        emit PaymentRefunded(messageId, msg.sender, message.paymentToken, amount);
+    }
 
-        if (message.paidAmount >= message.requiredPayment) {
+    /// @dev Moves the escrowed payments of an unlocked message to the sender's balance. Anyone may call it.
+    function releasePayment(uint256 messageId) external {
+        Message storage message = _existingMessage(messageId);
+        if (message.revoked) revert Revoked();
+        if (message.heldAmount == 0) revert NothingHeld();
+        if (!_isUnlocked(message)) revert Locked();
+
+        _releasePayment(messageId, message);
+    }
+
+    /// @notice Publishes the session key of an unlocked message so receivers no longer depend on the escrow server.
+    ///         Anyone holding the key may call it; it must hash to the committed sessionKeyCommitment.
+    ///         The key becomes public, so only messages whose sender set FLAG_KEY_RELEASE qualify.
+    function releaseSessionKey(uint256 messageId, bytes32 sessionKey) external {
+        Message storage message = _existingMessage(messageId);
+        if ((message.conditionMask & FLAG_KEY_RELEASE) == 0) revert KeyReleaseNotAllowed();
+        if (message.revoked) revert Revoked();
+        if (!_isUnlocked(message)) revert Locked();
+        if (releasedSessionKeys[messageId] != bytes32(0)) revert SessionKeyAlreadyReleased();
+        if (keccak256(abi.encodePacked(sessionKey)) != message.sessionKeyCommitment) revert InvalidSessionKey();
+
+        releasedSessionKeys[messageId] = sessionKey;
+        emit SessionKeyReleased(messageId, sessionKey);
+    }
+
+    function contributionOf(uint256 messageId, address payer) external view returns (uint256) {
+        return _contributions[messageId][payer];
+    }
+
+    function pendingWithdrawal(address account) external view returns (uint256) {
+        return _pendingWithdrawals[account][address(0)];
+    }
+
+    function pendingTokenWithdrawal(address account, address token) external view returns (uint256) {
+        return _pendingWithdrawals[account][token];
+    }
+
+    function _payableMessage(uint256 messageId) private view returns (Message storage message) {
+        message = _messages[messageId];
+        if (!message.exists) revert MessageNotFound();
+        if ((message.conditionMask & CONDITION_PAYMENT) == 0) revert NoPaymentCondition();
+        if (message.revoked) revert Revoked();
+        if ((message.conditionMask & CONDITION_EXPIRY) != 0 && block.timestamp >= message.expiresAt) revert Expired();
+        if (message.paidAmount >= message.requiredPayment) revert AlreadyPaid();
+    }
+
+    function _payWithToken(uint256 messageId, uint256 amount) private {
+        Message storage message = _payableMessage(messageId);
+        if (message.paymentToken == address(0)) revert NativePayment();
+        if (amount == 0) revert NoPayment();
+
+        uint256 remaining = message.requiredPayment - message.paidAmount;
+        uint256 contribution = amount > remaining ? remaining : amount;
+
+        // Credit what actually arrived so fee-on-transfer tokens cannot over-credit the sender
+        IERC20 token = IERC20(message.paymentToken);
+        uint256 balanceBefore = token.balanceOf(address(this));
+        token.safeTransferFrom(msg.sender, address(this), contribution);
+        uint256 received = token.balanceOf(address(this)) - balanceBefore;
+        if (received == 0) revert NoPayment();
+
+        _creditPayment(messageId, message, received);
+    }
+
+    // Payments are held per payer until the message unlocks, so a revoked or expired message can refund
+    // them. Released funds are credited to the sender and pulled via withdraw(); forwarding inline would
+    // let a reverting sender contract block every payer from unlocking the message.
+    function _creditPayment(uint256 messageId, Message storage message, uint256 contribution) private {
+        uint96 amount = contribution.toUint96();
+        message.paidAmount += amount;
+        message.heldAmount += amount;
+        _contributions[messageId][msg.sender] += contribution;
+
+        emit MessagePaid(messageId, msg.sender, message.paymentToken, contribution, message.paidAmount);
+
+        bool unlocked = _isUnlocked(message);
+        if (unlocked || message.paymentReleased) {
+            _releasePayment(messageId, message);
+        }
+        if (unlocked && message.paidAmount >= message.requiredPayment) {
             emit MessageUnlocked(messageId, "payment");
         }
     }
 
+    function _releasePayment(uint256 messageId, Message storage message) private {
+        uint256 amount = message.heldAmount;
+        uint256 fee = (amount * message.protocolFeeBps) / 10_000;
+        message.heldAmount = 0;
+        message.paymentReleased = true;
+        if (fee != 0) {
+            _pendingWithdrawals[treasury][message.paymentToken] += fee;
+            emit PaymentCredited(messageId, treasury, message.paymentToken, fee);
+        }
+        _pendingWithdrawals[message.sender][message.paymentToken] += amount - fee;
+        emit PaymentCredited(messageId, message.sender, message.paymentToken, amount - fee);
+    }
+
+    function _withdraw(address token, address payable to) private returns (uint256 amount) {
+        amount = _pendingWithdrawals[msg.sender][token];
+        if (amount == 0) revert NothingToWithdraw();
+
+        _pendingWithdrawals[msg.sender][token] = 0;
+
+        if (token == address(0)) {
+            (bool success, ) = to.call{value: amount}("");
+            if (!success) revert WithdrawFailed();
+        } else {
+            IERC20(token).safeTransfer(to, amount);
+        }
+
+        emit Withdrawn(msg.sender, to, token, amount);
+    }
+
+    /// @dev A message can only point at an already stored (lower) id, so chains can never form a cycle.
+    function _setDependency(uint256 messageId, Message storage message, uint256 dependsOn, uint8 kind) private {
+        Message storage dependency = _messages[dependsOn];
+        if (dependsOn >= messageId || !dependency.exists) revert UnknownDependency();
+        if (kind != DEPENDENCY_UNLOCKED && kind != DEPENDENCY_ACKNOWLEDGED) revert InvalidDependencyKind();
+        if (dependency.revoked) revert DependencyRevoked();
+
+        uint8 depth = (dependency.conditionMask & CONDITION_DEPENDENCY) != 0 ? dependency.chainDepth + 1 : 1;
+        if (depth > MAX_CHAIN_DEPTH) revert ChainTooDeep();
+
+        message.dependsOn = uint64(dependsOn);
+        message.dependencyKind = kind;
+        message.chainDepth = depth;
+        _dependents[dependsOn].push(messageId);
+        emit MessageChained(messageId, dependsOn, kind);
+    }
+
+    /// @dev An empty list keeps the original semantics: every active condition must be satisfied.
+    function _setUnlockClauses(Message storage message, uint8[] memory clauses) private {
+        if (clauses.length == 0) {
+            return;
+        }
+        if (clauses.length > MAX_UNLOCK_CLAUSES) revert InvalidClauseCount();
+
+        uint8 active = message.conditionMask & UNLOCK_CONDITIONS;
+        uint8 used;
+        for (uint256 i = 0; i < clauses.length; i++) {
+            uint8 clause = clauses[i];
+            if (clause == 0 || (clause & ~active) != 0) revert InvalidClause();
+            used |= clause;
+            message.unlockClauses.push(clause);
+        }
+        // Every configured condition has to appear in at least one clause
+        if (used != active) revert UnusedCondition();
+    }
+
+    function _setGuardians(
+        uint256 messageId,
+        Message storage message,
+        address[] memory guardians,
+        uint8 threshold
+    ) private {
+        if (guardians.length == 0 || guardians.length > MAX_GUARDIANS) revert InvalidGuardianCount();
+        if (threshold == 0 || threshold > guardians.length) revert InvalidGuardianThreshold();
+
+        for (uint256 i = 0; i < guardians.length; i++) {
+            address guardian = guardians[i];
+            if (guardian == address(0) || guardian == message.receiver) revert InvalidGuardian();
+            if (_isGuardian[messageId][guardian]) revert DuplicateGuardian();
+            _isGuardian[messageId][guardian] = true;
+            _guardians[messageId].push(guardian);
+            _guardianMessages[guardian].push(messageId);
+        }
+        message.guardianThreshold = threshold;
+    }
+
+    function approveUnlock(uint256 messageId) external {
+        _approveUnlock(messageId, msg.sender);
+    }
+
+    /// @dev Lets anyone (typically the receiver) submit a guardian's off-chain approval.
+    ///      Each guardian can approve a message only once, so a signature cannot be replayed.
+    function approveUnlockBySig(
+        uint256 messageId,
+        address guardian,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        if (block.timestamp > deadline) revert SignatureExpired();
+        bytes32 digest = _hashTypedDataV4(
+            keccak256(abi.encode(UNLOCK_APPROVAL_TYPEHASH, messageId, guardian, deadline))
+        );
+        if (ECDSA.recover(digest, signature) != guardian) revert InvalidSignature();
+        _approveUnlock(messageId, guardian);
+    }
+
+    function _approveUnlock(uint256 messageId, address guardian) private {
+        Message storage message = _existingMessage(messageId);
+        if (!_isGuardian[messageId][guardian]) revert NotGuardian();
+        if (message.revoked) revert Revoked();
+        if (message.expiresAt != 0 && block.timestamp >= message.expiresAt) revert Expired();
+        if (_guardianApproved[messageId][guardian]) revert AlreadyApproved();
+
+        _guardianApproved[messageId][guardian] = true;
+        message.guardianApprovals += 1;
+        emit GuardianApproved(messageId, guardian, message.guardianApprovals, message.guardianThreshold);
+
+        if (message.guardianApprovals == message.guardianThreshold && _isUnlocked(message)) {
+            emit MessageUnlocked(messageId, "guardians");
+        }
+    }
+
+    /// @notice Read receipt: the receiver confirms they opened an unlocked message
+    function acknowledgeMessage(uint256 messageId) external {
+        _acknowledge(messageId, msg.sender);
+    }
+
+    /// @dev Lets a relayer submit the receiver's off-chain read receipt.
+    ///      A message can be acknowledged only once, so a signature cannot be replayed.
+    function acknowledgeMessageBySig(
+        uint256 messageId,
+        address receiver,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        if (block.timestamp > deadline) revert SignatureExpired();
+        bytes32 digest = _hashTypedDataV4(
+            keccak256(abi.encode(ACKNOWLEDGEMENT_TYPEHASH, messageId, receiver, deadline))
+        );
+        if (ECDSA.recover(digest, signature) != receiver) revert InvalidSignature();
+        _acknowledge(messageId, receiver);
+    }
+
+    function _acknowledge(uint256 messageId, address receiver) private {
+        Message storage message = _existingMessage(messageId);
+        if (message.receiver != receiver) revert NotReceiver();
+        if (message.revoked) revert Revoked();
+        if (!_isUnlocked(message)) revert Locked();
+        if (message.acknowledgedAt != 0) revert AlreadyAcknowledged();
+
+        message.acknowledgedAt = uint40(block.timestamp);
+        emit MessageAcknowledged(messageId, receiver, block.timestamp);
+    }
+
+    function getMessageDependency(uint256 messageId)
+        external
+        view
+        returns (bool chained, uint256 dependsOn, uint8 dependencyKind, bool satisfied)
+    {
+        Message storage message = _existingMessage(messageId);
+        chained = (message.conditionMask & CONDITION_DEPENDENCY) != 0;
+        if (chained) {
+            return (true, message.dependsOn, message.dependencyKind, _dependencyMet(message, block.timestamp));
+        }
+    }
+
+    function getDependentMessages(uint256 messageId) external view returns (uint256[] memory) {
+        return _dependents[messageId];
+    }
+
+    function consentToUnlock(uint256 messageId) external {
+        Message storage message = _existingMessage(messageId);
+        if (message.sender != msg.sender) revert NotSender();
+        if ((message.conditionMask & CONDITION_CONSENT) == 0) revert NoConsentCondition();
+        if (message.revoked) revert Revoked();
+        if (message.expiresAt != 0 && block.timestamp >= message.expiresAt) revert Expired();
+        if (message.senderConsented) revert AlreadyConsented();
+
+        message.senderConsented = true;
+        emit SenderConsented(messageId, msg.sender);
+
+        if (_isUnlocked(message)) {
+            emit MessageUnlocked(messageId, "consent");
+        }
+    }
+
+    function getGuardianApprovals(uint256 messageId)
+        external
+        view
+        returns (address[] memory guardians, bool[] memory approved, uint8 threshold, uint8 approvals)
+    {
+        Message storage message = _existingMessage(messageId);
+
+        guardians = _guardians[messageId];
+        approved = new bool[](guardians.length);
+        for (uint256 i = 0; i < guardians.length; i++) {
+            approved[i] = _guardianApproved[messageId][guardians[i]];
+        }
+        return (guardians, approved, message.guardianThreshold, message.guardianApprovals);
+    }
+
+    function getGuardianMessages(address guardian) external view returns (uint256[] memory) {
+        return _guardianMessages[guardian];
+    }
+
+    function DOMAIN_SEPARATOR() external view returns (bytes32) {
+        return _domainSeparatorV4();
+    }
+
     function revokeMessage(uint256 messageId) external {
-        Message storage message = _messages[messageId];
-        if (!message.exists) revert MessageNotFound();
+        Message storage message = _existingMessage(messageId);
         if (message.sender != msg.sender) revert NotSender();
-        require(!message.revoked, "Already revoked");
+        if (message.revoked) revert AlreadyRevoked();
 
+        // Payers of an already unlocked message got what they paid for; only locked escrow is refundable
+        if (message.heldAmount > 0 && _isUnlocked(message)) {
+            _releasePayment(messageId, message);
+        }
         message.revoked = true;
+        message.revokedAt = uint40(block.timestamp);
         emit MessageRevoked(messageId, msg.sender);
     }
 
+    function checkIn(uint256 messageId) external {
+        Message storage message = _existingMessage(messageId);
+        if (message.sender != msg.sender) revert NotSender();
+        if ((message.conditionMask & CONDITION_HEARTBEAT) == 0) revert NoHeartbeatCondition();
+        if (message.revoked) revert Revoked();
+        // A missed check-in has already released the message; it cannot be re-sealed
+        if (block.timestamp >= _nextCheckInDue(message)) revert CheckInMissed();
+
+        _checkIn(messageId, message);
+    }
+
+    /// @dev Refreshes the live heartbeat messages among the caller's sent messages `offset` .. `offset + limit`,
+    /// newest first like getSentMessagesPage. Missed or revoked ones are skipped.
+    function checkInAll(uint256 offset, uint256 limit) external returns (uint256 refreshed) {
+        uint256[] storage sent = _sentMessages[msg.sender];
+        uint256 total = sent.length;
+        if (offset >= total) {
+            return 0;
+        }
+        uint256 end = total - offset < limit ? total : offset + limit;
+        for (uint256 i = offset; i < end; i++) {
+            uint256 messageId = sent[total - 1 - i];
+            Message storage message = _messages[messageId];
+            if (
+                (message.conditionMask & CONDITION_HEARTBEAT) == 0 ||
+                message.revoked ||
+                block.timestamp >= _nextCheckInDue(message)
+            ) {
+                continue;
+            }
+            _checkIn(messageId, message);
+            refreshed += 1;
+        }
+    }
+
+    function _checkIn(uint256 messageId, Message storage message) private {
+        message.lastCheckIn = uint40(block.timestamp);
+        emit SenderCheckedIn(messageId, msg.sender, _nextCheckInDue(message));
+    }
+
+    function _existingMessage(uint256 messageId) internal view returns (Message storage message) {
+        message = _messages[messageId];
+        if (!message.exists) revert MessageNotFound();
+    }
+
+    function _nextCheckInDue(Message storage message) private view returns (uint256) {
+        return uint256(message.lastCheckIn) + message.checkInInterval;
+    }
+
     function getMessage(uint256 messageId)
         external
         view
+        virtual
         returns (
             address sender,
             address receiver,
@@ -230,8 +1037,7 @@ contract SealedMessage {
             uint8 conditionMask
         )
     {
-        Message storage message = _messages[messageId];
-        if (!message.exists) revert MessageNotFound();
+        Message storage message = _existingMessage(messageId);
         
         // ✅ CRITICAL SECURITY: Only sender or receiver can read message details
         // This prevents unauthorized access to encrypted data
@@ -244,13 +1050,13 @@ contract SealedMessage {
             message.sender,
             message.receiver,
             message.uri,
-            message.iv,
-            message.authTag,
+            abi.encodePacked(message.iv),
+            abi.encodePacked(message.authTag),
             message.ciphertextHash,
             message.metadataHash,
-            message.escrowCiphertext,
-            message.escrowIv,
-            message.escrowAuthTag,
+            abi.encodePacked(message.escrowCiphertext),
+            abi.encodePacked(message.escrowIv),
+            abi.encodePacked(message.escrowAuthTag),
             message.sessionKeyCommitment,
             message.receiverEnvelopeHash,
             message.escrowKeyVersion,
@@ -264,36 +1070,163 @@ contract SealedMessage {
     }
 
     function getMessageFinancialView(uint256 messageId) external view returns (MessageFinancialView memory viewData) {
-        Message storage message = _messages[messageId];
-        if (!message.exists) revert MessageNotFound();
+        Message storage message = _existingMessage(messageId);
+        return _financialView(message);
+    }
+
+    /// @notice Listing data for a batch of messages in one call; reverts if any id does not exist
+    function getMessageHeaders(uint256[] calldata ids) external view returns (MessageHeader[] memory headers) {
+        headers = new MessageHeader[](ids.length);
+        for (uint256 i = 0; i < ids.length; i++) {
+            Message storage message = _messages[ids[i]];
+            if (!message.exists) revert MessageNotFound();
+            headers[i] = MessageHeader({
+                id: ids[i],
+                sender: message.sender,
+                receiver: message.receiver,
+                createdAt: message.createdAt,
+                revoked: message.revoked,
+                financial: _financialView(message)
+            });
+        }
+    }
 
+    function _financialView(Message storage message) private view returns (MessageFinancialView memory) {
         return MessageFinancialView({
             unlockTime: message.unlockTime,
             requiredPayment: message.requiredPayment,
             paidAmount: message.paidAmount,
             conditionMask: message.conditionMask,
-            isUnlocked: _isUnlocked(message)
+            isUnlocked: _isUnlocked(message),
+            paymentToken: message.paymentToken,
+            expiresAt: message.expiresAt,
+            isExpired: _isExpired(message),
+            checkInInterval: message.checkInInterval,
+            lastCheckIn: message.lastCheckIn,
+            guardianThreshold: message.guardianThreshold,
+            guardianApprovals: message.guardianApprovals,
+            dependsOn: message.dependsOn,
+            dependencyKind: message.dependencyKind,
+            acknowledgedAt: message.acknowledgedAt,
+            encryptionKeyVersion: message.encryptionKeyVersion,
+            heldAmount: message.heldAmount,
+            protocolFeeBps: message.protocolFeeBps
         });
     }
 
     function isUnlocked(uint256 messageId) external view returns (bool) {
-        Message storage message = _messages[messageId];
-        if (!message.exists) revert MessageNotFound();
+        Message storage message = _existingMessage(messageId);
         return _isUnlocked(message);
     }
 
+    /// @dev Unlock expression as clauses (legacy messages report a single AND clause), the condition
+    ///      bits satisfied right now and the first clause that currently unlocks the message.
+    function getUnlockState(uint256 messageId)
+        external
+        view
+        returns (uint8[] memory clauses, uint8 satisfiedConditions, bool unlocked, uint8 matchedClause)
+    {
+        Message storage message = _existingMessage(messageId);
+
+        uint256 count = message.unlockClauses.length;
+        if (count == 0) {
+            clauses = new uint8[](1);
+            clauses[0] = message.conditionMask & UNLOCK_CONDITIONS;
+        } else {
+            // Element-wise copy: the generic packed storage-to-memory copy costs over 1 KB of bytecode
+            clauses = new uint8[](count);
+            for (uint256 i = 0; i < count; i++) {
+                clauses[i] = message.unlockClauses[i];
+            }
+        }
+        satisfiedConditions = _satisfiedConditions(message, block.timestamp);
+        matchedClause = _isExpired(message) ? NO_CLAUSE : _matchingClause(message, block.timestamp);
+        unlocked = matchedClause != NO_CLAUSE;
+    }
+
+    function isExpired(uint256 messageId) external view returns (bool) {
+        Message storage message = _existingMessage(messageId);
+        return _isExpired(message);
+    }
+
     function _isUnlocked(Message storage message) private view returns (bool) {
-        bool timeOk = (message.conditionMask & CONDITION_TIME) == 0 || block.timestamp >= message.unlockTime;
-        bool paymentOk = (message.conditionMask & CONDITION_PAYMENT) == 0 || message.paidAmount >= message.requiredPayment;
+        return _unlockedAt(message, block.timestamp);
+    }
+
+    // Once expiresAt has passed, the outcome is frozen to the state at expiry (conditions only ever become
+    // satisfied, never unsatisfied again, so "met at expiry" also means "met now").
+    function _unlockedAt(Message storage message, uint256 timestamp) private view returns (bool) {
+        if ((message.conditionMask & CONDITION_EXPIRY) != 0 && timestamp >= message.expiresAt) {
+            return _conditionsMet(message, message.expiresAt);
+        }
+        return _conditionsMet(message, timestamp);
+    }
 
-        // ✅ CRITICAL FIX: When BOTH conditions exist, BOTH must be satisfied (AND not OR)
-        // Time + Payment: Both time must be reached AND payment must be made
-        // if ((message.conditionMask & CONDITION_TIME) != 0 && (message.conditionMask & CONDITION_PAYMENT) != 0) {
-        //     return timeOk || paymentOk;  // ❌ OLD BUGGY CODE: OR logic allowed early unlock
-        // }
+    // A revoked dependency is judged as of its revocation: one that was already met keeps its dependents
+    // unlocked (like expiry, the outcome is frozen), one that was not can never be met anymore.
+    function _dependencyMet(Message storage message, uint256 timestamp) private view returns (bool) {
+        Message storage dependency = _messages[message.dependsOn];
+        if (dependency.revoked && timestamp > dependency.revokedAt) {
+            timestamp = dependency.revokedAt;
+        }
+        if (message.dependencyKind == DEPENDENCY_ACKNOWLEDGED) {
+            return dependency.acknowledgedAt != 0 && dependency.acknowledgedAt <= timestamp;
+        }
+        return _unlockedAt(dependency, timestamp);
+    }
 
-        // ✅ Correct logic: ALL active conditions must be satisfied
-        return timeOk && paymentOk;
+    // Expired = expiry reached while the unlock conditions were still unmet at that moment.
+    // Payments are rejected after expiresAt, so an expired message stays locked forever.
+    function _isExpired(Message storage message) private view returns (bool) {
+        if ((message.conditionMask & CONDITION_EXPIRY) == 0 || block.timestamp < message.expiresAt) {
+            return false;
+        }
+        return !_conditionsMet(message, message.expiresAt);
+    }
+
+    function _conditionsMet(Message storage message, uint256 timestamp) private view returns (bool) {
+        return _matchingClause(message, timestamp) != NO_CLAUSE;
+    }
+
+    function _matchingClause(Message storage message, uint256 timestamp) private view returns (uint8) {
+        uint8 satisfied = _satisfiedConditions(message, timestamp);
+        uint8[] storage clauses = message.unlockClauses;
+
+        // No explicit expression: ALL active conditions must be satisfied
+        if (clauses.length == 0) {
+            uint8 active = message.conditionMask & UNLOCK_CONDITIONS;
+            return (satisfied & active) == active ? 0 : NO_CLAUSE;
+        }
+
+        for (uint256 i = 0; i < clauses.length; i++) {
+            if ((satisfied & clauses[i]) == clauses[i]) {
+                return uint8(i);
+            }
+        }
+        return NO_CLAUSE;
+    }
+
+    function _satisfiedConditions(Message storage message, uint256 timestamp) private view returns (uint8 satisfied) {
+        uint8 mask = message.conditionMask;
+        if ((mask & CONDITION_TIME) != 0 && timestamp >= message.unlockTime) {
+            satisfied |= CONDITION_TIME;
+        }
+        if ((mask & CONDITION_PAYMENT) != 0 && message.paidAmount >= message.requiredPayment) {
+            satisfied |= CONDITION_PAYMENT;
+        }
+        if ((mask & CONDITION_HEARTBEAT) != 0 && timestamp >= _nextCheckInDue(message)) {
+            satisfied |= CONDITION_HEARTBEAT;
+        }
+        // Approvals and consent are rejected after expiresAt, so their current state is also the state at expiry
+        if ((mask & CONDITION_GUARDIANS) != 0 && message.guardianApprovals >= message.guardianThreshold) {
+            satisfied |= CONDITION_GUARDIANS;
+        }
+        if ((mask & CONDITION_CONSENT) != 0 && message.senderConsented) {
+            satisfied |= CONDITION_CONSENT;
+        }
+        if ((mask & CONDITION_DEPENDENCY) != 0 && _dependencyMet(message, timestamp)) {
+            satisfied |= CONDITION_DEPENDENCY;
+        }
     }
 
     function getSentMessages(address user) external view returns (uint256[] memory) {
@@ -304,14 +1237,82 @@ contract SealedMessage {
         return _receivedMessages[user];
     }
 
+    function getSentMessageCount(address user) external view returns (uint256) {
+        return _sentMessages[user].length;
+    }
+
+    function getReceivedMessageCount(address user) external view returns (uint256) {
+        return _receivedMessages[user].length;
+    }
+
+    /// @dev Newest first: offset 0 is the most recent message. The last page may hold fewer than `limit` ids.
+    function getSentMessagesPage(address user, uint256 offset, uint256 limit) external view returns (uint256[] memory) {
+        return _pageNewestFirst(_sentMessages[user], offset, limit);
+    }
+
+    function getReceivedMessagesPage(address user, uint256 offset, uint256 limit) external view returns (uint256[] memory) {
+        return _pageNewestFirst(_receivedMessages[user], offset, limit);
+    }
+
+    function _pageNewestFirst(uint256[] storage ids, uint256 offset, uint256 limit) private view returns (uint256[] memory page) {
+        uint256 total = ids.length;
+        if (offset >= total) {
+            return page;
+        }
+        uint256 size = total - offset < limit ? total - offset : limit;
+        page = new uint256[](size);
+        for (uint256 i = 0; i < size; i++) {
+            page[i] = ids[total - 1 - offset - i];
+        }
+    }
+
     function registerEncryptionKey(bytes calldata publicKey) external {
-        require(publicKey.length == 33 || publicKey.length == 65, "Invalid key length");
-        _encryptionKeys[msg.sender] = publicKey;
-        emit EncryptionKeyRegistered(msg.sender, publicKey);
+        _registerEncryptionKey(msg.sender, publicKey);
     }
 
+    /// @notice Lets a relayer register `user`'s key, so new receivers without gas can still get messages
+    function registerEncryptionKeyBySig(
+        address user,
+        bytes calldata publicKey,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        if (block.timestamp > deadline) revert SignatureExpired();
+        bytes32 digest = _hashTypedDataV4(
+            keccak256(
+                abi.encode(REGISTER_ENCRYPTION_KEY_TYPEHASH, user, keccak256(publicKey), nonces[user]++, deadline)
+            )
+        );
+        if (ECDSA.recover(digest, signature) != user) revert InvalidSignature();
+        _registerEncryptionKey(user, publicKey);
+    }
+
+    function _registerEncryptionKey(address user, bytes calldata publicKey) private {
+        if (publicKey.length != 33 && publicKey.length != 65) revert InvalidKeyLength();
+        // Earlier keys stay readable so messages sealed to them can still be decrypted
+        _encryptionKeys[user].push(EncryptionKey({publicKey: publicKey, registeredAt: block.timestamp}));
+        emit EncryptionKeyRegistered(user, publicKey, _encryptionKeys[user].length);
+    }
+
+    /// @notice Current key of `user`, empty if they never registered one
     function getEncryptionKey(address user) external view returns (bytes memory) {
-        return _encryptionKeys[user];
+        EncryptionKey[] storage keys = _encryptionKeys[user];
+        return keys.length == 0 ? bytes("") : keys[keys.length - 1].publicKey;
+    }
+
+    function getEncryptionKeyCount(address user) external view returns (uint256) {
+        return _encryptionKeys[user].length;
+    }
+
+    /// @param version 1-based, as stored in Message.encryptionKeyVersion
+    function getEncryptionKeyAt(address user, uint256 version)
+        external
+        view
+        returns (bytes memory publicKey, uint256 registeredAt)
+    {
+        if (version == 0 || version > _encryptionKeys[user].length) revert UnknownKeyVersion();
+        EncryptionKey storage key = _encryptionKeys[user][version - 1];
+        return (key.publicKey, key.registeredAt);
     }
 
     function hasEncryptionKey(address user) external view returns (bool) {
@@ -0,0 +1,101 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {SealedMessage} from "./SealedMessage.sol";
+
+/// @title SealedMessageL2
+/// @notice Calldata-only flavour of SealedMessage for L2 deployments, where storage is the dominant cost
+/// @dev Only participants, unlock conditions, ciphertextHash and sessionKeyCommitment (checked by releaseSessionKey)
+///      are kept in storage. The uri, IVs, tags, escrow blob and receiver envelope hash are emitted (MessageStored +
+///      MessageEnvelope) and bound to the message by envelopeHash, so clients rebuild the getMessage tuple from logs
+///      and check it against the stored hash.
+contract SealedMessageL2 is SealedMessage {
+    struct EnvelopeRecord {
+        // keccak256(abi.encode(getMessage fields uri .. escrowKeyVersion))
+        bytes32 envelopeHash;
+        // Block of the MessageStored / MessageEnvelope logs
+        uint64 blockNumber;
+    }
+
+    mapping(uint256 => EnvelopeRecord) private _envelopes;
+
+    // Fields of getMessage that MessageStored does not already carry
+    event MessageEnvelope(
+        uint256 indexed messageId,
+        bytes iv,
+        bytes authTag,
+        bytes32 ciphertextHash,
+        bytes32 metadataHash,
+        bytes escrowCiphertext,
+        bytes escrowIv,
+        bytes escrowAuthTag,
+        bytes32 receiverEnvelopeHash
+    );
+
+    error EnvelopeInLogs();
+
+    function _storeEnvelope(uint256 messageId, Message storage, MessageParams memory p) internal override {
+        _envelopes[messageId] = EnvelopeRecord({
+            envelopeHash: keccak256(
+                bytes.concat(
+                    abi.encode(p.uri, p.iv, p.authTag, p.ciphertextHash, p.metadataHash, p.escrowCiphertext),
+                    abi.encode(p.escrowIv, p.escrowAuthTag, p.sessionKeyCommitment, p.receiverEnvelopeHash, p.escrowKeyVersion)
+                )
+            ),
+            blockNumber: uint64(block.number)
+        });
+
+        emit MessageEnvelope(
+            messageId,
+            p.iv,
+            p.authTag,
+            p.ciphertextHash,
+            p.metadataHash,
+            p.escrowCiphertext,
+            p.escrowIv,
+            p.escrowAuthTag,
+            p.receiverEnvelopeHash
+        );
+    }
+
+    /// @notice Envelope commitment of a message and the block holding its logs
+    function getMessageEnvelope(uint256 messageId)
+        external
+        view
+        returns (bytes32 ciphertextHash, bytes32 envelopeHash, uint256 blockNumber)
+    {
+        Message storage message = _existingMessage(messageId);
+        EnvelopeRecord storage record = _envelopes[messageId];
+        return (message.ciphertextHash, record.envelopeHash, record.blockNumber);
+    }
+
+    /// @dev The envelope is not in storage; read it from logs and verify it with getMessageEnvelope
+    function getMessage(uint256)
+        external
+        pure
+        override
+        returns (
+            address,
+            address,
+            string memory,
+            bytes memory,
+            bytes memory,
+            bytes32,
+            bytes32,
+            bytes memory,
+            bytes memory,
+            bytes memory,
+            bytes32,
+            bytes32,
+            uint16,
+            uint256,
+            bool,
+            uint256,
+            uint256,
+            uint256,
+            uint8
+        )
+    {
+        revert EnvelopeInLogs();
+    }
+}
@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {ERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+
+/// @dev EIP-2612 token for the ERC-20 payment tests; anyone can mint
+contract TestPermitToken is ERC20Permit {
+    constructor() ERC20("Test Token", "TEST") ERC20Permit("Test Token") {}
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { isHex } from "viem";
+import {
+  AUTH_NONCE_COOKIE,
+  AUTH_SESSION_COOKIE,
+  AuthSessionError,
+  authCookieOptions,
+  sealSession,
+  verifySiweLogin
+} from "@/lib/authSession";
+
+/**
+ * Verifies a signed EIP-4361 message `{ message, signature }` and starts a session bound to its address and chain.
+ * The nonce cookie is cleared either way, so every attempt needs a fresh nonce.
+ */
+export async function POST(request: Request) {
+  let body: { message?: unknown; signature?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  if (typeof body.message !== "string" || typeof body.signature !== "string" || !isHex(body.signature)) {
+    return NextResponse.json({ error: "message and a 0x-prefixed signature are required" }, { status: 400 });
+  }
+
+  let response: NextResponse;
+  try {
+    const session = await verifySiweLogin(request, body.message, body.signature);
+    response = NextResponse.json({ ok: true, session });
+    response.cookies.set(
+      AUTH_SESSION_COOKIE,
+      sealSession(session),
+      authCookieOptions(Math.floor((session.expiresAt - Date.now()) / 1000))
+    );
+  } catch (err: any) {
+    if (!(err instanceof AuthSessionError)) {
+      console.error("auth login failed", err);
+    }
+    const status = err instanceof AuthSessionError ? err.status : 500;
+    response = NextResponse.json({ error: err?.message ?? "Sign-in failed" }, { status });
+  }
+  response.cookies.set(AUTH_NONCE_COOKIE, "", authCookieOptions(0));
+  return response;
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { AUTH_NONCE_COOKIE, AUTH_NONCE_TTL_SECONDS, AuthSessionError, authCookieOptions, issueNonce } from "@/lib/authSession";
+
+/** Nonce for the next Sign-In with Ethereum message; remembered in an HTTP-only cookie of this browser */
+export async function GET() {
+  try {
+    const { nonce, cookie } = issueNonce();
+    const response = NextResponse.json({ ok: true, nonce }, { headers: { "Cache-Control": "no-store" } });
+    response.cookies.set(AUTH_NONCE_COOKIE, cookie, authCookieOptions(AUTH_NONCE_TTL_SECONDS));
+    return response;
+  } catch (err: any) {
+    if (err instanceof AuthSessionError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("auth nonce failed", err);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { AUTH_SESSION_COOKIE, authCookieOptions, getAuthSession } from "@/lib/authSession";
+
+/** Current Sign-In with Ethereum session of this browser, if any */
+export async function GET(request: Request) {
+  const session = getAuthSession(request);
+  return NextResponse.json(
+    session ? { ok: true, authenticated: true, session } : { ok: true, authenticated: false },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
+
+/** Signs out */
+export async function DELETE() {
+  const response = NextResponse.json({ ok: true });
+  response.cookies.set(AUTH_SESSION_COOKIE, "", authCookieOptions(0));
+  return response;
+}
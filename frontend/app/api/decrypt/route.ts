@@ -1,11 +1,26 @@
 import { NextResponse } from "next/server";
-import { createPublicClient, http } from "viem";
+import type { PublicClient } from "viem";
 import { sealedMessageAbi } from "@/lib/sealedMessageAbi";
-import { supportedChains, ZERO_ADDRESS, getChainByKey, getChainById, toViemChain, type ChainConfig } from "@/lib/chains";
-import { appConfig } from "@/lib/env";
+import { EnvelopeVerificationError, readOnchainMessage } from "@/lib/onchainMessage";
+import { resolveRequestChain } from "@/lib/serverChains";
+import { getAuthSession } from "@/lib/authSession";
 import { getReceiverEnvelope, findReceiverEnvelopeByHash } from "@/lib/escrowStore";
 import type { ReceiverEnvelopeRecord } from "@/lib/escrowStore";
 import { ethers } from "ethers";
+import {
+	CONDITION_CONSENT,
+	CONDITION_DEPENDENCY,
+	CONDITION_GUARDIANS,
+	CONDITION_HEARTBEAT,
+	CONDITION_PAYMENT,
+	CONDITION_TIME,
+	NO_CLAUSE,
+	clauseBits,
+	conditionLabel,
+	describeClause,
+	describeDependency,
+	describeExpression
+} from "@/lib/conditions";
 
 const HEX_REGEX = /^0x[0-9a-fA-F]+$/;
 const IPFS_GATEWAYS = [
@@ -14,103 +29,6 @@ const IPFS_GATEWAYS = [
 	(hash: string) => `https://dweb.link/ipfs/${hash}`
 ];
 
-const chainKeyFromEnv = process.env.NEXT_PUBLIC_CHAIN_KEY ?? "sepolia";
-const defaultChainConfig =
-	getChainByKey(chainKeyFromEnv) ??
-	getChainByKey("sepolia") ??
-	Object.values(supportedChains)[0];
-
-if (!defaultChainConfig) {
-	throw new Error("Chain configuration is missing");
-}
-
-const defaultRpcEnvKey = `${chainKeyFromEnv.replace(/[^a-zA-Z0-9]/g, "_").toUpperCase()}_RPC_URL`;
-const defaultServerRpcUrl = process.env[defaultRpcEnvKey as keyof NodeJS.ProcessEnv];
-const defaultResolvedRpcUrl =
-	typeof defaultServerRpcUrl === "string" && defaultServerRpcUrl.length > 0
-		? defaultServerRpcUrl
-		: appConfig.chain.rpcUrl ?? defaultChainConfig.rpcUrls.default;
-
-const publicClientCache = new Map<number, ReturnType<typeof createPublicClient>>();
-
-const chainKeyLookup = new Map<number, string>();
-for (const [key, config] of Object.entries(supportedChains)) {
-	chainKeyLookup.set(config.id, key);
-}
-
-function resolveRpcUrl(chainKey: string | undefined, config: ChainConfig) {
-	if (chainKey) {
-		const envKey = `${chainKey.replace(/[^a-zA-Z0-9]/g, "_").toUpperCase()}_RPC_URL`;
-		const overridden = process.env[envKey as keyof NodeJS.ProcessEnv];
-		if (typeof overridden === "string" && overridden.length > 0) {
-			return overridden;
-		}
-		const publicEnvKey = `NEXT_PUBLIC_${chainKey.replace(/[^a-zA-Z0-9]/g, "_").toUpperCase()}_RPC_URL`;
-		const publicOverride = process.env[publicEnvKey as keyof NodeJS.ProcessEnv];
-		if (typeof publicOverride === "string" && publicOverride.length > 0) {
-			return publicOverride;
-		}
-	}
-	if (config.id === defaultChainConfig.id) {
-		return defaultResolvedRpcUrl;
-	}
-	return config.rpcUrls.default;
-}
-
-function resolveChainContext(input: { chainKey?: unknown; chainId?: unknown }) {
-	let requestedKey = typeof input.chainKey === "string" && input.chainKey.trim().length > 0 ? input.chainKey.trim() : undefined;
-	const rawChainId = typeof input.chainId === "number" ? input.chainId : typeof input.chainId === "string" && input.chainId.trim().length > 0 ? Number(input.chainId) : undefined;
-	const requestedId = Number.isFinite(rawChainId) ? Number(rawChainId) : undefined;
-
-	let config: ChainConfig | undefined;
-	let resolvedKey: string | undefined;
-
-	if (requestedKey) {
-		config = getChainByKey(requestedKey);
-		if (!config) {
-			console.warn(`⚠️ Unknown chainKey "${requestedKey}" requested for decrypt API, falling back.`);
-			requestedKey = undefined;
-		} else {
-			resolvedKey = requestedKey;
-		}
-	}
-
-	if (!config && requestedId !== undefined) {
-		config = getChainById(requestedId);
-		if (!config) {
-			console.warn(`⚠️ Unknown chainId ${requestedId} requested for decrypt API, falling back.`);
-		} else {
-			resolvedKey = chainKeyLookup.get(config.id);
-		}
-	}
-
-	if (!config) {
-		config = defaultChainConfig;
-		resolvedKey = chainKeyFromEnv;
-	}
-
-	if (!config) {
-		throw new Error("Unable to resolve chain configuration");
-	}
-
-	const contractAddress = config.contractAddress;
-	if (!contractAddress || contractAddress === ZERO_ADDRESS) {
-		throw new Error(`Contract address unavailable for chain ${config.name}`);
-	}
-
-	let client = publicClientCache.get(config.id);
-	if (!client) {
-		const rpcUrl = resolveRpcUrl(resolvedKey, config);
-		client = createPublicClient({
-			chain: toViemChain(config),
-			transport: http(rpcUrl)
-		});
-		publicClientCache.set(config.id, client);
-	}
-
-	return { config, client, contractAddress: contractAddress as `0x${string}`, chainKey: resolvedKey ?? chainKeyFromEnv };
-}
-
 const isHex = (value: unknown): value is string => typeof value === "string" && HEX_REGEX.test(value);
 
 const toHex = (bytes: Uint8Array): string => `0x${Buffer.from(bytes).toString("hex")}`;
@@ -199,6 +117,53 @@ function splitCiphertext(binary: Uint8Array) {
 	return { ciphertext, authTag };
 }
 
+function describeSatisfiedCondition(bit: number, financialView: any): string {
+	const isoDate = (seconds: unknown) => new Date(Number(seconds ?? 0) * 1000).toISOString();
+	switch (bit) {
+		case CONDITION_TIME:
+			return `unlock time ${isoDate(financialView.unlockTime)} has passed`;
+		case CONDITION_PAYMENT:
+			return `${financialView.paidAmount?.toString() ?? "0"} of ${financialView.requiredPayment?.toString() ?? "0"} required payment units were paid`;
+		case CONDITION_HEARTBEAT:
+			return `the sender missed the check-in due ${isoDate(Number(financialView.lastCheckIn ?? 0) + Number(financialView.checkInInterval ?? 0))}`;
+		case CONDITION_GUARDIANS:
+			return `${financialView.guardianApprovals ?? 0} of ${financialView.guardianThreshold ?? 0} required guardians approved`;
+		case CONDITION_CONSENT:
+			return "the sender consented to the unlock";
+		case CONDITION_DEPENDENCY:
+			return describeDependency(BigInt(financialView.dependsOn ?? 0), Number(financialView.dependencyKind ?? 0));
+		default:
+			return conditionLabel(bit);
+	}
+}
+
+async function explainUnlock(
+	publicClient: PublicClient,
+	contractAddress: `0x${string}`,
+	messageId: bigint,
+	financialView: any
+) {
+	const [clauses, , unlocked, matchedClause] = await publicClient.readContract({
+		address: contractAddress,
+		abi: sealedMessageAbi,
+		functionName: "getUnlockState",
+		args: [messageId]
+	});
+
+	if (!unlocked || matchedClause === NO_CLAUSE) {
+		return null;
+	}
+
+	const clause = clauses[matchedClause];
+	const reasons = clauseBits(clause).map((bit) => describeSatisfiedCondition(bit, financialView));
+	return {
+		clauseIndex: matchedClause,
+		clause: describeClause(clause),
+		expression: describeExpression(clauses),
+		explanation: `Unlocked by clause ${matchedClause + 1} of ${clauses.length} (${describeClause(clause)}): ${reasons.join("; ")}.`
+	};
+}
+
 function isMessageMissingError(error: unknown): boolean {
 	if (!error || typeof error !== "object") {
 		return false;
@@ -240,20 +205,21 @@ function isMessageMissingError(error: unknown): boolean {
 
 export async function POST(request: Request) {
 	try {
-		const body = await request.json();
-		const viewerParam = typeof body.viewerAddress === "string" ? body.viewerAddress.trim() : undefined;
-		const viewer = viewerParam && /^0x[0-9a-fA-F]{40}$/.test(viewerParam)
-			? (viewerParam as `0x${string}`)
-			: undefined;
-
-		if (!viewer) {
-			return NextResponse.json({ error: "viewerAddress is required" }, { status: 401 });
+		const session = getAuthSession(request);
+		if (!session) {
+			return NextResponse.json({ error: "Sign in with Ethereum to decrypt" }, { status: 401 });
 		}
 
-		const { client: publicClient, contractAddress, config: activeChain } = resolveChainContext({
-			chainKey: body.chainKey,
-			chainId: body.chainId
-		});
+		const body = await request.json();
+		const chainContext = resolveRequestChain({ chainKey: body.chainKey, chainId: body.chainId });
+		if (!chainContext) {
+			return NextResponse.json({ error: "Unsupported chain" }, { status: 400 });
+		}
+		const { client: publicClient, contractAddress, config: activeChain } = chainContext;
+		if (activeChain.id !== session.chainId) {
+			return NextResponse.json({ error: `Session is bound to chain ${session.chainId}` }, { status: 401 });
+		}
+		const viewer = session.address;
 
 		const messageIdRaw = body.messageId ?? body.id;
 		if (messageIdRaw === undefined) {
@@ -274,13 +240,8 @@ export async function POST(request: Request) {
 
 		const envelope = await resolveEnvelope(sessionKeyCommitment, receiverEnvelopeHash);
 
-		const onchainMessage = await publicClient.readContract({
-			address: contractAddress,
-			abi: sealedMessageAbi,
-			functionName: "getMessage",
-			args: [messageId],
-			account: viewer
-		}) as any;
+		// Works with both SealedMessage and the calldata-only SealedMessageL2 (envelope rebuilt from logs)
+		const onchainMessage = await readOnchainMessage(publicClient, contractAddress, messageId, viewer);
 
 		const financialView = await publicClient.readContract({
 			address: contractAddress,
@@ -290,8 +251,19 @@ export async function POST(request: Request) {
 			account: viewer
 		}) as any;
 
+		if (financialView?.isExpired) {
+			return NextResponse.json(
+				{
+					error: "Message expired before its unlock conditions were met",
+					status: "expired",
+					expiresAt: financialView.expiresAt?.toString() ?? null
+				},
+				{ status: 410 }
+			);
+		}
+
 		if (!financialView?.isUnlocked) {
-			return NextResponse.json({ error: "Message is still locked" }, { status: 423 });
+			return NextResponse.json({ error: "Message is still locked", status: "locked" }, { status: 423 });
 		}
 
 		const chainUri = onchainMessage?.[2] as string | undefined;
@@ -326,10 +298,16 @@ export async function POST(request: Request) {
 			console.warn("⚠️ Auth tag mismatch between request and chain", { chainAuthTag, requestAuthTag: authTagHex });
 		}
 
+		// Hangi clause mesajı açtı? Açıklama başarısız olursa decrypt engellenmez
+		const unlockedBy = await explainUnlock(publicClient, contractAddress, messageId, financialView).catch((err) => {
+			console.warn("⚠️ Couldn't explain unlock clause:", err?.message || err);
+			return null;
+		});
+
 		const payload = await fetchIpfsPayload(uri);
 
 		if (payload.stub) {
-			return NextResponse.json({ success: true, decrypted: payload.decrypted, isStub: true });
+			return NextResponse.json({ success: true, decrypted: payload.decrypted, isStub: true, unlockedBy });
 		}
 
 		const { ciphertext, authTag } = splitCiphertext(payload.binary);
@@ -359,12 +337,17 @@ export async function POST(request: Request) {
 			metadataShortHash: envelope.metadataShortHash ?? null,
 			metadataKeccak: envelope.metadataKeccak ?? null,
 			note: ciphertextHashVerified ? undefined : "Ciphertext hash mismatch detected",
+			unlockedBy,
 			chain: {
 				chainId: activeChain.id,
 				name: activeChain.name
 			}
 		});
 	} catch (err: any) {
+		if (err instanceof EnvelopeVerificationError) {
+			console.warn("⚠️ Envelope reconstruction failed:", err.message);
+			return NextResponse.json({ error: err.message }, { status: 409 });
+		}
 		if (isMessageMissingError(err)) {
 			console.warn("⚠️ Message not found on requested chain during decrypt");
 			return NextResponse.json({ error: "Message not found on this chain" }, { status: 404 });
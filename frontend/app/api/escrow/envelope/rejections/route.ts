@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { authorizeEscrowAdmin } from "@/lib/adminAuth";
+import { listEnvelopeRejections } from "@/lib/escrowStore";
+
+/**
+ * Append-only history of rejected receiver envelope overwrites, oldest first.
+ * Requires `Authorization: Bearer ESCROW_ADMIN_SECRET`.
+ */
+export async function GET(request: Request) {
+  const denied = authorizeEscrowAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const rejections = await listEnvelopeRejections();
+    return NextResponse.json({ ok: true, rejections });
+  } catch (err: any) {
+    console.error("escrow envelope rejection log read failed", err);
+    return NextResponse.json({ error: err?.message ?? "Internal Server Error" }, { status: 500 });
+  }
+}
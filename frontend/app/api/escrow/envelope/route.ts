@@ -1,6 +1,17 @@
 import { NextResponse } from "next/server";
 import { ethers } from "ethers";
-import { saveReceiverEnvelope, getReceiverEnvelope, findReceiverEnvelopeByHash } from "@/lib/escrowStore";
+import { isAddress, isHex, verifyTypedData, type PublicClient } from "viem";
+import { sealedMessageAbi } from "@/lib/sealedMessageAbi";
+import { resolveContractChain } from "@/lib/serverChains";
+import { getSealedMessageDomain } from "@/lib/guardianApproval";
+import { RECEIVER_ENVELOPE_TYPES } from "@/lib/escrowEnvelope";
+import {
+  EnvelopeWriteError,
+  writeReceiverEnvelope,
+  getReceiverEnvelope,
+  findReceiverEnvelopeByHash,
+  type StoredCommitment
+} from "@/lib/escrowStore";
 
 interface EnvelopeBody {
   commitment?: string;
@@ -9,6 +20,9 @@ interface EnvelopeBody {
   metadataShortHash?: string;
   metadataKeccak?: string;
   senderPublicKey?: string;
+  sender?: string;
+  chainId?: number;
+  signature?: string;
   envelope?: {
     ciphertext?: string;
     iv?: string;
@@ -17,7 +31,48 @@ interface EnvelopeBody {
 }
 
 const HEX_REGEX = /^0x[0-9a-fA-F]+$/;
+const BYTES32_REGEX = /^0x[0-9a-fA-F]{64}$/;
+// Records saved before createdBlock was tracked are searched this far back
+const LOOKBACK_BLOCKS = 10000n;
+const BLOCK_CHUNK_SIZE = 5000n;
+
+/**
+ * The message stored with this commitment, if MessageStored was emitted yet. sessionKeyCommitment is not indexed,
+ * so every MessageStored log from `fromBlock` (or the lookback window) is decoded and compared.
+ */
+async function findStoredMessage(
+  client: PublicClient,
+  contractAddress: `0x${string}`,
+  commitment: string,
+  fromBlock?: string
+): Promise<StoredCommitment | null> {
+  const latestBlock = await client.getBlockNumber();
+  const startBlock = fromBlock != null
+    ? BigInt(fromBlock)
+    : latestBlock > LOOKBACK_BLOCKS ? latestBlock - LOOKBACK_BLOCKS : 0n;
+  const normalized = commitment.toLowerCase();
+
+  for (let from = startBlock; from <= latestBlock; from += BLOCK_CHUNK_SIZE) {
+    const to = from + BLOCK_CHUNK_SIZE - 1n > latestBlock ? latestBlock : from + BLOCK_CHUNK_SIZE - 1n;
+    const logs = await client.getContractEvents({
+      address: contractAddress,
+      abi: sealedMessageAbi,
+      eventName: "MessageStored",
+      fromBlock: from,
+      toBlock: to
+    });
+    const match = logs.find((log) => log.args.sessionKeyCommitment?.toLowerCase() === normalized);
+    if (match?.args.messageId != null && match.args.sender) {
+      return { messageId: match.args.messageId.toString(), sender: match.args.sender.toLowerCase() };
+    }
+  }
+  return null;
+}
 
+/**
+ * Stores the receiver envelope for a session key commitment. Requires a ReceiverEnvelope EIP-712 signature from
+ * the sender's wallet; writeReceiverEnvelope decides whether it may create, replace or only bind the record.
+ */
 export async function POST(request: Request) {
   try {
     const body = (await request.json()) as EnvelopeBody;
@@ -38,6 +93,18 @@ export async function POST(request: Request) {
     if (!senderPublicKey || !HEX_REGEX.test(senderPublicKey)) {
       return NextResponse.json({ error: "senderPublicKey must be 0x-prefixed" }, { status: 400 });
     }
+    if (!BYTES32_REGEX.test(commitment) || !BYTES32_REGEX.test(receiverEnvelopeHash) || !BYTES32_REGEX.test(ciphertextHash)) {
+      return NextResponse.json({ error: "commitment and hashes must be 32 bytes" }, { status: 400 });
+    }
+    if (!isAddress(body.sender ?? "") || !isHex(body.signature)) {
+      return NextResponse.json({ error: "sender and signature are required" }, { status: 400 });
+    }
+    const sender = body.sender as `0x${string}`;
+
+    const context = resolveContractChain(body.chainId);
+    if (!context) {
+      return NextResponse.json({ error: "Unsupported chain" }, { status: 400 });
+    }
 
     const envelope = body.envelope;
     if (!envelope?.ciphertext || !envelope?.iv || !envelope?.authTag) {
@@ -67,22 +134,49 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "receiverEnvelopeHash mismatch" }, { status: 400 });
     }
 
-    const record = await saveReceiverEnvelope({
-      commitment,
-      receiverEnvelopeHash,
-      ciphertextHash,
-      metadataShortHash: body.metadataShortHash,
-      metadataKeccak: body.metadataKeccak,
-      senderPublicKey,
-      envelope: {
-        ciphertext: envelope.ciphertext,
-        iv: envelope.iv,
-        authTag: envelope.authTag
-      }
-    });
+    const validSignature = await verifyTypedData({
+      address: sender,
+      domain: getSealedMessageDomain(context.chainId, context.contractAddress),
+      types: RECEIVER_ENVELOPE_TYPES,
+      primaryType: "ReceiverEnvelope",
+      message: {
+        sender,
+        sessionKeyCommitment: commitment as `0x${string}`,
+        receiverEnvelopeHash: receiverEnvelopeHash as `0x${string}`,
+        ciphertextHash: ciphertextHash as `0x${string}`
+      },
+      signature: body.signature as `0x${string}`
+    }).catch(() => false);
+    if (!validSignature) {
+      return NextResponse.json({ error: "Invalid sender signature" }, { status: 401 });
+    }
+
+    const record = await writeReceiverEnvelope(
+      {
+        commitment,
+        receiverEnvelopeHash,
+        ciphertextHash,
+        metadataShortHash: body.metadataShortHash,
+        metadataKeccak: body.metadataKeccak,
+        senderPublicKey,
+        sender,
+        chainId: context.chainId,
+        contractAddress: context.contractAddress,
+        createdBlock: (await context.client.getBlockNumber()).toString(),
+        envelope: {
+          ciphertext: envelope.ciphertext,
+          iv: envelope.iv,
+          authTag: envelope.authTag
+        }
+      },
+      (fromBlock) => findStoredMessage(context.client, context.contractAddress, commitment, fromBlock)
+    );
 
     return NextResponse.json({ ok: true, record });
   } catch (err: any) {
+    if (err instanceof EnvelopeWriteError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
     console.error("escrow envelope store failed", err);
     return NextResponse.json({ error: err?.message ?? "Internal Server Error" }, { status: 500 });
   }
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { authorizeEscrowAdmin } from "@/lib/adminAuth";
+import { runRewrapJob } from "@/lib/escrowKeyRotation";
+
+/**
+ * Re-wraps still-protected session keys under the current escrow key version.
+ * Body `{ "dryRun": true }` only reports what would move. Requires `Authorization: Bearer ESCROW_ADMIN_SECRET`.
+ */
+export async function POST(request: Request) {
+  const denied = authorizeEscrowAdmin(request);
+  if (denied) return denied;
+
+  const body = await request.json().catch(() => ({}));
+  try {
+    const results = await runRewrapJob({ dryRun: body?.dryRun === true });
+    return NextResponse.json({ ok: true, dryRun: body?.dryRun === true, results });
+  } catch (err: any) {
+    console.error("escrow rewrap failed", err);
+    return NextResponse.json({ error: err?.message ?? "Escrow rewrap failed" }, { status: 500 });
+  }
+}
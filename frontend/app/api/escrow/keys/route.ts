@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { authorizeEscrowAdmin } from "@/lib/adminAuth";
+import { buildEscrowAuditReport } from "@/lib/escrowKeyRotation";
+
+/**
+ * Escrow key audit: configured versions and how many messages each one protects, per chain.
+ * Requires `Authorization: Bearer ESCROW_ADMIN_SECRET`.
+ */
+export async function GET(request: Request) {
+  const denied = authorizeEscrowAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const reports = await buildEscrowAuditReport();
+    return NextResponse.json({ ok: true, reports });
+  } catch (err: any) {
+    console.error("escrow key audit failed", err);
+    return NextResponse.json({ error: err?.message ?? "Escrow key audit failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { getEscrowKeyVersion, getEscrowPublicKey } from "@/lib/escrowKey";
+
+/**
+ * Escrow public key senders encapsulate session keys to (current version, or `?version=<n>`).
+ * Public by design: the server never sees session keys, it only unwraps unlocked messages.
+ */
+export async function GET(request: Request) {
+  const requested = new URL(request.url).searchParams.get("version");
+  const keyVersion = requested ? Number(requested) : getEscrowKeyVersion();
+  if (!Number.isInteger(keyVersion) || keyVersion < 1 || keyVersion > 0xffff) {
+    return NextResponse.json({ error: "version must be an integer between 1 and 65535" }, { status: 400 });
+  }
+
+  try {
+    const publicKey = getEscrowPublicKey(keyVersion);
+    if (!publicKey) {
+      return NextResponse.json({ error: `Escrow key version ${keyVersion} has no public key` }, { status: 404 });
+    }
+    return NextResponse.json(
+      { ok: true, keyVersion, publicKey },
+      { headers: { "Cache-Control": "public, max-age=300" } }
+    );
+  } catch (err: any) {
+    console.error("escrow public key lookup failed", err);
+    return NextResponse.json({ error: err?.message ?? "Internal Server Error" }, { status: 500 });
+  }
+}
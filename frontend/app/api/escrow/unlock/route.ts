@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { authorizeEscrowAdmin } from "@/lib/adminAuth";
+import { EscrowShareError, getEscrowUnlockStatus, submitEscrowShare } from "@/lib/escrowUnlock";
+
+/** Unlock progress of every Shamir-split escrow key version (never the shares themselves). */
+export async function GET(request: Request) {
+  const denied = authorizeEscrowAdmin(request);
+  if (denied) return denied;
+  return NextResponse.json({ ok: true, versions: getEscrowUnlockStatus() });
+}
+
+/**
+ * Custodian share submission after a server start: body `{ "share": "escrow-share:v<n>:..." }`.
+ * Requires `Authorization: Bearer ESCROW_ADMIN_SECRET`; the key is rebuilt in memory at the threshold.
+ */
+export async function POST(request: Request) {
+  const denied = authorizeEscrowAdmin(request);
+  if (denied) return denied;
+
+  const body = await request.json().catch(() => null);
+  if (typeof body?.share !== "string") {
+    return NextResponse.json({ error: "share must be provided" }, { status: 400 });
+  }
+
+  try {
+    const status = submitEscrowShare(body.share);
+    return NextResponse.json({ ok: true, status });
+  } catch (err: any) {
+    if (err instanceof EscrowShareError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    console.error("escrow share submission failed", err);
+    return NextResponse.json({ error: err?.message ?? "Escrow unlock failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,108 @@
+import { NextResponse } from "next/server";
+import { isAddress, isHex, keccak256 } from "viem";
+import { sealedMessageAbi } from "@/lib/sealedMessageAbi";
+import { resolveContractChain } from "@/lib/serverChains";
+import { unwrapSessionKey } from "@/lib/escrowKey";
+import { sealToPublicKey } from "@/lib/escrowKem";
+import { resolveEscrowWrap } from "@/lib/escrowKeyRotation";
+import { markEnvelopeReleased } from "@/lib/escrowStore";
+import { EscrowKeyLockedError } from "@/lib/escrowUnlock";
+import { EscrowUnwrapError, unwrapSealInfo, verifyEscrowUnwrap } from "@/lib/escrowUnwrap";
+import { readOnchainMessage } from "@/lib/onchainMessage";
+import { THRESHOLD_ESCROW_VERSION } from "@/lib/thresholdEscrow";
+
+const COMPRESSED_PUBLIC_KEY = /^0x0[23][0-9a-fA-F]{64}$/;
+
+/**
+ * Escrowed session key of an unlocked message for its receiver, sealed to a one-time client key.
+ * Requires a fresh EscrowUnwrap EIP-712 signature from the on-chain receiver; the message must be
+ * unlocked and not revoked on the requested chain.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    const context = resolveContractChain(body?.chainId);
+    if (!context) {
+      return NextResponse.json({ error: "Unsupported chain" }, { status: 400 });
+    }
+    if (
+      !isAddress(body?.receiver) ||
+      !isHex(body?.signature) ||
+      !COMPRESSED_PUBLIC_KEY.test(body?.clientPublicKey ?? "") ||
+      !/^\d+$/.test(String(body?.messageId ?? "")) ||
+      !/^\d+$/.test(String(body?.deadline ?? ""))
+    ) {
+      return NextResponse.json(
+        { error: "messageId, receiver, clientPublicKey, deadline and signature are required" },
+        { status: 400 }
+      );
+    }
+
+    const receiver = body.receiver as `0x${string}`;
+    const messageId = BigInt(body.messageId);
+    const clientPublicKey = body.clientPublicKey as `0x${string}`;
+    await verifyEscrowUnwrap(
+      context.chainId,
+      context.contractAddress,
+      { messageId, receiver, clientPublicKey, deadline: BigInt(body.deadline) },
+      body.signature
+    );
+
+    const [header] = await context.client.readContract({
+      address: context.contractAddress,
+      abi: sealedMessageAbi,
+      functionName: "getMessageHeaders",
+      args: [[messageId]]
+    });
+    if (header.receiver.toLowerCase() !== receiver.toLowerCase()) {
+      return NextResponse.json({ error: "Signer is not the receiver of this message" }, { status: 403 });
+    }
+    if (header.revoked) {
+      return NextResponse.json({ error: "Message has been revoked" }, { status: 409 });
+    }
+    if (!header.financial.isUnlocked) {
+      return NextResponse.json({ error: "Message is still locked", status: "locked" }, { status: 423 });
+    }
+
+    const message = await readOnchainMessage(context.client, context.contractAddress, messageId, receiver);
+    const sessionKeyCommitment = message[10];
+    if (Number(message[12]) === THRESHOLD_ESCROW_VERSION) {
+      return NextResponse.json(
+        { error: "Message uses threshold escrow; request the shares from the escrow operators" },
+        { status: 409 }
+      );
+    }
+
+    const { wrap, version } = await resolveEscrowWrap(context.chainId, context.contractAddress, messageId, message);
+    const sessionKey = unwrapSessionKey(wrap, version);
+    if (keccak256(sessionKey) !== sessionKeyCommitment.toLowerCase()) {
+      throw new Error("Unwrapped session key does not match sessionKeyCommitment");
+    }
+    const sealedSessionKey = await sealToPublicKey(sessionKey, clientPublicKey, unwrapSealInfo(context.chainId, messageId));
+    sessionKey.fill(0);
+
+    try {
+      await markEnvelopeReleased({ commitment: sessionKeyCommitment, reason: "receiver-unwrap", releasedBy: receiver });
+    } catch (err: any) {
+      // The receiver envelope may have been stored by another server instance
+      console.warn(`⚠️ escrow unwrap: envelope record for message ${messageId} not updated:`, err?.message || err);
+    }
+
+    console.log("🔓 escrow unwrap: session key sealed to receiver", {
+      chainId: context.chainId,
+      messageId: messageId.toString(),
+      receiver,
+      keyVersion: version
+    });
+    return NextResponse.json({ ok: true, keyVersion: version, sealedSessionKey });
+  } catch (err: any) {
+    if (err instanceof EscrowUnwrapError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    if (err instanceof EscrowKeyLockedError) {
+      return NextResponse.json({ error: err.message }, { status: 503 });
+    }
+    console.error("escrow unwrap failed", err);
+    return NextResponse.json({ error: err?.message ?? "Escrow unwrap failed" }, { status: 500 });
+  }
+}
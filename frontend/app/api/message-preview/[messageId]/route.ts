@@ -1,8 +1,9 @@
 import { NextResponse } from "next/server";
-import { createPublicClient, http } from "viem";
 import { sealedMessageAbi } from "@/lib/sealedMessageAbi";
-import { appConfig } from "@/lib/env";
-import { getChainByKey, getChainById, supportedChains, toViemChain, type ChainConfig } from "@/lib/chains";
+import { readOnchainMessage } from "@/lib/onchainMessage";
+import { getAuthSession } from "@/lib/authSession";
+import { resolveRequestChain } from "@/lib/serverChains";
+import { CONDITION_PAYMENT, CONDITION_TIME } from "@/lib/conditions";
 
 interface RouteContext {
   params: {
@@ -10,102 +11,6 @@ interface RouteContext {
   };
 }
 
-const chainKeyFromEnv = process.env.NEXT_PUBLIC_CHAIN_KEY ?? "sepolia";
-const defaultChainConfig =
-  getChainByKey(chainKeyFromEnv) ??
-  getChainByKey("sepolia") ??
-  Object.values(supportedChains)[0];
-
-if (!defaultChainConfig) {
-  throw new Error("Chain configuration is missing");
-}
-
-const defaultRpcEnvKey = `${chainKeyFromEnv.replace(/[^a-zA-Z0-9]/g, "_").toUpperCase()}_RPC_URL`;
-const defaultServerRpcUrl = process.env[defaultRpcEnvKey as keyof NodeJS.ProcessEnv];
-const defaultResolvedRpcUrl =
-  typeof defaultServerRpcUrl === "string" && defaultServerRpcUrl.length > 0
-    ? defaultServerRpcUrl
-    : appConfig.chain.rpcUrl ?? defaultChainConfig.rpcUrls.default;
-
-const publicClientCache = new Map<number, ReturnType<typeof createPublicClient>>();
-const chainKeyLookup = new Map<number, string>();
-for (const [key, config] of Object.entries(supportedChains)) {
-  chainKeyLookup.set(config.id, key);
-}
-
-function resolveRpcUrl(chainKey: string | undefined, config: ChainConfig) {
-  if (chainKey) {
-    const envKey = `${chainKey.replace(/[^a-zA-Z0-9]/g, "_").toUpperCase()}_RPC_URL`;
-    const overridden = process.env[envKey as keyof NodeJS.ProcessEnv];
-    if (typeof overridden === "string" && overridden.length > 0) {
-      return overridden;
-    }
-    const publicEnvKey = `NEXT_PUBLIC_${chainKey.replace(/[^a-zA-Z0-9]/g, "_").toUpperCase()}_RPC_URL`;
-    const publicOverride = process.env[publicEnvKey as keyof NodeJS.ProcessEnv];
-    if (typeof publicOverride === "string" && publicOverride.length > 0) {
-      return publicOverride;
-    }
-  }
-  if (config.id === defaultChainConfig.id) {
-    return defaultResolvedRpcUrl;
-  }
-  return config.rpcUrls.default;
-}
-
-function resolveChainContext(params: URLSearchParams) {
-  const chainKeyParam = params.get("chainKey")?.trim();
-  const chainIdParam = params.get("chainId")?.trim();
-  const requestedKey = chainKeyParam && chainKeyParam.length > 0 ? chainKeyParam : undefined;
-  const requestedId = chainIdParam && chainIdParam.length > 0 ? Number(chainIdParam) : undefined;
-
-  let config: ChainConfig | undefined;
-  let resolvedKey: string | undefined;
-
-  if (requestedKey) {
-    config = getChainByKey(requestedKey);
-    if (!config) {
-      console.warn(`⚠️ Unknown chainKey "${requestedKey}" requested for message preview, falling back.`);
-    } else {
-      resolvedKey = requestedKey;
-    }
-  }
-
-  if (!config && Number.isFinite(requestedId)) {
-    config = getChainById(Number(requestedId));
-    if (!config) {
-      console.warn(`⚠️ Unknown chainId ${requestedId} requested for message preview, falling back.`);
-    } else {
-      resolvedKey = chainKeyLookup.get(config.id);
-    }
-  }
-
-  if (!config) {
-    config = defaultChainConfig;
-    resolvedKey = chainKeyFromEnv;
-  }
-
-  if (!config) {
-    throw new Error("Unable to resolve chain configuration");
-  }
-
-  const contractAddress = config.contractAddress;
-  if (!contractAddress) {
-    throw new Error(`Contract address unavailable for chain ${config.name}`);
-  }
-
-  let client = publicClientCache.get(config.id);
-  if (!client) {
-    const rpcUrl = resolveRpcUrl(resolvedKey, config);
-    client = createPublicClient({
-      chain: toViemChain(config),
-      transport: http(rpcUrl)
-    });
-    publicClientCache.set(config.id, client);
-  }
-
-  return { client, contractAddress: contractAddress as `0x${string}` };
-}
-
 function isMessageMissingError(error: unknown): boolean {
   if (!error || typeof error !== "object") {
     return false;
@@ -152,26 +57,27 @@ export async function GET(request: Request, context: RouteContext) {
   }
 
   try {
-    const url = new URL(request.url);
-    const viewerParam = url.searchParams.get("viewer")?.trim();
-    const viewer = typeof viewerParam === "string" && /^0x[0-9a-fA-F]{40}$/.test(viewerParam)
-      ? (viewerParam as `0x${string}`)
-      : undefined;
-
-    if (!viewer) {
-      return NextResponse.json({ error: "viewer address required" }, { status: 401 });
+    const session = getAuthSession(request);
+    if (!session) {
+      return NextResponse.json({ error: "Sign in with Ethereum to preview" }, { status: 401 });
     }
 
-    const { client: publicClient, contractAddress } = resolveChainContext(url.searchParams);
+    const url = new URL(request.url);
+    const chainContext = resolveRequestChain({
+      chainKey: url.searchParams.get("chainKey"),
+      chainId: url.searchParams.get("chainId")
+    });
+    if (!chainContext) {
+      return NextResponse.json({ error: "Unsupported chain" }, { status: 400 });
+    }
+    const { client: publicClient, contractAddress, chainId } = chainContext;
+    if (chainId !== session.chainId) {
+      return NextResponse.json({ error: `Session is bound to chain ${session.chainId}` }, { status: 401 });
+    }
+    const viewer = session.address;
 
-    // getMessage ve getMessageFinancialView kullan
-    const message = await publicClient.readContract({
-      address: contractAddress,
-      abi: sealedMessageAbi,
-      functionName: "getMessage",
-      args: [BigInt(messageId)],
-      account: viewer
-    }) as any;
+    // getMessage tuple: [sender, receiver, uri, ...]; the conditions come from the financial view
+    const [sender, receiver] = await readOnchainMessage(publicClient, contractAddress, BigInt(messageId), viewer);
 
     const financialData = await publicClient.readContract({
       address: contractAddress,
@@ -179,20 +85,23 @@ export async function GET(request: Request, context: RouteContext) {
       functionName: "getMessageFinancialView",
       args: [BigInt(messageId)],
       account: viewer
-    }) as any;
+    });
 
     return NextResponse.json({
       ok: true,
       message: {
         id: messageId,
-        sender: message.sender,
-        receiver: message.receiver,
+        sender,
+        receiver,
         unlockTime: financialData.unlockTime.toString(),
         isUnlocked: financialData.isUnlocked,
-        conditionMask: message.conditionMask,
-        hasTimeCondition: (message.conditionMask & 0x01) !== 0,
-        hasPaymentCondition: (message.conditionMask & 0x02) !== 0,
-        requiredPayment: financialData.requiredPayment?.toString() || "0"
+        conditionMask: financialData.conditionMask,
+        hasTimeCondition: (financialData.conditionMask & CONDITION_TIME) !== 0,
+        hasPaymentCondition: (financialData.conditionMask & CONDITION_PAYMENT) !== 0,
+        requiredPayment: financialData.requiredPayment.toString(),
+        paymentToken: financialData.paymentToken,
+        expiresAt: financialData.expiresAt.toString(),
+        isExpired: financialData.isExpired
       }
     });
   } catch (err) {
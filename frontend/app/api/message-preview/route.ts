@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
-import { upsertPreview, getAllPreviews } from "@/lib/messagePreviewStore";
+import { getAuthSession } from "@/lib/authSession";
+import { listParticipantMessageIds, MessageAccessError, readMessageAsParticipant } from "@/lib/messageAccess";
+import { upsertPreview, getPreviews } from "@/lib/messagePreviewStore";
 
 interface PostBody {
   messageId?: string;
@@ -9,15 +11,23 @@ interface PostBody {
   fileName?: string | null;
 }
 
+/** Saves the attachment preview of a message; only its sender or receiver may, on the session's chain */
 export async function POST(request: Request) {
   try {
+    const session = getAuthSession(request);
+    if (!session) {
+      return NextResponse.json({ error: "Sign in with Ethereum to save previews" }, { status: 401 });
+    }
+
     const body = (await request.json()) as PostBody;
     if (!body?.messageId || !body?.previewDataUrl) {
       return NextResponse.json({ error: "messageId and previewDataUrl are required" }, { status: 400 });
     }
+    await readMessageAsParticipant(session, body.messageId);
 
     const record = await upsertPreview({
       messageId: body.messageId,
+      chainId: session.chainId,
       previewDataUrl: body.previewDataUrl,
       mimeType: body.mimeType ?? undefined,
       shortHash: body.shortHash ?? undefined,
@@ -26,16 +36,27 @@ export async function POST(request: Request) {
 
     return NextResponse.json({ ok: true, record });
   } catch (err) {
+    if (err instanceof MessageAccessError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
     console.error("message-preview POST failed", err);
     return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
   }
 }
 
-export async function GET() {
+/** Previews of the messages the signed-in account sent or received on the session's chain */
+export async function GET(request: Request) {
   try {
-    const records = await getAllPreviews();
+    const session = getAuthSession(request);
+    if (!session) {
+      return NextResponse.json({ error: "Sign in with Ethereum to list previews" }, { status: 401 });
+    }
+    const records = await getPreviews(session.chainId, await listParticipantMessageIds(session));
     return NextResponse.json({ ok: true, records });
   } catch (err) {
+    if (err instanceof MessageAccessError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
     console.error("message-preview GET failed", err);
     return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
   }
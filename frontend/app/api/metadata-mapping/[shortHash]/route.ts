@@ -1,24 +1,36 @@
 import { NextResponse } from "next/server";
+import { getAuthSession } from "@/lib/authSession";
+import { assertMappingAccess, MessageAccessError } from "@/lib/messageAccess";
 import { getMapping } from "@/lib/metadataStore";
 
 interface Params {
   shortHash: string;
 }
 
-export async function GET(_request: Request, context: { params: Params }) {
+/** Mapping of a short hash; `?messageId=` names the message that uses it when the viewer did not save it */
+export async function GET(request: Request, context: { params: Params }) {
   try {
     const { shortHash } = context.params;
     if (!shortHash) {
       return NextResponse.json({ error: "shortHash is required" }, { status: 400 });
     }
+    const session = getAuthSession(request);
+    if (!session) {
+      return NextResponse.json({ error: "Sign in with Ethereum to resolve files" }, { status: 401 });
+    }
 
     const record = await getMapping(shortHash);
+    const messageId = new URL(request.url).searchParams.get("messageId");
+    await assertMappingAccess(session, record ?? { shortHash }, messageId);
     if (!record) {
       return NextResponse.json({ ok: false, found: false }, { status: 404 });
     }
 
     return NextResponse.json({ ok: true, found: true, record });
   } catch (err) {
+    if (err instanceof MessageAccessError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
     console.error("metadata-mapping lookup failed", err);
     return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
   }
@@ -1,8 +1,11 @@
 import { NextResponse } from "next/server";
+import { getAuthSession } from "@/lib/authSession";
+import { assertMappingAccess, MessageAccessError } from "@/lib/messageAccess";
 import { getMappingByMetadataKeccak } from "@/lib/metadataStore";
 
+/** Mapping by on-chain metadataHash; `?messageId=` names the message that uses it when the viewer did not save it */
 export async function GET(
-  _request: Request,
+  request: Request,
   { params }: { params: { hash: string } }
 ) {
   try {
@@ -10,14 +13,23 @@ export async function GET(
     if (!metadataKeccak) {
       return NextResponse.json({ error: "metadata hash required" }, { status: 400 });
     }
+    const session = getAuthSession(request);
+    if (!session) {
+      return NextResponse.json({ error: "Sign in with Ethereum to resolve files" }, { status: 401 });
+    }
 
     const record = await getMappingByMetadataKeccak(metadataKeccak);
+    const messageId = new URL(request.url).searchParams.get("messageId");
+    await assertMappingAccess(session, record ?? { metadataKeccak }, messageId);
     if (!record) {
       return NextResponse.json({ ok: false, record: null }, { status: 404 });
     }
 
     return NextResponse.json({ ok: true, record });
   } catch (err) {
+    if (err instanceof MessageAccessError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
     console.error("metadata-mapping by-metadata GET failed", err);
     return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
   }
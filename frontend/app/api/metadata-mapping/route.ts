@@ -1,5 +1,12 @@
 import { NextResponse } from "next/server";
-import { upsertMapping, getAllMappings } from "@/lib/metadataStore";
+import { getAuthSession } from "@/lib/authSession";
+import {
+  MessageAccessError,
+  messageMetadataKeccak,
+  messageShortHash,
+  readMessageAsParticipant
+} from "@/lib/messageAccess";
+import { upsertMapping, getMappingsByOwner } from "@/lib/metadataStore";
 
 interface PostBody {
   shortHash?: string;
@@ -8,34 +15,68 @@ interface PostBody {
   fileName?: string;
   fileSize?: number;
   mimeType?: string;
+  // Message that uses this file; lets its sender or receiver update a mapping another account saved
+  messageId?: string;
 }
 
+/**
+ * Saves a short hash => metadata CID mapping for the signed-in account. A new mapping belongs to the account that
+ * saved it; an existing one can be replaced by its owner, or by a participant of a message that points at it.
+ */
 export async function POST(request: Request) {
   try {
+    const session = getAuthSession(request);
+    if (!session) {
+      return NextResponse.json({ error: "Sign in with Ethereum to save file mappings" }, { status: 401 });
+    }
+
     const body = (await request.json()) as PostBody;
     if (!body?.shortHash || !body?.fullHash) {
       return NextResponse.json({ error: "shortHash and fullHash are required" }, { status: 400 });
     }
 
-    const record = await upsertMapping({
-      shortHash: body.shortHash,
-      fullHash: body.fullHash,
-      metadataKeccak: body.metadataKeccak,
-      fileName: body.fileName,
-      fileSize: body.fileSize,
-      mimeType: body.mimeType
-    });
+    let viaMessage = false;
+    if (body.messageId != null) {
+      const message = await readMessageAsParticipant(session, body.messageId);
+      const keccakMismatch = body.metadataKeccak && body.metadataKeccak.trim().toLowerCase() !== messageMetadataKeccak(message);
+      if (messageShortHash(message) !== body.shortHash.trim() || keccakMismatch) {
+        return NextResponse.json({ error: "The message does not use this file" }, { status: 403 });
+      }
+      viaMessage = true;
+    }
+
+    const owner = session.address.toLowerCase();
+    const record = await upsertMapping(
+      {
+        shortHash: body.shortHash,
+        fullHash: body.fullHash,
+        metadataKeccak: body.metadataKeccak,
+        fileName: body.fileName,
+        fileSize: body.fileSize,
+        mimeType: body.mimeType
+      },
+      owner,
+      (existing) => viaMessage || existing.owner === owner
+    );
 
     return NextResponse.json({ ok: true, record });
   } catch (err) {
+    if (err instanceof MessageAccessError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
     console.error("metadata-mapping POST failed", err);
     return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
   }
 }
 
-export async function GET() {
+/** Mappings the signed-in account saved */
+export async function GET(request: Request) {
   try {
-    const mappings = await getAllMappings();
+    const session = getAuthSession(request);
+    if (!session) {
+      return NextResponse.json({ error: "Sign in with Ethereum to list file mappings" }, { status: 401 });
+    }
+    const mappings = await getMappingsByOwner(session.address);
     return NextResponse.json({ ok: true, mappings });
   } catch (err) {
     console.error("metadata-mapping GET failed", err);
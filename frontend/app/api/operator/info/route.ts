@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { EscrowOperatorError, getOperatorIdentity } from "@/lib/escrowOperator";
+
+/** Public identity of this escrow operator; senders seal its share of a session key to `publicKey`. */
+export async function GET() {
+  try {
+    const { operatorId, publicKey } = getOperatorIdentity();
+    return NextResponse.json({ ok: true, operatorId, publicKey });
+  } catch (err: any) {
+    const status = err instanceof EscrowOperatorError ? err.status : 500;
+    return NextResponse.json({ error: err?.message ?? "Internal Server Error" }, { status });
+  }
+}
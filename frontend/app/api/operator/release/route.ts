@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { EscrowOperatorError, releaseShare } from "@/lib/escrowOperator";
+
+/**
+ * This operator's share of an unlocked message (body `{ chainId, contractAddress, messageId }`).
+ * Unauthenticated: the receiver's browser collects the shares itself, so any caller gets one once the message is unlocked.
+ */
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const chainId = Number(body?.chainId);
+  const contractAddress = typeof body?.contractAddress === "string" ? body.contractAddress : "";
+  if (!Number.isInteger(chainId) || !/^0x[0-9a-fA-F]{40}$/.test(contractAddress) || !/^\d+$/.test(String(body?.messageId ?? ""))) {
+    return NextResponse.json({ error: "chainId, contractAddress and messageId must be provided" }, { status: 400 });
+  }
+
+  try {
+    const released = await releaseShare(chainId, contractAddress, BigInt(body.messageId));
+    return NextResponse.json({ ok: true, ...released });
+  } catch (err: any) {
+    if (err instanceof EscrowOperatorError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("escrow operator release failed", err);
+    return NextResponse.json({ error: err?.message ?? "Internal Server Error" }, { status: 500 });
+  }
+}
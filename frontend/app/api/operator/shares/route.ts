@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { acceptDeposit, EscrowOperatorError } from "@/lib/escrowOperator";
+
+/** Deposit of a threshold escrow manifest (body `{ manifest }`), made by the sender before sendMessage. */
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  if (!body?.manifest || !Array.isArray(body.manifest.shares)) {
+    return NextResponse.json({ error: "manifest must be provided" }, { status: 400 });
+  }
+
+  try {
+    const manifestHash = await acceptDeposit(body.manifest);
+    return NextResponse.json({ ok: true, manifestHash });
+  } catch (err: any) {
+    if (err instanceof EscrowOperatorError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("escrow operator deposit failed", err);
+    return NextResponse.json({ error: err?.message ?? "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,275 @@
+import { NextResponse } from "next/server";
+import { createWalletClient, getAddress, http, isAddress, isHex, verifyTypedData } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { sealedMessageAbi } from "@/lib/sealedMessageAbi";
+import { getAuthSession } from "@/lib/authSession";
+import { toViemChain } from "@/lib/chains";
+import { resolveContractChain } from "@/lib/serverChains";
+import { getSealedMessageDomain } from "@/lib/guardianApproval";
+import { ACKNOWLEDGEMENT_TYPES } from "@/lib/readReceipts";
+import {
+  REGISTER_ENCRYPTION_KEY_TYPES,
+  SEND_MESSAGE_TYPES,
+  type SendMessageParams
+} from "@/lib/metaTx";
+import { RelayQuotaExceededError, releaseRelay, reserveRelay } from "@/lib/relayerQuotaStore";
+
+const HEX_FIELDS = [
+  "iv",
+  "authTag",
+  "ciphertextHash",
+  "metadataHash",
+  "escrowCiphertext",
+  "escrowIv",
+  "escrowAuthTag",
+  "sessionKeyCommitment",
+  "receiverEnvelopeHash"
+] as const;
+
+// Body field holding the account that signed each action
+const SIGNER_FIELDS = {
+  sendMessage: "sender",
+  registerEncryptionKey: "user",
+  acknowledgeMessage: "receiver"
+} as const;
+
+function toBigInt(value: unknown, field: string): bigint {
+  if (typeof value !== "string" && typeof value !== "number") {
+    throw new Error(`${field} must be a numeric string`);
+  }
+  return BigInt(value);
+}
+
+function parseSendMessageParams(raw: any): SendMessageParams {
+  if (!raw || typeof raw !== "object") {
+    throw new Error("params are required");
+  }
+  if (!isAddress(raw.receiver) || !isAddress(raw.paymentToken)) {
+    throw new Error("params.receiver and params.paymentToken must be addresses");
+  }
+  for (const field of HEX_FIELDS) {
+    if (!isHex(raw[field])) {
+      throw new Error(`params.${field} must be hex`);
+    }
+  }
+  if (typeof raw.uri !== "string") {
+    throw new Error("params.uri is required");
+  }
+  const guardians: unknown[] = Array.isArray(raw.guardians) ? raw.guardians : [];
+  if (!guardians.every((guardian) => isAddress(guardian as string))) {
+    throw new Error("params.guardians must be addresses");
+  }
+  const unlockClauses: unknown[] = Array.isArray(raw.unlockClauses) ? raw.unlockClauses : [];
+
+  return {
+    receiver: raw.receiver,
+    uri: raw.uri,
+    iv: raw.iv,
+    authTag: raw.authTag,
+    ciphertextHash: raw.ciphertextHash,
+    metadataHash: raw.metadataHash,
+    escrowCiphertext: raw.escrowCiphertext,
+    escrowIv: raw.escrowIv,
+    escrowAuthTag: raw.escrowAuthTag,
+    sessionKeyCommitment: raw.sessionKeyCommitment,
+    receiverEnvelopeHash: raw.receiverEnvelopeHash,
+    escrowKeyVersion: Number(raw.escrowKeyVersion),
+    encryptionKeyVersion: Number(raw.encryptionKeyVersion),
+    unlockTime: toBigInt(raw.unlockTime, "params.unlockTime"),
+    expiresAt: toBigInt(raw.expiresAt, "params.expiresAt"),
+    checkInInterval: toBigInt(raw.checkInInterval, "params.checkInInterval"),
+    requiredPayment: toBigInt(raw.requiredPayment, "params.requiredPayment"),
+    paymentToken: raw.paymentToken,
+    conditionMask: Number(raw.conditionMask),
+    guardians: guardians as `0x${string}`[],
+    guardianThreshold: Number(raw.guardianThreshold ?? 0),
+    unlockClauses: unlockClauses.map(Number),
+    dependsOn: toBigInt(raw.dependsOn ?? "0", "params.dependsOn"),
+    dependencyKind: Number(raw.dependencyKind ?? 0)
+  };
+}
+
+/**
+ * Submits EIP-712 signed sendMessage / registerEncryptionKey / acknowledgeMessage requests from the funded
+ * RELAYER_PRIVATE_KEY, so users without gas can still use the app. Each signer gets RELAYER_DAILY_QUOTA
+ * relayed transactions per rolling 24h. Only the signed-in account can relay its own requests, on its session's chain.
+ */
+export async function POST(request: Request) {
+  try {
+    const relayerKey = process.env.RELAYER_PRIVATE_KEY;
+    if (!relayerKey || !isHex(relayerKey)) {
+      console.error("relay: RELAYER_PRIVATE_KEY missing from environment");
+      return NextResponse.json({ error: "Relayer is not configured" }, { status: 503 });
+    }
+
+    const session = getAuthSession(request);
+    if (!session) {
+      return NextResponse.json({ error: "Sign in with Ethereum to use the relayer" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const context = resolveContractChain(body?.chainId);
+    if (!context) {
+      return NextResponse.json({ error: "Unsupported chain" }, { status: 400 });
+    }
+    if (context.chainId !== session.chainId) {
+      return NextResponse.json({ error: `Session is bound to chain ${session.chainId}` }, { status: 401 });
+    }
+    const claimedSigner = body[SIGNER_FIELDS[body.action as keyof typeof SIGNER_FIELDS]];
+    if (isAddress(claimedSigner) && getAddress(claimedSigner) !== session.address) {
+      return NextResponse.json({ error: "Requests can only be relayed for the signed-in account" }, { status: 403 });
+    }
+    if (!isHex(body?.signature)) {
+      return NextResponse.json({ error: "signature is required" }, { status: 400 });
+    }
+
+    const deadline = toBigInt(body.deadline, "deadline");
+    if (deadline < BigInt(Math.floor(Date.now() / 1000))) {
+      return NextResponse.json({ error: "Signature expired" }, { status: 400 });
+    }
+
+    const publicClient = context.client;
+    const account = privateKeyToAccount(relayerKey);
+    const domain = getSealedMessageDomain(context.chainId, context.contractAddress);
+    const signature = body.signature as `0x${string}`;
+
+    let signer: `0x${string}`;
+    let validSignature: boolean;
+    let simulation: { request: any };
+
+    switch (body.action) {
+      case "sendMessage": {
+        if (!isAddress(body.sender)) {
+          return NextResponse.json({ error: "sender must be an address" }, { status: 400 });
+        }
+        signer = body.sender;
+        const params = parseSendMessageParams(body.params);
+        const nonce = await publicClient.readContract({
+          address: context.contractAddress,
+          abi: sealedMessageAbi,
+          functionName: "nonces",
+          args: [signer]
+        });
+        validSignature = await verifyTypedData({
+          address: signer,
+          domain,
+          types: SEND_MESSAGE_TYPES,
+          primaryType: "SendMessage",
+          message: { sender: signer, params, nonce, deadline },
+          signature
+        });
+        if (!validSignature) break;
+        // The relayer also covers the operator's flat send fee
+        const sendFee = await publicClient.readContract({
+          address: context.contractAddress,
+          abi: sealedMessageAbi,
+          functionName: "sendFee"
+        });
+        simulation = await publicClient.simulateContract({
+          account,
+          address: context.contractAddress,
+          abi: sealedMessageAbi,
+          functionName: "sendMessageBySig",
+          args: [params, signer, deadline, signature],
+          value: sendFee
+        });
+        break;
+      }
+      case "registerEncryptionKey": {
+        if (!isAddress(body.user) || !isHex(body.publicKey)) {
+          return NextResponse.json({ error: "user and publicKey are required" }, { status: 400 });
+        }
+        signer = body.user;
+        const publicKey = body.publicKey as `0x${string}`;
+        const nonce = await publicClient.readContract({
+          address: context.contractAddress,
+          abi: sealedMessageAbi,
+          functionName: "nonces",
+          args: [signer]
+        });
+        validSignature = await verifyTypedData({
+          address: signer,
+          domain,
+          types: REGISTER_ENCRYPTION_KEY_TYPES,
+          primaryType: "RegisterEncryptionKey",
+          message: { user: signer, publicKey, nonce, deadline },
+          signature
+        });
+        if (!validSignature) break;
+        simulation = await publicClient.simulateContract({
+          account,
+          address: context.contractAddress,
+          abi: sealedMessageAbi,
+          functionName: "registerEncryptionKeyBySig",
+          args: [signer, publicKey, deadline, signature]
+        });
+        break;
+      }
+      case "acknowledgeMessage": {
+        if (!isAddress(body.receiver)) {
+          return NextResponse.json({ error: "receiver must be an address" }, { status: 400 });
+        }
+        signer = body.receiver;
+        const messageId = toBigInt(body.messageId, "messageId");
+        validSignature = await verifyTypedData({
+          address: signer,
+          domain,
+          types: ACKNOWLEDGEMENT_TYPES,
+          primaryType: "Acknowledgement",
+          message: { messageId, receiver: signer, deadline },
+          signature
+        });
+        if (!validSignature) break;
+        simulation = await publicClient.simulateContract({
+          account,
+          address: context.contractAddress,
+          abi: sealedMessageAbi,
+          functionName: "acknowledgeMessageBySig",
+          args: [messageId, signer, deadline, signature]
+        });
+        break;
+      }
+      default:
+        return NextResponse.json({ error: "Unknown relay action" }, { status: 400 });
+    }
+
+    if (!validSignature) {
+      return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+    }
+
+    // Quota is checked after the signature so nobody can burn another address's allowance
+    let reservation;
+    try {
+      reservation = await reserveRelay(signer);
+    } catch (err) {
+      if (err instanceof RelayQuotaExceededError) {
+        return NextResponse.json({ error: err.message, resetAt: err.quota.resetAt }, { status: 429 });
+      }
+      throw err;
+    }
+
+    const walletClient = createWalletClient({ account, chain: toViemChain(context.config), transport: http(context.rpcUrl) });
+    let txHash: `0x${string}`;
+    try {
+      txHash = await walletClient.writeContract(simulation!.request);
+    } catch (err) {
+      // Nothing was relayed, so the slot goes back to the signer
+      await releaseRelay(signer, reservation.reservedAt);
+      throw err;
+    }
+
+    console.log("⛽ relay submitted", {
+      action: body.action,
+      signer,
+      chainId: context.chainId,
+      txHash,
+      remaining: reservation.quota.remaining
+    });
+
+    return NextResponse.json({ ok: true, txHash, remaining: reservation.quota.remaining });
+  } catch (err: any) {
+    console.error("relay failed", err);
+    const message = err?.shortMessage ?? err?.message ?? "Relay failed";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -4,6 +4,8 @@ import { useState, useCallback } from "react";
 import { WalletButton } from "../components/WalletButton";
 import { MessageForm } from "../components/MessageForm";
 import { MessageList } from "../components/MessageList";
+import { EarningsPanel } from "../components/EarningsPanel";
+import { CheckInPanel } from "../components/CheckInPanel";
 import { NetworkSwitcher } from "../components/NetworkSwitcher";
 import { VersionSwitcher } from "../components/VersionSwitcher";
 import { appConfig } from "../lib/env";
@@ -56,6 +58,10 @@ export default function HomePage() {
         </div>
       </div>
 
+      <EarningsPanel refreshKey={refreshKey} />
+
+      <CheckInPanel refreshKey={refreshKey} onCheckedIn={handleMessageSubmitted} />
+
       <MessageList refreshKey={refreshKey} />
     </main>
   );
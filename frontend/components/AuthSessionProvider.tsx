@@ -0,0 +1,126 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type PropsWithChildren } from "react";
+import { useAccount, useNetwork } from "wagmi";
+import {
+  RainbowKitAuthenticationProvider,
+  createAuthenticationAdapter,
+  type AuthenticationStatus
+} from "@rainbow-me/rainbowkit";
+import { formatSiweMessage, SIWE_STATEMENT } from "../lib/siwe";
+
+interface AuthSessionInfo {
+  address: `0x${string}`;
+  chainId: number;
+  expiresAt: number;
+}
+
+interface AuthSessionContextValue {
+  // "authenticated" only while the session matches the connected wallet and chain
+  status: AuthenticationStatus;
+  session: AuthSessionInfo | null;
+  refresh: () => Promise<void>;
+}
+
+const AuthSessionContext = createContext<AuthSessionContextValue>({
+  status: "loading",
+  session: null,
+  refresh: async () => {}
+});
+
+/**
+ * Sign-In with Ethereum through RainbowKit: after connecting, the wallet signs an EIP-4361 message and the
+ * server answers with an HTTP-only session cookie that the per-user API routes read the viewer from.
+ */
+export function AuthSessionProvider({ children }: PropsWithChildren) {
+  const { address } = useAccount();
+  const { chain } = useNetwork();
+  const [session, setSession] = useState<AuthSessionInfo | null>(null);
+  const [loaded, setLoaded] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      const res = await fetch("/api/auth/session", { cache: "no-store" });
+      const json = await res.json();
+      setSession(json?.authenticated ? (json.session as AuthSessionInfo) : null);
+    } catch (err) {
+      console.warn("Failed to load sign-in session", err);
+      setSession(null);
+    } finally {
+      setLoaded(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const adapter = useMemo(
+    () =>
+      createAuthenticationAdapter<string>({
+        getNonce: async () => {
+          const res = await fetch("/api/auth/nonce", { cache: "no-store" });
+          const json = await res.json();
+          if (!res.ok) {
+            throw new Error(json?.error ?? `Nonce request failed with status ${res.status}`);
+          }
+          return json.nonce as string;
+        },
+        createMessage: ({ nonce, address: account, chainId }) =>
+          formatSiweMessage({
+            domain: window.location.host,
+            address: account as `0x${string}`,
+            statement: SIWE_STATEMENT,
+            uri: window.location.origin,
+            version: "1",
+            chainId,
+            nonce,
+            issuedAt: new Date().toISOString()
+          }),
+        getMessageBody: ({ message }) => message,
+        verify: async ({ message, signature }) => {
+          const res = await fetch("/api/auth/login", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ message, signature })
+          });
+          const json = await res.json().catch(() => null);
+          if (!res.ok) {
+            console.warn("Sign-in rejected:", json?.error ?? res.status);
+            return false;
+          }
+          setSession(json.session as AuthSessionInfo);
+          return true;
+        },
+        signOut: async () => {
+          await fetch("/api/auth/session", { method: "DELETE" }).catch(() => undefined);
+          setSession(null);
+        }
+      }),
+    []
+  );
+
+  const status: AuthenticationStatus = !loaded
+    ? "loading"
+    : session &&
+        address &&
+        session.address.toLowerCase() === address.toLowerCase() &&
+        session.chainId === chain?.id &&
+        session.expiresAt > Date.now()
+      ? "authenticated"
+      : "unauthenticated";
+
+  const value = useMemo(() => ({ status, session, refresh }), [status, session, refresh]);
+
+  return (
+    <AuthSessionContext.Provider value={value}>
+      <RainbowKitAuthenticationProvider adapter={adapter} status={status}>
+        {children}
+      </RainbowKitAuthenticationProvider>
+    </AuthSessionContext.Provider>
+  );
+}
+
+export function useAuthSession(): AuthSessionContextValue {
+  return useContext(AuthSessionContext);
+}
@@ -0,0 +1,194 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useAccount, usePublicClient, useWalletClient } from "wagmi";
+import { sealedMessageAbi } from "../lib/sealedMessageAbi";
+import { useContractAddress } from "../lib/useContractAddress";
+
+const CONDITION_HEARTBEAT = 0x08;
+// Sent messages per checkInAll transaction; keeps each call well inside the block gas limit
+const CHECK_IN_PAGE_SIZE = 100;
+
+interface CheckInPanelProps {
+  refreshKey?: number;
+  onCheckedIn?: () => void;
+}
+
+interface HeartbeatEntry {
+  id: bigint;
+  nextCheckInDue: number;
+}
+
+export function formatCheckInInterval(seconds: number): string {
+  if (seconds % 86400 === 0) {
+    const days = seconds / 86400;
+    return days === 1 ? "1 day" : `${days} days`;
+  }
+  const hours = Math.round(seconds / 3600);
+  return hours === 1 ? "1 hour" : `${hours} hours`;
+}
+
+/**
+ * Dead man's switch overview for the connected sender: lists live heartbeat messages,
+ * the earliest check-in deadline and a single "check in for all" action (checkInAll, one transaction
+ * per page of sent messages that holds a live heartbeat message).
+ */
+export function CheckInPanel({ refreshKey, onCheckedIn }: CheckInPanelProps) {
+  const { address: userAddress } = useAccount();
+  const { data: walletClient } = useWalletClient();
+  const client = usePublicClient();
+  const contractAddress = useContractAddress();
+
+  const [entries, setEntries] = useState<HeartbeatEntry[]>([]);
+  const [missedCount, setMissedCount] = useState(0);
+  const [checkingIn, setCheckingIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  const loadEntries = useCallback(async () => {
+    if (!client || !contractAddress || !userAddress) {
+      setEntries([]);
+      setMissedCount(0);
+      return;
+    }
+
+    try {
+      const sentIds = (await client.readContract({
+        address: contractAddress,
+        abi: sealedMessageAbi,
+        functionName: "getSentMessages",
+        args: [userAddress]
+      })) as readonly bigint[];
+
+      const headers = sentIds.length
+        ? await client.readContract({
+            address: contractAddress,
+            abi: sealedMessageAbi,
+            functionName: "getMessageHeaders",
+            args: [sentIds]
+          })
+        : [];
+
+      const timestamp = Math.floor(Date.now() / 1000);
+      const live: HeartbeatEntry[] = [];
+      let missed = 0;
+      for (const { id, financial: financialView, revoked } of headers) {
+        if ((Number(financialView.conditionMask) & CONDITION_HEARTBEAT) === 0 || revoked) {
+          continue;
+        }
+        const nextCheckInDue = Number(financialView.lastCheckIn + financialView.checkInInterval);
+        if (nextCheckInDue <= timestamp) {
+          missed += 1;
+        } else {
+          live.push({ id, nextCheckInDue });
+        }
+      }
+      live.sort((a, b) => a.nextCheckInDue - b.nextCheckInDue);
+      setEntries(live);
+      setMissedCount(missed);
+      setNow(timestamp);
+    } catch (err) {
+      console.warn("⚠️ Couldn't load check-in schedule:", err);
+    }
+  }, [client, contractAddress, userAddress]);
+
+  useEffect(() => {
+    void loadEntries();
+  }, [loadEntries, refreshKey]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleCheckInAll = useCallback(async () => {
+    if (!walletClient || !client || !contractAddress || !userAddress) {
+      setError("Connect your wallet on a supported network to check in.");
+      return;
+    }
+
+    setError(null);
+    setCheckingIn(true);
+    try {
+      const sentIds = (await client.readContract({
+        address: contractAddress,
+        abi: sealedMessageAbi,
+        functionName: "getSentMessages",
+        args: [userAddress]
+      })) as readonly bigint[];
+      // checkInAll pages newest first, like getSentMessagesPage
+      const liveIds = new Set(entries.map((entry) => entry.id));
+      const offsets = new Set<number>();
+      sentIds.forEach((id, index) => {
+        if (liveIds.has(id)) {
+          const position = sentIds.length - 1 - index;
+          offsets.add(position - (position % CHECK_IN_PAGE_SIZE));
+        }
+      });
+
+      for (const offset of Array.from(offsets).sort((a, b) => a - b)) {
+        const txHash = await walletClient.writeContract({
+          address: contractAddress,
+          abi: sealedMessageAbi,
+          functionName: "checkInAll",
+          args: [BigInt(offset), BigInt(CHECK_IN_PAGE_SIZE)],
+          account: userAddress as `0x${string}`
+        });
+        await client.waitForTransactionReceipt({ hash: txHash });
+        console.log(`💓 Checked in for sent messages ${offset}..${offset + CHECK_IN_PAGE_SIZE - 1}:`, txHash);
+      }
+      await loadEntries();
+      onCheckedIn?.();
+    } catch (err: any) {
+      console.error("❌ Check-in failed:", err);
+      setError(err?.shortMessage ?? err?.message ?? "Check-in failed");
+    } finally {
+      setCheckingIn(false);
+    }
+  }, [walletClient, client, contractAddress, userAddress, entries, loadEntries, onCheckedIn]);
+
+  if (!userAddress || !contractAddress || (entries.length === 0 && missedCount === 0)) {
+    return null;
+  }
+
+  const nextDue = entries[0]?.nextCheckInDue;
+  const overdueSoon = nextDue !== undefined && nextDue - now < 86400;
+
+  return (
+    <section className="rounded-xl border border-rose-500/30 bg-midnight/80 p-5 shadow-glow-blue space-y-3">
+      <div>
+        <h2 className="text-lg font-semibold text-rose-300">💓 Dead man&apos;s switch</h2>
+        <p className="text-xs text-slate-400">
+          Messages with a check-in condition unlock for their receiver as soon as you miss a check-in.
+        </p>
+      </div>
+
+      {nextDue !== undefined && (
+        <div className="flex items-center justify-between gap-3 rounded-lg border border-slate-800 bg-slate-900/40 px-3 py-2">
+          <div>
+            <p className="text-xs text-slate-400">
+              Next check-in due ({entries.length} active message{entries.length === 1 ? "" : "s"})
+            </p>
+            <p className={`text-sm font-semibold ${overdueSoon ? "text-amber-300" : "text-rose-200"}`}>
+              {new Date(nextDue * 1000).toLocaleString()} · message #{entries[0].id.toString()}
+            </p>
+          </div>
+          <button
+            onClick={() => void handleCheckInAll()}
+            disabled={!walletClient || checkingIn}
+            className="rounded-lg bg-gradient-to-r from-rose-600 to-pink-600 px-4 py-2 text-sm font-semibold text-white transition hover:from-rose-500 hover:to-pink-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {checkingIn ? "Checking in..." : "Check in for all"}
+          </button>
+        </div>
+      )}
+
+      {missedCount > 0 && (
+        <p className="text-xs text-amber-300">
+          ⚠️ {missedCount} message{missedCount === 1 ? "" : "s"} missed a check-in and {missedCount === 1 ? "is" : "are"} now released to the receiver.
+        </p>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </section>
+  );
+}
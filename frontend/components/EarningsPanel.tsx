@@ -0,0 +1,189 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useAccount, useNetwork, usePublicClient, useWalletClient } from "wagmi";
+import { formatUnits, isAddress } from "viem";
+import { sealedMessageAbi } from "../lib/sealedMessageAbi";
+import { useContractAddress } from "../lib/useContractAddress";
+import { getNativePaymentUnit, getPaymentTokens, isNativePaymentToken, type PaymentUnit } from "../lib/paymentTokens";
+
+interface EarningsPanelProps {
+  refreshKey?: number;
+}
+
+interface ClaimableBalance {
+  unit: PaymentUnit;
+  amount: bigint;
+}
+
+/**
+ * Shows the payment balances (native + known ERC-20 tokens) credited to the connected sender
+ * once escrowed payments are released on unlock, and lets them pull each one to their own wallet or another address.
+ */
+export function EarningsPanel({ refreshKey }: EarningsPanelProps) {
+  const { address: userAddress } = useAccount();
+  const { data: walletClient } = useWalletClient();
+  const client = usePublicClient();
+  const { chain } = useNetwork();
+  const contractAddress = useContractAddress();
+
+  const [balances, setBalances] = useState<ClaimableBalance[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [withdrawing, setWithdrawing] = useState<string | null>(null);
+  const [recipient, setRecipient] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [lastTxHash, setLastTxHash] = useState<`0x${string}` | null>(null);
+
+  const loadBalances = useCallback(async () => {
+    if (!client || !contractAddress || !userAddress) {
+      setBalances(null);
+      return;
+    }
+
+    const units: PaymentUnit[] = [
+      getNativePaymentUnit(chain?.id),
+      ...getPaymentTokens(chain?.id).map((token) => ({
+        address: token.address,
+        symbol: token.symbol,
+        decimals: token.decimals
+      }))
+    ];
+
+    setLoading(true);
+    try {
+      const amounts = await Promise.all(
+        units.map((unit) =>
+          isNativePaymentToken(unit.address)
+            ? client.readContract({
+                address: contractAddress,
+                abi: sealedMessageAbi,
+                functionName: "pendingWithdrawal",
+                args: [userAddress]
+              })
+            : client.readContract({
+                address: contractAddress,
+                abi: sealedMessageAbi,
+                functionName: "pendingTokenWithdrawal",
+                args: [userAddress, unit.address]
+              })
+        )
+      );
+      setBalances(units.map((unit, index) => ({ unit, amount: amounts[index] as bigint })));
+    } catch (err) {
+      console.warn("⚠️ Couldn't load claimable balance:", err);
+      setBalances(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [client, contractAddress, userAddress, chain?.id]);
+
+  useEffect(() => {
+    void loadBalances();
+  }, [loadBalances, refreshKey]);
+
+  const trimmedRecipient = recipient.trim();
+  const recipientValid = trimmedRecipient.length === 0 || isAddress(trimmedRecipient);
+
+  const handleWithdraw = useCallback(async (unit: PaymentUnit) => {
+    if (!walletClient || !client || !contractAddress || !userAddress) {
+      setError("Connect your wallet on a supported network to withdraw.");
+      return;
+    }
+
+    setError(null);
+    setWithdrawing(unit.address);
+    try {
+      const account = userAddress as `0x${string}`;
+      const to = trimmedRecipient as `0x${string}`;
+      const hasRecipient = trimmedRecipient.length > 0;
+      let txHash: `0x${string}`;
+
+      if (isNativePaymentToken(unit.address)) {
+        txHash = hasRecipient
+          ? await walletClient.writeContract({ address: contractAddress, abi: sealedMessageAbi, functionName: "withdrawTo", args: [to], account })
+          : await walletClient.writeContract({ address: contractAddress, abi: sealedMessageAbi, functionName: "withdraw", account });
+      } else {
+        txHash = hasRecipient
+          ? await walletClient.writeContract({ address: contractAddress, abi: sealedMessageAbi, functionName: "withdrawTokenTo", args: [unit.address, to], account })
+          : await walletClient.writeContract({ address: contractAddress, abi: sealedMessageAbi, functionName: "withdrawToken", args: [unit.address], account });
+      }
+
+      setLastTxHash(txHash);
+      await client.waitForTransactionReceipt({ hash: txHash });
+      console.log(`✅ ${unit.symbol} earnings withdrawn:`, txHash);
+      setRecipient("");
+      await loadBalances();
+    } catch (err: any) {
+      console.error("❌ Withdraw failed:", err);
+      setError(err?.shortMessage ?? err?.message ?? "Withdraw failed");
+    } finally {
+      setWithdrawing(null);
+    }
+  }, [walletClient, client, contractAddress, userAddress, trimmedRecipient, loadBalances]);
+
+  if (!userAddress || !contractAddress) {
+    return null;
+  }
+
+  const hasBalance = Boolean(balances?.some((entry) => entry.amount > 0n));
+
+  return (
+    <section className="rounded-xl border border-emerald-500/30 bg-midnight/80 p-5 shadow-glow-blue space-y-3">
+      <div>
+        <h2 className="text-lg font-semibold text-emerald-300">💰 Earnings</h2>
+        <p className="text-xs text-slate-400">
+          Payments made to unlock your messages are held by the contract until you withdraw them.
+        </p>
+      </div>
+
+      {loading && balances === null ? (
+        <p className="text-xs text-slate-400">Loading claimable balances…</p>
+      ) : (
+        <div className="space-y-2">
+          {(balances ?? []).map(({ unit, amount }) => (
+            <div
+              key={unit.address}
+              className="flex items-center justify-between gap-3 rounded-lg border border-slate-800 bg-slate-900/40 px-3 py-2"
+            >
+              <div>
+                <p className="text-xs text-slate-400">Claimable {unit.symbol}</p>
+                <p className={`font-mono text-sm font-semibold ${amount > 0n ? "text-emerald-300" : "text-slate-400"}`}>
+                  {formatUnits(amount, unit.decimals)} {unit.symbol}
+                </p>
+              </div>
+              <button
+                onClick={() => void handleWithdraw(unit)}
+                disabled={!walletClient || amount === 0n || !recipientValid || withdrawing !== null}
+                className="rounded-lg bg-gradient-to-r from-emerald-600 to-cyan-600 px-4 py-2 text-sm font-semibold text-white transition hover:from-emerald-500 hover:to-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {withdrawing === unit.address ? "Withdrawing..." : "Withdraw"}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {hasBalance && (
+        <input
+          type="text"
+          value={recipient}
+          onChange={(event) => setRecipient(event.target.value)}
+          placeholder="Withdraw to (optional, defaults to your wallet)"
+          className={`w-full rounded-lg border bg-slate-900/60 px-3 py-2 font-mono text-xs text-slate-200 focus:outline-none ${
+            recipientValid ? "border-slate-700 focus:border-emerald-400" : "border-red-500/60"
+          }`}
+        />
+      )}
+
+      {!recipientValid && (
+        <p className="text-xs text-red-400">Enter a valid address or leave the field empty.</p>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      {lastTxHash && withdrawing === null && !error && (
+        <p className="text-xs text-slate-400">
+          Last withdrawal: <span className="font-mono text-slate-300">{lastTxHash.slice(0, 10)}…{lastTxHash.slice(-8)}</span>
+        </p>
+      )}
+    </section>
+  );
+}
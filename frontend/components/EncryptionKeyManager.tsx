@@ -5,10 +5,13 @@ import { useAccount, usePublicClient } from "wagmi";
 import { useContractAddress } from "../lib/useContractAddress";
 import { sealedMessageAbi } from "../lib/sealedMessageAbi";
 import { getOrCreateEncryptionKey } from "../lib/keyAgreement";
+import { getSealedMessageDomain } from "../lib/guardianApproval";
+import { REGISTER_ENCRYPTION_KEY_TYPES, relayDeadline, submitRelayRequest } from "../lib/metaTx";
 import { ethers } from "ethers";
 
 /**
- * Auto-registers user's encryption key on first DApp visit
+ * Auto-registers user's encryption key on first DApp visit.
+ * Wallets without gas sign the registration and it is submitted through /api/relay.
  */
 export function EncryptionKeyManager() {
   const { address, isConnected } = useAccount();
@@ -16,6 +19,7 @@ export function EncryptionKeyManager() {
   const publicClient = usePublicClient();
   const [isRegistering, setIsRegistering] = useState(false);
   const [hasChecked, setHasChecked] = useState(false);
+  const [registrationError, setRegistrationError] = useState<string | null>(null);
 
   useEffect(() => {
     if (!isConnected || !address || !contractAddress || !publicClient || hasChecked) {
@@ -54,13 +58,37 @@ export function EncryptionKeyManager() {
         const publicKeyHex = "0x" + Buffer.from(keyPair.publicKey).toString('hex');
 
         const contract = new ethers.Contract(contractAddress, sealedMessageAbi, signer);
-        const tx = await contract.registerEncryptionKey(publicKeyHex);
-        await tx.wait();
-        
-        console.log("✅ EncryptionKeyManager: Registration successful!");
+        const balance = await provider.getBalance(address);
+        if (balance === 0n) {
+          // ⛽ Yeni alıcıların gas'ı yok: imzala, relayer göndersin
+          const { chainId } = await provider.getNetwork();
+          const nonce = (await contract.nonces(address)) as bigint;
+          const deadline = relayDeadline();
+          const signature = (await signer.signTypedData(
+            getSealedMessageDomain(Number(chainId), contractAddress as `0x${string}`),
+            REGISTER_ENCRYPTION_KEY_TYPES as unknown as Record<string, ethers.TypedDataField[]>,
+            { user: address, publicKey: publicKeyHex, nonce, deadline }
+          )) as `0x${string}`;
+          const relayed = await submitRelayRequest({
+            action: "registerEncryptionKey",
+            chainId: Number(chainId),
+            user: address,
+            publicKey: publicKeyHex as `0x${string}`,
+            deadline,
+            signature
+          });
+          await provider.waitForTransaction(relayed.txHash);
+          console.log("✅ EncryptionKeyManager: Registration relayed:", relayed.txHash);
+        } else {
+          const tx = await contract.registerEncryptionKey(publicKeyHex);
+          await tx.wait();
+          console.log("✅ EncryptionKeyManager: Registration successful!");
+        }
+        setRegistrationError(null);
 
       } catch (err: any) {
         console.error("❌ EncryptionKeyManager: Registration failed:", err);
+        setRegistrationError(err?.shortMessage ?? err?.message ?? "Registration failed");
       } finally {
         setIsRegistering(false);
         setHasChecked(true);
@@ -70,5 +98,21 @@ export function EncryptionKeyManager() {
     checkAndRegister();
   }, [isConnected, address, contractAddress, publicClient, hasChecked]);
 
-  return null;
+  if (!registrationError) {
+    return null;
+  }
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 max-w-sm rounded-lg border border-amber-500/50 bg-amber-900/80 px-4 py-3 text-xs text-amber-100 shadow-lg">
+      <p className="font-semibold">⚠️ Encryption key could not be registered</p>
+      <p className="mt-1 break-words text-amber-200/80">{registrationError}</p>
+      <p className="mt-1 text-amber-200/80">Senders will use a fallback key until you register.</p>
+      <button
+        onClick={() => setRegistrationError(null)}
+        className="mt-2 rounded-md border border-amber-400/40 px-2 py-1 text-amber-100 hover:bg-amber-800/60"
+      >
+        Dismiss
+      </button>
+    </div>
+  );
 }
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect, useCallback, useMemo, useRef } from "react";
-import { useContractWrite, useWaitForTransaction, usePublicClient, useAccount, usePrepareContractWrite, useWalletClient } from "wagmi";
+import { useContractWrite, useWaitForTransaction, usePublicClient, useAccount, usePrepareContractWrite, useWalletClient, erc20ABI } from "wagmi";
 import dayjs from "dayjs";
 import duration from "dayjs/plugin/duration";
 import relativeTime from "dayjs/plugin/relativeTime";
@@ -11,8 +11,28 @@ import { useContractAddress } from "../lib/useContractAddress";
 import { getChainById, ZERO_ADDRESS, type ChainKey } from "../lib/chains";
 import { generateFallbackKeyPair } from "../lib/keyAgreement";
 import type { DecryptOptions } from "../lib/decryption";
+import { getNativePaymentUnit, isNativePaymentToken, resolvePaymentUnit, type PaymentUnit } from "../lib/paymentTokens";
+import {
+  UNLOCK_APPROVAL_TYPES,
+  decodeGuardianApproval,
+  encodeGuardianApproval,
+  getSealedMessageDomain
+} from "../lib/guardianApproval";
+import {
+  CONDITION_CONSENT,
+  CONDITION_DEPENDENCY,
+  NO_CLAUSE,
+  describeClause,
+  describeDependency,
+  describeExpression
+} from "../lib/conditions";
+import { ACKNOWLEDGEMENT_TYPES, getReadReceiptsEnabled, setReadReceiptsEnabled } from "../lib/readReceipts";
+import { relayDeadline, submitRelayRequest } from "../lib/metaTx";
+import { formatFeeBps, splitPayment } from "../lib/protocolFees";
+import { detectStorageFlavour, readOnchainMessage, type StorageFlavour } from "../lib/onchainMessage";
 import { useNetwork } from "wagmi";
 import { IPFSFileDisplay } from "./IPFSFileDisplay";
+import { useAuthSession } from "./AuthSessionProvider";
 import { MessagePreview, AttachmentBadge } from "./MessagePreview";
 import { MessagePreviewData } from "@/types/message";
 import { formatUnits, keccak256 } from "viem";
@@ -27,7 +47,19 @@ interface MessageCardProps {
   unlockTime: bigint;
   unlockDate: string;
   unlocked: boolean;
+  expired?: boolean;
+  revoked?: boolean; // Gönderici iptal etti
+  expiresAt?: bigint;
+  checkInInterval?: bigint;
+  lastCheckIn?: bigint;
+  isGuardian?: boolean; // Görüntüleyen kişi bu mesajın guardian'ı
+  guardianThreshold?: number;
+  guardianApprovals?: number;
+  dependsOn?: bigint; // Zincirlenen mesaj id'si
+  dependencyKind?: number;
   isRead: boolean;
+  acknowledgedAt?: bigint; // Alıcının on-chain okundu bilgisi (0 = okunmadı)
+  encryptionKeyVersion?: bigint; // Mesajın şifrelendiği alıcı anahtar versiyonu (0 = fallback)
   isSent: boolean;
   index: number;
   contractAddress?: string; // ✅ Mesajın hangi contract'tan geldiği (override için)
@@ -36,6 +68,9 @@ interface MessageCardProps {
   // V3 ödeme bilgileri
   requiredPayment?: bigint;
   paidAmount?: bigint;
+  heldAmount?: bigint; // Kilit açılana kadar escrow'da tutulan ödeme
+  protocolFeeBps?: number; // Gönderim anındaki protokol ücreti (release'te kesilir)
+  paymentToken?: string; // ZERO_ADDRESS = native ETH
   conditionType?: number;
   // Transaction hash'leri
   transactionHash?: string;
@@ -338,18 +373,20 @@ const trimDecimalString = (raw: string): string => {
 
 const formatPaymentAmount = (
   value: bigint | null | undefined,
-  options?: { includeUnit?: boolean; zeroLabel?: string }
+  options?: { includeUnit?: boolean; zeroLabel?: string; unit?: PaymentUnit }
 ): string => {
   const includeUnit = options?.includeUnit ?? true;
   const zeroLabel = options?.zeroLabel ?? (includeUnit ? "Bedelsiz" : "0");
+  const decimals = options?.unit?.decimals ?? 18;
+  const symbol = options?.unit?.symbol ?? "ETH";
 
   if (!value || value === 0n) {
     return zeroLabel;
   }
 
   try {
-    const formatted = trimDecimalString(formatUnits(value, 18));
-    return includeUnit ? `${formatted} ETH` : formatted;
+    const formatted = trimDecimalString(formatUnits(value, decimals));
+    return includeUnit ? `${formatted} ${symbol}` : formatted;
   } catch {
     const fallback = value.toString();
     return includeUnit ? `${fallback} wei` : fallback;
@@ -400,7 +437,19 @@ export function MessageCard({
   unlockTime,
   unlockDate,
   unlocked,
+  expired,
+  revoked,
+  expiresAt,
+  checkInInterval,
+  lastCheckIn,
+  isGuardian,
+  guardianThreshold,
+  guardianApprovals,
+  dependsOn,
+  dependencyKind,
   isRead,
+  acknowledgedAt,
+  encryptionKeyVersion,
   isSent,
   index,
   contractAddress: propsContractAddress, // ✅ Props'tan gelen (varsa)
@@ -408,6 +457,9 @@ export function MessageCard({
   onHide,
   requiredPayment,
   paidAmount,
+  heldAmount,
+  protocolFeeBps,
+  paymentToken,
   conditionType,
   createdAt,
   createdDate,
@@ -419,6 +471,7 @@ export function MessageCard({
   chainKey: propsChainKey
 }: MessageCardProps) {
   const { address: userAddress } = useAccount();
+  const { status: authStatus } = useAuthSession();
   const { data: walletClient } = useWalletClient();
   const hookContractAddress = useContractAddress(); // Hook'tan gelen (current)
   const { chain } = useNetwork();
@@ -462,12 +515,9 @@ export function MessageCard({
     if (typeof messageChainId === "number" && Number.isFinite(messageChainId)) {
       params.set("chainId", messageChainId.toString());
     }
-    if (userAddress) {
-      params.set("viewer", userAddress);
-    }
     const query = params.toString();
     return query ? `?${query}` : "";
-  }, [messageChainKey, messageChainId, userAddress]);
+  }, [messageChainKey, messageChainId]);
   const [prefetchedHandle, setPrefetchedHandle] = useState<unknown | null>(null);
   
   // ✅ Props'tan gelen varsa onu kullan, yoksa hook'tan gelenı kullan
@@ -497,6 +547,21 @@ export function MessageCard({
     }
     return "msg";
   }, [contractAddress, messageChainId]);
+
+  // SealedMessageL2 (calldata-only) has no callable getMessage: content is rebuilt from logs, no read transaction
+  const [storageFlavour, setStorageFlavour] = useState<StorageFlavour | null>(null);
+  useEffect(() => {
+    if (!client || !contractAddress) return;
+    let cancelled = false;
+    detectStorageFlavour(client, contractAddress)
+      .then((flavour) => {
+        if (!cancelled) setStorageFlavour(flavour);
+      })
+      .catch((err) => console.warn("⚠️ Couldn't detect contract storage flavour:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [client, contractAddress]);
   
   // localStorage'dan initial state yükle (basit key, sonra cacheKey ile güncellenecek)
   const [messageContent, setMessageContent] = useState<string | null>(null);
@@ -589,6 +654,8 @@ export function MessageCard({
   // ✅ YENİ: Payment bilgisi state
   const [requiredPaymentAmount, setRequiredPaymentAmount] = useState<bigint | null>(null);
   const [paidAmountOnchain, setPaidAmountOnchain] = useState<bigint | null>(null);
+  const [heldAmountOnchain, setHeldAmountOnchain] = useState<bigint>(heldAmount ?? 0n);
+  const [protocolFeeBpsOnchain, setProtocolFeeBpsOnchain] = useState<number>(protocolFeeBps ?? 0);
 
   // Keep track of metadata hashes we already tried to resolve to avoid repeated 404 spam
   const attemptedMetadataHashesRef = useRef<Set<string>>(new Set());
@@ -600,6 +667,39 @@ export function MessageCard({
   const [manualPaymentHash, setManualPaymentHash] = useState<`0x${string}` | null>(null);
   const [isManualPaymentPending, setIsManualPaymentPending] = useState(false);
   const [onchainUnlocked, setOnchainUnlocked] = useState<boolean | null>(null);
+  const [senderClaimable, setSenderClaimable] = useState<bigint | null>(null);
+  const [paymentTokenAddress, setPaymentTokenAddress] = useState<string>(ZERO_ADDRESS);
+  const [paymentUnit, setPaymentUnit] = useState<PaymentUnit>(() => getNativePaymentUnit(propsChainId));
+  const [tokenPaymentStep, setTokenPaymentStep] = useState<"idle" | "approving" | "paying">("idle");
+  const [isExpired, setIsExpired] = useState<boolean>(Boolean(expired));
+  const [expiresAtOnchain, setExpiresAtOnchain] = useState<bigint>(expiresAt ?? 0n);
+  const [ownContribution, setOwnContribution] = useState<bigint>(0n);
+  const [isClaimingRefund, setIsClaimingRefund] = useState(false);
+  const [isReleasingPayment, setIsReleasingPayment] = useState(false);
+  const [checkInIntervalOnchain, setCheckInIntervalOnchain] = useState<bigint>(checkInInterval ?? 0n);
+  const [lastCheckInOnchain, setLastCheckInOnchain] = useState<bigint>(lastCheckIn ?? 0n);
+  const [isCheckingIn, setIsCheckingIn] = useState(false);
+  const [guardianStatus, setGuardianStatus] = useState<{
+    guardians: string[];
+    approved: boolean[];
+    threshold: number;
+    approvals: number;
+  } | null>(null);
+  const [guardianAction, setGuardianAction] = useState<"idle" | "approving" | "signing" | "submitting">("idle");
+  const [signedApproval, setSignedApproval] = useState<string | null>(null);
+  const [approvalInput, setApprovalInput] = useState("");
+  const [unlockState, setUnlockState] = useState<{
+    clauses: number[];
+    satisfied: number;
+    matchedClause: number;
+  } | null>(null);
+  const [isConsenting, setIsConsenting] = useState(false);
+  const [acknowledgedAtOnchain, setAcknowledgedAtOnchain] = useState<bigint>(acknowledgedAt ?? 0n);
+  const [readReceiptsEnabled, setReadReceiptsEnabledState] = useState(false);
+  const acknowledgingRef = useRef(false);
+  // decryptCiphertext okur; null = henüz bilinmiyor
+  const encryptionKeyVersionRef = useRef<bigint | null>(encryptionKeyVersion ?? null);
+  const [previousKeyNotice, setPreviousKeyNotice] = useState<{ version: number; count: number; unavailable: boolean } | null>(null);
   const metadataReadyRef = useRef(false);
 
   useEffect(() => {
@@ -622,10 +722,29 @@ export function MessageCard({
     setConditionMask(nextConditionMask);
     setRequiredPaymentAmount(nextRequiredPayment);
     setPaidAmountOnchain(nextPaidAmount);
+    setHeldAmountOnchain(heldAmount ?? 0n);
+    setProtocolFeeBpsOnchain(protocolFeeBps ?? 0);
+    setPaymentTokenAddress(paymentToken ?? ZERO_ADDRESS);
+    setIsExpired(Boolean(expired));
+    setExpiresAtOnchain(expiresAt ?? 0n);
+    setCheckInIntervalOnchain(checkInInterval ?? 0n);
+    setLastCheckInOnchain(lastCheckIn ?? 0n);
+    setAcknowledgedAtOnchain(acknowledgedAt ?? 0n);
     setOnchainUnlocked(Boolean(unlocked));
     setMetadataLoaded(true);
     metadataReadyRef.current = true;
-  }, [isSent, conditionType, requiredPayment, paidAmount, unlocked]);
+  }, [isSent, conditionType, requiredPayment, paidAmount, heldAmount, protocolFeeBps, paymentToken, unlocked, expired, expiresAt, checkInInterval, lastCheckIn, acknowledgedAt]);
+
+  useEffect(() => {
+    if (encryptionKeyVersion !== undefined) {
+      encryptionKeyVersionRef.current = encryptionKeyVersion;
+    }
+  }, [encryptionKeyVersion]);
+
+  // Okundu bilgisi tercihi cüzdan bazlı, bu cihazda saklanır
+  useEffect(() => {
+    setReadReceiptsEnabledState(getReadReceiptsEnabled(userAddress));
+  }, [userAddress]);
 
   // 🔄 localStorage'dan cache'i yükle (cacheKey hazır olduğunda)
   useEffect(() => {
@@ -719,7 +838,7 @@ export function MessageCard({
         account: userAddress as `0x${string}`
       }) as any;
 
-      // getMessageFinancialView returns a struct: { unlockTime, requiredPayment, paidAmount, conditionMask, isUnlocked }
+      // getMessageFinancialView returns a struct: { unlockTime, requiredPayment, paidAmount, conditionMask, isUnlocked, paymentToken, expiresAt, isExpired, checkInInterval, lastCheckIn }
       const metadata = result.viewData || result; // Handle both wrapped and unwrapped responses
       
       const metadataUnlockedRaw = Boolean(metadata.isUnlocked);
@@ -732,6 +851,15 @@ export function MessageCard({
       setConditionMask(fetchedConditionMask);
       setRequiredPaymentAmount(paymentAmount);
       setPaidAmountOnchain(paidAmount);
+      setHeldAmountOnchain(toBigIntSafe(metadata.heldAmount));
+      setProtocolFeeBpsOnchain(Number(metadata.protocolFeeBps ?? 0));
+      setPaymentTokenAddress(typeof metadata.paymentToken === "string" ? metadata.paymentToken : ZERO_ADDRESS);
+      setIsExpired(Boolean(metadata.isExpired));
+      setExpiresAtOnchain(toBigIntSafe(metadata.expiresAt));
+      setCheckInIntervalOnchain(toBigIntSafe(metadata.checkInInterval));
+      setLastCheckInOnchain(toBigIntSafe(metadata.lastCheckIn));
+      setAcknowledgedAtOnchain(toBigIntSafe(metadata.acknowledgedAt));
+      encryptionKeyVersionRef.current = toBigIntSafe(metadata.encryptionKeyVersion);
       setMetadataLoaded(true);
       metadataReadyRef.current = true;
       setOnchainUnlocked(metadataUnlockedRaw);
@@ -811,13 +939,7 @@ export function MessageCard({
       const metadataCidKey = `${cacheKey}-metadata-cid-${id}`;
       const legacyMetadataKey = `metadata-cid-${id}`;
 
-      const message = await client.readContract({
-        address: contractAddress,
-        abi: sealedMessageAbi,
-        functionName: "getMessage",
-        args: [id],
-        account: userAddress as `0x${string}`
-      }) as any;
+      const message = await readOnchainMessage(client, contractAddress, id, userAddress as `0x${string}`) as any;
 
       const uri = (message[2] ?? "") as string;
       const metadataHashRaw = (message[6] ?? "") as string;
@@ -950,7 +1072,7 @@ export function MessageCard({
           attempts.add(normalizedMetadataHash);
 
           try {
-            const keccakRes = await fetch(`/api/metadata-mapping/by-metadata/${metadataHashRaw}`, { cache: "no-store" });
+            const keccakRes = await fetch(`/api/metadata-mapping/by-metadata/${metadataHashRaw}?messageId=${id.toString()}`, { cache: "no-store" });
             if (keccakRes.ok) {
               const data = await keccakRes.json();
               const fullCid = data?.record?.fullHash;
@@ -985,7 +1107,7 @@ export function MessageCard({
 
       if (!candidateCid && shortHashFromUri) {
         try {
-          const mappingRes = await fetch(`/api/metadata-mapping/${shortHashFromUri}`, { cache: "no-store" });
+          const mappingRes = await fetch(`/api/metadata-mapping/${shortHashFromUri}?messageId=${id.toString()}`, { cache: "no-store" });
           if (mappingRes.ok) {
             const data = await mappingRes.json();
             const fullCid = data?.record?.fullHash;
@@ -1000,7 +1122,8 @@ export function MessageCard({
                     body: JSON.stringify({
                       shortHash: shortHashFromUri,
                       fullHash: fullCid,
-                      metadataKeccak: metadataHashRaw
+                      metadataKeccak: metadataHashRaw,
+                      messageId: id.toString()
                     })
                   });
                 } catch (persistErr) {
@@ -1132,7 +1255,8 @@ export function MessageCard({
       return;
     }
 
-    if (!userAddress) {
+    // The preview route reads the viewer from the sign-in session
+    if (!userAddress || authStatus !== "authenticated") {
       return;
     }
 
@@ -1223,7 +1347,7 @@ export function MessageCard({
         clearInterval(intervalId);
       }
     };
-  }, [id, localUnlocked, isSent, previewDataUrl, previewPollingDisabled, buildChainQuery, userAddress]);
+  }, [id, localUnlocked, isSent, previewDataUrl, previewPollingDisabled, buildChainQuery, userAddress, authStatus]);
 
   const decryptCiphertext = useCallback(async (handleValue: unknown) => {
     let currentDecryptOptions: DecryptOptions | undefined;
@@ -1231,30 +1355,53 @@ export function MessageCard({
     const normalizeAddress = (value: unknown): string =>
       typeof value === 'string' ? value.toLowerCase() : '';
 
-    const resolveReceiverPublicKeyBytes = async (receiverAddress: string): Promise<Uint8Array | null> => {
-      if (typeof receiverAddress !== 'string' || !receiverAddress.startsWith('0x')) {
+    // Receiver key at Message.encryptionKeyVersion (current key if the version is not known yet)
+    const resolveSealedReceiverKey = async (receiverAddress: string): Promise<Uint8Array | null> => {
+      if (!client || !contractAddress) {
         return null;
       }
-
+      const keyVersion = encryptionKeyVersionRef.current;
       let onchainKey: string | null = null;
-
-      if (client && contractAddress) {
-        try {
+      try {
+        if (keyVersion !== null && keyVersion > 0n) {
+          const [publicKey] = await client.readContract({
+            address: contractAddress,
+            abi: sealedMessageAbi,
+            functionName: "getEncryptionKeyAt",
+            args: [receiverAddress as `0x${string}`, keyVersion]
+          });
+          onchainKey = publicKey;
+        } else {
           onchainKey = await client.readContract({
             address: contractAddress,
-            abi: sealedMessageAbi as any,
-            functionName: "getEncryptionKey" as any,
+            abi: sealedMessageAbi,
+            functionName: "getEncryptionKey",
             args: [receiverAddress as `0x${string}`]
-          }) as unknown as string;
-
-        } catch (err) {
-          console.warn('⚠️ Failed to fetch receiver public key from contract:', err);
+          });
         }
+      } catch (err) {
+        console.warn('⚠️ Failed to fetch receiver public key from contract:', err);
       }
 
       if (onchainKey && onchainKey !== '0x' && onchainKey.length >= 66) {
         return hexToBytes(onchainKey);
       }
+      return null;
+    };
+
+    const resolveReceiverPublicKeyBytes = async (receiverAddress: string): Promise<Uint8Array | null> => {
+      if (typeof receiverAddress !== 'string' || !receiverAddress.startsWith('0x')) {
+        return null;
+      }
+
+      const keyVersion = encryptionKeyVersionRef.current;
+      // Version 0: the receiver had no key when the message was sent, the sender sealed it to the fallback key
+      if (keyVersion !== 0n) {
+        const sealedKey = await resolveSealedReceiverKey(receiverAddress);
+        if (sealedKey) {
+          return sealedKey;
+        }
+      }
 
       try {
         const fallback = generateFallbackKeyPair(receiverAddress);
@@ -1327,17 +1474,73 @@ export function MessageCard({
       if (messageChainKey) {
         decryptRequestPayload.chainKey = messageChainKey;
       }
-      if (userAddress) {
-        decryptRequestPayload.viewerAddress = userAddress;
-      }
 
-      const response = await fetch('/api/decrypt', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(decryptRequestPayload)
-      });
+      // Session key published on-chain by the escrow release service, or rebuilt from the threshold
+      // escrow operators' shares: decrypt without our API
+      const decryptWithReleasedKey = async (): Promise<string | null> => {
+        if (!client || !contractAddress || !iv) return null;
+        const { hexToBytes } = await import('@/lib/crypto');
+        const { decryptWithReleasedSessionKey } = await import('@/lib/decryption');
+        const { recoverThresholdSessionKey, THRESHOLD_ESCROW_VERSION } = await import('@/lib/thresholdEscrow');
+        const releasedKey = await client.readContract({
+          address: contractAddress,
+          abi: sealedMessageAbi,
+          functionName: "releasedSessionKeys",
+          args: [id]
+        });
+
+        let sessionKey: Uint8Array;
+        if (!/^0x0*$/.test(releasedKey)) {
+          console.log('🔓 Using on-chain released session key');
+          sessionKey = hexToBytes(releasedKey);
+        } else if (
+          escrowKeyVersion === THRESHOLD_ESCROW_VERSION &&
+          escrowCiphertext &&
+          appConfig.escrow.operatorUrls.length > 0
+        ) {
+          console.log('🧩 Recovering session key from escrow operators');
+          sessionKey = await recoverThresholdSessionKey(
+            {
+              chainId: messageChainId ?? appConfig.chain.id,
+              contractAddress,
+              messageId: id,
+              manifestHash: escrowCiphertext as `0x${string}`,
+              sessionKeyCommitment: sessionKeyCommitment as `0x${string}`
+            },
+            appConfig.escrow.operatorUrls
+          );
+        } else {
+          return null;
+        }
+        return decryptWithReleasedSessionKey({
+          uri,
+          iv: hexToBytes(iv),
+          sessionKey,
+          sessionKeyCommitment
+        });
+      };
+
+      let response: Response;
+      try {
+        response = await fetch('/api/decrypt', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(decryptRequestPayload)
+        });
+      } catch (networkErr) {
+        const released = await decryptWithReleasedKey().catch(() => null);
+        if (released !== null) return released;
+        throw networkErr;
+      }
 
       if (!response.ok) {
+        if (response.status >= 500) {
+          const released = await decryptWithReleasedKey().catch(() => null);
+          if (released !== null) return released;
+        }
+        if (response.status === 401) {
+          throw new Error('Sign in with your wallet (Connect Wallet → Sign message) to decrypt this message');
+        }
         const text = await response.text().catch(() => response.statusText);
         throw new Error(`Decrypt API error ${response.status}: ${text}`);
       }
@@ -1427,21 +1630,49 @@ export function MessageCard({
             }
           };
 
-          const decrypted = await decryptMessage({
-            ciphertext: ciphertextBytes,
-            authTag: authTagBytes,
-            iv: ivBytes,
-            senderPublicKey: senderPubKeyBytes,
-            receiverEnvelope: {
-              ciphertext: envelopeCipherBytes,
-              iv: envelopeIvBytes,
-              authTag: envelopeAuthTagBytes
-            },
-            sessionKeyCommitment: sessionCommitmentHex,
-            walletClient,
-            userAddress,
-            options: currentDecryptOptions
-          });
+          let decrypted: string;
+          try {
+            decrypted = await decryptMessage({
+              ciphertext: ciphertextBytes,
+              authTag: authTagBytes,
+              iv: ivBytes,
+              senderPublicKey: senderPubKeyBytes,
+              receiverEnvelope: {
+                ciphertext: envelopeCipherBytes,
+                iv: envelopeIvBytes,
+                authTag: envelopeAuthTagBytes
+              },
+              sessionKeyCommitment: sessionCommitmentHex,
+              walletClient,
+              userAddress,
+              // Sender side: our key is the one recorded in the envelope
+              options: currentDecryptOptions?.role === 'sender'
+                ? { ...currentDecryptOptions, sealedToPublicKey: senderPubKeyBytes }
+                : currentDecryptOptions
+            });
+          } catch (envelopeErr) {
+            // Receiver envelope unusable (derived key lost with localStorage, another wallet): ask the escrow
+            // for the session key of the unlocked message with a receiver signature
+            if (currentDecryptOptions?.role === 'sender' || !client || !contractAddress || !sessionCommitmentHex) {
+              throw envelopeErr;
+            }
+            console.warn('⚠️ Receiver envelope could not be opened, requesting escrow unwrap', envelopeErr);
+            const { requestEscrowUnwrap } = await import('@/lib/escrowUnwrap');
+            const { aesGcmDecryptMessage } = await import('@/lib/encryption');
+            const escrowSessionKey = await requestEscrowUnwrap({
+              chainId: messageChainId ?? appConfig.chain.id,
+              contractAddress,
+              messageId: id,
+              receiver: userAddress as `0x${string}`,
+              sessionKeyCommitment: sessionCommitmentHex,
+              signTypedData: (domain, types, message) =>
+                signer.signTypedData(domain, types as unknown as Record<string, { name: string; type: string }[]>, message)
+            }).catch((unwrapErr) => {
+              console.warn('⚠️ Escrow unwrap failed:', unwrapErr);
+              throw envelopeErr;
+            });
+            decrypted = await aesGcmDecryptMessage(ciphertextBytes, authTagBytes, ivBytes, escrowSessionKey);
+          }
 
           // ✅ If decrypted content is a file pointer, resolve metadata immediately
           if (decrypted.startsWith('F:')) {
@@ -1454,7 +1685,7 @@ export function MessageCard({
               
               // If not in localStorage, try backend API
               if (!fullHash) {
-                const res = await fetch(`/api/metadata-mapping/${shortHash}`, { cache: 'no-store' });
+                const res = await fetch(`/api/metadata-mapping/${shortHash}?messageId=${id.toString()}`, { cache: 'no-store' });
                 if (res.ok) {
                   const data = await res.json();
                   fullHash = data?.record?.fullHash;
@@ -1543,7 +1774,8 @@ export function MessageCard({
           const receiverLower = normalizeAddress(receiver);
 
           if (viewer === receiverLower) {
-            currentDecryptOptions = { role: 'receiver' };
+            const sealedKey = encryptionKeyVersionRef.current ? await resolveSealedReceiverKey(receiver) : null;
+            currentDecryptOptions = { role: 'receiver', sealedToPublicKey: sealedKey ?? undefined };
           } else if (viewer === senderLower) {
             const receiverKeyBytes = await resolveReceiverPublicKeyBytes(receiver);
             if (!receiverKeyBytes || receiverKeyBytes.length === 0) {
@@ -1580,6 +1812,14 @@ export function MessageCard({
         });
       } catch (apiErr: any) {
         console.error('❌ Decrypt failed:', apiErr);
+        if (apiErr?.name === 'PreviousEncryptionKeyError') {
+          setPreviousKeyNotice((prev) => ({
+            version: prev?.version ?? Number(encryptionKeyVersionRef.current ?? 0n),
+            count: prev?.count ?? 0,
+            unavailable: true
+          }));
+          throw apiErr;
+        }
         const metaDetails: string[] = [];
         if (typeof iv === 'string') metaDetails.push(`- IV length: ${iv.length} chars`);
         if (typeof authTag === 'string') metaDetails.push(`- AuthTag length: ${authTag.length} chars`);
@@ -1612,7 +1852,8 @@ export function MessageCard({
         const receiverLower = normalizeAddress(message.receiver);
 
         if (viewer === receiverLower) {
-          currentDecryptOptions = { role: 'receiver' };
+          const sealedKey = encryptionKeyVersionRef.current ? await resolveSealedReceiverKey(message.receiver) : null;
+          currentDecryptOptions = { role: 'receiver', sealedToPublicKey: sealedKey ?? undefined };
         } else if (viewer === senderLower) {
           const receiverKeyBytes = await resolveReceiverPublicKeyBytes(message.receiver);
           if (!receiverKeyBytes || receiverKeyBytes.length === 0) {
@@ -1642,6 +1883,14 @@ export function MessageCard({
         });
       } catch (apiErr: any) {
         console.error('❌ Decrypt failed:', apiErr);
+        if (apiErr?.name === 'PreviousEncryptionKeyError') {
+          setPreviousKeyNotice((prev) => ({
+            version: prev?.version ?? Number(encryptionKeyVersionRef.current ?? 0n),
+            count: prev?.count ?? 0,
+            unavailable: true
+          }));
+          throw apiErr;
+        }
         const metaDetails: string[] = [];
         if (typeof iv === 'string') metaDetails.push(`- IV length: ${iv.length} chars`);
         if (typeof authTag === 'string') metaDetails.push(`- AuthTag length: ${authTag.length} chars`);
@@ -1671,7 +1920,7 @@ export function MessageCard({
         await fetch('/api/metadata-mapping', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ shortHash, fullHash })
+          body: JSON.stringify({ shortHash, fullHash, messageId: id.toString() })
         });
       } catch (err) {
         console.warn('⚠️ Failed to persist mapping after resolve:', err);
@@ -1680,7 +1929,7 @@ export function MessageCard({
 
     // 0) Backend mapping service
     try {
-      const res = await fetch(`/api/metadata-mapping/${shortHash}`, { cache: 'no-store' });
+      const res = await fetch(`/api/metadata-mapping/${shortHash}?messageId=${id.toString()}`, { cache: 'no-store' });
       if (res.ok) {
         const data = await res.json();
         const candidate = data?.record?.fullHash as string | undefined;
@@ -1765,7 +2014,7 @@ export function MessageCard({
 
       const fetchMappingFromServer = async (hash: string): Promise<string | null> => {
         try {
-          const response = await fetch(`/api/metadata-mapping/${hash}`, { cache: 'no-store' });
+          const response = await fetch(`/api/metadata-mapping/${hash}?messageId=${id.toString()}`, { cache: 'no-store' });
           if (response.ok) {
             const data = await response.json();
             const candidate = data?.record?.fullHash as string | undefined;
@@ -1884,7 +2133,7 @@ export function MessageCard({
             await fetch('/api/metadata-mapping', {
               method: 'POST',
               headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ shortHash, fullHash })
+              body: JSON.stringify({ shortHash, fullHash, messageId: id.toString() })
             });
           } catch (err) {
             console.warn('⚠️ Failed to persist Pinata mapping to backend:', err);
@@ -1918,7 +2167,7 @@ export function MessageCard({
     };
 
     fetchFileMetadata();
-  }, [messageContent, fileMetadataState]);
+  }, [id, messageContent, fileMetadataState]);
   
   // Artık sadece Sealed kullanıyoruz
   const isSealedContract = true;
@@ -1940,13 +2189,7 @@ export function MessageCard({
       setDecryptError(null);
       let ciphertext: unknown = null;
       try {
-        const content = await client.readContract({
-          address: contractAddress,
-          abi: sealedMessageAbi as any,
-          functionName: "getMessage" as any,
-          args: [id],
-          account: userAddress as `0x${string}`
-        });
+        const content = await readOnchainMessage(client, contractAddress, id, userAddress as `0x${string}`);
 
         ciphertext = content;
         const decrypted = await decryptCiphertext(content);
@@ -2018,6 +2261,8 @@ export function MessageCard({
     ? (paymentAmountValue > paidAmountValue ? paymentAmountValue - paidAmountValue : 0n)
     : 0n;
   const paymentSettled = hasPaymentCondition && outstandingPayment === 0n;
+  const paymentIsNative = isNativePaymentToken(paymentTokenAddress);
+  const paymentZeroLabel = `0 ${paymentUnit.symbol}`;
   const paymentReady = !paymentFlagIsSet || (paymentAmountResolved && paidAmountOnchain !== null);
   
   // ✅ Time condition check: ONLY check client time, don't rely on onchainUnlocked for time
@@ -2025,9 +2270,55 @@ export function MessageCard({
   const unlockTimestamp = Number(unlockTime);
   const clientTimeReady = unlockTimestamp > 0 && currentTimestamp >= unlockTimestamp;
   
-  // Time is ready if: NO time condition OR time has passed
+  // 💓 Dead man's switch: gönderici check-in'i kaçırınca koşul sağlanır
+  const hasHeartbeatCondition = metadataLoaded && (conditionMask & 0x08) !== 0 && checkInIntervalOnchain > 0n;
+  const nextCheckInDue = Number(lastCheckInOnchain + checkInIntervalOnchain);
+  const heartbeatReady = !hasHeartbeatCondition || currentTimestamp >= nextCheckInDue;
+
+  // 🛡️ Guardian onayı: M-of-N onay sayısına ulaşıldı mı?
+  const hasGuardianCondition = metadataLoaded && (conditionMask & 0x10) !== 0;
+  const guardianApprovalCount = guardianStatus?.approvals ?? guardianApprovals ?? 0;
+  const guardianThresholdValue = guardianStatus?.threshold ?? guardianThreshold ?? 0;
+  const guardiansReady = !hasGuardianCondition || (guardianThresholdValue > 0 && guardianApprovalCount >= guardianThresholdValue);
+  const lowerViewer = userAddress?.toLowerCase();
+  const isGuardianOnly = Boolean(isGuardian) && !isSent && receiver.toLowerCase() !== lowerViewer;
+  const viewerGuardianIndex = guardianStatus && lowerViewer
+    ? guardianStatus.guardians.findIndex((guardian) => guardian.toLowerCase() === lowerViewer)
+    : -1;
+  const viewerCanApprove = viewerGuardianIndex >= 0 && !guardianStatus!.approved[viewerGuardianIndex] && !isExpired;
+
+  // 👁️ Gönderici görünümü: teslim edildi → kilidi açıldı → okundu (acknowledgeMessage)
+  const deliverySteps = [
+    { icon: "📬", label: "Delivered", done: true },
+    { icon: "🔓", label: "Unlocked", done: Boolean(onchainUnlocked) || acknowledgedAtOnchain > 0n },
+    {
+      icon: "👁️",
+      label: acknowledgedAtOnchain > 0n
+        ? `Read ${dayjs.unix(Number(acknowledgedAtOnchain)).format("YYYY-MM-DD HH:mm")}`
+        : "Read",
+      done: acknowledgedAtOnchain > 0n
+    }
+  ];
+
+  // ✋ Gönderici onayı ve AND/OR unlock ifadesi (getUnlockState)
+  const hasConsentCondition = metadataLoaded && (conditionMask & CONDITION_CONSENT) !== 0;
+  const consentGiven = Boolean(unlockState && (unlockState.satisfied & CONDITION_CONSENT) !== 0);
+  const consentReady = !hasConsentCondition || consentGiven;
+  // 🔗 Zincirleme: bağlı mesajın durumu yalnızca contract'tan okunabilir
+  const hasDependencyCondition = metadataLoaded && (conditionMask & CONDITION_DEPENDENCY) !== 0 && dependsOn !== undefined;
+  const dependencyReady = !hasDependencyCondition || Boolean(unlockState && (unlockState.satisfied & CONDITION_DEPENDENCY) !== 0);
+  const dependencyLabel = hasDependencyCondition
+    ? `${dependencyReady ? "Satisfied" : "Waits until"}: ${describeDependency(dependsOn!, dependencyKind ?? 0)}.`
+    : null;
+  const hasUnlockExpression = (unlockState?.clauses.length ?? 0) > 1;
+  const expressionUnlocked = Boolean(unlockState && unlockState.matchedClause !== NO_CLAUSE);
+
+  // Time is ready if: NO time condition OR time has passed (and no pending sender check-in / guardian approval / consent)
   // Don't use onchainUnlocked for time check (it can be true even if time not ready)
-  const timeReady = !hasTimeCondition || clientTimeReady;
+  // With an OR expression the contract decides which clause applies, so follow getUnlockState instead
+  const timeReady = hasUnlockExpression
+    ? expressionUnlocked || ((!hasTimeCondition || clientTimeReady) && heartbeatReady && guardiansReady && consentReady && dependencyReady)
+    : (!hasTimeCondition || clientTimeReady) && heartbeatReady && guardiansReady && consentReady && dependencyReady;
 
   const unlockMoment = useMemo(() => {
     if (!metadataLoaded || !hasTimeCondition) {
@@ -2040,6 +2331,19 @@ export function MessageCard({
     return candidate.isValid() ? candidate : null;
   }, [metadataLoaded, hasTimeCondition, unlockTimestamp]);
 
+  const heartbeatLabel = useMemo(() => {
+    if (!hasHeartbeatCondition) {
+      return null;
+    }
+    const moment = dayjs.unix(nextCheckInDue);
+    if (heartbeatReady) {
+      return `Sender missed the check-in due ${moment.format("YYYY-MM-DD HH:mm")}.`;
+    }
+    return isSent
+      ? `Next check-in due ${moment.format("YYYY-MM-DD HH:mm")} (${moment.fromNow()}).`
+      : `Unlocks if the sender misses the check-in due ${moment.format("YYYY-MM-DD HH:mm")} (${moment.fromNow()}).`;
+  }, [hasHeartbeatCondition, nextCheckInDue, heartbeatReady, isSent]);
+
   const timeRequirementLabel = useMemo(() => {
     if (!unlockMoment) {
       return null;
@@ -2051,19 +2355,22 @@ export function MessageCard({
     return `Unlocks at ${formatted} (${unlockMoment.fromNow()}).`;
   }, [unlockMoment, clientTimeReady]);
   
-  const shouldAttachPayment = hasPaymentCondition && outstandingPayment > 0n;
+  // OR ifadesinde başka bir clause mesajı açtıysa ödeme gerekmez
+  const shouldAttachPayment = hasPaymentCondition && outstandingPayment > 0n && !(hasUnlockExpression && expressionUnlocked);
   const canPrepareRead =
     !!contractAddress &&
     !!userAddress &&
     walletOnExpectedChain &&
     !isSent &&
+    !isGuardianOnly &&
+    storageFlavour !== "calldata" &&
     !messageContent &&
     metadataLoaded &&
     paymentReady &&
     timeReady &&
     !shouldAttachPayment;
   const paymentIsFree = !requiredPaymentAmount || requiredPaymentAmount === 0n;
-  const paymentDisplay = metadataLoaded ? formatPaymentAmount(outstandingPayment, { includeUnit: true, zeroLabel: "0 ETH" }) : null;
+  const paymentDisplay = metadataLoaded ? formatPaymentAmount(outstandingPayment, { includeUnit: true, zeroLabel: paymentZeroLabel, unit: paymentUnit }) : null;
   const paymentBadgeClass = metadataLoaded
     ? (paymentIsFree || paymentSettled ? "text-emerald-300" : "text-amber-300")
     : "text-slate-500 animate-pulse";
@@ -2071,11 +2378,11 @@ export function MessageCard({
   const fallbackConditionMask = conditionType ?? 0;
   const fallbackHasTime = (fallbackConditionMask & 0x01) !== 0;
   const fallbackHasPayment = (fallbackConditionMask & 0x02) !== 0 && typeof requiredPayment === 'bigint' && requiredPayment > 0n;
-  const canUnlockWithPayment = shouldAttachPayment && !!contractAddress && !!userAddress && walletOnExpectedChain && !isSent;
+  const canUnlockWithPayment = shouldAttachPayment && !!contractAddress && !!userAddress && walletOnExpectedChain && !isSent && !isExpired;
   const paymentValueToSend = canUnlockWithPayment ? outstandingPayment : undefined;
 
   const summaryPaymentBadgeValue =
-    paymentDisplay ?? (metadataLoaded ? (paymentIsFree ? "0 ETH" : "Pending...") : "Loading...");
+    paymentDisplay ?? (metadataLoaded ? (paymentIsFree ? paymentZeroLabel : "Pending...") : "Loading...");
   const summaryPaymentDescription = metadataLoaded
     ? paymentIsFree
       ? (isSent
@@ -2086,6 +2393,447 @@ export function MessageCard({
           : `You must pay ${paymentDisplay ?? "the required amount"} to open this message.`)
     : "Loading payment info...";
   const messageSummaryTitle = isSent ? "Message Summary (Receiver View)" : "Message Summary";
+  const hasExpiryCondition = metadataLoaded && (conditionMask & 0x04) !== 0 && expiresAtOnchain > 0n;
+  const isRevoked = Boolean(revoked);
+  // Ödemeler kilit açılana kadar escrow'da tutulur; iptal ya da süre dolumunda payer'a iade edilir
+  const showSenderEarnings = isSent && hasPaymentCondition && paidAmountValue > 0n;
+  const refundAvailable = (isRevoked || isExpired) && ownContribution > 0n && heldAmountOnchain >= ownContribution;
+  const protocolFeeLabel = protocolFeeBpsOnchain > 0 ? formatFeeBps(protocolFeeBpsOnchain) : null;
+  const expiryLabel = useMemo(() => {
+    if (!hasExpiryCondition) {
+      return null;
+    }
+    const moment = dayjs.unix(Number(expiresAtOnchain));
+    if (isExpired) {
+      return `Expired at ${moment.format("YYYY-MM-DD HH:mm")} before the unlock conditions were met.`;
+    }
+    if (paymentSettled) {
+      return null;
+    }
+    return `Void at ${moment.format("YYYY-MM-DD HH:mm")} (${moment.fromNow()}) unless unlocked; payments are refunded.`;
+  }, [hasExpiryCondition, expiresAtOnchain, isExpired, paymentSettled]);
+
+  // Kullanıcının bu mesaja yaptığı ödeme; iptal/süre dolumunda escrow'dan geri alınabilir
+  useEffect(() => {
+    if (!hasPaymentCondition || !client || !contractAddress || !userAddress) {
+      setOwnContribution(0n);
+      return;
+    }
+
+    let cancelled = false;
+    client.readContract({
+      address: contractAddress,
+      abi: sealedMessageAbi as any,
+      functionName: "contributionOf",
+      args: [id, userAddress]
+    })
+      .then((value) => {
+        if (!cancelled) {
+          setOwnContribution(toBigIntSafe(value));
+        }
+      })
+      .catch((err) => {
+        console.warn("⚠️ Contribution lookup failed", err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [hasPaymentCondition, client, contractAddress, userAddress, id, paidAmountValue]);
+
+  const loadGuardianStatus = useCallback(async () => {
+    if (!client || !contractAddress) {
+      return;
+    }
+    try {
+      const [guardians, approved, threshold, approvals] = await client.readContract({
+        address: contractAddress,
+        abi: sealedMessageAbi,
+        functionName: "getGuardianApprovals",
+        args: [id]
+      });
+      setGuardianStatus({
+        guardians: [...guardians],
+        approved: [...approved],
+        threshold: Number(threshold),
+        approvals: Number(approvals)
+      });
+    } catch (err) {
+      console.warn("⚠️ Guardian status lookup failed", err);
+    }
+  }, [client, contractAddress, id]);
+
+  useEffect(() => {
+    if (!hasGuardianCondition) {
+      setGuardianStatus(null);
+      return;
+    }
+    void loadGuardianStatus();
+  }, [hasGuardianCondition, loadGuardianStatus]);
+
+  const loadUnlockState = useCallback(async () => {
+    if (!client || !contractAddress) {
+      return;
+    }
+    try {
+      const [clauses, satisfied, , matchedClause] = await client.readContract({
+        address: contractAddress,
+        abi: sealedMessageAbi,
+        functionName: "getUnlockState",
+        args: [id]
+      });
+      setUnlockState({ clauses: [...clauses], satisfied, matchedClause });
+    } catch (err) {
+      console.warn("⚠️ Unlock state lookup failed", err);
+    }
+  }, [client, contractAddress, id]);
+
+  useEffect(() => {
+    if (!metadataLoaded) {
+      return;
+    }
+    void loadUnlockState();
+  }, [metadataLoaded, conditionMask, onchainUnlocked, paidAmountOnchain, guardianStatus, loadUnlockState]);
+
+  const handleConsent = useCallback(async () => {
+    if (!walletClient || !client || !contractAddress || !userAddress) {
+      return;
+    }
+
+    setDecryptError(null);
+    setIsConsenting(true);
+    try {
+      const txHash = await walletClient.writeContract({
+        address: contractAddress,
+        abi: sealedMessageAbi,
+        functionName: "consentToUnlock",
+        args: [id],
+        account: userAddress as `0x${string}`
+      });
+      await client.waitForTransactionReceipt({ hash: txHash });
+      await loadUnlockState();
+    } catch (err) {
+      setDecryptError(`Release failed: ${toReadableError(err)}`);
+    } finally {
+      setIsConsenting(false);
+    }
+  }, [walletClient, client, contractAddress, userAddress, id, loadUnlockState]);
+
+  const handleApproveUnlock = useCallback(async () => {
+    if (!walletClient || !client || !contractAddress || !userAddress) {
+      return;
+    }
+
+    setDecryptError(null);
+    setGuardianAction("approving");
+    try {
+      const txHash = await walletClient.writeContract({
+        address: contractAddress,
+        abi: sealedMessageAbi,
+        functionName: "approveUnlock",
+        args: [id],
+        account: userAddress as `0x${string}`
+      });
+      await client.waitForTransactionReceipt({ hash: txHash });
+      await loadGuardianStatus();
+    } catch (err) {
+      setDecryptError(`Approval failed: ${toReadableError(err)}`);
+    } finally {
+      setGuardianAction("idle");
+    }
+  }, [walletClient, client, contractAddress, userAddress, id, loadGuardianStatus]);
+
+  // Gasless onay: guardian imzalar, imzayı alıcıya (veya herhangi birine) iletir
+  const handleSignApproval = useCallback(async () => {
+    if (!walletClient || !contractAddress || !userAddress || typeof messageChainId !== "number") {
+      return;
+    }
+
+    setDecryptError(null);
+    setGuardianAction("signing");
+    try {
+      const deadline = BigInt(Math.floor(Date.now() / 1000) + 7 * 86400);
+      const guardian = userAddress as `0x${string}`;
+      const signature = await walletClient.signTypedData({
+        account: guardian,
+        domain: getSealedMessageDomain(messageChainId, contractAddress),
+        types: UNLOCK_APPROVAL_TYPES,
+        primaryType: "UnlockApproval",
+        message: { messageId: id, guardian, deadline }
+      });
+      setSignedApproval(encodeGuardianApproval({
+        messageId: id.toString(),
+        guardian,
+        deadline: deadline.toString(),
+        signature
+      }));
+    } catch (err) {
+      setDecryptError(`Signing failed: ${toReadableError(err)}`);
+    } finally {
+      setGuardianAction("idle");
+    }
+  }, [walletClient, contractAddress, userAddress, messageChainId, id]);
+
+  const handleSubmitApproval = useCallback(async () => {
+    const payload = decodeGuardianApproval(approvalInput);
+    if (!payload || payload.messageId !== id.toString()) {
+      setDecryptError("This approval does not belong to this message.");
+      return;
+    }
+    if (!walletClient || !client || !contractAddress || !userAddress) {
+      return;
+    }
+
+    setDecryptError(null);
+    setGuardianAction("submitting");
+    try {
+      const txHash = await walletClient.writeContract({
+        address: contractAddress,
+        abi: sealedMessageAbi,
+        functionName: "approveUnlockBySig",
+        args: [id, payload.guardian, BigInt(payload.deadline), payload.signature],
+        account: userAddress as `0x${string}`
+      });
+      await client.waitForTransactionReceipt({ hash: txHash });
+      setApprovalInput("");
+      await loadGuardianStatus();
+    } catch (err) {
+      setDecryptError(`Approval submission failed: ${toReadableError(err)}`);
+    } finally {
+      setGuardianAction("idle");
+    }
+  }, [approvalInput, walletClient, client, contractAddress, userAddress, id, loadGuardianStatus]);
+
+  const handleCheckIn = useCallback(async () => {
+    if (!walletClient || !client || !contractAddress || !userAddress) {
+      return;
+    }
+
+    setDecryptError(null);
+    setIsCheckingIn(true);
+    try {
+      const txHash = await walletClient.writeContract({
+        address: contractAddress,
+        abi: sealedMessageAbi as any,
+        functionName: "checkIn",
+        args: [id],
+        account: userAddress as `0x${string}`
+      });
+      await client.waitForTransactionReceipt({ hash: txHash });
+      setLastCheckInOnchain(BigInt(Math.floor(Date.now() / 1000)));
+    } catch (err) {
+      setDecryptError(`Check-in failed: ${toReadableError(err)}`);
+    } finally {
+      setIsCheckingIn(false);
+    }
+  }, [walletClient, client, contractAddress, userAddress, id]);
+
+  // 🗝️ Alıcı anahtarını yenilediyse: bu mesaj önceki anahtara şifrelenmiş
+  useEffect(() => {
+    const keyVersion = encryptionKeyVersionRef.current;
+    if (isSent || !metadataLoaded || !client || !contractAddress || keyVersion === null || keyVersion === 0n) {
+      return;
+    }
+    let cancelled = false;
+    client
+      .readContract({
+        address: contractAddress,
+        abi: sealedMessageAbi,
+        functionName: "getEncryptionKeyCount",
+        args: [receiver as `0x${string}`]
+      })
+      .then((count) => {
+        if (!cancelled && count > keyVersion) {
+          setPreviousKeyNotice((prev) => ({
+            version: Number(keyVersion),
+            count: Number(count),
+            unavailable: prev?.unavailable ?? false
+          }));
+        }
+      })
+      .catch((err) => console.warn("⚠️ Encryption key count lookup failed", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [isSent, metadataLoaded, client, contractAddress, receiver]);
+
+  const handleReadReceiptsToggle = useCallback((enabled: boolean) => {
+    if (!userAddress) {
+      return;
+    }
+    setReadReceiptsEnabled(userAddress, enabled);
+    setReadReceiptsEnabledState(enabled);
+  }, [userAddress]);
+
+  // Başarılı decrypt sonrası: alıcı izin verdiyse göndericiye on-chain okundu bilgisi gönder
+  const submitReadReceipt = useCallback(async () => {
+    if (
+      isSent ||
+      !readReceiptsEnabled ||
+      acknowledgedAtOnchain > 0n ||
+      acknowledgingRef.current ||
+      !walletClient ||
+      !client ||
+      !contractAddress ||
+      !userAddress ||
+      receiver.toLowerCase() !== userAddress.toLowerCase()
+    ) {
+      return;
+    }
+
+    acknowledgingRef.current = true;
+    try {
+      const account = userAddress as `0x${string}`;
+      const balance = await client.getBalance({ address: account });
+      let txHash: `0x${string}`;
+      if (balance === 0n && typeof messageChainId === "number") {
+        // Gas'ı olmayan alıcı: imzalı okundu bilgisi relayer üzerinden gönderilir
+        const deadline = relayDeadline();
+        const signature = await walletClient.signTypedData({
+          account,
+          domain: getSealedMessageDomain(messageChainId, contractAddress),
+          types: ACKNOWLEDGEMENT_TYPES,
+          primaryType: "Acknowledgement",
+          message: { messageId: id, receiver: account, deadline }
+        });
+        ({ txHash } = await submitRelayRequest({
+          action: "acknowledgeMessage",
+          chainId: messageChainId,
+          messageId: id,
+          receiver: account,
+          deadline,
+          signature
+        }));
+      } else {
+        txHash = await walletClient.writeContract({
+          address: contractAddress,
+          abi: sealedMessageAbi,
+          functionName: "acknowledgeMessage",
+          args: [id],
+          account
+        });
+      }
+      await client.waitForTransactionReceipt({ hash: txHash });
+      console.log("👁️ Read receipt sent:", txHash);
+      setAcknowledgedAtOnchain(BigInt(Math.floor(Date.now() / 1000)));
+    } catch (err) {
+      // Okundu bilgisi opsiyonel; içerik zaten açıldı, sadece logla
+      console.warn("⚠️ Read receipt not sent:", toReadableError(err));
+    } finally {
+      acknowledgingRef.current = false;
+    }
+  }, [isSent, readReceiptsEnabled, acknowledgedAtOnchain, walletClient, client, contractAddress, userAddress, receiver, id, messageChainId]);
+  // Decrypt effect'leri yeniden tetiklenmesin diye ref üzerinden çağrılır
+  const submitReadReceiptRef = useRef(submitReadReceipt);
+  submitReadReceiptRef.current = submitReadReceipt;
+
+  const handleClaimRefund = useCallback(async () => {
+    if (!walletClient || !client || !contractAddress || !userAddress || !refundAvailable) {
+      return;
+    }
+
+    setDecryptError(null);
+    setIsClaimingRefund(true);
+    try {
+      const txHash = await walletClient.writeContract({
+        address: contractAddress,
+        abi: sealedMessageAbi as any,
+        functionName: "claimRefund",
+        args: [id],
+        account: userAddress as `0x${string}`
+      });
+      await client.waitForTransactionReceipt({ hash: txHash });
+      setHeldAmountOnchain((prev) => (prev > ownContribution ? prev - ownContribution : 0n));
+      setOwnContribution(0n);
+    } catch (err) {
+      setDecryptError(`Refund failed: ${toReadableError(err)}`);
+    } finally {
+      setIsClaimingRefund(false);
+    }
+  }, [walletClient, client, contractAddress, userAddress, refundAvailable, ownContribution, id]);
+
+  // Açılan mesajın escrow'daki ödemesini göndericinin bakiyesine aktarır (herkes çağırabilir)
+  const handleReleasePayment = useCallback(async () => {
+    if (!walletClient || !client || !contractAddress || !userAddress || heldAmountOnchain <= 0n) {
+      return;
+    }
+
+    setDecryptError(null);
+    setIsReleasingPayment(true);
+    try {
+      const txHash = await walletClient.writeContract({
+        address: contractAddress,
+        abi: sealedMessageAbi as any,
+        functionName: "releasePayment",
+        args: [id],
+        account: userAddress as `0x${string}`
+      });
+      await client.waitForTransactionReceipt({ hash: txHash });
+      setHeldAmountOnchain(0n);
+    } catch (err) {
+      setDecryptError(`Release failed: ${toReadableError(err)}`);
+    } finally {
+      setIsReleasingPayment(false);
+    }
+  }, [walletClient, client, contractAddress, userAddress, heldAmountOnchain, id]);
+
+  useEffect(() => {
+    if (paymentIsNative || !client) {
+      setPaymentUnit(getNativePaymentUnit(messageChainId));
+      return;
+    }
+
+    let cancelled = false;
+    resolvePaymentUnit(client, paymentTokenAddress, messageChainId)
+      .then((unit) => {
+        if (!cancelled) {
+          setPaymentUnit(unit);
+        }
+      })
+      .catch((err) => {
+        console.warn("⚠️ Payment token metadata lookup failed", err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [paymentIsNative, paymentTokenAddress, client, messageChainId]);
+
+  // Ödemeler gönderene anında aktarılmaz; contract bakiyeye yazar, gönderici withdraw() ile çeker
+  useEffect(() => {
+    if (!showSenderEarnings || !client || !contractAddress || !userAddress) {
+      setSenderClaimable(null);
+      return;
+    }
+
+    let cancelled = false;
+    const claimableRead = paymentIsNative
+      ? client.readContract({
+          address: contractAddress,
+          abi: sealedMessageAbi as any,
+          functionName: "pendingWithdrawal",
+          args: [userAddress]
+        })
+      : client.readContract({
+          address: contractAddress,
+          abi: sealedMessageAbi as any,
+          functionName: "pendingTokenWithdrawal",
+          args: [userAddress, paymentTokenAddress]
+        });
+    claimableRead
+      .then((value) => {
+        if (!cancelled) {
+          setSenderClaimable(toBigIntSafe(value));
+        }
+      })
+      .catch((err) => {
+        console.warn("⚠️ Claimable balance lookup failed", err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [showSenderEarnings, client, contractAddress, userAddress, paidAmountValue, heldAmountOnchain, paymentIsNative, paymentTokenAddress]);
 
   const { config: paymentConfig, error: preparePaymentError } = usePrepareContractWrite({
     address: contractAddress,
@@ -2093,7 +2841,7 @@ export function MessageCard({
     functionName: "payToUnlock",
     args: [id],
     value: paymentValueToSend,
-    enabled: Boolean(canUnlockWithPayment && outstandingPayment > 0n),
+    enabled: Boolean(canUnlockWithPayment && paymentIsNative && outstandingPayment > 0n),
   chainId: activeChainId,
     account: userAddress as `0x${string}` | undefined
   });
@@ -2148,6 +2896,58 @@ export function MessageCard({
       return;
     }
 
+    // ERC-20 ödeme: gerekirse önce approve, ardından payToUnlockWithToken
+    if (!paymentIsNative) {
+      if (!walletClient || !client || outstandingPayment <= 0n) {
+        setDecryptError("Payment quote unavailable. Please wait for the payment info to load and retry.");
+        return;
+      }
+
+      const tokenAddress = paymentTokenAddress as `0x${string}`;
+      try {
+        setIsManualPaymentPending(true);
+        setManualPaymentHash(null);
+
+        const allowance = await client.readContract({
+          address: tokenAddress,
+          abi: erc20ABI,
+          functionName: "allowance",
+          args: [userAddress as `0x${string}`, contractAddress]
+        });
+
+        if (allowance < outstandingPayment) {
+          setTokenPaymentStep("approving");
+          const approveHash = await walletClient.writeContract({
+            address: tokenAddress,
+            abi: erc20ABI,
+            functionName: "approve",
+            args: [contractAddress, outstandingPayment],
+            account: userAddress as `0x${string}`
+          });
+          await client.waitForTransactionReceipt({ hash: approveHash });
+        }
+
+        setTokenPaymentStep("paying");
+        const txHash = await walletClient.writeContract({
+          address: contractAddress,
+          abi: sealedMessageAbi as any,
+          functionName: "payToUnlockWithToken",
+          args: [id, outstandingPayment],
+          account: userAddress as `0x${string}`
+        });
+
+        if (txHash) {
+          setManualPaymentHash(txHash);
+        }
+      } catch (err) {
+        setDecryptError(`Payment failed: ${toReadableError(err)}`);
+      } finally {
+        setIsManualPaymentPending(false);
+        setTokenPaymentStep("idle");
+      }
+      return;
+    }
+
     if (unlockWithPayment) {
       try {
         unlockWithPayment();
@@ -2195,7 +2995,10 @@ export function MessageCard({
     activeChainId,
     isPaymentActionPending,
     walletOnExpectedChain,
-    messageChainConfig?.name
+    messageChainConfig?.name,
+    paymentIsNative,
+    paymentTokenAddress,
+    client
   ]);
 
   useEffect(() => {
@@ -2236,6 +3039,30 @@ export function MessageCard({
           label: paymentRequirementLabel ? `💰 Payment · ${paymentRequirementLabel}` : '💰 Payment Required',
           className: 'bg-cyan-500/20 text-cyan-300 border border-cyan-400/30'
         };
+    const heartbeatBadge = {
+      key: 'heartbeat',
+      label: heartbeatReady ? '💓 Check-in Missed' : '💓 Dead Man\'s Switch',
+      className: 'bg-rose-500/20 text-rose-300 border border-rose-400/30'
+    };
+    const dependencyBadge = {
+      key: 'dependency',
+      label: `🔗 After #${dependsOn?.toString() ?? '?'}`,
+      className: dependencyReady
+        ? 'bg-emerald-600/20 text-emerald-300 border border-emerald-400/30'
+        : 'bg-indigo-500/20 text-indigo-300 border border-indigo-400/30'
+    };
+    const consentBadge = {
+      key: 'consent',
+      label: consentGiven ? '✋ Released by Sender' : '✋ Sender Consent',
+      className: 'bg-teal-500/20 text-teal-300 border border-teal-400/30'
+    };
+    const guardianBadge = {
+      key: 'guardians',
+      label: `🛡️ Guardians · ${guardianApprovalCount}/${guardianThresholdValue}`,
+      className: guardiansReady
+        ? 'bg-emerald-600/20 text-emerald-300 border border-emerald-400/30'
+        : 'bg-sky-500/20 text-sky-300 border border-sky-400/30'
+    };
     const instantBadge = {
       key: 'instant',
       label: '⚡ Instant Access',
@@ -2249,7 +3076,19 @@ export function MessageCard({
       if (hasPaymentCondition) {
         badges.push(paymentBadge);
       }
-      if (!hasTimeCondition && !hasPaymentCondition) {
+      if (hasHeartbeatCondition) {
+        badges.push(heartbeatBadge);
+      }
+      if (hasGuardianCondition) {
+        badges.push(guardianBadge);
+      }
+      if (hasConsentCondition) {
+        badges.push(consentBadge);
+      }
+      if (hasDependencyCondition) {
+        badges.push(dependencyBadge);
+      }
+      if (!hasTimeCondition && !hasPaymentCondition && !hasHeartbeatCondition && !hasGuardianCondition && !hasConsentCondition && !hasDependencyCondition) {
         badges.push(instantBadge);
       }
       return badges;
@@ -2265,7 +3104,7 @@ export function MessageCard({
       badges.push(instantBadge);
     }
     return badges;
-  }, [metadataLoaded, hasTimeCondition, hasPaymentCondition, paymentFlagIsSet, conditionType, paymentRequirementLabel, fallbackHasTime, fallbackHasPayment]);
+  }, [metadataLoaded, hasTimeCondition, hasPaymentCondition, hasHeartbeatCondition, heartbeatReady, hasGuardianCondition, guardiansReady, guardianApprovalCount, guardianThresholdValue, hasConsentCondition, consentGiven, hasDependencyCondition, dependencyReady, dependsOn, paymentFlagIsSet, conditionType, paymentRequirementLabel, fallbackHasTime, fallbackHasPayment]);
   const fileNameLabel = previewMetadata?.fileName?.trim() ? previewMetadata.fileName.trim() : null;
   const fileSizeLabel = previewMetadata && previewMetadata.fileSize > 0n ? formatFileSize(previewMetadata.fileSize) : null;
   const contentTypeLabel = previewMetadata?.contentType?.trim() ? previewMetadata.contentType.trim() : null;
@@ -2394,6 +3233,178 @@ export function MessageCard({
       <div className="text-xs text-slate-400">
         {summaryPaymentDescription}
       </div>
+      {isSent && expiryLabel && (
+        <div className="text-xs text-red-300/80">⌛ {expiryLabel}</div>
+      )}
+      {isSent && !isExpired && (
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          {deliverySteps.map((step, stepIndex) => (
+            <span key={step.icon} className={step.done ? "text-emerald-300" : "text-slate-500"}>
+              {stepIndex > 0 && <span className="mr-2 text-slate-600">→</span>}
+              {step.icon} {step.label}
+            </span>
+          ))}
+        </div>
+      )}
+      {isSent && heartbeatLabel && (
+        <div className="flex flex-wrap items-center justify-between gap-2 rounded-md border border-rose-500/30 bg-rose-900/20 px-3 py-2 text-xs">
+          <span className={heartbeatReady ? "text-amber-300" : "text-rose-200"}>💓 {heartbeatLabel}</span>
+          {!heartbeatReady && (
+            <button
+              onClick={() => void handleCheckIn()}
+              disabled={!walletClient || isCheckingIn || !walletOnExpectedChain}
+              className="rounded-md bg-rose-600 px-3 py-1 font-semibold text-white transition hover:bg-rose-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isCheckingIn ? "Checking in..." : "Check in"}
+            </button>
+          )}
+        </div>
+      )}
+      {hasUnlockExpression && unlockState && (
+        <div className="text-xs text-slate-300">
+          🧩 Unlocks when: <span className="font-mono text-cyan-300">{describeExpression(unlockState.clauses)}</span>
+          {expressionUnlocked && (
+            <span className="block text-emerald-300">
+              Satisfied: {describeClause(unlockState.clauses[unlockState.matchedClause])}
+            </span>
+          )}
+        </div>
+      )}
+      {dependencyLabel && !isExpired && (
+        <div className={`text-xs ${dependencyReady ? "text-emerald-300" : "text-indigo-300"}`}>🔗 {dependencyLabel}</div>
+      )}
+      {isSent && hasConsentCondition && !isExpired && (
+        <div className="flex flex-wrap items-center justify-between gap-2 rounded-md border border-teal-500/30 bg-teal-900/20 px-3 py-2 text-xs">
+          <span className="text-teal-200">
+            {consentGiven ? "✋ You released this message." : "✋ This message waits for your consent."}
+          </span>
+          {!consentGiven && (
+            <button
+              onClick={() => void handleConsent()}
+              disabled={!walletClient || isConsenting || !walletOnExpectedChain}
+              className="rounded-md bg-teal-600 px-3 py-1 font-semibold text-white transition hover:bg-teal-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isConsenting ? "Releasing..." : "Release now"}
+            </button>
+          )}
+        </div>
+      )}
+      {hasGuardianCondition && guardianStatus && (
+        <div className="space-y-2 rounded-md border border-sky-500/30 bg-sky-900/20 px-3 py-2 text-xs">
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-semibold text-sky-200">🛡️ Guardian approvals</span>
+            <span className={`font-mono ${guardiansReady ? "text-emerald-300" : "text-sky-300"}`}>
+              {guardianStatus.approvals} / {guardianStatus.threshold} required
+            </span>
+          </div>
+          <ul className="space-y-1">
+            {guardianStatus.guardians.map((guardian, guardianIndex) => (
+              <li key={guardian} className="flex items-center justify-between gap-2 font-mono text-[11px] text-slate-300">
+                <span className="break-all">
+                  {guardian}
+                  {guardianIndex === viewerGuardianIndex ? " (you)" : ""}
+                </span>
+                <span>{guardianStatus.approved[guardianIndex] ? "✅" : "⏳"}</span>
+              </li>
+            ))}
+          </ul>
+          {viewerCanApprove && !guardiansReady && (
+            <div className="flex flex-wrap gap-2 pt-1">
+              <button
+                onClick={() => void handleApproveUnlock()}
+                disabled={!walletClient || guardianAction !== "idle" || !walletOnExpectedChain}
+                className="rounded-md bg-sky-600 px-3 py-1 font-semibold text-white transition hover:bg-sky-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {guardianAction === "approving" ? "Approving..." : "Approve unlock"}
+              </button>
+              <button
+                onClick={() => void handleSignApproval()}
+                disabled={!walletClient || guardianAction !== "idle" || !walletOnExpectedChain}
+                className="rounded-md border border-sky-500/50 px-3 py-1 font-semibold text-sky-200 transition hover:bg-sky-800/40 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {guardianAction === "signing" ? "Waiting for signature..." : "Sign approval (gasless)"}
+              </button>
+            </div>
+          )}
+          {signedApproval && (
+            <div className="space-y-1">
+              <p className="text-sky-200">Share this signed approval with the receiver. It is valid for 7 days.</p>
+              <textarea
+                readOnly
+                value={signedApproval}
+                rows={3}
+                onFocus={(event) => event.target.select()}
+                className="w-full rounded border border-sky-500/30 bg-slate-900/60 p-2 font-mono text-[10px] text-slate-300"
+              />
+              <button
+                onClick={() => void navigator.clipboard?.writeText(signedApproval)}
+                className="rounded-md border border-sky-500/50 px-3 py-1 text-sky-200 transition hover:bg-sky-800/40"
+              >
+                📋 Copy
+              </button>
+            </div>
+          )}
+          {!isSent && !isGuardianOnly && !guardiansReady && !isExpired && (
+            <div className="space-y-1 pt-1">
+              <p className="text-slate-400">Received a signed approval from a guardian? Paste it here to submit it on-chain.</p>
+              <textarea
+                value={approvalInput}
+                onChange={(event) => setApprovalInput(event.target.value)}
+                rows={2}
+                placeholder='{"messageId":"…","guardian":"0x…","deadline":"…","signature":"0x…"}'
+                className="w-full rounded border border-sky-500/30 bg-slate-900/60 p-2 font-mono text-[10px] text-slate-300"
+              />
+              <button
+                onClick={() => void handleSubmitApproval()}
+                disabled={!walletClient || approvalInput.trim().length === 0 || guardianAction !== "idle" || !walletOnExpectedChain}
+                className="rounded-md bg-sky-600 px-3 py-1 font-semibold text-white transition hover:bg-sky-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {guardianAction === "submitting" ? "Submitting..." : "Submit approval"}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+      {showSenderEarnings && (
+        <div className="flex flex-wrap items-center justify-between gap-2 rounded-md border border-emerald-500/30 bg-emerald-900/20 px-3 py-2 text-xs">
+          {heldAmountOnchain > 0n ? (
+            <span className="text-amber-200">
+              {formatPaymentAmount(heldAmountOnchain, { zeroLabel: paymentZeroLabel, unit: paymentUnit })}{" "}
+              {isRevoked || isExpired
+                ? "held in escrow · refundable to payers"
+                : localUnlocked || onchainUnlocked
+                  ? "held in escrow · ready to release"
+                  : "held in escrow until the message unlocks"}
+            </span>
+          ) : (
+            <span className="text-emerald-200">
+              Received {formatPaymentAmount(paidAmountValue, { zeroLabel: paymentZeroLabel, unit: paymentUnit })}
+              {protocolFeeLabel
+                ? ` · ${formatPaymentAmount(splitPayment(paidAmountValue, protocolFeeBpsOnchain).net, { zeroLabel: paymentZeroLabel, unit: paymentUnit })} credited to your balance after the ${protocolFeeLabel} protocol fee`
+                : " · credited to your balance"}
+            </span>
+          )}
+          {heldAmountOnchain > 0n && !isRevoked && !isExpired && (localUnlocked || onchainUnlocked) ? (
+            <button
+              onClick={handleReleasePayment}
+              disabled={isReleasingPayment || !walletClient}
+              className="rounded-md bg-emerald-600 px-3 py-1 font-semibold text-white transition hover:bg-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isReleasingPayment ? "Releasing..." : "Release to balance"}
+            </button>
+          ) : (
+            <span className="font-mono text-emerald-300">
+              Claimable: {senderClaimable === null ? "…" : formatPaymentAmount(senderClaimable, { zeroLabel: paymentZeroLabel, unit: paymentUnit })}
+            </span>
+          )}
+        </div>
+      )}
+      {!isSent && ownContribution > 0n && !refundAvailable && (
+        <div className="rounded-md border border-slate-700/60 bg-slate-900/40 px-3 py-2 text-xs text-slate-300">
+          Your contribution: {formatPaymentAmount(ownContribution, { zeroLabel: paymentZeroLabel, unit: paymentUnit })}
+          {heldAmountOnchain >= ownContribution ? " · held in escrow until the message unlocks" : " · released to the sender"}
+        </div>
+      )}
       <div
         className="pt-2 border-t border-slate-800/60 space-y-3"
         style={!isSent && localUnlocked && localIsRead ? { display: "none" } : undefined}
@@ -2615,13 +3626,7 @@ export function MessageCard({
         // Eğer ödeme gereksinimi varsa ve prefetched yoksa, yine de bir kez dene:
         // Ödeme "claimed" olduktan sonra sözleşme state’indeki engel kalkmış olabilir.
         if (handleValue == null) {
-          const handle = await client.readContract({
-            address: contractAddress,
-            abi: sealedMessageAbi,
-            functionName: "getMessage" as any,
-            args: [id],
-            account: userAddress as `0x${string}`
-          });
+          const handle = await readOnchainMessage(client, contractAddress, id, userAddress as `0x${string}`);
           handleValue = handle;
         }
 
@@ -2638,6 +3643,7 @@ export function MessageCard({
         localStorage.setItem(`${cacheKey}-unlocked-${id}`, 'true');
         
         onMessageRead?.();
+        void submitReadReceiptRef.current();
       } catch (err) {
         const fallback = handleValue != null ? String((handleValue as any)?.toString?.() ?? handleValue) : "⚠️ Content could not be loaded";
         setMessageContent(fallback);
@@ -2685,13 +3691,7 @@ export function MessageCard({
 
   let ciphertext: unknown = null;
       try {
-        const content = await client.readContract({
-          address: contractAddress,
-          abi: sealedMessageAbi,
-          functionName: "getMessage" as any,
-          args: [id],
-          account: userAddress as `0x${string}`
-        });
+        const content = await readOnchainMessage(client, contractAddress, id, userAddress as `0x${string}`);
 
         ciphertext = content;
         const decrypted = await decryptCiphertext(content);
@@ -2705,6 +3705,7 @@ export function MessageCard({
         localStorage.setItem(`${cacheKey}-unlocked-${id}`, 'true');
         
         onMessageRead?.(); // Parent'ı bilgilendir
+        void submitReadReceiptRef.current();
       } catch (err) {
         console.error("❌ Content could not be fetched after payment:", err);
         const fallback = ciphertext != null ? String((ciphertext as any)?.toString?.() ?? ciphertext) : "⚠️ Content could not be loaded";
@@ -2718,6 +3719,34 @@ export function MessageCard({
     fetchContentAfterPayment();
   }, [isPaymentSuccess, client, id, onMessageRead, userAddress, contractAddress, decryptCiphertext, ensureOnchainUnlocked, hasTimeCondition, timeReady]);
 
+  // Calldata-only contracts: read and decrypt directly, the envelope is verified against its on-chain hash
+  const loadContentFromLogs = async () => {
+    if (!client || !userAddress || !contractAddress) return;
+    setIsLoadingContent(true);
+    setDecryptError(null);
+    try {
+      const content = await readOnchainMessage(client, contractAddress, id, userAddress as `0x${string}`);
+      const decrypted = await decryptCiphertext(content);
+      setMessageContent(decrypted);
+      setIsExpanded(true);
+      setLocalIsRead(true);
+      setLocalUnlocked(true);
+
+      localStorage.setItem(`${cacheKey}-content-${id}`, decrypted);
+      localStorage.setItem(`${cacheKey}-read-${id}`, 'true');
+      localStorage.setItem(`${cacheKey}-expanded-${id}`, 'true');
+      localStorage.setItem(`${cacheKey}-unlocked-${id}`, 'true');
+
+      onMessageRead?.();
+      void submitReadReceiptRef.current();
+    } catch (err) {
+      console.error("❌ Content could not be rebuilt from logs:", err);
+      setDecryptError(`Unable to decrypt message: ${toReadableError(err)}`);
+    } finally {
+      setIsLoadingContent(false);
+    }
+  };
+
   const handleReadClick = async () => {
     if (isSent) {
       console.warn("❌ Cannot read own message");
@@ -2754,7 +3783,12 @@ export function MessageCard({
     }
 
     if (shouldAttachPayment) {
-      setDecryptError(`Payment of ${formatPaymentAmount(outstandingPayment, { includeUnit: true, zeroLabel: "0 ETH" })} is required before decrypting. Please complete the payment first.`);
+      setDecryptError(`Payment of ${formatPaymentAmount(outstandingPayment, { includeUnit: true, zeroLabel: paymentZeroLabel, unit: paymentUnit })} is required before decrypting. Please complete the payment first.`);
+      return;
+    }
+
+    if (storageFlavour === "calldata") {
+      await loadContentFromLogs();
       return;
     }
 
@@ -2928,7 +3962,11 @@ export function MessageCard({
             ))}
           </div>
           <div className="flex items-center gap-2">
-            {!isSent && (
+            {isExpired ? (
+              <div className="px-2 py-1 rounded-full text-xs font-semibold bg-red-500/20 text-red-300 border border-red-500/30">
+                ⌛ Expired
+              </div>
+            ) : !isSent && (
               <div className={`
                 px-2 py-1 rounded-full text-xs font-semibold
                 ${localUnlocked 
@@ -3085,6 +4123,12 @@ export function MessageCard({
           <div>
             <p className="text-sm font-semibold text-slate-300 mb-1">📥 Sender</p>
             <p className="font-mono text-xs text-slate-400 break-all">{sender}</p>
+            {isGuardianOnly && (
+              <>
+                <p className="text-sm font-semibold text-slate-300 mt-2 mb-1">📤 Receiver</p>
+                <p className="font-mono text-xs text-slate-400 break-all">{receiver}</p>
+              </>
+            )}
           </div>
         )}
         
@@ -3182,9 +4226,28 @@ export function MessageCard({
         {summarySection}
         
         {/* 🔐 Unlock Button - Kilitli mesajlar için */}
-        {!isSent && !localUnlocked && (
+        {!isSent && !isGuardianOnly && !localUnlocked && (
           <div className="mb-4 space-y-2">
-            {shouldAttachPayment ? (
+            {isExpired || isRevoked ? (
+              <div className="rounded-lg border border-red-500/30 bg-red-900/20 p-3 space-y-2">
+                <p className="text-sm text-red-300">
+                  {isRevoked
+                    ? "🚫 The sender revoked this message before it was unlocked."
+                    : "⌛ This message expired before it was unlocked and can no longer be opened."}
+                </p>
+                {refundAvailable && (
+                  <button
+                    onClick={handleClaimRefund}
+                    disabled={isClaimingRefund || !walletClient}
+                    className="w-full px-4 py-2 rounded-lg bg-slate-800 border border-red-400/40 text-red-200 text-sm font-semibold transition hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isClaimingRefund
+                      ? "Claiming refund..."
+                      : `Refund available · claim ${formatPaymentAmount(ownContribution, { zeroLabel: paymentZeroLabel, unit: paymentUnit })}`}
+                  </button>
+                )}
+              </div>
+            ) : shouldAttachPayment ? (
               <>
                 {!timeReady && !isSent && timeRequirementLabel && (
                   <div className="hidden text-xs text-slate-200 flex items-center gap-2 justify-center font-mono">
@@ -3201,12 +4264,16 @@ export function MessageCard({
                   {isPaymentActionPending ? (
                     <>
                       <span className="animate-spin">⟳</span>
-                      {isPaymentPending || isManualPaymentPending ? "Waiting for wallet..." : "Processing payment..."}
+                      {tokenPaymentStep === "approving"
+                        ? `Approving ${paymentUnit.symbol}...`
+                        : isPaymentPending || isManualPaymentPending
+                        ? "Waiting for wallet..."
+                        : "Processing payment..."}
                     </>
                   ) : (
                     <>
                       <span>💰</span>
-                      Pay {formatPaymentAmount(outstandingPayment, { zeroLabel: "0 ETH" })} to Unlock
+                      Pay {formatPaymentAmount(outstandingPayment, { zeroLabel: paymentZeroLabel, unit: paymentUnit })} to Unlock
                     </>
                   )}
                 </button>
@@ -3215,6 +4282,27 @@ export function MessageCard({
                     Connect your wallet on the correct network to complete the payment.
                   </p>
                 )}
+                {protocolFeeLabel && (
+                  <div className="rounded-md border border-slate-700/60 bg-slate-900/40 px-3 py-2 text-xs text-slate-300 space-y-1">
+                    <div className="flex justify-between">
+                      <span>Sender receives</span>
+                      <span className="font-mono">
+                        {formatPaymentAmount(splitPayment(outstandingPayment, protocolFeeBpsOnchain).net, { zeroLabel: paymentZeroLabel, unit: paymentUnit })}
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Protocol fee ({protocolFeeLabel})</span>
+                      <span className="font-mono">
+                        {formatPaymentAmount(splitPayment(outstandingPayment, protocolFeeBpsOnchain).fee, { zeroLabel: paymentZeroLabel, unit: paymentUnit })}
+                      </span>
+                    </div>
+                  </div>
+                )}
+                <p className="text-xs text-slate-400">
+                  {paymentIsNative
+                    ? "Your payment is held in escrow until the message unlocks, then credited to the sender. It is refundable if the message is revoked or expires first."
+                    : `Paying in ${paymentUnit.symbol}: your wallet will ask to approve the token first if needed. The payment is held in escrow until the message unlocks.`}
+                </p>
               </>
             ) : (
               <div className="space-y-2">
@@ -3248,6 +4336,31 @@ export function MessageCard({
                       <span className="animate-pulse">⏳</span>
                       Loading metadata...
                     </>
+                  ) : !dependencyReady && !hasUnlockExpression ? (
+                    <>
+                      <span>🔗</span>
+                      Waiting for the linked message
+                    </>
+                  ) : !consentReady && !hasUnlockExpression ? (
+                    <>
+                      <span>✋</span>
+                      Waiting for sender consent
+                    </>
+                  ) : hasUnlockExpression && !expressionUnlocked ? (
+                    <>
+                      <span>🧩</span>
+                      Unlock conditions not met yet
+                    </>
+                  ) : !guardiansReady && !hasUnlockExpression ? (
+                    <>
+                      <span>🛡️</span>
+                      Waiting for guardian approvals
+                    </>
+                  ) : !heartbeatReady && !hasUnlockExpression ? (
+                    <>
+                      <span>💓</span>
+                      Sender is still checking in
+                    </>
                   ) : !timeReady ? (
                     <>
                       <span>⏳</span>
@@ -3264,12 +4377,24 @@ export function MessageCard({
                 </button>
               </div>
             )}
-            {timeRequirementLabel && (
+            {timeRequirementLabel && !isExpired && (
               <p className="text-xs text-slate-300 flex items-start gap-2 mt-2">
                 <span>⏳</span>
                 <span>{timeRequirementLabel}</span>
               </p>
             )}
+            {expiryLabel && !isExpired && (
+              <p className="text-xs text-red-300/80 flex items-start gap-2">
+                <span>⌛</span>
+                <span>{expiryLabel}</span>
+              </p>
+            )}
+            {heartbeatLabel && !isExpired && (
+              <p className="text-xs text-rose-300/80 flex items-start gap-2">
+                <span>💓</span>
+                <span>{heartbeatLabel}</span>
+              </p>
+            )}
             {(decryptError || preparePaymentError) && (
               <p className="text-xs text-red-400">
                 {decryptError ?? `Payment could not be prepared: ${toReadableError(preparePaymentError)}`}
@@ -3304,6 +4429,10 @@ export function MessageCard({
               return null;
             })()}
           </div>
+        ) : isGuardianOnly ? (
+          <p className="italic text-sky-300/70 flex items-center gap-2">
+            <span>🛡️</span> You are a guardian for this message. Only the receiver can read it.
+          </p>
         ) : localUnlocked ? (
           <div className="space-y-2">
             {localIsRead && !messageContent && isLoadingContent ? (
@@ -3357,6 +4486,17 @@ export function MessageCard({
                     </span>
                   )}
                 </button>
+                {userAddress && (
+                  <label className="flex items-center gap-2 text-xs text-slate-400">
+                    <input
+                      type="checkbox"
+                      checked={readReceiptsEnabled}
+                      onChange={(event) => handleReadReceiptsToggle(event.target.checked)}
+                      className="accent-green-500"
+                    />
+                    Let the sender know when I read messages (sends an on-chain read receipt)
+                  </label>
+                )}
               </>
             ) : messageContent ? (
               // İçerik yüklenmiş, göster
@@ -3578,10 +4718,20 @@ export function MessageCard({
                 {localIsRead && (
                   <p className="text-xs text-green-400 flex items-center gap-1">
                     <span>✓</span> Read
+                    {acknowledgedAtOnchain > 0n && <span className="text-green-400/70">· receipt sent to sender</span>}
                   </p>
                 )}
               </div>
             ) : null}
+            {previousKeyNotice && (
+              <div className="rounded-lg border border-amber-500/30 bg-amber-900/20 px-3 py-2 text-xs text-amber-200">
+                🗝️ This message was sealed to your previous encryption key
+                {previousKeyNotice.count > 0 ? ` (version ${previousKeyNotice.version} of ${previousKeyNotice.count})` : ""}.
+                {previousKeyNotice.unavailable
+                  ? " That key is not available in this browser. Open the message where you used that key before."
+                  : " Keys this browser derived earlier will be tried when you open it."}
+              </div>
+            )}
             {decryptError && (
               <div className="rounded-lg border border-red-500/30 bg-red-900/20 px-3 py-2 text-xs text-red-200">
                 {decryptError}
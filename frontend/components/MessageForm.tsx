@@ -11,12 +11,49 @@ import * as secp256k1 from "@noble/secp256k1";
 import { sha256 } from "@noble/hashes/sha2.js";
 import { sealedMessageAbi } from "../lib/sealedMessageAbi"; // ✅ v7: Metadata preview
 import { appConfig } from "../lib/env";
-import { decodeEventLog, isAddress, formatUnits } from "viem";
+import { decodeEventLog, isAddress, formatUnits, parseUnits } from "viem";
 import { useContractAddress, useHasContract } from "../lib/useContractAddress";
 import { AttachmentBadge } from "./MessagePreview";
+import { formatCheckInInterval } from "./CheckInPanel";
 import { aesGcmEncryptMessage, aesGcmEncryptBytes, bytesToHex, hexToBytes } from "../lib/encryption";
 import { generateFallbackKeyPair } from "../lib/fallbackKey";
 import { getOrCreateEncryptionKey } from "../lib/keyAgreement";
+import { encapsulateEscrowKey } from "../lib/escrowKem";
+import { createThresholdEscrow, depositThresholdEscrow, fetchEscrowOperators } from "../lib/thresholdEscrow";
+import { ZERO_ADDRESS } from "../lib/chains";
+import { getSealedMessageDomain } from "../lib/guardianApproval";
+import { RECEIVER_ENVELOPE_TYPES } from "../lib/escrowEnvelope";
+import {
+  SEND_MESSAGE_TYPES,
+  relayDeadline,
+  submitRelayRequest,
+  toSendMessageArgs,
+  type SendMessageParams
+} from "../lib/metaTx";
+import {
+  getNativePaymentUnit,
+  getPaymentTokens,
+  isNativePaymentToken,
+  resolvePaymentUnit,
+  type PaymentUnit
+} from "../lib/paymentTokens";
+import { formatFeeBps, readProtocolFees, splitPayment, type ProtocolFees } from "../lib/protocolFees";
+import {
+  CONDITION_CONSENT,
+  CONDITION_DEPENDENCY,
+  CONDITION_GUARDIANS,
+  CONDITION_HEARTBEAT,
+  CONDITION_PAYMENT,
+  CONDITION_TIME,
+  DEPENDENCY_ACKNOWLEDGED,
+  FLAG_KEY_RELEASE,
+  DEPENDENCY_UNLOCKED,
+  MAX_UNLOCK_CLAUSES,
+  clauseBits,
+  conditionLabel,
+  describeExpression,
+  validateUnlockClauses
+} from "../lib/conditions";
 
 dayjs.extend(utc);
 dayjs.extend(timezone);
@@ -27,6 +64,7 @@ const EUINT256_BYTE_CAP = 32;
 const utf8Encoder = typeof TextEncoder !== "undefined" ? new TextEncoder() : undefined;
 const ZERO_BYTES32 = ("0x" + "00".repeat(32)) as `0x${string}`;
 const MAX_ATTACHMENT_BYTES = 1 * 1024 * 1024; // 1 MB sınırı
+const MAX_GUARDIANS = 16; // SealedMessage.MAX_GUARDIANS ile aynı
 
 type EncryptedPayload = {
   uri: string;
@@ -45,6 +83,7 @@ type EncryptedPayload = {
   escrowIv: `0x${string}`;
   escrowAuthTag: `0x${string}`;
   escrowKeyVersion: number;
+  encryptionKeyVersion: number;
   receiverEnvelope: {
     ciphertext: `0x${string}`;
     iv: `0x${string}`;
@@ -161,8 +200,195 @@ export function MessageForm({ onSubmitted }: MessageFormProps) {
   const [paymentEnabled, setPaymentEnabled] = useState(false);
   const [paymentInputMode, setPaymentInputMode] = useState<"ETH" | "Wei">("ETH"); // User-friendly input
   const [paymentInputValue, setPaymentInputValue] = useState<string>(""); // Görünen değer
+  // Ödeme birimi: ZERO_ADDRESS = native ETH, aksi halde ERC-20 adresi veya "custom"
+  const [paymentTokenChoice, setPaymentTokenChoice] = useState<string>(ZERO_ADDRESS);
+  const [customPaymentToken, setCustomPaymentToken] = useState<string>("");
+  const [paymentUnit, setPaymentUnit] = useState<PaymentUnit | null>(() => getNativePaymentUnit());
+  const [paymentUnitError, setPaymentUnitError] = useState<string | null>(null);
+  // ⌛ Expiry: ödeme bu süre içinde tamamlanmazsa mesaj geçersiz olur, kısmi ödemeler iade edilebilir
+  const [expiryEnabled, setExpiryEnabled] = useState(false);
+  const [expiryWindowSeconds, setExpiryWindowSeconds] = useState<number>(604800);
+  const expiryActive = paymentEnabled && expiryEnabled;
+  // 💓 Dead man's switch: gönderici bu aralıkta check-in yapmazsa mesaj alıcıya açılır
+  const [heartbeatEnabled, setHeartbeatEnabled] = useState(false);
+  const [checkInIntervalSeconds, setCheckInIntervalSeconds] = useState<number>(2592000);
+  // 🛡️ Guardian onayı: N guardian'dan M tanesi onaylayınca mesaj açılır
+  const [guardiansEnabled, setGuardiansEnabled] = useState(false);
+  const [guardianInput, setGuardianInput] = useState<string>("");
+  const [guardianThreshold, setGuardianThreshold] = useState<number>(1);
+  // ✋ Gönderici onayı: gönderici mesajı istediği an serbest bırakabilir
+  const [consentEnabled, setConsentEnabled] = useState(false);
+  const [keyReleaseEnabled, setKeyReleaseEnabled] = useState(false);
+  // 🔗 Zincirleme mesaj: başka bir mesaj açılınca (veya okununca) açılır
+  const [dependencyEnabled, setDependencyEnabled] = useState(false);
+  const [dependsOnInput, setDependsOnInput] = useState<string>("");
+  const [dependencyKind, setDependencyKind] = useState<number>(DEPENDENCY_UNLOCKED);
+  const [dependencyStatus, setDependencyStatus] = useState<"idle" | "checking" | "found" | "missing">("idle");
+  // Koşulların birleşimi: hepsi (AND), herhangi biri (OR) veya özel clause listesi
+  const [unlockLogic, setUnlockLogic] = useState<"all" | "any" | "custom">("all");
+  const [customClauses, setCustomClauses] = useState<number[]>([0]);
+
+  const availablePaymentTokens = useMemo(() => getPaymentTokens(chain?.id), [chain?.id]);
+  const guardianAddresses = useMemo(
+    () => guardianInput.split(/[\s,;]+/).map((entry) => entry.trim()).filter((entry) => entry.length > 0),
+    [guardianInput]
+  );
+  const guardianError = useMemo(() => {
+    if (!guardiansEnabled) {
+      return null;
+    }
+    if (guardianAddresses.length === 0) {
+      return "Add at least one guardian address.";
+    }
+    if (guardianAddresses.length > MAX_GUARDIANS) {
+      return `At most ${MAX_GUARDIANS} guardians are supported.`;
+    }
+    const invalid = guardianAddresses.find((entry) => !isAddress(entry));
+    if (invalid) {
+      return `Invalid guardian address: ${invalid}`;
+    }
+    const lowered = guardianAddresses.map((entry) => entry.toLowerCase());
+    if (new Set(lowered).size !== lowered.length) {
+      return "Guardian addresses must be unique.";
+    }
+    if (receiver && lowered.includes(receiver.toLowerCase())) {
+      return "The receiver cannot be one of the guardians.";
+    }
+    if (guardianThreshold < 1 || guardianThreshold > guardianAddresses.length) {
+      return `Required approvals must be between 1 and ${guardianAddresses.length}.`;
+    }
+    return null;
+  }, [guardiansEnabled, guardianAddresses, guardianThreshold, receiver]);
+  const guardianArgs = guardiansEnabled ? (guardianAddresses as `0x${string}`[]) : [];
+  const guardianThresholdArg = guardiansEnabled ? guardianThreshold : 0;
+
+  // Seçili koşullardan unlock ifadesi (OR over clauses, her clause AND)
+  const selectedUnlockMask =
+    (timeConditionEnabled ? CONDITION_TIME : 0) |
+    (paymentEnabled ? CONDITION_PAYMENT : 0) |
+    (heartbeatEnabled ? CONDITION_HEARTBEAT : 0) |
+    (guardiansEnabled ? CONDITION_GUARDIANS : 0) |
+    (consentEnabled ? CONDITION_CONSENT : 0) |
+    (dependencyEnabled ? CONDITION_DEPENDENCY : 0);
+  const selectedUnlockBits = useMemo(() => clauseBits(selectedUnlockMask), [selectedUnlockMask]);
+  const selectedClauses = useMemo(() => {
+    if (unlockLogic === "any") {
+      return selectedUnlockBits;
+    }
+    if (unlockLogic === "custom") {
+      return customClauses.map((clause) => clause & selectedUnlockMask);
+    }
+    return [];
+  }, [unlockLogic, selectedUnlockBits, customClauses, selectedUnlockMask]);
+  const dependsOnValid = /^\d+$/.test(dependsOnInput.trim());
+  const dependencyError = !dependencyEnabled
+    ? null
+    : !dependsOnValid
+    ? "Enter the id of the message this one follows."
+    : dependencyStatus === "missing"
+    ? `Message #${dependsOnInput.trim()} does not exist on this network.`
+    : null;
+  const dependsOnArg = dependencyEnabled && dependsOnValid ? BigInt(dependsOnInput.trim()) : 0n;
+
+  // Zincirlenen mesajın var olduğunu kontrol et (contract da doğrular)
+  useEffect(() => {
+    const trimmed = dependsOnInput.trim();
+    if (!dependencyEnabled || !/^\d+$/.test(trimmed) || !publicClient || !contractAddress) {
+      setDependencyStatus("idle");
+      return;
+    }
+
+    let cancelled = false;
+    setDependencyStatus("checking");
+    publicClient.readContract({
+      address: contractAddress,
+      abi: sealedMessageAbi,
+      functionName: "getMessageDependency",
+      args: [BigInt(trimmed)]
+    })
+      .then(() => {
+        if (!cancelled) setDependencyStatus("found");
+      })
+      .catch(() => {
+        if (!cancelled) setDependencyStatus("missing");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dependencyEnabled, dependsOnInput, publicClient, contractAddress]);
+  const dependencyKindArg = dependencyEnabled ? dependencyKind : 0;
+
+  // Operatör ücretleri imzadan önce gösterilir (sendFee + ödeme başına protocolFeeBps)
+  const [protocolFees, setProtocolFees] = useState<ProtocolFees | null>(null);
+  useEffect(() => {
+    if (!publicClient || !contractAddress) {
+      setProtocolFees(null);
+      return;
+    }
+
+    let cancelled = false;
+    readProtocolFees(publicClient, contractAddress as `0x${string}`)
+      .then((fees) => {
+        if (!cancelled) setProtocolFees(fees);
+      })
+      .catch((err) => {
+        console.warn("⚠️ Protocol fee lookup failed", err);
+        if (!cancelled) setProtocolFees(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [publicClient, contractAddress]);
+  const sendFee = protocolFees?.sendFee ?? 0n;
+  const nativeUnit = getNativePaymentUnit(chain?.id);
+
+  const unlockLogicError = selectedUnlockBits.length > 1 ? validateUnlockClauses(selectedClauses, selectedUnlockMask) : null;
+  const paymentTokenAddress = paymentTokenChoice === "custom" ? customPaymentToken.trim() : paymentTokenChoice;
+  const paymentIsNative = isNativePaymentToken(paymentTokenAddress);
+  const paymentUnitSymbol = paymentUnit?.symbol ?? "?";
+  const paymentUnitDecimals = paymentUnit?.decimals ?? 18;
+
+  // Token değişince birim bilgisini (symbol/decimals) çöz ve girilen tutarı sıfırla
+  useEffect(() => {
+    setPaymentAmount("");
+    setPaymentInputValue("");
+    setPaymentUnitError(null);
+
+    if (paymentIsNative) {
+      setPaymentUnit(getNativePaymentUnit(chain?.id));
+      return;
+    }
+    if (!isAddress(paymentTokenAddress) || !publicClient) {
+      setPaymentUnit(null);
+      return;
+    }
+
+    let cancelled = false;
+    setPaymentUnit(null);
+    resolvePaymentUnit(publicClient, paymentTokenAddress, chain?.id)
+      .then((unit) => {
+        if (!cancelled) {
+          setPaymentUnit(unit);
+        }
+      })
+      .catch((err) => {
+        console.warn("⚠️ Payment token lookup failed", err);
+        if (!cancelled) {
+          setPaymentUnitError("Token could not be read. Make sure this is an ERC-20 contract on the current network.");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [paymentTokenAddress, paymentIsNative, publicClient, chain?.id]);
+
   const [receiverEncryptionKey, setReceiverEncryptionKey] = useState<string>("");
   const [receiverKeySource, setReceiverKeySource] = useState<"registered" | "fallback" | null>(null);
+  // Version of receiverEncryptionKey in the receiver's key history (0 = fallback key)
+  const [receiverKeyVersion, setReceiverKeyVersion] = useState(0);
   const [isSubmitting, setIsSubmitting] = useState(false); // Prevent double submission
   const [isLoadingReceiverKey, setIsLoadingReceiverKey] = useState(false);
   const [mounted, setMounted] = useState(false);
@@ -268,30 +494,41 @@ export function MessageForm({ onSubmitted }: MessageFormProps) {
     if (!mounted || !receiver || !isAddress(receiver) || !contractAddress || !publicClient) {
       setReceiverEncryptionKey("");
       setReceiverKeySource(null);
+      setReceiverKeyVersion(0);
       return;
     }
 
     const loadReceiverKey = async () => {
       setIsLoadingReceiverKey(true);
       try {
-        // Query contract for registered key
-        const registeredKey = await publicClient.readContract({
+        // Query contract for the latest registered key; its version goes on-chain with the message
+        const keyCount = Number(await publicClient.readContract({
           address: contractAddress as `0x${string}`,
           abi: sealedMessageAbi,
-          functionName: "getEncryptionKey",
+          functionName: "getEncryptionKeyCount",
           args: [receiver as `0x${string}`]
-        }) as `0x${string}`;
+        }));
+        const [registeredKey] = keyCount > 0
+          ? await publicClient.readContract({
+              address: contractAddress as `0x${string}`,
+              abi: sealedMessageAbi,
+              functionName: "getEncryptionKeyAt",
+              args: [receiver as `0x${string}`, BigInt(keyCount)]
+            })
+          : [undefined];
 
         if (registeredKey && registeredKey !== "0x" && registeredKey.length > 4) {
           // Registered key found
           setReceiverEncryptionKey(registeredKey);
           setReceiverKeySource("registered");
+          setReceiverKeyVersion(keyCount);
         } else {
           // No registered key, use fallback
           const fallbackPair = generateFallbackKeyPair(receiver);
           const fallbackKeyHex = bytesToHex(fallbackPair.publicKey) as `0x${string}`;
           setReceiverEncryptionKey(fallbackKeyHex);
           setReceiverKeySource("fallback");
+          setReceiverKeyVersion(0);
         }
       } catch (err) {
         console.error("❌ Failed to load receiver key:", err);
@@ -301,6 +538,7 @@ export function MessageForm({ onSubmitted }: MessageFormProps) {
         const fallbackKeyHex = bytesToHex(fallbackPair.publicKey) as `0x${string}`;
         setReceiverEncryptionKey(fallbackKeyHex);
         setReceiverKeySource("fallback");
+        setReceiverKeyVersion(0);
       } finally {
         setIsLoadingReceiverKey(false);
       }
@@ -669,8 +907,42 @@ export function MessageForm({ onSubmitted }: MessageFormProps) {
       throw new Error("No content to encrypt");
     }
 
-    const sessionKey = crypto.getRandomValues(new Uint8Array(32));
-    const sessionKeyHex = bytesToHex(sessionKey) as `0x${string}`;
+    let sessionKey: Uint8Array;
+    let escrowCiphertextHex: `0x${string}`;
+    let escrowIvHex: `0x${string}`;
+    let escrowAuthTagHex: `0x${string}`;
+    let escrowKeyVersion: number;
+    if (appConfig.escrow.operatorUrls.length > 0) {
+      // Threshold escrow: k-of-n shares sealed to independent operators, only a manifest hash goes on-chain
+      const operators = await fetchEscrowOperators(appConfig.escrow.operatorUrls);
+      sessionKey = crypto.getRandomValues(new Uint8Array(32));
+      const thresholdEscrow = await createThresholdEscrow(sessionKey, operators, appConfig.escrow.threshold);
+      await depositThresholdEscrow(thresholdEscrow.manifest, operators);
+      ({
+        escrowCiphertext: escrowCiphertextHex,
+        escrowIv: escrowIvHex,
+        escrowAuthTag: escrowAuthTagHex,
+        escrowKeyVersion
+      } = thresholdEscrow);
+    } else {
+      // The session key comes out of the escrow KEM: the escrow can rebuild it after unlock, the server never sees it
+      const escrowKeyResponse = await fetch("/api/escrow/public-key");
+      if (!escrowKeyResponse.ok) {
+        const text = await escrowKeyResponse.text();
+        throw new Error(`Escrow public key unavailable: ${escrowKeyResponse.status} ${text}`);
+      }
+      const escrowKeyJson = await escrowKeyResponse.json();
+      if (!escrowKeyJson?.ok || !escrowKeyJson?.publicKey) {
+        throw new Error("Escrow public key response missing payload");
+      }
+      escrowKeyVersion = Number(escrowKeyJson.keyVersion);
+      ({
+        sessionKey,
+        escrowCiphertext: escrowCiphertextHex,
+        escrowIv: escrowIvHex,
+        escrowAuthTag: escrowAuthTagHex
+      } = encapsulateEscrowKey(escrowKeyJson.publicKey as `0x${string}`, escrowKeyVersion));
+    }
     const sessionKeyCommitment = ethers.keccak256(sessionKey) as `0x${string}`;
 
     // Create wallet client for signature
@@ -714,41 +986,19 @@ export function MessageForm({ onSubmitted }: MessageFormProps) {
       ])
     ) as `0x${string}`;
 
-    const wrapResponse = await fetch("/api/escrow/wrap", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        sessionKeyHex,
+    // The server only stores the envelope for the wallet that signs for it, and freezes it once the message is sent
+    const envelopeSender = (await signer.getAddress()) as `0x${string}`;
+    const { chainId: envelopeChainId } = await provider.getNetwork();
+    const envelopeSignature = await signer.signTypedData(
+      getSealedMessageDomain(Number(envelopeChainId), contractAddress as `0x${string}`),
+      RECEIVER_ENVELOPE_TYPES as unknown as Record<string, ethers.TypedDataField[]>,
+      {
+        sender: envelopeSender,
         sessionKeyCommitment,
-        metadataShortHash: resolvedShortHash ?? null
-      })
-    });
-
-    if (!wrapResponse.ok) {
-      const text = await wrapResponse.text();
-      throw new Error(`Escrow wrap failed: ${wrapResponse.status} ${text}`);
-    }
-
-    const wrapJson = await wrapResponse.json();
-    if (!wrapJson?.ok || !wrapJson?.wrap) {
-      throw new Error("Escrow wrap response missing payload");
-    }
-
-    const escrowCiphertextHex = wrapJson.wrap.ciphertext as string;
-    const escrowIvHex = wrapJson.wrap.iv as string;
-    const escrowAuthTagHex = wrapJson.wrap.authTag as string;
-    const escrowKeyVersion = Number(wrapJson.wrap.keyVersion ?? 1);
-
-    if (!escrowCiphertextHex || !escrowIvHex || !escrowAuthTagHex) {
-      throw new Error("Escrow wrap returned incomplete data");
-    }
-
-    const escrowCipherBytes = ethers.getBytes(escrowCiphertextHex);
-    const escrowIvBytes = ethers.getBytes(escrowIvHex);
-    const escrowAuthTagBytes = ethers.getBytes(escrowAuthTagHex);
-    if (escrowCipherBytes.length !== 32 || escrowIvBytes.length !== 12 || escrowAuthTagBytes.length !== 16) {
-      throw new Error("Escrow wrap lengths are invalid");
-    }
+        receiverEnvelopeHash,
+        ciphertextHash
+      }
+    );
 
     const envelopeResponse = await fetch("/api/escrow/envelope", {
       method: "POST",
@@ -760,6 +1010,9 @@ export function MessageForm({ onSubmitted }: MessageFormProps) {
         metadataShortHash: resolvedShortHash ?? null,
         metadataKeccak: uploadedMetadataKeccak ?? null,
         senderPublicKey: senderPublicKeyHex,
+        sender: envelopeSender,
+        chainId: Number(envelopeChainId),
+        signature: envelopeSignature,
         envelope: {
           ciphertext: receiverEnvelopeCipherHex,
           iv: receiverEnvelopeIvHex,
@@ -792,10 +1045,11 @@ export function MessageForm({ onSubmitted }: MessageFormProps) {
       ciphertextBytes: combinedCiphertext.length,
       sessionKeyCommitment,
       receiverEnvelopeHash,
-      escrowCiphertext: escrowCiphertextHex as `0x${string}`,
-      escrowIv: escrowIvHex as `0x${string}`,
-      escrowAuthTag: escrowAuthTagHex as `0x${string}`,
+      escrowCiphertext: escrowCiphertextHex,
+      escrowIv: escrowIvHex,
+      escrowAuthTag: escrowAuthTagHex,
       escrowKeyVersion,
+      encryptionKeyVersion: receiverKeyVersion,
       receiverEnvelope: {
         ciphertext: receiverEnvelopeCipherHex,
         iv: receiverEnvelopeIvHex,
@@ -825,8 +1079,9 @@ export function MessageForm({ onSubmitted }: MessageFormProps) {
     // Time validation only required if time condition is enabled
     const timeValid = !timeConditionEnabled || (plannedUnlockTimestamp > nowSeconds && customValid);
     
-    // At least one condition must be enabled (time or payment)
-    const hasCondition = timeConditionEnabled || paymentEnabled;
+    // At least one condition must be enabled (time, payment, check-in or guardians)
+    const hasCondition = timeConditionEnabled || paymentEnabled || heartbeatEnabled || guardiansEnabled || consentEnabled || dependencyEnabled;
+    const paymentTokenValid = !paymentEnabled || paymentUnit !== null;
     
     valid = isConnected &&
       !!receiver &&
@@ -835,6 +1090,10 @@ export function MessageForm({ onSubmitted }: MessageFormProps) {
       (content.trim().length > 0 || ipfsHash.length > 0) && // Mesaj VEYA dosya olmalı
       isReceiverKeyValid &&
       timeValid &&
+      paymentTokenValid &&
+      guardianError === null &&
+      unlockLogicError === null &&
+      dependencyError === null &&
       hasCondition; // En az bir koşul olmalı
     
     setIsFormValid(valid);
@@ -850,7 +1109,15 @@ export function MessageForm({ onSubmitted }: MessageFormProps) {
     unlock,
     selectedTimezone,
     timeConditionEnabled,
-    paymentEnabled
+    paymentEnabled,
+    paymentUnit,
+    heartbeatEnabled,
+    guardiansEnabled,
+    guardianError,
+    consentEnabled,
+    unlockLogicError,
+    dependencyEnabled,
+    dependencyError
   ]);
   
   const generateAttachmentPreview = useCallback((file: File): Promise<string | null> => {
@@ -1197,16 +1464,48 @@ export function MessageForm({ onSubmitted }: MessageFormProps) {
     if (paymentEnabled && paymentAmount && BigInt(paymentAmount) > 0n) {
       mask |= 0x02; // Payment condition active
     }
+
+    // Expiry: only meaningful on top of a payment condition
+    if ((mask & 0x02) !== 0 && expiryActive) {
+      mask |= 0x04;
+    }
+
+    // Heartbeat: unlocks once the sender misses a check-in
+    if (heartbeatEnabled) {
+      mask |= 0x08;
+    }
+
+    // Guardians: M-of-N approvals required
+    if (guardiansEnabled) {
+      mask |= 0x10;
+    }
+
+    // Consent: the sender releases the message manually
+    if (consentEnabled) {
+      mask |= 0x20;
+    }
+
+    // Dependency: chained to another message
+    if (dependencyEnabled) {
+      mask |= 0x40;
+    }
     
     // If no conditions selected (shouldn't happen due to validation), default to time-only
     // Otherwise return the actual mask (0x01=time, 0x02=payment, 0x03=both)
     if (mask === 0) {
       console.warn("⚠️ No conditions selected, defaulting to time-only");
-      return 0x01;
+      mask = 0x01;
     }
-    
-    return mask;
-  }, [timeConditionEnabled, preparedUnlockTime, paymentEnabled, paymentAmount]);
+
+    // Key release: opt-in, lets the escrow release service publish the session key once unlocked
+    return keyReleaseEnabled ? mask | FLAG_KEY_RELEASE : mask;
+  }, [timeConditionEnabled, preparedUnlockTime, paymentEnabled, paymentAmount, expiryActive, heartbeatEnabled, guardiansEnabled, consentEnabled, dependencyEnabled, keyReleaseEnabled]);
+
+  // Mask'tan düşen koşullar (ör. geçmişte kalan zaman) clause'lardan da çıkarılır; tek koşulda ifade gerekmez
+  const unlockClausesArg = useMemo(() => {
+    const clauses = selectedClauses.map((clause) => clause & conditionMask).filter((clause) => clause !== 0);
+    return clauses.length > 1 ? clauses : [];
+  }, [selectedClauses, conditionMask]);
   
   // Sealed Contract Write - AES-256-GCM encrypted with payment support
   const { config: configSealed, error: prepareError } = usePrepareContractWrite({
@@ -1227,11 +1526,21 @@ export function MessageForm({ onSubmitted }: MessageFormProps) {
           encryptedData.sessionKeyCommitment,                                  // commitment of session key
           encryptedData.receiverEnvelopeHash,                                  // receiver envelope hash (ECDH)
           encryptedData.escrowKeyVersion,                                      // escrow key version
+          encryptedData.encryptionKeyVersion,                                  // receiver key version (0 = fallback key)
           BigInt(preparedUnlockTime),                                          // unlockTime
+          BigInt(expiryActive ? preparedUnlockTime + expiryWindowSeconds : 0), // expiresAt (0 = no expiry)
+          BigInt(heartbeatEnabled ? checkInIntervalSeconds : 0),               // checkInInterval (0 = no dead man's switch)
           BigInt(paymentAmount || '0'),                                        // requiredPayment
-          conditionMask                                                         // conditionMask
+          (paymentEnabled && !paymentIsNative ? paymentTokenAddress : ZERO_ADDRESS) as `0x${string}`, // paymentToken (0x0 = ETH)
+          conditionMask,                                                        // conditionMask
+          guardianArgs,                                                         // guardians (empty = none)
+          guardianThresholdArg,                                                 // required guardian approvals
+          unlockClausesArg,                                                     // unlock clauses (empty = all conditions)
+          dependsOnArg,                                                         // chained message id
+          dependencyKindArg                                                     // 1 = unlocks, 2 = acknowledged
         ]
       : undefined,
+    value: sendFee,
     enabled: shouldPrepare && isSealedContract
   });
 
@@ -1476,8 +1785,24 @@ export function MessageForm({ onSubmitted }: MessageFormProps) {
     }
     
     // At least one condition must be selected
-    if (!timeConditionEnabled && !paymentEnabled) {
-      setError("❌ Please enable at least one unlock condition (Time or Payment).");
+    if (!timeConditionEnabled && !paymentEnabled && !heartbeatEnabled && !guardiansEnabled && !consentEnabled && !dependencyEnabled) {
+      setError("❌ Please enable at least one unlock condition (Time, Payment, Check-in, Guardians, Consent or Linked message).");
+      return;
+    }
+    if (dependencyError) {
+      setError(`❌ ${dependencyError}`);
+      return;
+    }
+    if (unlockLogicError) {
+      setError(`❌ ${unlockLogicError}`);
+      return;
+    }
+    if (guardianError) {
+      setError(`❌ ${guardianError}`);
+      return;
+    }
+    if (paymentEnabled && !paymentUnit) {
+      setError("❌ Payment token is not valid on this network.");
       return;
     }
     
@@ -1570,26 +1895,66 @@ export function MessageForm({ onSubmitted }: MessageFormProps) {
         const signer = await provider.getSigner();
         const contract = new ethers.Contract(contractAddress as string, sealedMessageAbi, signer);
 
-        const tx = await contract.sendMessage(
-          receiver as `0x${string}`,
-          encrypted.uri,
-          encrypted.iv,
-          encrypted.authTag,
-          encrypted.ciphertextHash,
-          encrypted.metadataKeccak ?? ethers.ZeroHash,
-          encrypted.escrowCiphertext,
-          encrypted.escrowIv,
-          encrypted.escrowAuthTag,
-          encrypted.sessionKeyCommitment,
-          encrypted.receiverEnvelopeHash,
-          encrypted.escrowKeyVersion,
-          BigInt(safeUnlockForTx),
-          BigInt(paymentAmount || '0'),
-          conditionMask
-        );
-        setError(`⏳ Transaction sent: ${tx.hash.slice(0, 10)}...`);
-        
-        const receipt = await tx.wait();
+        const messageParams: SendMessageParams = {
+          receiver: receiver as `0x${string}`,
+          uri: encrypted.uri,
+          iv: encrypted.iv as `0x${string}`,
+          authTag: encrypted.authTag as `0x${string}`,
+          ciphertextHash: encrypted.ciphertextHash as `0x${string}`,
+          metadataHash: (encrypted.metadataKeccak ?? ethers.ZeroHash) as `0x${string}`,
+          escrowCiphertext: encrypted.escrowCiphertext as `0x${string}`,
+          escrowIv: encrypted.escrowIv as `0x${string}`,
+          escrowAuthTag: encrypted.escrowAuthTag as `0x${string}`,
+          sessionKeyCommitment: encrypted.sessionKeyCommitment as `0x${string}`,
+          receiverEnvelopeHash: encrypted.receiverEnvelopeHash as `0x${string}`,
+          escrowKeyVersion: encrypted.escrowKeyVersion,
+          encryptionKeyVersion: encrypted.encryptionKeyVersion,
+          unlockTime: BigInt(safeUnlockForTx),
+          expiresAt: BigInt(expiryActive ? safeUnlockForTx + expiryWindowSeconds : 0),
+          checkInInterval: BigInt(heartbeatEnabled ? checkInIntervalSeconds : 0),
+          requiredPayment: BigInt(paymentAmount || '0'),
+          paymentToken: (paymentEnabled && !paymentIsNative ? paymentTokenAddress : ZERO_ADDRESS) as `0x${string}`,
+          conditionMask,
+          guardians: guardianArgs,
+          guardianThreshold: guardianThresholdArg,
+          unlockClauses: unlockClausesArg,
+          dependsOn: dependsOnArg,
+          dependencyKind: dependencyKindArg
+        };
+
+        // ⛽ Bakiyesi sıfır olan kullanıcılar için imzala + relayer üzerinden gönder
+        const senderAddress = (await signer.getAddress()) as `0x${string}`;
+        const balance = await provider.getBalance(senderAddress);
+        let receipt: ethers.TransactionReceipt | null;
+        if (balance === 0n) {
+          const { chainId } = await provider.getNetwork();
+          const nonce = (await contract.nonces(senderAddress)) as bigint;
+          const deadline = relayDeadline();
+          setError("✍️ No gas in your wallet: sign the message and our relayer will submit it for you.");
+          const signature = (await signer.signTypedData(
+            getSealedMessageDomain(Number(chainId), contractAddress as `0x${string}`),
+            SEND_MESSAGE_TYPES as unknown as Record<string, ethers.TypedDataField[]>,
+            { sender: senderAddress, params: messageParams, nonce, deadline }
+          )) as `0x${string}`;
+          const relayed = await submitRelayRequest({
+            action: "sendMessage",
+            chainId: Number(chainId),
+            sender: senderAddress,
+            params: messageParams,
+            deadline,
+            signature
+          });
+          setError(`⏳ Relayed transaction sent: ${relayed.txHash.slice(0, 10)}... (${relayed.remaining} free sends left today)`);
+          receipt = await provider.waitForTransaction(relayed.txHash);
+        } else {
+          const currentSendFee = (await contract.sendFee()) as bigint;
+          const tx = await contract.sendMessage(...toSendMessageArgs(messageParams), { value: currentSendFee });
+          setError(`⏳ Transaction sent: ${tx.hash.slice(0, 10)}...`);
+          receipt = await tx.wait();
+        }
+        if (!receipt || receipt.status !== 1) {
+          throw new Error("Transaction reverted");
+        }
         // Extract message ID from MessageSealed event and save metadata CID
         try {
           const iface = new ethers.Interface(sealedMessageAbi);
@@ -1775,7 +2140,7 @@ export function MessageForm({ onSubmitted }: MessageFormProps) {
                     Receiver hasn&apos;t registered yet. Using deterministic fallback key derived from their address.
                   </p>
                   <p className="text-xs text-amber-300/80 mt-2">
-                    💡 Message stays fully encrypted with Sealed's fallback key. Ask the receiver to connect once and register their key for stronger forward secrecy.
+                    💡 Message stays fully encrypted with Sealed&apos;s fallback key. Ask the receiver to connect once and register their key for stronger forward secrecy.
                   </p>
                 </div>
               </>
@@ -2052,6 +2417,44 @@ export function MessageForm({ onSubmitted }: MessageFormProps) {
         
         {paymentEnabled && (
           <div className="rounded-lg border-2 border-purple-500/40 bg-purple-900/10 p-4 space-y-3 animate-in slide-in-from-top duration-200">
+            {/* Token seçimi */}
+            <div className="flex flex-col gap-2">
+              <label htmlFor="paymentToken" className="text-xs font-medium text-purple-300">
+                🪙 Payment Token
+              </label>
+              <select
+                id="paymentToken"
+                value={paymentTokenChoice}
+                onChange={(e) => setPaymentTokenChoice(e.target.value)}
+                className="rounded-lg border border-purple-500/40 bg-midnight/60 px-4 py-2 text-sm text-text-light outline-none transition focus:border-purple-500 focus:ring-2 focus:ring-purple-500/60"
+              >
+                <option value={ZERO_ADDRESS}>{getNativePaymentUnit(chain?.id).symbol} (native)</option>
+                {availablePaymentTokens.map((token) => (
+                  <option key={token.address} value={token.address}>
+                    {token.symbol} · {token.name}
+                  </option>
+                ))}
+                <option value="custom">Custom ERC-20…</option>
+              </select>
+              {paymentTokenChoice === "custom" && (
+                <input
+                  type="text"
+                  value={customPaymentToken}
+                  onChange={(e) => setCustomPaymentToken(e.target.value)}
+                  placeholder="0x… token address"
+                  className="rounded-lg border border-purple-500/40 bg-midnight/60 px-4 py-2 font-mono text-xs text-text-light outline-none transition focus:border-purple-500 focus:ring-2 focus:ring-purple-500/60"
+                />
+              )}
+              {!paymentIsNative && paymentUnit && (
+                <p className="text-xs text-purple-300/60">
+                  Receiver approves {paymentUnit.symbol} and pays with <span className="font-mono">payToUnlockWithToken</span>.
+                </p>
+              )}
+              {paymentUnitError && (
+                <p className="text-xs text-red-400">{paymentUnitError}</p>
+              )}
+            </div>
+
             <div className="flex flex-col gap-2">
               <div className="flex items-center justify-between">
                 <label htmlFor="paymentAmount" className="text-xs font-medium text-purple-300">
@@ -2065,7 +2468,7 @@ export function MessageForm({ onSubmitted }: MessageFormProps) {
                       setPaymentInputMode("ETH");
                       // Convert current Wei to ETH
                       if (paymentAmount) {
-                        const ethValue = formatUnits(BigInt(paymentAmount), 18);
+                        const ethValue = formatUnits(BigInt(paymentAmount), paymentUnitDecimals);
                         setPaymentInputValue(ethValue);
                       }
                     }}
@@ -2075,7 +2478,7 @@ export function MessageForm({ onSubmitted }: MessageFormProps) {
                         : "text-purple-300 hover:text-purple-200"
                     }`}
                   >
-                    ETH
+                    {paymentUnitSymbol}
                   </button>
                   <button
                     type="button"
@@ -2090,7 +2493,7 @@ export function MessageForm({ onSubmitted }: MessageFormProps) {
                         : "text-purple-300 hover:text-purple-200"
                     }`}
                   >
-                    Wei
+                    {paymentIsNative ? "Wei" : "Units"}
                   </button>
                 </div>
               </div>
@@ -2110,7 +2513,7 @@ export function MessageForm({ onSubmitted }: MessageFormProps) {
                       // Convert to Wei
                       if (value && value !== '.') {
                         try {
-                          const weiValue = Math.floor(parseFloat(value) * 1e18).toString();
+                          const weiValue = parseUnits(value, paymentUnitDecimals).toString();
                           setPaymentAmount(weiValue);
                         } catch {
                           setPaymentAmount('0');
@@ -2133,9 +2536,11 @@ export function MessageForm({ onSubmitted }: MessageFormProps) {
               
               {/* Helper Text */}
               <p className="text-xs text-purple-300/60">
-                {paymentInputMode === "ETH" 
-                  ? "💡 Example: 0.001 ETH (decimals allowed)"
-                  : "💡 Example: 1000000000000000 Wei (1 ETH = 10¹⁸ Wei)"
+                {paymentInputMode === "ETH"
+                  ? `💡 Example: 0.001 ${paymentUnitSymbol} (decimals allowed)`
+                  : paymentIsNative
+                  ? "💡 Example: 1000000000000000 Wei (1 ETH = 10¹⁸ Wei)"
+                  : `💡 Smallest token units (1 ${paymentUnitSymbol} = 10^${paymentUnitDecimals} units)`
                 }
               </p>
               
@@ -2143,22 +2548,87 @@ export function MessageForm({ onSubmitted }: MessageFormProps) {
               {paymentAmount && paymentAmount !== '0' && (
                 <div className="rounded-lg bg-purple-500/10 border border-purple-500/30 p-3 space-y-1">
                   <div className="flex justify-between text-xs">
-                    <span className="text-purple-300/80">ETH:</span>
+                    <span className="text-purple-300/80">{paymentUnitSymbol}:</span>
                     <span className="font-mono text-purple-200">
-                      {formatUnits(BigInt(paymentAmount), 18)} ETH
+                      {formatUnits(BigInt(paymentAmount), paymentUnitDecimals)} {paymentUnitSymbol}
                     </span>
                   </div>
                   <div className="flex justify-between text-xs">
-                    <span className="text-purple-300/80">Wei:</span>
+                    <span className="text-purple-300/80">{paymentIsNative ? "Wei" : "Units"}:</span>
                     <span className="font-mono text-purple-200 text-[10px]">
                       {paymentAmount}
                     </span>
                   </div>
+                  {protocolFees && protocolFees.protocolFeeBps > 0 && (() => {
+                    const { fee, net } = splitPayment(BigInt(paymentAmount), protocolFees.protocolFeeBps);
+                    return (
+                      <>
+                        <div className="flex justify-between text-xs border-t border-purple-500/20 pt-1">
+                          <span className="text-purple-300/80">Protocol fee ({formatFeeBps(protocolFees.protocolFeeBps)}):</span>
+                          <span className="font-mono text-purple-200">
+                            -{formatUnits(fee, paymentUnitDecimals)} {paymentUnitSymbol}
+                          </span>
+                        </div>
+                        <div className="flex justify-between text-xs">
+                          <span className="text-purple-300/80">You receive on unlock:</span>
+                          <span className="font-mono text-purple-200">
+                            {formatUnits(net, paymentUnitDecimals)} {paymentUnitSymbol}
+                          </span>
+                        </div>
+                      </>
+                    );
+                  })()}
                 </div>
               )}
             </div>
+            {/* ⌛ Expiry */}
+            <div className="flex flex-col gap-2 border-t border-purple-500/20 pt-3">
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  id="expiryEnabled"
+                  checked={expiryEnabled}
+                  onChange={(e) => setExpiryEnabled(e.target.checked)}
+                  className="h-4 w-4 rounded border-purple-500/40 bg-midnight/60 text-purple-500 focus:ring-2 focus:ring-purple-500/60"
+                />
+                <label htmlFor="expiryEnabled" className="text-xs font-medium text-purple-300">
+                  ⌛ Void the message if it is not paid in time
+                </label>
+              </div>
+              {expiryEnabled && (
+                <>
+                  <div className="flex flex-wrap gap-2">
+                    {[
+                      { label: "1 day", value: 86400 },
+                      { label: "1 week", value: 604800 },
+                      { label: "1 month", value: 2592000 }
+                    ].map(({ label, value }) => (
+                      <button
+                        key={value}
+                        type="button"
+                        onClick={() => setExpiryWindowSeconds(value)}
+                        className={`rounded-lg px-3 py-1 text-xs transition ${
+                          expiryWindowSeconds === value
+                            ? "bg-purple-500 text-white"
+                            : "bg-midnight/40 border border-purple-500/30 text-purple-200 hover:border-purple-500/60"
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-purple-300/60">
+                    {timeConditionEnabled
+                      ? "Counted from the unlock time."
+                      : "Counted from the moment the message is sent."}{" "}
+                    After expiry the message can never be unlocked and partial payers can claim their payment back.
+                  </p>
+                </>
+              )}
+            </div>
+
             <p className="text-xs text-purple-300/80 italic">
-              🔒 Alıcı, mesajı okuyabilmek için bu miktarı ödeyecek. Ödeme otomatik olarak size (gönderici) aktarılır.
+              🔒 Alıcı, mesajı okuyabilmek için bu miktarı ödeyecek. Ödeme contract üzerinde bakiyenize eklenir; Earnings panelinden çekebilirsiniz.
             </p>
           </div>
         )}
@@ -2169,6 +2639,282 @@ export function MessageForm({ onSubmitted }: MessageFormProps) {
           </p>
         )}
       </div>
+
+      {/* 💓 Dead man's switch (Optional) */}
+      <div className="flex flex-col gap-2">
+        <div className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            id="heartbeatEnabled"
+            checked={heartbeatEnabled}
+            onChange={(e) => setHeartbeatEnabled(e.target.checked)}
+            className="h-4 w-4 rounded border-cyber-blue/40 bg-midnight/60 text-rose-500 focus:ring-2 focus:ring-rose-500/60"
+          />
+          <label htmlFor="heartbeatEnabled" className="text-sm font-semibold uppercase tracking-wide text-rose-400">
+            💓 Dead Man&apos;s Switch (Optional)
+          </label>
+        </div>
+
+        {heartbeatEnabled && (
+          <div className="rounded-lg border-2 border-rose-500/40 bg-rose-900/10 p-4 space-y-3 animate-in slide-in-from-top duration-200">
+            <p className="text-xs font-medium text-rose-300">Check-in interval</p>
+            <div className="flex flex-wrap gap-2">
+              {[
+                { label: "1 day", value: 86400 },
+                { label: "1 week", value: 604800 },
+                { label: "30 days", value: 2592000 },
+                { label: "90 days", value: 7776000 }
+              ].map(({ label, value }) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setCheckInIntervalSeconds(value)}
+                  className={`rounded-lg px-3 py-1 text-xs transition ${
+                    checkInIntervalSeconds === value
+                      ? "bg-rose-500 text-white"
+                      : "bg-midnight/40 border border-rose-500/30 text-rose-200 hover:border-rose-500/60"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-rose-300/80 italic">
+              🔒 Check in at least once every {formatCheckInInterval(checkInIntervalSeconds)}. If you miss a check-in, the message unlocks for the receiver
+              {timeConditionEnabled || paymentEnabled ? " (together with the other conditions)" : ""}.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* 🛡️ Guardian Approval (Optional) */}
+      <div className="flex flex-col gap-2">
+        <div className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            id="guardiansEnabled"
+            checked={guardiansEnabled}
+            onChange={(e) => setGuardiansEnabled(e.target.checked)}
+            className="h-4 w-4 rounded border-cyber-blue/40 bg-midnight/60 text-sky-500 focus:ring-2 focus:ring-sky-500/60"
+          />
+          <label htmlFor="guardiansEnabled" className="text-sm font-semibold uppercase tracking-wide text-sky-400">
+            🛡️ Require Guardian Approval (Optional)
+          </label>
+        </div>
+
+        {guardiansEnabled && (
+          <div className="rounded-lg border-2 border-sky-500/40 bg-sky-900/10 p-4 space-y-3 animate-in slide-in-from-top duration-200">
+            <label htmlFor="guardianInput" className="text-xs font-medium text-sky-300">
+              Guardian addresses (one per line)
+            </label>
+            <textarea
+              id="guardianInput"
+              value={guardianInput}
+              onChange={(e) => setGuardianInput(e.target.value)}
+              rows={3}
+              placeholder={"0x... (executor)\n0x... (family member)"}
+              className="rounded-lg border border-sky-500/40 bg-midnight/60 px-4 py-2 font-mono text-xs text-text-light outline-none transition focus:border-sky-500 focus:ring-2 focus:ring-sky-500/60"
+            />
+            <div className="flex items-center gap-2 text-xs text-sky-300">
+              <label htmlFor="guardianThreshold">Required approvals</label>
+              <input
+                id="guardianThreshold"
+                type="number"
+                min={1}
+                max={Math.max(guardianAddresses.length, 1)}
+                value={guardianThreshold}
+                onChange={(e) => setGuardianThreshold(Number(e.target.value) || 1)}
+                className="w-16 rounded border border-sky-500/40 bg-midnight/60 px-2 py-1 text-text-light outline-none focus:border-sky-500"
+              />
+              <span>of {guardianAddresses.length}</span>
+            </div>
+            {guardianError ? (
+              <p className="text-xs text-red-400">{guardianError}</p>
+            ) : (
+              <p className="text-xs text-sky-300/80 italic">
+                🔒 The message unlocks once {guardianThreshold} of {guardianAddresses.length} guardians approve it, either on-chain or with a signed approval.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* ✋ Sender Consent (Optional) */}
+      <div className="flex flex-col gap-2">
+        <div className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            id="consentEnabled"
+            checked={consentEnabled}
+            onChange={(e) => setConsentEnabled(e.target.checked)}
+            className="h-4 w-4 rounded border-cyber-blue/40 bg-midnight/60 text-teal-500 focus:ring-2 focus:ring-teal-500/60"
+          />
+          <label htmlFor="consentEnabled" className="text-sm font-semibold uppercase tracking-wide text-teal-400">
+            ✋ Sender Consent (Optional)
+          </label>
+        </div>
+        {consentEnabled && (
+          <p className="text-xs text-teal-300/80 italic">
+            🔒 You can release the message yourself at any time from your sent messages.
+          </p>
+        )}
+      </div>
+
+      {/* 🔗 Chained Message (Optional) */}
+      <div className="flex flex-col gap-2">
+        <div className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            id="dependencyEnabled"
+            checked={dependencyEnabled}
+            onChange={(e) => setDependencyEnabled(e.target.checked)}
+            className="h-4 w-4 rounded border-cyber-blue/40 bg-midnight/60 text-indigo-500 focus:ring-2 focus:ring-indigo-500/60"
+          />
+          <label htmlFor="dependencyEnabled" className="text-sm font-semibold uppercase tracking-wide text-indigo-400">
+            🔗 Chain to Another Message (Optional)
+          </label>
+        </div>
+        {dependencyEnabled && (
+          <div className="rounded-lg border-2 border-indigo-500/40 bg-indigo-900/10 p-4 space-y-3 animate-in slide-in-from-top duration-200">
+            <div className="flex flex-wrap items-center gap-2 text-xs text-indigo-300">
+              <label htmlFor="dependsOn">Unlock after message #</label>
+              <input
+                id="dependsOn"
+                type="text"
+                inputMode="numeric"
+                value={dependsOnInput}
+                onChange={(e) => setDependsOnInput(e.target.value.replace(/[^\d]/g, ""))}
+                placeholder="42"
+                className="w-24 rounded border border-indigo-500/40 bg-midnight/60 px-2 py-1 font-mono text-text-light outline-none focus:border-indigo-500"
+              />
+              <select
+                value={dependencyKind}
+                onChange={(e) => setDependencyKind(Number(e.target.value))}
+                className="rounded border border-indigo-500/40 bg-midnight/60 px-2 py-1 text-text-light outline-none focus:border-indigo-500"
+              >
+                <option value={DEPENDENCY_UNLOCKED}>unlocks</option>
+                <option value={DEPENDENCY_ACKNOWLEDGED}>is read by its receiver</option>
+              </select>
+              {dependencyStatus === "checking" && <span className="text-indigo-200">Checking…</span>}
+              {dependencyStatus === "found" && <span className="text-emerald-300">✓ found</span>}
+            </div>
+            {dependencyError ? (
+              <p className="text-xs text-red-400">{dependencyError}</p>
+            ) : (
+              <p className="text-xs text-indigo-300/80 italic">
+                🔒 Use this for multi-stage reveals: this message stays sealed until the linked one{" "}
+                {dependencyKind === DEPENDENCY_ACKNOWLEDGED ? "has been read and acknowledged by its receiver" : "unlocks"}.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* 🧩 Unlock logic: AND / OR / custom clauses */}
+      {selectedUnlockBits.length > 1 && (
+        <div className="flex flex-col gap-2 rounded-lg border border-cyber-blue/30 bg-midnight/40 p-4">
+          <p className="text-sm font-semibold uppercase tracking-wide text-cyber-blue">🧩 Unlock Logic</p>
+          <div className="flex flex-wrap gap-2">
+            {[
+              { value: "all" as const, label: "All conditions (AND)" },
+              { value: "any" as const, label: "Any condition (OR)" },
+              { value: "custom" as const, label: "Custom" }
+            ].map(({ value, label }) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setUnlockLogic(value)}
+                className={`rounded-lg px-3 py-1 text-xs transition ${
+                  unlockLogic === value
+                    ? "bg-cyber-blue text-midnight"
+                    : "bg-midnight/40 border border-cyber-blue/30 text-text-light/80 hover:border-cyber-blue/60"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {unlockLogic === "custom" && (
+            <div className="space-y-2">
+              {customClauses.map((clause, clauseIndex) => (
+                <div key={clauseIndex} className="rounded-md border border-cyber-blue/20 bg-midnight/60 p-2">
+                  <div className="flex items-center justify-between text-xs text-text-light/70">
+                    <span>{clauseIndex === 0 ? "Unlock when" : "OR when"} all of these hold:</span>
+                    {customClauses.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => setCustomClauses((prev) => prev.filter((_, index) => index !== clauseIndex))}
+                        className="text-red-300 hover:text-red-200"
+                      >
+                        ✖ Remove
+                      </button>
+                    )}
+                  </div>
+                  <div className="mt-1 flex flex-wrap gap-3">
+                    {selectedUnlockBits.map((bit) => (
+                      <label key={bit} className="flex items-center gap-1 text-xs text-text-light">
+                        <input
+                          type="checkbox"
+                          checked={(clause & bit) !== 0}
+                          onChange={(e) =>
+                            setCustomClauses((prev) =>
+                              prev.map((value, index) => (index === clauseIndex ? (e.target.checked ? value | bit : value & ~bit) : value))
+                            )
+                          }
+                          className="h-3 w-3"
+                        />
+                        {conditionLabel(bit)}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              {customClauses.length < MAX_UNLOCK_CLAUSES && (
+                <button
+                  type="button"
+                  onClick={() => setCustomClauses((prev) => [...prev, 0])}
+                  className="rounded-lg border border-cyber-blue/30 px-3 py-1 text-xs text-cyber-blue hover:border-cyber-blue/60"
+                >
+                  + Add OR clause
+                </button>
+              )}
+            </div>
+          )}
+
+          {unlockLogicError ? (
+            <p className="text-xs text-red-400">{unlockLogicError}</p>
+          ) : (
+            <p className="text-xs text-text-light/70">
+              🔓 Unlocks when:{" "}
+              <span className="font-mono text-cyber-blue">
+                {describeExpression(selectedClauses.length > 0 ? selectedClauses : [selectedUnlockMask])}
+              </span>
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* 📢 Public key release (Optional) */}
+      <div className="flex flex-col gap-2">
+        <div className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            id="keyReleaseEnabled"
+            checked={keyReleaseEnabled}
+            onChange={(e) => setKeyReleaseEnabled(e.target.checked)}
+            className="h-4 w-4 rounded border-cyber-blue/40 bg-midnight/60 text-amber-500 focus:ring-2 focus:ring-amber-500/60"
+          />
+          <label htmlFor="keyReleaseEnabled" className="text-sm font-semibold uppercase tracking-wide text-amber-400">
+            📢 Publish Key On-Chain After Unlock (Optional)
+          </label>
+        </div>
+        {keyReleaseEnabled && (
+          <p className="text-xs text-amber-300/80 italic">
+            ⚠️ Once the message unlocks, its session key is published on-chain so the receiver can decrypt without our server. Anyone can then read the message from IPFS.
+          </p>
+        )}
+      </div>
       
       {/* AES-256-GCM encryption status */}
       {isEncrypting && (
@@ -2189,6 +2935,14 @@ export function MessageForm({ onSubmitted }: MessageFormProps) {
         </div>
       )}
       
+      {sendFee > 0n && (
+        <div className="flex justify-between rounded-lg border border-purple-500/30 bg-purple-500/10 px-3 py-2 text-xs">
+          <span className="text-purple-300/80">Send fee (paid with the transaction):</span>
+          <span className="font-mono text-purple-200">
+            {formatUnits(sendFee, nativeUnit.decimals)} {nativeUnit.symbol}
+          </span>
+        </div>
+      )}
       {error ? <p className="text-sm text-red-400">{error}</p> : null}
       {/* Encryption System Loading Indicator */}
       {!encryptionReady && (
@@ -11,7 +11,7 @@ import { sealedMessageAbi } from "../lib/sealedMessageAbi";
 import { appConfig } from "../lib/env";
 import { useContractAddress, useHasContract } from "../lib/useContractAddress";
 import { MessageCard } from "./MessageCard";
-import { supportedChains, type ChainKey } from "../lib/chains";
+import { supportedChains, ZERO_ADDRESS, type ChainKey } from "../lib/chains";
 
 dayjs.extend(relativeTime);
 dayjs.extend(advancedFormat);
@@ -29,9 +29,21 @@ interface MessageViewModel {
   unlockDate: string;
   relative: string;
   unlocked: boolean;
+  expired: boolean; // Süresi doldu, koşullar sağlanmadı - artık açılamaz
+  revoked?: boolean; // Gönderici iptal etti - escrow'daki ödemeler iade edilebilir
+  expiresAt?: bigint;
+  checkInInterval?: bigint; // Dead man's switch aralığı (0 = yok)
+  lastCheckIn?: bigint;
   content: string | null;
   isRead: boolean;
+  acknowledgedAt?: bigint; // On-chain okundu bilgisi (0 = alıcı henüz onaylamadı)
+  encryptionKeyVersion?: bigint; // Alıcının hangi anahtar versiyonuna şifrelendi (0 = fallback)
   isSent: boolean;
+  isGuardian: boolean; // Kullanıcı bu mesajın guardian'ı (alıcı/gönderici olmayabilir)
+  guardianThreshold?: number;
+  guardianApprovals?: number;
+  dependsOn?: bigint; // Zincirlenen mesaj (yalnızca dependency koşulu varsa)
+  dependencyKind?: number;
   contractAddress?: string; // ✅ Hangi contract'tan geldiği
   createdAt?: bigint; // Mesajın gönderilme zamanı
   createdDate?: string | null;
@@ -39,6 +51,9 @@ interface MessageViewModel {
   // V3 ödeme bilgileri
   requiredPayment?: bigint;
   paidAmount?: bigint;
+  heldAmount?: bigint; // Kilit açılana kadar contract'ta bekleyen ödeme
+  protocolFeeBps?: number; // Mesaja sabitlenen protokol ücreti (bps)
+  paymentToken?: string; // ZERO_ADDRESS = native ETH, aksi halde ERC-20
   conditionType?: number; // 0: TIME_LOCK, 1: PAYMENT
   paymentTxHash?: string; // Ödeme yapıldığında transaction hash
   // Dosya desteği
@@ -52,6 +67,90 @@ interface MessageViewModel {
   chainKey?: ChainKey;
 }
 
+// Newest-first read offsets into each inbox source; the load-more cursor
+interface InboxCursor {
+  sent: number;
+  received: number;
+  guardian: number;
+}
+
+const INITIAL_CURSOR: InboxCursor = { sent: 0, received: 0, guardian: 0 };
+
+// Merges the newest-first pages of every source and takes the newest `limit` ids. Only the ids that made it
+// into the page advance their source's offset, so the next page continues exactly where this one stopped.
+function mergeNewestFirst(
+  from: InboxCursor,
+  pages: Record<keyof InboxCursor, readonly bigint[]>,
+  limit: number
+): { ids: bigint[]; nextCursor: InboxCursor } {
+  const candidates = (Object.keys(pages) as (keyof InboxCursor)[])
+    .flatMap((source) => pages[source].map((id) => ({ id, source })))
+    .sort((a, b) => (a.id === b.id ? 0 : a.id > b.id ? -1 : 1));
+
+  const ids: bigint[] = [];
+  const nextCursor = { ...from };
+  for (const candidate of candidates) {
+    const isNew = ids.length === 0 || ids[ids.length - 1] !== candidate.id;
+    if (isNew && ids.length === limit) {
+      break;
+    }
+    if (isNew) {
+      ids.push(candidate.id);
+    }
+    nextCursor[candidate.source] += 1;
+  }
+  return { ids, nextCursor };
+}
+
+interface ChainStep {
+  id: bigint;
+  depth: number;
+  item?: MessageViewModel; // undefined: zincirdeki mesaj bu kullanıcıya ait değil / yüklenmedi
+}
+
+// Yüklenen mesajları dependsOn ilişkisine göre sıralı zincirlere (ağaç, DFS sırası) dönüştürür
+function buildMessageChains(items: MessageViewModel[]): ChainStep[][] {
+  const byId = new Map<string, MessageViewModel>();
+  const children = new Map<string, MessageViewModel[]>();
+  for (const item of items) {
+    byId.set(item.id.toString(), item);
+  }
+  for (const item of items) {
+    if (item.dependsOn === undefined) continue;
+    const parentKey = item.dependsOn.toString();
+    children.set(parentKey, [...(children.get(parentKey) ?? []), item]);
+  }
+
+  const roots = new Map<string, bigint>();
+  for (const item of items) {
+    let top = item;
+    const seen = new Set<string>();
+    while (top.dependsOn !== undefined && byId.has(top.dependsOn.toString()) && !seen.has(top.id.toString())) {
+      seen.add(top.id.toString());
+      top = byId.get(top.dependsOn.toString())!;
+    }
+    const rootId = top.dependsOn ?? top.id;
+    roots.set(rootId.toString(), rootId);
+  }
+
+  const chains: ChainStep[][] = [];
+  roots.forEach((rootId, rootKey) => {
+    const steps: ChainStep[] = [];
+    const visit = (id: bigint, depth: number) => {
+      const key = id.toString();
+      steps.push({ id, depth, item: byId.get(key) });
+      const next = [...(children.get(key) ?? [])].sort((a, b) => Number(a.id - b.id));
+      next.forEach((child) => visit(child.id, depth + 1));
+    };
+    visit(rootId, 0);
+    if (steps.length > 1) {
+      chains.push(steps);
+    }
+  });
+
+  return chains.sort((a, b) => Number(b[0].id - a[0].id));
+}
+
 interface Toast {
   id: number;
   message: string;
@@ -186,7 +285,7 @@ export function MessageList({ refreshKey }: MessageListProps) {
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
   const [mounted, setMounted] = useState(false);
   const [toasts, setToasts] = useState<Toast[]>([]);
-  const [filter, setFilter] = useState<'all' | 'unread' | 'unlocked' | 'locked' | 'paid' | 'unpaid' | 'pending' | 'files'>('all');
+  const [filter, setFilter] = useState<'all' | 'unread' | 'unlocked' | 'locked' | 'expired' | 'guardian' | 'paid' | 'unpaid' | 'pending' | 'files'>('all');
   const [hiddenMessages, setHiddenMessages] = useState<Set<string>>(() => {
     // Load from localStorage on mount
     if (typeof window !== 'undefined') {
@@ -201,8 +300,9 @@ export function MessageList({ refreshKey }: MessageListProps) {
     }
     return new Set();
   });
+  const [viewMode, setViewMode] = useState<'grid' | 'chains'>('grid');
   const PAGE_SIZE = 5;
-  const [cursor, setCursor] = useState<bigint | null>(null);
+  const [cursor, setCursor] = useState<InboxCursor>(INITIAL_CURSOR);
   const [hasMore, setHasMore] = useState(false);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
   const AUTO_REFRESH_SECONDS = 300;
@@ -233,125 +333,135 @@ export function MessageList({ refreshKey }: MessageListProps) {
     }, 5000);
   }, []);
 
-  const fetchMessagesChunk = useCallback(async (startFrom: bigint, limit: number) => {
+  const fetchMessagesChunk = useCallback(async (from: InboxCursor, limit: number) => {
     if (!client || !contractAddress || !userAddress) {
-      return { messages: [] as MessageViewModel[], nextCursor: -1n };
-    }
-
-    if (startFrom < 0n) {
-      return { messages: [] as MessageViewModel[], nextCursor: -1n };
+      return { messages: [] as MessageViewModel[], nextCursor: from, hasMore: false };
     }
 
-    const results: MessageViewModel[] = [];
-    let currentIndex = startFrom;
+    const user = userAddress as `0x${string}`;
     const lowerUser = userAddress.toLowerCase();
 
-    while (currentIndex >= 0n && results.length < limit) {
-      const messageId = currentIndex;
-
-      try {
-        const [messageData, financialData] = await Promise.all([
-          client.readContract({
-            address: contractAddress,
-            abi: contractAbi as any,
-            functionName: "getMessage",
-            args: [messageId],
-            account: userAddress as `0x${string}`
-          }),
-          client.readContract({
-            address: contractAddress,
-            abi: contractAbi as any,
-            functionName: "getMessageFinancialView",
-            args: [messageId],
-            account: userAddress as `0x${string}`
-          })
-        ]) as [any, any];
-
-        const sender = (messageData.sender || messageData[0] || "") as string;
-        const receiver = (messageData.receiver || messageData[1] || "") as string;
-
-        if (!sender || !receiver) {
-          currentIndex = messageId > 0n ? messageId - 1n : -1n;
-          continue;
-        }
-
-        const isSender = sender.toLowerCase() === lowerUser;
-        const isReceiver = receiver.toLowerCase() === lowerUser;
-
-        if (!isSender && !isReceiver) {
-          currentIndex = messageId > 0n ? messageId - 1n : -1n;
-          continue;
-        }
-
-        const unlockTimeRaw = financialData.unlockTime ?? 0n;
-        const unlockTime = typeof unlockTimeRaw === "bigint" ? unlockTimeRaw : BigInt(unlockTimeRaw || 0);
-        const requiredPayment = financialData.requiredPayment != null ? BigInt(financialData.requiredPayment) : 0n;
-        const paidAmount = financialData.paidAmount != null ? BigInt(financialData.paidAmount) : 0n;
-        const conditionMask = typeof financialData.conditionMask === "number"
-          ? financialData.conditionMask
-          : Number(financialData.conditionMask ?? 0);
-        const contractIsUnlocked = Boolean(financialData.isUnlocked);
-        const hasPaymentCondition = (conditionMask & 0x02) !== 0;
-        const paymentSatisfied = !hasPaymentCondition || paidAmount >= requiredPayment;
-
-        const createdAtRaw = messageData.createdAt ?? messageData[13] ?? null;
-        let createdAt: bigint | undefined;
-        if (typeof createdAtRaw === "bigint") {
-          createdAt = createdAtRaw;
-        } else if (createdAtRaw != null) {
-          try {
-            createdAt = BigInt(createdAtRaw);
-          } catch {
-            createdAt = undefined;
-          }
-        }
-
-        const createdDate = createdAt && createdAt > 0n
-          ? dayjs.unix(Number(createdAt)).format("YYYY-MM-DD HH:mm:ss")
-          : null;
-
-        const unlockDateLabel = dayjs.unix(Number(unlockTime)).format("YYYY-MM-DD HH:mm:ss");
-        const relative = dayjs.unix(Number(unlockTime)).fromNow();
-
-        results.push({
-          id: messageId,
-          sender,
-          receiver,
-          unlockTime,
-          unlockDate: unlockDateLabel,
-          relative,
-          unlocked: contractIsUnlocked && paymentSatisfied,
-          content: "[Encrypted message 🔐]",
-          isRead: false,
-          isSent: isSender,
-          contractAddress,
-          createdAt,
-          createdDate,
-          requiredPayment,
-          paidAmount,
-          conditionType: conditionMask,
-          contentType: 2,
-          chainId: activeChainId,
-          chainKey: activeChainKey
-        });
-      } catch (err: any) {
-        const message = err?.message ?? "";
-        const shortMessage = err?.shortMessage ?? "";
-        if (
-          message.includes("Only sender or receiver") ||
-          shortMessage.includes("Only sender or receiver") ||
-          message.includes("Not authorized")
-        ) {
-          // Skip unauthorized messages
-        } else {
-          console.warn(`⚠️ Couldn't load message ${messageId.toString()}:`, err);
-        }
-      }
+    // Guardian olarak atandığımız mesajlar da listelenir (onay verebilmek için); liste küçük, tamamı okunur
+    const guardianIdsPromise = (client.readContract({
+      address: contractAddress,
+      abi: contractAbi,
+      functionName: "getGuardianMessages",
+      args: [user]
+    }) as Promise<readonly bigint[]>).catch((err) => {
+      console.warn("⚠️ Couldn't load guardian messages:", err);
+      return [] as readonly bigint[];
+    });
+
+    // Her kaynaktan en yeni `limit` id okunur; birleşimin ilk `limit` tanesi bu sayfadır
+    const [sentCount, receivedCount, sentPage, receivedPage, guardianIds] = await Promise.all([
+      client.readContract({ address: contractAddress, abi: contractAbi, functionName: "getSentMessageCount", args: [user] }),
+      client.readContract({ address: contractAddress, abi: contractAbi, functionName: "getReceivedMessageCount", args: [user] }),
+      client.readContract({
+        address: contractAddress,
+        abi: contractAbi,
+        functionName: "getSentMessagesPage",
+        args: [user, BigInt(from.sent), BigInt(limit)]
+      }),
+      client.readContract({
+        address: contractAddress,
+        abi: contractAbi,
+        functionName: "getReceivedMessagesPage",
+        args: [user, BigInt(from.received), BigInt(limit)]
+      }),
+      guardianIdsPromise
+    ]);
+    const guardianNewestFirst = [...guardianIds].reverse();
+    const guardianSet = new Set(guardianIds.map((value) => value.toString()));
+
+    const { ids, nextCursor } = mergeNewestFirst(
+      from,
+      {
+        sent: sentPage,
+        received: receivedPage,
+        guardian: guardianNewestFirst.slice(from.guardian, from.guardian + limit)
+      },
+      limit
+    );
+    const hasMore =
+      BigInt(nextCursor.sent) < sentCount ||
+      BigInt(nextCursor.received) < receivedCount ||
+      nextCursor.guardian < guardianNewestFirst.length;
 
-      currentIndex = messageId > 0n ? messageId - 1n : -1n;
+    if (ids.length === 0) {
+      return { messages: [] as MessageViewModel[], nextCursor, hasMore };
     }
 
-    return { messages: results, nextCursor: currentIndex };
+    // Tek çağrıda başlıklar: ciphertext alanları yok, şifreli içerik MessageCard'da ayrıca okunur
+    const headers = await client.readContract({
+      address: contractAddress,
+      abi: contractAbi,
+      functionName: "getMessageHeaders",
+      args: [ids]
+    });
+
+    const results: MessageViewModel[] = headers.map((header) => {
+      const financialData = header.financial;
+      const messageId = header.id;
+      const sender = header.sender;
+      const receiver = header.receiver;
+      const isSender = sender.toLowerCase() === lowerUser;
+      const isGuardian = guardianSet.has(messageId.toString());
+
+      const unlockTime = financialData.unlockTime;
+      const requiredPayment = financialData.requiredPayment;
+      const paidAmount = financialData.paidAmount;
+      const heldAmount = financialData.heldAmount;
+      const protocolFeeBps = Number(financialData.protocolFeeBps);
+      const revoked = header.revoked;
+      const paymentToken = financialData.paymentToken ?? ZERO_ADDRESS;
+      const conditionMask = Number(financialData.conditionMask);
+      const chained = (conditionMask & 0x40) !== 0;
+      const createdAt = header.createdAt > 0n ? header.createdAt : undefined;
+      const createdDate = createdAt
+        ? dayjs.unix(Number(createdAt)).format("YYYY-MM-DD HH:mm:ss")
+        : null;
+
+      return {
+        id: messageId,
+        sender,
+        receiver,
+        unlockTime,
+        unlockDate: dayjs.unix(Number(unlockTime)).format("YYYY-MM-DD HH:mm:ss"),
+        relative: dayjs.unix(Number(unlockTime)).fromNow(),
+        // isUnlocked evaluates the full AND/OR expression (an OR clause may unlock without payment)
+        unlocked: financialData.isUnlocked,
+        expired: financialData.isExpired,
+        revoked,
+        expiresAt: financialData.expiresAt,
+        checkInInterval: financialData.checkInInterval,
+        lastCheckIn: financialData.lastCheckIn,
+        content: "[Encrypted message 🔐]",
+        // Read receipts live on-chain so they follow the receiver across devices
+        isRead: financialData.acknowledgedAt > 0n,
+        acknowledgedAt: financialData.acknowledgedAt,
+        encryptionKeyVersion: financialData.encryptionKeyVersion,
+        isSent: isSender,
+        isGuardian,
+        guardianThreshold: Number(financialData.guardianThreshold),
+        guardianApprovals: Number(financialData.guardianApprovals),
+        dependsOn: chained ? financialData.dependsOn : undefined,
+        dependencyKind: chained ? Number(financialData.dependencyKind) : undefined,
+        contractAddress,
+        createdAt,
+        createdDate,
+        requiredPayment,
+        paidAmount,
+        heldAmount,
+        protocolFeeBps,
+        paymentToken,
+        conditionType: conditionMask,
+        contentType: 2,
+        chainId: activeChainId,
+        chainKey: activeChainKey
+      };
+    });
+
+    return { messages: results, nextCursor, hasMore };
   }, [client, contractAddress, userAddress, contractAbi, activeChainId, activeChainKey]);
 
   const loadInitialMessages = useCallback(async () => {
@@ -363,42 +473,31 @@ export function MessageList({ refreshKey }: MessageListProps) {
     setError(null);
 
     try {
-      const messageCountResult = await client.readContract({
-        address: contractAddress,
-        abi: contractAbi as any,
-        functionName: "messageCount",
-        args: []
-      });
+      const { messages, nextCursor, hasMore: more } = await fetchMessagesChunk(INITIAL_CURSOR, PAGE_SIZE);
 
-      const total = Number(messageCountResult ?? 0);
-      const startIndex = total > 0 ? BigInt(total - 1) : -1n;
-      const { messages, nextCursor } = await fetchMessagesChunk(startIndex, PAGE_SIZE);
-
-      setItems(messages.sort((a, b) => Number(b.id) - Number(a.id)));
+      setItems(messages);
       setCursor(nextCursor);
-      setHasMore(nextCursor >= 0n);
+      setHasMore(more);
       setLastUpdated(new Date());
       setAutoRefreshSecondsLeft(AUTO_REFRESH_SECONDS);
     } catch (err) {
       console.error('❌ Error loading messages:', err);
       setError('Failed to load messages');
       setItems([]);
-      setCursor(-1n);
+      setCursor(INITIAL_CURSOR);
       setHasMore(false);
     } finally {
       setLoading(false);
       setIsLoadingMore(false);
     }
-  }, [client, hasContract, contractAddress, userAddress, contractAbi, fetchMessagesChunk, PAGE_SIZE, AUTO_REFRESH_SECONDS]);
+  }, [client, hasContract, contractAddress, userAddress, fetchMessagesChunk, PAGE_SIZE, AUTO_REFRESH_SECONDS]);
 
   const loadOlderMessages = useCallback(async () => {
     if (!client || !hasContract || !contractAddress || !userAddress) {
       return;
     }
 
-    const startFrom = cursor ?? -1n;
-    if (startFrom < 0n) {
-      setHasMore(false);
+    if (!hasMore) {
       return;
     }
 
@@ -406,7 +505,7 @@ export function MessageList({ refreshKey }: MessageListProps) {
     setError(null);
 
     try {
-      const { messages, nextCursor } = await fetchMessagesChunk(startFrom, PAGE_SIZE);
+      const { messages, nextCursor, hasMore: more } = await fetchMessagesChunk(cursor, PAGE_SIZE);
 
       if (messages.length > 0) {
         setItems((previous) => {
@@ -425,14 +524,14 @@ export function MessageList({ refreshKey }: MessageListProps) {
       }
 
       setCursor(nextCursor);
-      setHasMore(nextCursor >= 0n);
+      setHasMore(more);
     } catch (err) {
       console.error('❌ Error loading older messages:', err);
       setError('Failed to load older messages');
     } finally {
       setIsLoadingMore(false);
     }
-  }, [client, hasContract, contractAddress, userAddress, cursor, fetchMessagesChunk, PAGE_SIZE]);
+  }, [client, hasContract, contractAddress, userAddress, cursor, hasMore, fetchMessagesChunk, PAGE_SIZE]);
 
   useEffect(() => {
     if (mounted && client && hasContract && contractAddress && userAddress) {
@@ -460,6 +559,60 @@ export function MessageList({ refreshKey }: MessageListProps) {
     };
   }, [mounted, client, hasContract, contractAddress, userAddress, loadInitialMessages, AUTO_REFRESH_SECONDS]);
 
+  const messageChains = useMemo(
+    () => buildMessageChains(items.filter((item) => !hiddenMessages.has(item.id.toString()))),
+    [items, hiddenMessages]
+  );
+
+  const renderMessageCard = (item: MessageViewModel, index: number) => (
+    <MessageCard
+      key={`msg-${item.id.toString()}-${item.unlockTime.toString()}-${item.isSent ? 's' : 'r'}-${index}`}
+      id={item.id}
+      sender={item.sender}
+      receiver={item.receiver}
+      unlockTime={item.unlockTime}
+      unlockDate={item.unlockDate}
+      unlocked={item.unlocked}
+      expired={item.expired}
+      revoked={item.revoked}
+      expiresAt={item.expiresAt}
+      isGuardian={item.isGuardian}
+      guardianThreshold={item.guardianThreshold}
+      guardianApprovals={item.guardianApprovals}
+      checkInInterval={item.checkInInterval}
+      lastCheckIn={item.lastCheckIn}
+      dependsOn={item.dependsOn}
+      dependencyKind={item.dependencyKind}
+      isRead={item.isRead}
+      acknowledgedAt={item.acknowledgedAt}
+      encryptionKeyVersion={item.encryptionKeyVersion}
+      isSent={item.isSent}
+      index={index}
+      contractAddress={item.contractAddress} // ✅ Contract address geç
+      requiredPayment={item.requiredPayment}
+      paidAmount={item.paidAmount}
+      heldAmount={item.heldAmount}
+      protocolFeeBps={item.protocolFeeBps}
+      paymentToken={item.paymentToken}
+      conditionType={item.conditionType}
+      createdAt={item.createdAt}
+      createdDate={item.createdDate ?? null}
+      transactionHash={item.transactionHash}
+      paymentTxHash={item.paymentTxHash}
+      contentType={item.contentType}
+      chainId={item.chainId}
+      chainKey={item.chainKey}
+      onHide={() => {
+        const newHidden = new Set(hiddenMessages);
+        newHidden.add(item.id.toString());
+        setHiddenMessages(newHidden);
+        // Save to localStorage
+        localStorage.setItem('hiddenMessages', JSON.stringify(Array.from(newHidden)));
+      }}
+      // onMessageRead kaldırıldı - mesaj okununca sayfayı yenilemesin
+    />
+  );
+
   if (!mounted) {
     return (
       <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6 text-sm text-slate-400">
@@ -572,7 +725,7 @@ export function MessageList({ refreshKey }: MessageListProps) {
       {/* Filter Buttons */}
       <div className="flex gap-2 flex-wrap items-center">
         <span className="text-xs text-slate-400 mr-2">Filter:</span>
-        {['all', 'unread', 'locked', 'unlocked', 'pending', 'paid', 'unpaid', 'files'].map((filterOption) => (
+        {['all', 'unread', 'locked', 'unlocked', 'expired', 'guardian', 'pending', 'paid', 'unpaid', 'files'].map((filterOption) => (
           <button
             key={filterOption}
             onClick={() => setFilter(filterOption as any)}
@@ -588,16 +741,33 @@ export function MessageList({ refreshKey }: MessageListProps) {
             {filterOption === 'unread' && '🆕 Unread'}
             {filterOption === 'locked' && '🔒 Locked'}
             {filterOption === 'unlocked' && '🔓 Unlocked'}
+            {filterOption === 'expired' && '⌛ Expired'}
+            {filterOption === 'guardian' && '🛡️ Guardian'}
             {filterOption === 'pending' && '⏳ Pending'}
             {filterOption === 'paid' && '✅ Paid'}
             {filterOption === 'unpaid' && '❌ Unpaid'}
             {filterOption === 'files' && '📎 Files'}
           </button>
         ))}
+        <div className="ml-auto flex gap-1">
+          {(['grid', 'chains'] as const).map((mode) => (
+            <button
+              key={mode}
+              onClick={() => setViewMode(mode)}
+              className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-all ${
+                viewMode === mode
+                  ? 'bg-indigo-500 text-white'
+                  : 'bg-slate-800 text-slate-300 hover:bg-slate-700 border border-slate-700'
+              }`}
+            >
+              {mode === 'grid' ? '🗂️ Grid' : '🔗 Chains'}
+            </button>
+          ))}
+        </div>
         {hiddenMessages.size > 0 && (
           <button
             onClick={() => setHiddenMessages(new Set())}
-            className="ml-auto px-3 py-1.5 rounded-lg text-xs font-medium bg-slate-800 text-slate-300 hover:bg-slate-700 border border-slate-700 transition-all"
+            className="px-3 py-1.5 rounded-lg text-xs font-medium bg-slate-800 text-slate-300 hover:bg-slate-700 border border-slate-700 transition-all"
           >
             🔄 Show Hidden ({hiddenMessages.size})
           </button>
@@ -613,6 +783,34 @@ export function MessageList({ refreshKey }: MessageListProps) {
           <p className="mb-2 text-4xl">📭</p>
           <p>No messages yet.</p>
         </div>
+      ) : viewMode === 'chains' ? (
+        messageChains.length === 0 ? (
+          <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6 text-center text-sm text-slate-300">
+            <p className="mb-2 text-4xl">🔗</p>
+            <p>No chained messages among the loaded messages.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {messageChains.map((chain) => (
+              <div key={`chain-${chain[0].id.toString()}`} className="rounded-xl border border-indigo-500/30 bg-indigo-950/20 p-4 space-y-3">
+                <p className="text-sm font-semibold text-indigo-300">
+                  🔗 Sequence from #{chain[0].id.toString()} · {chain.length} steps
+                </p>
+                {chain.map((step, stepIndex) => (
+                  <div key={`step-${step.id.toString()}`} className="space-y-2" style={{ marginLeft: `${step.depth * 16}px` }}>
+                    <p className="text-xs text-indigo-200/80">
+                      {step.depth > 0 ? '↳ ' : ''}Step {stepIndex + 1} · #{step.id.toString()}
+                      {step.item
+                        ? step.item.expired ? ' · ⌛ expired' : step.item.unlocked ? ' · 🔓 unlocked' : ' · 🔒 locked'
+                        : ' · not addressed to you'}
+                    </p>
+                    {step.item && renderMessageCard(step.item, stepIndex)}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )
       ) : (
         <>
           <div className="grid gap-4 md:grid-cols-2">
@@ -627,8 +825,14 @@ export function MessageList({ refreshKey }: MessageListProps) {
               // Unread: Unlocked ve henüz okunmamış (sadece alıcılar için)
               if (filter === 'unread') return !item.isSent && item.unlocked && !item.isRead;
               
-              // Locked: Henüz unlock olmamış
-              if (filter === 'locked') return !item.unlocked;
+              // Locked: Henüz unlock olmamış (süresi dolanlar ayrı listelenir)
+              if (filter === 'locked') return !item.unlocked && !item.expired;
+              
+              // Expired: Koşullar süresinde sağlanmadı, mesaj geçersiz
+              if (filter === 'expired') return item.expired;
+
+              // Guardian: Onay vermemiz beklenen mesajlar
+              if (filter === 'guardian') return item.isGuardian;
               
               // Unlocked: Unlock olmuş
               if (filter === 'unlocked') return item.unlocked;
@@ -663,39 +867,7 @@ export function MessageList({ refreshKey }: MessageListProps) {
               console.warn('⚠️ Invalid message item:', item);
               return null;
             }
-            return (
-              <MessageCard
-                key={`msg-${item.id.toString()}-${item.unlockTime.toString()}-${item.isSent ? 's' : 'r'}-${index}`}
-                id={item.id}
-                sender={item.sender}
-                receiver={item.receiver}
-                unlockTime={item.unlockTime}
-                unlockDate={item.unlockDate}
-                unlocked={item.unlocked}
-                isRead={item.isRead}
-                isSent={item.isSent}
-                index={index}
-                contractAddress={item.contractAddress} // ✅ Contract address geç
-                requiredPayment={item.requiredPayment}
-                paidAmount={item.paidAmount}
-                conditionType={item.conditionType}
-                createdAt={item.createdAt}
-                createdDate={item.createdDate ?? null}
-                transactionHash={item.transactionHash}
-                paymentTxHash={item.paymentTxHash}
-                contentType={item.contentType}
-                chainId={item.chainId}
-                chainKey={item.chainKey}
-                onHide={() => {
-                  const newHidden = new Set(hiddenMessages);
-                  newHidden.add(item.id.toString());
-                  setHiddenMessages(newHidden);
-                  // Save to localStorage
-                  localStorage.setItem('hiddenMessages', JSON.stringify(Array.from(newHidden)));
-                }}
-                // onMessageRead kaldırıldı - mesaj okununca sayfayı yenilemesin
-              />
-            );
+            return renderMessageCard(item, index);
           })}
           </div>
 
@@ -9,6 +9,7 @@ import "@rainbow-me/rainbowkit/styles.css";
 import { defineChain } from "viem";
 import { supportedChains, type ChainDefinition } from "../lib/chains";
 import { VersionProvider } from "./VersionProvider";
+import { AuthSessionProvider } from "./AuthSessionProvider";
 
 type ChainEntry = {
   key: string;
@@ -126,11 +127,13 @@ export function Providers({ children }: PropsWithChildren) {
 
   return (
     <WagmiConfig config={config}>
-      <RainbowKitProvider chains={chains} theme={midnightTheme()}>
-        <VersionProvider>
-          {children}
-        </VersionProvider>
-      </RainbowKitProvider>
+      <AuthSessionProvider>
+        <RainbowKitProvider chains={chains} theme={midnightTheme()}>
+          <VersionProvider>
+            {children}
+          </VersionProvider>
+        </RainbowKitProvider>
+      </AuthSessionProvider>
     </WagmiConfig>
   );
 }
@@ -0,0 +1,33 @@
+// Node.js server start: checks the storage encryption config, reports Shamir-split escrow keys awaiting custodian
+// shares and JSON stores that were not imported into storage yet, and starts the escrow release watcher when
+// ESCROW_RELEASE_INTERVAL_MS is set
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") {
+    return;
+  }
+
+  // Throws on a broken STORAGE_ENCRYPTION setup, so it fails at startup instead of on the first write
+  const { getMasterKeyProvider } = await import("./lib/storageKeys");
+  if (!getMasterKeyProvider()) {
+    console.log("🗄️ STORAGE_ENCRYPTION is not set: stored records are written in plaintext");
+  }
+
+  const { findLegacyJsonStores } = await import("./lib/storageImport");
+  for (const file of await findLegacyJsonStores()) {
+    console.log(`🗄️ ${file} is not in storage yet: run \`npx ts-node scripts/storage.ts import-json\``);
+  }
+
+  const { getEscrowUnlockStatus } = await import("./lib/escrowUnlock");
+  for (const status of getEscrowUnlockStatus().filter((entry) => !entry.unlocked)) {
+    console.log(
+      `🔒 escrow key version ${status.version} is locked: ${status.threshold} custodian shares needed at POST /api/escrow/unlock`
+    );
+  }
+
+  const intervalMs = Number(process.env.ESCROW_RELEASE_INTERVAL_MS ?? 0);
+  if (!Number.isFinite(intervalMs) || intervalMs <= 0) {
+    return;
+  }
+  const { startEscrowReleaseWatcher } = await import("./lib/escrowRelease");
+  startEscrowReleaseWatcher(intervalMs);
+}
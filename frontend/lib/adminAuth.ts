@@ -0,0 +1,25 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { NextResponse } from "next/server";
+
+const digest = (value: string) => createHash("sha256").update(value, "utf-8").digest();
+
+/**
+ * Checks `Authorization: Bearer <secret>` for operator routes. Returns the response to send when the request is
+ * not allowed (503 when the secret is not configured, 401 when it does not match), or null to go on.
+ * Both sides are hashed first so the comparison takes the same time whatever the length of the presented value.
+ */
+export function authorizeBearer(request: Request, secret: string | undefined, feature: string): NextResponse | null {
+  if (!secret) {
+    return NextResponse.json({ error: `${feature} is not configured` }, { status: 503 });
+  }
+  const presented = request.headers.get("authorization") ?? "";
+  if (!timingSafeEqual(digest(presented), digest(`Bearer ${secret}`))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  return null;
+}
+
+/** Escrow administration: key audits, re-wraps, custodian shares and the envelope rejection log */
+export function authorizeEscrowAdmin(request: Request): NextResponse | null {
+  return authorizeBearer(request, process.env.ESCROW_ADMIN_SECRET, "Escrow admin");
+}
@@ -0,0 +1,226 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { getAddress, verifyMessage } from "viem";
+import { getChainById } from "./chains";
+import { parseSiweMessage, SiweMessageError } from "./siwe";
+import { deleteRecord, listRecordEntries, upsertRecord } from "./storage";
+
+/**
+ * Sign-In with Ethereum sessions. The nonce and the session both live in HTTP-only cookies signed with
+ * AUTH_SESSION_SECRET (HMAC-SHA256), so any instance sharing the secret can check them. Nonces that signed in
+ * once are recorded in the storage backend, so a captured login cannot be replayed while its cookie is still valid;
+ * records whose cookie has expired are pruned on the next login.
+ * Messages must be issued for AUTH_SIWE_DOMAIN (the app's host, e.g. "sealedmessage.example" or "localhost:3000"),
+ * and their URI must be an address on that host.
+ * A session is bound to one address and one chain; routes read the viewer from it instead of the request.
+ */
+export interface AuthSession {
+  address: `0x${string}`;
+  chainId: number;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+/** Sign-in failure with the HTTP status the route should answer with */
+export class AuthSessionError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "AuthSessionError";
+  }
+}
+
+export const AUTH_SESSION_COOKIE = "sealed-session";
+export const AUTH_NONCE_COOKIE = "sealed-siwe-nonce";
+export const AUTH_NONCE_TTL_SECONDS = 300;
+
+// Tolerated clock skew between the wallet's Issued At and the server
+const CLOCK_SKEW_MS = 60_000;
+
+interface UsedNonce {
+  usedAt: string;
+  // The nonce cookie is worthless after this anyway
+  expiresAt: string;
+}
+
+function getAuthSecret(): string {
+  const secret = process.env.AUTH_SESSION_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new AuthSessionError("Sign-in is not configured", 503);
+  }
+  return secret;
+}
+
+export function getSessionTtlSeconds(): number {
+  const ttl = Number(process.env.AUTH_SESSION_TTL_SECONDS ?? 86_400);
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : 86_400;
+}
+
+/** Options for NextResponse.cookies.set: HTTP-only, same-site, secure in production */
+export function authCookieOptions(maxAge: number) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax" as const,
+    path: "/",
+    maxAge
+  };
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", getAuthSecret()).update(payload).digest("base64url");
+}
+
+function seal(value: object): string {
+  const payload = Buffer.from(JSON.stringify(value)).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+}
+
+function unseal<T>(token: string | undefined): T | null {
+  const [payload, signature, ...rest] = token?.split(".") ?? [];
+  if (!payload || !signature || rest.length > 0) {
+    return null;
+  }
+  const expected = Buffer.from(sign(payload));
+  const provided = Buffer.from(signature);
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return null;
+  }
+  try {
+    return JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Domain sign-in messages must name. Request headers are client-controlled, so outside production without
+ * AUTH_SIWE_DOMAIN only the Host of a direct request is accepted, never X-Forwarded-Host.
+ */
+function getExpectedDomain(request: Request): string | null {
+  const configured = process.env.AUTH_SIWE_DOMAIN?.trim();
+  if (configured) {
+    return configured;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new AuthSessionError("Sign-in is not configured", 503);
+  }
+  return request.headers.get("host");
+}
+
+/** Marks the nonce as used; throws if another login got to it first */
+async function consumeNonce(nonce: string, expiresAt: number): Promise<void> {
+  await upsertRecord<UsedNonce>("siweNonces", nonce, (used) => {
+    if (used) {
+      throw new AuthSessionError("Nonce is missing, expired or already used", 401);
+    }
+    return { usedAt: new Date().toISOString(), expiresAt: new Date(expiresAt).toISOString() };
+  });
+  await pruneUsedNonces();
+}
+
+// A nonce whose cookie expired is rejected before the used-nonce lookup, so its record is no longer needed
+async function pruneUsedNonces(): Promise<void> {
+  const now = Date.now();
+  for (const { key, record } of await listRecordEntries<UsedNonce>("siweNonces")) {
+    if (Date.parse(record.expiresAt) < now) {
+      await deleteRecord("siweNonces", key);
+    }
+  }
+}
+
+function uriHost(uri: string): string | null {
+  try {
+    return new URL(uri).host;
+  } catch {
+    return null;
+  }
+}
+
+function readCookie(request: Request, name: string): string | undefined {
+  for (const part of request.headers.get("cookie")?.split(";") ?? []) {
+    const separator = part.indexOf("=");
+    if (separator > 0 && part.slice(0, separator).trim() === name) {
+      return decodeURIComponent(part.slice(separator + 1).trim());
+    }
+  }
+  return undefined;
+}
+
+/** Fresh nonce and the signed cookie value that remembers it for AUTH_NONCE_TTL_SECONDS */
+export function issueNonce(): { nonce: string; cookie: string } {
+  const nonce = randomBytes(16).toString("hex");
+  return { nonce, cookie: seal({ nonce, expiresAt: Date.now() + AUTH_NONCE_TTL_SECONDS * 1000 }) };
+}
+
+/**
+ * Checks a signed EIP-4361 message against the nonce cookie of the same browser and the configured domain,
+ * consumes the nonce and returns the session to seal. The caller also clears the nonce cookie.
+ */
+export async function verifySiweLogin(request: Request, messageText: string, signature: `0x${string}`): Promise<AuthSession> {
+  let message;
+  try {
+    message = parseSiweMessage(messageText);
+  } catch (err) {
+    if (err instanceof SiweMessageError) {
+      throw new AuthSessionError(err.message, 400);
+    }
+    throw err;
+  }
+
+  const pending = unseal<{ nonce: string; expiresAt: number }>(readCookie(request, AUTH_NONCE_COOKIE));
+  if (!pending || pending.expiresAt < Date.now() || pending.nonce !== message.nonce) {
+    throw new AuthSessionError("Nonce is missing, expired or already used", 401);
+  }
+
+  const domain = getExpectedDomain(request);
+  if (!domain || message.domain !== domain) {
+    throw new AuthSessionError(`Message was issued for ${message.domain}, not ${domain}`, 401);
+  }
+  if (uriHost(message.uri) !== domain) {
+    throw new AuthSessionError(`Message URI ${message.uri} is not on ${domain}`, 401);
+  }
+  if (!getChainById(message.chainId)) {
+    throw new AuthSessionError(`Unsupported chain ${message.chainId}`, 400);
+  }
+
+  const now = Date.now();
+  const expirationTime = message.expirationTime ? Date.parse(message.expirationTime) : undefined;
+  if (Date.parse(message.issuedAt) > now + CLOCK_SKEW_MS) {
+    throw new AuthSessionError("Message is issued in the future", 401);
+  }
+  if (expirationTime !== undefined && expirationTime <= now) {
+    throw new AuthSessionError("Message has expired", 401);
+  }
+  if (message.notBefore && Date.parse(message.notBefore) > now + CLOCK_SKEW_MS) {
+    throw new AuthSessionError("Message is not valid yet", 401);
+  }
+
+  const valid = await verifyMessage({ address: message.address, message: messageText, signature }).catch(() => false);
+  if (!valid) {
+    throw new AuthSessionError("Invalid signature", 401);
+  }
+  await consumeNonce(message.nonce, pending.expiresAt);
+
+  const expiresAt = Math.min(now + getSessionTtlSeconds() * 1000, expirationTime ?? Number.POSITIVE_INFINITY);
+  return { address: getAddress(message.address), chainId: message.chainId, issuedAt: now, expiresAt };
+}
+
+export function sealSession(session: AuthSession): string {
+  return seal(session);
+}
+
+/** Session from the request cookie, null when missing, tampered with, expired or sign-in is not configured */
+export function getAuthSession(request: Request): AuthSession | null {
+  let session: AuthSession | null;
+  try {
+    session = unseal<AuthSession>(readCookie(request, AUTH_SESSION_COOKIE));
+  } catch (err) {
+    if (err instanceof AuthSessionError) {
+      return null;
+    }
+    throw err;
+  }
+  if (!session || typeof session.address !== "string" || session.expiresAt <= Date.now()) {
+    return null;
+  }
+  return session;
+}
@@ -9,6 +9,13 @@ export const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
 
 const INFURA_KEY = process.env.NEXT_PUBLIC_INFURA_API_KEY || "";
 
+export type PaymentTokenConfig = {
+  symbol: string;
+  name: string;
+  address: `0x${string}`;
+  decimals: number;
+};
+
 type PublicChainConfig = {
   id: number;
   name: string;
@@ -22,6 +29,7 @@ type PublicChainConfig = {
   };
   blockExplorer?: string;
   faucet?: string;
+  paymentTokens?: PaymentTokenConfig[];
 };
 
 const chainData = rawChainData as Record<string, PublicChainConfig>;
@@ -46,6 +54,7 @@ export type ChainDefinition = {
   blockExplorer?: string;
   contractAddress: `0x${string}`;
   faucet?: string;
+  paymentTokens: PaymentTokenConfig[];
 };
 
 export const supportedChains: Record<string, ChainDefinition> = Object.entries(chainData).reduce(
@@ -70,7 +79,8 @@ export const supportedChains: Record<string, ChainDefinition> = Object.entries(c
       rpcUrls,
       blockExplorer: config.blockExplorer,
       contractAddress,
-      faucet: config.faucet
+      faucet: config.faucet,
+      paymentTokens: config.paymentTokens ?? []
     };
 
     return accumulator;
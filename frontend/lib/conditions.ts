@@ -0,0 +1,98 @@
+/**
+ * Condition bits of SealedMessage.conditionMask and helpers for the AND/OR unlock expression.
+ * An expression is a list of clauses: the message unlocks when ANY clause has ALL of its bits satisfied.
+ */
+export const CONDITION_TIME = 0x01;
+export const CONDITION_PAYMENT = 0x02;
+export const CONDITION_EXPIRY = 0x04;
+export const CONDITION_HEARTBEAT = 0x08;
+export const CONDITION_GUARDIANS = 0x10;
+export const CONDITION_CONSENT = 0x20;
+export const CONDITION_DEPENDENCY = 0x40;
+/** Not an unlock condition: the sender allows the session key to be published on-chain once the message unlocks */
+export const FLAG_KEY_RELEASE = 0x80;
+
+/** Chained messages: what has to happen to the referenced message */
+export const DEPENDENCY_UNLOCKED = 1;
+export const DEPENDENCY_ACKNOWLEDGED = 2;
+export const MAX_CHAIN_DEPTH = 8;
+
+export const MAX_UNLOCK_CLAUSES = 8;
+/** getUnlockState().matchedClause when no clause is satisfied */
+export const NO_CLAUSE = 0xff;
+
+export const UNLOCK_CONDITION_BITS = [
+  CONDITION_TIME,
+  CONDITION_PAYMENT,
+  CONDITION_HEARTBEAT,
+  CONDITION_GUARDIANS,
+  CONDITION_CONSENT,
+  CONDITION_DEPENDENCY
+] as const;
+
+const CONDITION_LABELS: Record<number, string> = {
+  [CONDITION_TIME]: "time lock",
+  [CONDITION_PAYMENT]: "payment",
+  [CONDITION_HEARTBEAT]: "missed sender check-in",
+  [CONDITION_GUARDIANS]: "guardian approvals",
+  [CONDITION_CONSENT]: "sender consent",
+  [CONDITION_DEPENDENCY]: "linked message"
+};
+
+export function conditionLabel(bit: number): string {
+  return CONDITION_LABELS[bit] ?? `condition 0x${bit.toString(16)}`;
+}
+
+export function clauseBits(clause: number): number[] {
+  return UNLOCK_CONDITION_BITS.filter((bit) => (clause & bit) !== 0);
+}
+
+export function describeDependency(dependsOn: bigint | number, kind: number): string {
+  return kind === DEPENDENCY_ACKNOWLEDGED
+    ? `message #${dependsOn.toString()} is read by its receiver`
+    : `message #${dependsOn.toString()} unlocks`;
+}
+
+/** "time lock AND payment" */
+export function describeClause(clause: number): string {
+  return clauseBits(clause).map(conditionLabel).join(" AND ");
+}
+
+/** "(time lock AND payment) OR sender consent" */
+export function describeExpression(clauses: readonly number[]): string {
+  if (clauses.length === 1) {
+    return describeClause(clauses[0]);
+  }
+  return clauses
+    .map((clause) => (clauseBits(clause).length > 1 ? `(${describeClause(clause)})` : describeClause(clause)))
+    .join(" OR ");
+}
+
+/**
+ * Mirrors SealedMessage._setUnlockClauses: returns an error message, or null if the clauses are valid
+ * for the given condition mask.
+ */
+export function validateUnlockClauses(clauses: readonly number[], conditionMask: number): string | null {
+  if (clauses.length === 0) {
+    return null;
+  }
+  if (clauses.length > MAX_UNLOCK_CLAUSES) {
+    return `At most ${MAX_UNLOCK_CLAUSES} clauses are supported.`;
+  }
+  const active = UNLOCK_CONDITION_BITS.reduce((acc, bit) => acc | (conditionMask & bit), 0);
+  let used = 0;
+  for (const clause of clauses) {
+    if (clause === 0) {
+      return "Every clause needs at least one condition.";
+    }
+    if ((clause & ~active) !== 0) {
+      return "A clause uses a condition that is not enabled.";
+    }
+    used |= clause;
+  }
+  if (used !== active) {
+    const unused = clauseBits(active & ~used).map(conditionLabel).join(", ");
+    return `Enabled conditions not used by any clause: ${unused}.`;
+  }
+  return null;
+}
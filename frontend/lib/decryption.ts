@@ -2,13 +2,41 @@ import * as secp256k1 from '@noble/secp256k1';
 import { sha256 } from '@noble/hashes/sha2.js';
 import { keccak256 } from 'ethers';
 import { aesGcmDecryptBytes, aesGcmDecryptMessage } from './encryption';
-import { getOrCreateEncryptionKey } from './keyAgreement';
+import { findEncryptionKeyByPublicKey, getOrCreateEncryptionKey, type DerivedKeyPair } from './keyAgreement';
 
 export type DecryptRole = 'receiver' | 'sender';
 
 export interface DecryptOptions {
   role?: DecryptRole;
   peerPublicKey?: Uint8Array;
+  /**
+   * Our own public key the message was sealed to (the receiver key at Message.encryptionKeyVersion,
+   * or the sender key recorded in the envelope). Used to pick the matching derived key.
+   */
+  sealedToPublicKey?: Uint8Array;
+}
+
+/** The message was sealed to one of our earlier keys and that key is not available on this device. */
+export class PreviousEncryptionKeyError extends Error {
+  constructor() {
+    super('This message was sealed to your previous encryption key, which is not available on this device');
+    this.name = 'PreviousEncryptionKeyError';
+  }
+}
+
+const sameKey = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((byte, index) => byte === b[index]);
+
+async function resolveLocalKeyPair(walletClient: any, userAddress: string, sealedTo?: Uint8Array): Promise<DerivedKeyPair> {
+  const current = await getOrCreateEncryptionKey(walletClient, userAddress);
+  if (!sealedTo || sealedTo.length === 0 || sameKey(current.publicKey, sealedTo)) {
+    return current;
+  }
+  const previous = findEncryptionKeyByPublicKey(userAddress, sealedTo);
+  if (!previous) {
+    throw new PreviousEncryptionKeyError();
+  }
+  console.log('🗝️ Using previous encryption key for this message');
+  return previous;
 }
 
 export interface ReceiverEnvelopeChunks {
@@ -61,8 +89,8 @@ export async function decryptMessage(params: DecryptMessageParams): Promise<stri
       envelopeCipher: receiverEnvelope.ciphertext.length
     });
 
-    // Step 1: Get receiver's encryption keypair (derived from wallet signature)
-    const receiverKeyPair = await getOrCreateEncryptionKey(walletClient, userAddress);
+    // Step 1: Get our encryption keypair (derived from wallet signature), matching the key the message was sealed to
+    const receiverKeyPair = await resolveLocalKeyPair(walletClient, userAddress, options?.sealedToPublicKey);
     console.log('✅ Receiver keypair derived from wallet');
     console.log('📍 Receiver public key:', Array.from(receiverKeyPair.publicKey).map(b => b.toString(16).padStart(2, '0')).join('').slice(0, 20) + '...');
     console.log('📍 Sender public key:', Array.from(senderPublicKey).map(b => b.toString(16).padStart(2, '0')).join('').slice(0, 20) + '...');
@@ -149,6 +177,50 @@ export async function decryptMessage(params: DecryptMessageParams): Promise<stri
   } catch (err: any) {
     console.error('❌ Decryption failed at stage:', err);
     console.warn('Full error:', err);
+    if (err instanceof PreviousEncryptionKeyError) {
+      throw err;
+    }
     throw new Error(`Decryption failed: ${err.message}`);
   }
 }
+
+const PUBLIC_IPFS_GATEWAYS = [
+  (hash: string) => `https://ipfs.io/ipfs/${hash}`,
+  (hash: string) => `https://dweb.link/ipfs/${hash}`
+];
+
+/**
+ * Decrypts with a session key published on-chain by releaseSessionKey, straight from a public IPFS gateway.
+ * Needs neither our API nor the receiver envelope, so it keeps working if the web server is gone.
+ */
+export async function decryptWithReleasedSessionKey(params: {
+  uri: string;
+  iv: Uint8Array;
+  sessionKey: Uint8Array;
+  sessionKeyCommitment?: string;
+}): Promise<string> {
+  const { uri, iv, sessionKey, sessionKeyCommitment } = params;
+  if (sessionKeyCommitment && keccak256(sessionKey).toLowerCase() !== sessionKeyCommitment.toLowerCase()) {
+    throw new Error('Released session key does not match the commitment');
+  }
+
+  const ipfsHash = uri.replace(/^ipfs:\/\//, '');
+  let lastError: unknown = null;
+  for (const gateway of PUBLIC_IPFS_GATEWAYS) {
+    try {
+      const response = await fetch(gateway(ipfsHash));
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const payload = new Uint8Array(await response.arrayBuffer());
+      if (payload.length <= 16) {
+        throw new Error('Encrypted payload too short');
+      }
+      // Payload layout: ciphertext || 16-byte GCM auth tag
+      return await aesGcmDecryptMessage(payload.slice(0, -16), payload.slice(-16), iv, sessionKey);
+    } catch (err) {
+      lastError = err;
+    }
+  }
+  throw lastError ?? new Error('Unable to fetch IPFS payload');
+}
@@ -17,6 +17,12 @@ if (!activeChain) {
 const contractOverride = ensure(process.env.NEXT_PUBLIC_CONTRACT_ADDRESS);
 const explorerOverride = ensure(process.env.NEXT_PUBLIC_EXPLORER_URL);
 const rpcOverride = ensure(process.env.NEXT_PUBLIC_RPC_URL);
+// Threshold escrow: comma-separated escrow operator base URLs, any `threshold` of them release a session key
+const escrowOperatorUrls = (ensure(process.env.NEXT_PUBLIC_ESCROW_OPERATORS) ?? "")
+  .split(",")
+  .map((url) => url.trim().replace(/\/+$/, ""))
+  .filter(Boolean);
+const escrowThreshold = Number(ensure(process.env.NEXT_PUBLIC_ESCROW_THRESHOLD) ?? 2);
 
 export const appConfig = {
   contractAddress: (contractOverride || activeChain.contractAddress || ZERO_ADDRESS) as `0x${string}`,
@@ -27,5 +33,9 @@ export const appConfig = {
     nativeCurrency: activeChain.nativeCurrency,
     rpcUrl: rpcOverride || activeChain.rpcUrls.default,
     explorerUrl: explorerOverride || activeChain.blockExplorer
+  },
+  escrow: {
+    operatorUrls: escrowOperatorUrls,
+    threshold: escrowThreshold
   }
 };
@@ -0,0 +1,20 @@
+/**
+ * EIP-712 authorization a sender signs before sending, so /api/escrow/envelope only stores a receiver envelope
+ * on behalf of the wallet that will send the message. Off-chain only, signed under the SealedMessage domain;
+ * receiverEnvelopeHash already covers the envelope bytes and the sender's public key.
+ */
+export const RECEIVER_ENVELOPE_TYPES = {
+  ReceiverEnvelope: [
+    { name: "sender", type: "address" },
+    { name: "sessionKeyCommitment", type: "bytes32" },
+    { name: "receiverEnvelopeHash", type: "bytes32" },
+    { name: "ciphertextHash", type: "bytes32" }
+  ]
+} as const;
+
+export interface ReceiverEnvelopeAuthorization {
+  sender: `0x${string}`;
+  sessionKeyCommitment: `0x${string}`;
+  receiverEnvelopeHash: `0x${string}`;
+  ciphertextHash: `0x${string}`;
+}
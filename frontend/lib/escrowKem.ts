@@ -0,0 +1,124 @@
+import * as secp256k1 from "@noble/secp256k1";
+import { sha256 } from "@noble/hashes/sha2.js";
+import { hkdf } from "@noble/hashes/hkdf.js";
+
+/**
+ * ECIES-KEM to a per-version escrow public key (secp256k1), shared by the browser and the escrow server.
+ * The on-chain escrow fields hold 60 bytes, too few for an ephemeral key plus an encrypted session key,
+ * so the session key *is* the KEM output:
+ *   R = e·G, S = x(e·P), okm = HKDF-SHA256(S, salt = R, info = "sealed-message-escrow-kem:v<version>", 48)
+ *   sessionKey = okm[0:32], escrowCiphertext = x(R), escrowIv = parity(R) || 0^11, escrowAuthTag = okm[32:48]
+ * Only the holder of the version's private key can rebuild the session key; the tag confirms it did.
+ */
+export interface EscrowEncapsulation {
+  sessionKey: Uint8Array;
+  escrowCiphertext: `0x${string}`;
+  escrowIv: `0x${string}`;
+  escrowAuthTag: `0x${string}`;
+}
+
+const toHex = (bytes: Uint8Array): `0x${string}` =>
+  `0x${Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("")}`;
+const fromHex = (hex: string) => Uint8Array.from((hex.replace(/^0x/, "").match(/.{2}/g) ?? []).map((byte) => parseInt(byte, 16)));
+
+function deriveKemOutput(ephemeralPublicKey: Uint8Array, sharedPoint: Uint8Array, keyVersion: number) {
+  const info = new TextEncoder().encode(`sealed-message-escrow-kem:v${keyVersion}`);
+  // Skip the prefix byte of the compressed shared point: x-coordinate only
+  const okm = hkdf(sha256, sharedPoint.slice(1, 33), ephemeralPublicKey, info, 48);
+  return { sessionKey: okm.slice(0, 32), confirmationTag: okm.slice(32, 48) };
+}
+
+/** Sender side: fresh session key plus the escrow fields that let the escrow rebuild it. */
+export function encapsulateEscrowKey(escrowPublicKey: `0x${string}`, keyVersion: number): EscrowEncapsulation {
+  const ephemeralSecret = secp256k1.utils.randomSecretKey();
+  const ephemeralPublicKey = secp256k1.getPublicKey(ephemeralSecret, true);
+  const sharedPoint = secp256k1.getSharedSecret(ephemeralSecret, fromHex(escrowPublicKey), true);
+  ephemeralSecret.fill(0);
+
+  const { sessionKey, confirmationTag } = deriveKemOutput(ephemeralPublicKey, sharedPoint, keyVersion);
+  const escrowIv = new Uint8Array(12);
+  escrowIv[0] = ephemeralPublicKey[0];
+  return {
+    sessionKey,
+    escrowCiphertext: toHex(ephemeralPublicKey.slice(1)),
+    escrowIv: toHex(escrowIv),
+    escrowAuthTag: toHex(confirmationTag)
+  };
+}
+
+/** Escrow side: rebuilds the session key from the on-chain escrow fields with the version's private key. */
+export function decapsulateEscrowKey(
+  escrowPrivateKey: Uint8Array,
+  fields: { ciphertext: string; iv: string; authTag: string },
+  keyVersion: number
+): Uint8Array {
+  const ephemeralX = fromHex(fields.ciphertext);
+  const iv = fromHex(fields.iv);
+  const tag = fromHex(fields.authTag);
+  if (ephemeralX.length !== 32 || iv.length !== 12 || tag.length !== 16 || iv.slice(1).some((byte) => byte !== 0)) {
+    throw new Error("Escrow fields are not an escrow KEM encapsulation");
+  }
+
+  const ephemeralPublicKey = new Uint8Array(33);
+  ephemeralPublicKey[0] = iv[0];
+  ephemeralPublicKey.set(ephemeralX, 1);
+  const sharedPoint = secp256k1.getSharedSecret(escrowPrivateKey, ephemeralPublicKey, true);
+  const { sessionKey, confirmationTag } = deriveKemOutput(ephemeralPublicKey, sharedPoint, keyVersion);
+
+  let diff = 0;
+  for (let i = 0; i < 16; i += 1) {
+    diff |= confirmationTag[i] ^ tag[i];
+  }
+  if (diff !== 0) {
+    throw new Error(`Escrow key confirmation failed for version ${keyVersion}`);
+  }
+  return sessionKey;
+}
+
+export function escrowPublicKeyFromSecret(escrowPrivateKey: Uint8Array): `0x${string}` {
+  return toHex(secp256k1.getPublicKey(escrowPrivateKey, true));
+}
+
+/** ECIES box: ciphertext = ephemeral public key (33) || AES-256-GCM ciphertext; WebCrypto, so usable in the browser. */
+export interface SealedBox {
+  ciphertext: `0x${string}`;
+  iv: `0x${string}`;
+  authTag: `0x${string}`;
+}
+
+async function boxKey(ephemeralPublicKey: Uint8Array, sharedPoint: Uint8Array, info: string, usage: KeyUsage) {
+  const keyBytes = hkdf(sha256, sharedPoint.slice(1, 33), ephemeralPublicKey, new TextEncoder().encode(info), 32);
+  return globalThis.crypto.subtle.importKey("raw", keyBytes, "AES-GCM", false, [usage]);
+}
+
+/** Encrypts `plaintext` so only the holder of `publicKey` can open it; `info` binds the box to its purpose. */
+export async function sealToPublicKey(plaintext: Uint8Array, publicKey: `0x${string}`, info: string): Promise<SealedBox> {
+  const ephemeralSecret = secp256k1.utils.randomSecretKey();
+  const ephemeralPublicKey = secp256k1.getPublicKey(ephemeralSecret, true);
+  const sharedPoint = secp256k1.getSharedSecret(ephemeralSecret, fromHex(publicKey), true);
+  ephemeralSecret.fill(0);
+
+  const iv = globalThis.crypto.getRandomValues(new Uint8Array(12));
+  const key = await boxKey(ephemeralPublicKey, sharedPoint, info, "encrypt");
+  // WebCrypto appends the 16-byte tag to the ciphertext
+  const sealed = new Uint8Array(await globalThis.crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new Uint8Array(plaintext)));
+  const ciphertext = new Uint8Array(33 + sealed.length - 16);
+  ciphertext.set(ephemeralPublicKey);
+  ciphertext.set(sealed.slice(0, -16), 33);
+  return { ciphertext: toHex(ciphertext), iv: toHex(iv), authTag: toHex(sealed.slice(-16)) };
+}
+
+export async function openSealedBox(privateKey: Uint8Array, box: SealedBox, info: string): Promise<Uint8Array> {
+  const ciphertext = fromHex(box.ciphertext);
+  if (ciphertext.length <= 33) {
+    throw new Error("Sealed box is too short");
+  }
+  const ephemeralPublicKey = ciphertext.slice(0, 33);
+  const sharedPoint = secp256k1.getSharedSecret(privateKey, ephemeralPublicKey, true);
+  const key = await boxKey(ephemeralPublicKey, sharedPoint, info, "decrypt");
+
+  const sealed = new Uint8Array(ciphertext.length - 33 + 16);
+  sealed.set(ciphertext.slice(33));
+  sealed.set(fromHex(box.authTag), ciphertext.length - 33);
+  return new Uint8Array(await globalThis.crypto.subtle.decrypt({ name: "AES-GCM", iv: fromHex(box.iv) }, key, sealed));
+}
@@ -0,0 +1,195 @@
+import { createCipheriv, createDecipheriv, createHash, hkdfSync, randomBytes } from "crypto";
+import * as secp256k1 from "@noble/secp256k1";
+import { decapsulateEscrowKey, escrowPublicKeyFromSecret } from "./escrowKem";
+import {
+  EscrowKeyLockedError,
+  escrowKeyFingerprint,
+  getShamirConfig,
+  getUnlockedEscrowKey,
+  listShamirVersions
+} from "./escrowUnlock";
+
+/**
+ * Escrowed session key as stored in escrowCiphertext / escrowIv / escrowAuthTag. Its layout depends on the version:
+ * - no public key (legacy symmetric version): AES-256-GCM under the version key, 32-byte ciphertext
+ * - public key, 32-byte ciphertext: on-chain escrow KEM encapsulation made by the sender (escrowKem.ts)
+ * - public key, 65-byte ciphertext: off-chain re-wrap, ephemeral key (33) || AES-256-GCM ciphertext (32)
+ */
+export interface EscrowWrap {
+  ciphertext: `0x${string}`;
+  iv: `0x${string}`;
+  authTag: `0x${string}`;
+}
+
+/**
+ * Escrow key registry. Every version keeps its own material in ESCROW_KEY_V<n>_PART_A / ESCROW_KEY_V<n>_PART_B;
+ * ESCROW_KEY_VERSION selects the current one for new wraps, all others are retired and only unwrap.
+ * The unversioned ESCROW_KEY_PART_A / ESCROW_KEY_PART_B still work as the material of the current version.
+ * A version configured with ESCROW_KEY_V<n>_SHAMIR ignores env parts and is only usable once custodians
+ * have unlocked it (see escrowUnlock.ts). ESCROW_KEY_V<n>_PUBLIC_KEY publishes the version's secp256k1 public key
+ * (its material is the private key); senders can only escrow to versions that have one.
+ */
+export interface EscrowKeyVersionInfo {
+  version: number;
+  status: "current" | "retired";
+  source: "env" | "shamir";
+  // Shamir versions stay locked until enough shares were submitted since the last start
+  locked: boolean;
+  publicKey: `0x${string}` | null;
+  // First 8 bytes of sha256(derived key): identifies the material without revealing it
+  fingerprint: string;
+}
+
+const toHex = (bytes: Buffer): `0x${string}` => `0x${bytes.toString("hex")}`;
+const fromHex = (hex: string) => Buffer.from(hex.replace(/^0x/, ""), "hex");
+
+const VERSIONED_PART_A = /^ESCROW_KEY_V(\d+)_PART_A$/;
+const COMPRESSED_PUBLIC_KEY = /^0x0[23][0-9a-fA-F]{64}$/;
+
+export function getEscrowKeyVersion(): number {
+  return Number(process.env.ESCROW_KEY_VERSION ?? 1);
+}
+
+function keyParts(version: number): [string | undefined, string | undefined] {
+  const versionedA = process.env[`ESCROW_KEY_V${version}_PART_A`];
+  const versionedB = process.env[`ESCROW_KEY_V${version}_PART_B`];
+  if (versionedA || versionedB) {
+    return [versionedA, versionedB];
+  }
+  if (version === getEscrowKeyVersion()) {
+    return [process.env.ESCROW_KEY_PART_A, process.env.ESCROW_KEY_PART_B];
+  }
+  return [undefined, undefined];
+}
+
+/**
+ * AES key of the given version (default: current): the in-memory Shamir reconstruction, or
+ * sha256(PART_A || PART_B). Throws EscrowKeyLockedError for a Shamir version that is not unlocked yet.
+ */
+export function deriveEscrowKey(version = getEscrowKeyVersion()): Buffer {
+  if (getShamirConfig(version)) {
+    const unlockedKey = getUnlockedEscrowKey(version);
+    if (!unlockedKey) {
+      throw new EscrowKeyLockedError(version);
+    }
+    return unlockedKey;
+  }
+
+  const [keyPartA, keyPartB] = keyParts(version);
+  if (!keyPartA || !keyPartB) {
+    throw new Error(`Escrow key material unavailable for version ${version}`);
+  }
+
+  const materialA = fromHex(keyPartA);
+  const materialB = fromHex(keyPartB);
+  if (materialA.length === 0 || materialB.length === 0) {
+    throw new Error(`Escrow key parts of version ${version} must be non-empty`);
+  }
+
+  return createHash("sha256").update(Buffer.concat([materialA, materialB])).digest();
+}
+
+/** Whether the version can unwrap right now. */
+export function hasEscrowKey(version: number): boolean {
+  if (getShamirConfig(version)) {
+    return getUnlockedEscrowKey(version) !== null;
+  }
+  const [keyPartA, keyPartB] = keyParts(version);
+  return Boolean(keyPartA && keyPartB);
+}
+
+/** Configured versions (env parts or Shamir, locked or not), current first. */
+export function listEscrowKeyVersions(): EscrowKeyVersionInfo[] {
+  const current = getEscrowKeyVersion();
+  const versions = new Set<number>([current, ...listShamirVersions()]);
+  for (const name of Object.keys(process.env)) {
+    const match = VERSIONED_PART_A.exec(name);
+    if (match) {
+      versions.add(Number(match[1]));
+    }
+  }
+
+  const infos: EscrowKeyVersionInfo[] = [];
+  for (const version of versions) {
+    const status = version === current ? "current" : "retired";
+    const shamir = getShamirConfig(version);
+    if (shamir) {
+      const locked = getUnlockedEscrowKey(version) === null;
+      const publicKey = getEscrowPublicKey(version);
+      infos.push({ version, status, source: "shamir", locked, publicKey, fingerprint: shamir.fingerprint });
+    } else if (hasEscrowKey(version)) {
+      const fingerprint = escrowKeyFingerprint(deriveEscrowKey(version));
+      infos.push({ version, status, source: "env", locked: false, publicKey: getEscrowPublicKey(version), fingerprint });
+    }
+  }
+  return infos.sort((a, b) => (a.version === current ? -1 : b.version === current ? 1 : b.version - a.version));
+}
+
+/** Published secp256k1 public key of the version (compressed), null for legacy symmetric versions. */
+export function getEscrowPublicKey(version = getEscrowKeyVersion()): `0x${string}` | null {
+  const publicKey = process.env[`ESCROW_KEY_V${version}_PUBLIC_KEY`]?.trim();
+  if (!publicKey) {
+    return null;
+  }
+  if (!COMPRESSED_PUBLIC_KEY.test(publicKey)) {
+    throw new Error(`ESCROW_KEY_V${version}_PUBLIC_KEY must be a 33-byte compressed secp256k1 key`);
+  }
+  return publicKey.toLowerCase() as `0x${string}`;
+}
+
+function escrowPrivateKey(version: number, publicKey: `0x${string}`): Buffer {
+  const privateKey = deriveEscrowKey(version);
+  if (escrowPublicKeyFromSecret(privateKey) !== publicKey) {
+    throw new Error(`Escrow key material of version ${version} does not match ESCROW_KEY_V${version}_PUBLIC_KEY`);
+  }
+  return privateKey;
+}
+
+function demKey(ephemeralPublicKey: Uint8Array, sharedPoint: Uint8Array, version: number): Buffer {
+  const info = `sealed-message-escrow-dem:v${version}`;
+  return Buffer.from(hkdfSync("sha256", sharedPoint.slice(1, 33), ephemeralPublicKey, info, 32));
+}
+
+/**
+ * Wraps to the current version's public key (ECIES with AES-256-GCM), for off-chain re-wraps. Needs no private
+ * material, so it also works while a Shamir version is locked. New messages are encapsulated by the sender instead.
+ */
+export function wrapSessionKey(sessionKey: Buffer): EscrowWrap & { keyVersion: number } {
+  const keyVersion = getEscrowKeyVersion();
+  const publicKey = getEscrowPublicKey(keyVersion);
+  if (!publicKey) {
+    throw new Error(`Escrow key version ${keyVersion} has no public key`);
+  }
+
+  const ephemeralSecret = secp256k1.utils.randomSecretKey();
+  const ephemeralPublicKey = secp256k1.getPublicKey(ephemeralSecret, true);
+  const sharedPoint = secp256k1.getSharedSecret(ephemeralSecret, fromHex(publicKey), true);
+  ephemeralSecret.fill(0);
+
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", demKey(ephemeralPublicKey, sharedPoint, keyVersion), iv);
+  const ciphertext = Buffer.concat([Buffer.from(ephemeralPublicKey), cipher.update(sessionKey), cipher.final()]);
+  return { ciphertext: toHex(ciphertext), iv: toHex(iv), authTag: toHex(cipher.getAuthTag()), keyVersion };
+}
+
+/** Unwraps with the version the wrap was made under (current or retired). */
+export function unwrapSessionKey(wrap: EscrowWrap, version: number): Buffer {
+  const publicKey = getEscrowPublicKey(version);
+  if (!publicKey) {
+    const decipher = createDecipheriv("aes-256-gcm", deriveEscrowKey(version), fromHex(wrap.iv));
+    decipher.setAuthTag(fromHex(wrap.authTag));
+    return Buffer.concat([decipher.update(fromHex(wrap.ciphertext)), decipher.final()]);
+  }
+
+  const privateKey = escrowPrivateKey(version, publicKey);
+  const ciphertext = fromHex(wrap.ciphertext);
+  if (ciphertext.length === 32) {
+    return Buffer.from(decapsulateEscrowKey(privateKey, wrap, version));
+  }
+
+  const ephemeralPublicKey = ciphertext.subarray(0, 33);
+  const sharedPoint = secp256k1.getSharedSecret(privateKey, ephemeralPublicKey, true);
+  const decipher = createDecipheriv("aes-256-gcm", demKey(ephemeralPublicKey, sharedPoint, version), fromHex(wrap.iv));
+  decipher.setAuthTag(fromHex(wrap.authTag));
+  return Buffer.concat([decipher.update(ciphertext.subarray(33)), decipher.final()]);
+}
@@ -0,0 +1,279 @@
+import { createPublicClient, http, keccak256, type PublicClient } from "viem";
+import { sealedMessageAbi } from "./sealedMessageAbi";
+import { supportedChains, toViemChain, ZERO_ADDRESS, type ChainConfig } from "./chains";
+import { resolveRpcUrl } from "./serverChains";
+import {
+  getEscrowKeyVersion,
+  getEscrowPublicKey,
+  hasEscrowKey,
+  listEscrowKeyVersions,
+  unwrapSessionKey,
+  wrapSessionKey,
+  type EscrowWrap
+} from "./escrowKey";
+import { getRewrap, getRewraps, saveRewraps, type EscrowRewrap } from "./escrowRewrapStore";
+import { readOnchainMessage, type OnchainMessage } from "./onchainMessage";
+import { THRESHOLD_ESCROW_VERSION } from "./thresholdEscrow";
+
+const ZERO_KEY = `0x${"0".repeat(64)}`;
+const HEADER_BATCH_SIZE = 100n;
+
+// released: session key already public on-chain, the escrow key no longer protects it
+export type EscrowMessageState = "locked" | "unlocked" | "released" | "revoked" | "expired";
+
+export interface ResolvedEscrowWrap {
+  wrap: EscrowWrap;
+  version: number;
+  source: "onchain" | "rewrap";
+}
+
+export interface EscrowVersionUsage {
+  version: number;
+  // "missing": messages reference this version but the server holds no material for it
+  status: "current" | "retired" | "missing";
+  fingerprint: string | null;
+  // Shamir-split version still waiting for custodian shares
+  locked: boolean;
+  // messages whose on-chain escrowKeyVersion is this version
+  onchain: number;
+  // messages this version effectively unwraps (after re-wraps), by state
+  protects: Record<EscrowMessageState, number>;
+}
+
+export interface EscrowAuditReport {
+  chainId: number;
+  contractAddress: `0x${string}`;
+  currentVersion: number;
+  totalMessages: number;
+  escrowedMessages: number;
+  versions: EscrowVersionUsage[];
+}
+
+export interface RewrapJobResult {
+  chainId: number;
+  scanned: number;
+  rewrapped: { messageId: string; fromVersion: number; version: number }[];
+  failed: { messageId: string; error: string }[];
+}
+
+interface EscrowedMessage {
+  messageId: bigint;
+  state: EscrowMessageState;
+  message: OnchainMessage;
+}
+
+function configuredChains(): { chainKey: string; config: ChainConfig; client: PublicClient }[] {
+  return Object.entries(supportedChains)
+    .filter(([, config]) => config.contractAddress && config.contractAddress !== ZERO_ADDRESS)
+    .map(([chainKey, config]) => ({
+      chainKey,
+      config,
+      client: createPublicClient({ chain: toViemChain(config), transport: http(resolveRpcUrl(chainKey, config)) }) as PublicClient
+    }));
+}
+
+const onchainWrap = (message: OnchainMessage): EscrowWrap => ({
+  ciphertext: message[7],
+  iv: message[8],
+  authTag: message[9]
+});
+
+/**
+ * Wrap to unwrap a message's session key with: a stored re-wrap when this server holds its version,
+ * otherwise the on-chain wrap under the on-chain escrowKeyVersion.
+ */
+export function selectEscrowWrap(message: OnchainMessage, rewrap: EscrowRewrap | null): ResolvedEscrowWrap {
+  const sessionKeyCommitment = message[10];
+  if (
+    rewrap &&
+    rewrap.sessionKeyCommitment.toLowerCase() === sessionKeyCommitment.toLowerCase() &&
+    hasEscrowKey(rewrap.version)
+  ) {
+    return { wrap: rewrap, version: rewrap.version, source: "rewrap" };
+  }
+  return { wrap: onchainWrap(message), version: Number(message[12]), source: "onchain" };
+}
+
+export async function resolveEscrowWrap(
+  chainId: number,
+  contractAddress: `0x${string}`,
+  messageId: bigint,
+  message: OnchainMessage
+): Promise<ResolvedEscrowWrap> {
+  return selectEscrowWrap(message, await getRewrap(chainId, contractAddress, messageId));
+}
+
+/** Every message of the contract that carries an escrow wrap, with its current state. */
+async function listEscrowedMessages(
+  client: PublicClient,
+  contractAddress: `0x${string}`
+): Promise<{ total: number; messages: EscrowedMessage[] }> {
+  const count = await client.readContract({ address: contractAddress, abi: sealedMessageAbi, functionName: "messageCount" });
+  const messages: EscrowedMessage[] = [];
+
+  for (let start = 0n; start < count; start += HEADER_BATCH_SIZE) {
+    const end = start + HEADER_BATCH_SIZE > count ? count : start + HEADER_BATCH_SIZE;
+    const ids = Array.from({ length: Number(end - start) }, (_, index) => start + BigInt(index));
+    const headers = await client.readContract({
+      address: contractAddress,
+      abi: sealedMessageAbi,
+      functionName: "getMessageHeaders",
+      args: [ids]
+    });
+
+    for (const header of headers) {
+      // getMessage only answers its sender or receiver; the escrow fields are public calldata anyway
+      const message = await readOnchainMessage(client, contractAddress, header.id, header.sender);
+      // Threshold escrow messages are protected by the escrow operators, not by an escrow key version
+      if (message[7] === "0x" || Number(message[12]) === THRESHOLD_ESCROW_VERSION) {
+        continue;
+      }
+
+      let state: EscrowMessageState;
+      if (header.revoked) {
+        state = "revoked";
+      } else if (header.financial.isExpired) {
+        state = "expired";
+      } else if (!header.financial.isUnlocked) {
+        state = "locked";
+      } else {
+        const releasedKey = await client.readContract({
+          address: contractAddress,
+          abi: sealedMessageAbi,
+          functionName: "releasedSessionKeys",
+          args: [header.id]
+        });
+        state = releasedKey !== ZERO_KEY ? "released" : "unlocked";
+      }
+      messages.push({ messageId: header.id, state, message });
+    }
+  }
+
+  return { total: Number(count), messages };
+}
+
+/** How many messages each escrow key version protects, per configured chain. */
+export async function buildEscrowAuditReport(): Promise<EscrowAuditReport[]> {
+  const currentVersion = getEscrowKeyVersion();
+  const reports: EscrowAuditReport[] = [];
+
+  for (const { config, client } of configuredChains()) {
+    const contractAddress = config.contractAddress;
+    const [{ total, messages }, rewraps] = await Promise.all([
+      listEscrowedMessages(client, contractAddress),
+      getRewraps(config.id, contractAddress)
+    ]);
+
+    const usage = new Map<number, EscrowVersionUsage>();
+    for (const info of listEscrowKeyVersions()) {
+      usage.set(info.version, {
+        version: info.version,
+        status: info.status,
+        fingerprint: info.fingerprint,
+        locked: info.locked,
+        onchain: 0,
+        protects: { locked: 0, unlocked: 0, released: 0, revoked: 0, expired: 0 }
+      });
+    }
+    const usageOf = (version: number) => {
+      let entry = usage.get(version);
+      if (!entry) {
+        entry = {
+          version,
+          status: "missing",
+          fingerprint: null,
+          locked: false,
+          onchain: 0,
+          protects: { locked: 0, unlocked: 0, released: 0, revoked: 0, expired: 0 }
+        };
+        usage.set(version, entry);
+      }
+      return entry;
+    };
+
+    for (const { messageId, state, message } of messages) {
+      usageOf(Number(message[12])).onchain += 1;
+      const { version } = selectEscrowWrap(message, rewraps[messageId.toString()] ?? null);
+      usageOf(version).protects[state] += 1;
+    }
+
+    reports.push({
+      chainId: config.id,
+      contractAddress,
+      currentVersion,
+      totalMessages: total,
+      escrowedMessages: messages.length,
+      versions: Array.from(usage.values()).sort((a, b) => b.version - a.version)
+    });
+  }
+
+  return reports;
+}
+
+/**
+ * Re-wraps, under the current version, every session key that is not public yet (locked, or unlocked
+ * but not released) and still depends on an older version. Once a retired version protects no such
+ * message in the audit report its material can be removed.
+ */
+export async function runRewrapJob(options: { dryRun?: boolean } = {}): Promise<RewrapJobResult[]> {
+  const currentVersion = getEscrowKeyVersion();
+  // Re-wraps go to the current public key; fail fast instead of failing every message
+  if (!getEscrowPublicKey(currentVersion)) {
+    throw new Error(`Escrow key version ${currentVersion} has no public key`);
+  }
+  const results: RewrapJobResult[] = [];
+
+  for (const { config, client } of configuredChains()) {
+    const contractAddress = config.contractAddress;
+    const [{ messages }, rewraps] = await Promise.all([
+      listEscrowedMessages(client, contractAddress),
+      getRewraps(config.id, contractAddress)
+    ]);
+    const result: RewrapJobResult = { chainId: config.id, scanned: messages.length, rewrapped: [], failed: [] };
+    const updates: Record<string, EscrowRewrap> = {};
+
+    for (const { messageId, state, message } of messages) {
+      if (state !== "locked" && state !== "unlocked") {
+        continue;
+      }
+      const resolved = selectEscrowWrap(message, rewraps[messageId.toString()] ?? null);
+      if (resolved.version === currentVersion) {
+        continue;
+      }
+
+      try {
+        const sessionKey = unwrapSessionKey(resolved.wrap, resolved.version);
+        const sessionKeyCommitment = message[10];
+        if (keccak256(sessionKey) !== sessionKeyCommitment.toLowerCase()) {
+          throw new Error("Unwrapped session key does not match sessionKeyCommitment");
+        }
+        const { keyVersion, ...wrap } = wrapSessionKey(sessionKey);
+        updates[messageId.toString()] = {
+          ...wrap,
+          fromVersion: Number(message[12]),
+          version: keyVersion,
+          sessionKeyCommitment,
+          rewrappedAt: new Date().toISOString()
+        };
+        result.rewrapped.push({ messageId: messageId.toString(), fromVersion: resolved.version, version: keyVersion });
+      } catch (err: any) {
+        const error = err?.message ?? String(err);
+        console.error(`escrow rewrap: message ${messageId} on chain ${config.id} failed`, error);
+        result.failed.push({ messageId: messageId.toString(), error });
+      }
+    }
+
+    if (!options.dryRun) {
+      await saveRewraps(config.id, contractAddress, updates);
+    }
+    if (result.rewrapped.length > 0) {
+      console.log(`🔁 escrow rewrap: ${result.rewrapped.length} session key(s) moved to version ${currentVersion}`, {
+        chainId: config.id,
+        dryRun: Boolean(options.dryRun)
+      });
+    }
+    results.push(result);
+  }
+
+  return results;
+}
@@ -0,0 +1,145 @@
+import { createPublicClient, http, isHex, toHex, type PublicClient } from "viem";
+import { sealedMessageAbi } from "./sealedMessageAbi";
+import { supportedChains, toViemChain, ZERO_ADDRESS } from "./chains";
+import { resolveRpcUrl } from "./serverChains";
+import { escrowPublicKeyFromSecret } from "./escrowKem";
+import { getDeposit, markDepositReleased, saveDeposit } from "./escrowOperatorStore";
+import { readOnchainMessage } from "./onchainMessage";
+import {
+  hashManifest,
+  openOperatorShare,
+  shareCommitment,
+  THRESHOLD_ESCROW_VERSION,
+  type ReleasedShare,
+  type ThresholdEscrowManifest
+} from "./thresholdEscrow";
+
+/** Operator-side failure with the HTTP status the route should answer with */
+export class EscrowOperatorError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "EscrowOperatorError";
+  }
+}
+
+interface OperatorIdentity {
+  operatorId: string;
+  privateKey: Uint8Array;
+  publicKey: `0x${string}`;
+}
+
+export function getOperatorIdentity(): OperatorIdentity {
+  const operatorId = process.env.ESCROW_OPERATOR_ID?.trim();
+  const privateKeyHex = process.env.ESCROW_OPERATOR_PRIVATE_KEY?.trim();
+  if (!operatorId || !privateKeyHex || !isHex(privateKeyHex) || privateKeyHex.length !== 66) {
+    throw new EscrowOperatorError("Escrow operator is not configured", 503);
+  }
+  const privateKey = Uint8Array.from(Buffer.from(privateKeyHex.slice(2), "hex"));
+  return { operatorId, privateKey, publicKey: escrowPublicKeyFromSecret(privateKey) };
+}
+
+function findOwnShare(manifest: ThresholdEscrowManifest, identity: OperatorIdentity) {
+  return manifest.shares.find(
+    (share) => share.operatorId === identity.operatorId && share.operatorPublicKey.toLowerCase() === identity.publicKey
+  );
+}
+
+/**
+ * Stores a sender's manifest after checking that this operator's share opens and matches its commitment,
+ * so a sender learns at send time (not at unlock) that a share is unusable.
+ */
+export async function acceptDeposit(manifest: ThresholdEscrowManifest): Promise<`0x${string}`> {
+  const identity = getOperatorIdentity();
+  let manifestHash: `0x${string}`;
+  try {
+    manifestHash = hashManifest(manifest);
+  } catch {
+    throw new EscrowOperatorError("Malformed manifest", 400);
+  }
+  if (
+    !Number.isInteger(manifest.threshold) ||
+    manifest.threshold < 2 ||
+    manifest.threshold > manifest.shares.length
+  ) {
+    throw new EscrowOperatorError("Manifest threshold must be between 2 and the number of shares", 400);
+  }
+
+  const ownShare = findOwnShare(manifest, identity);
+  if (!ownShare) {
+    throw new EscrowOperatorError(`Manifest has no share for operator ${identity.operatorId}`, 400);
+  }
+  let share: Uint8Array;
+  try {
+    share = await openOperatorShare(identity.privateKey, manifest, ownShare);
+  } catch {
+    throw new EscrowOperatorError("Share is not sealed to this operator", 400);
+  }
+  if (shareCommitment(ownShare.index, share) !== ownShare.shareCommitment.toLowerCase()) {
+    throw new EscrowOperatorError("Share does not match its commitment", 400);
+  }
+  share.fill(0);
+
+  await saveDeposit(manifestHash, manifest);
+  return manifestHash;
+}
+
+/**
+ * Returns this operator's share once the message is unlocked according to the configured contract
+ * on this operator's own RPC. Any other contract address is refused: it could claim to be unlocked.
+ */
+export async function releaseShare(chainId: number, contractAddress: string, messageId: bigint): Promise<ReleasedShare> {
+  const identity = getOperatorIdentity();
+  const chainEntry = Object.entries(supportedChains).find(([, config]) => config.id === chainId);
+  if (
+    !chainEntry ||
+    !chainEntry[1].contractAddress ||
+    chainEntry[1].contractAddress === ZERO_ADDRESS ||
+    chainEntry[1].contractAddress.toLowerCase() !== contractAddress.toLowerCase()
+  ) {
+    throw new EscrowOperatorError("Unknown chain or contract", 400);
+  }
+  const [chainKey, config] = chainEntry;
+  const client = createPublicClient({ chain: toViemChain(config), transport: http(resolveRpcUrl(chainKey, config)) }) as PublicClient;
+
+  const [header] = await client.readContract({
+    address: config.contractAddress,
+    abi: sealedMessageAbi,
+    functionName: "getMessageHeaders",
+    args: [[messageId]]
+  });
+  if (header.revoked || header.financial.isExpired) {
+    throw new EscrowOperatorError("Message was revoked or expired", 410);
+  }
+  if (!header.financial.isUnlocked) {
+    throw new EscrowOperatorError("Message is still locked", 423);
+  }
+
+  // getMessage only answers its sender or receiver; the escrow fields are public calldata anyway
+  const message = await readOnchainMessage(client, config.contractAddress, messageId, header.sender);
+  const manifestHash = message[7];
+  const sessionKeyCommitment = message[10];
+  if (Number(message[12]) !== THRESHOLD_ESCROW_VERSION) {
+    throw new EscrowOperatorError("Message does not use threshold escrow", 400);
+  }
+
+  const deposit = await getDeposit(manifestHash);
+  if (!deposit) {
+    throw new EscrowOperatorError("No deposit for this message", 404);
+  }
+  if (deposit.manifest.sessionKeyCommitment.toLowerCase() !== sessionKeyCommitment.toLowerCase()) {
+    throw new EscrowOperatorError("Deposit does not belong to this message", 409);
+  }
+  const ownShare = findOwnShare(deposit.manifest, identity);
+  if (!ownShare) {
+    throw new EscrowOperatorError(`Manifest has no share for operator ${identity.operatorId}`, 409);
+  }
+
+  const share = await openOperatorShare(identity.privateKey, deposit.manifest, ownShare);
+  await markDepositReleased(manifestHash, {
+    chainId,
+    contractAddress: config.contractAddress,
+    messageId: messageId.toString()
+  });
+  console.log(`🧩 escrow operator ${identity.operatorId}: share released`, { chainId, messageId: messageId.toString() });
+  return { operatorId: identity.operatorId, index: ownShare.index, share: toHex(share), manifest: deposit.manifest };
+}
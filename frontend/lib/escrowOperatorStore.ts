@@ -0,0 +1,42 @@
+import { getRecord, upsertRecord } from "./storage";
+import type { ThresholdEscrowManifest } from "./thresholdEscrow";
+
+export interface DepositRecord {
+  manifest: ThresholdEscrowManifest;
+  depositedAt: string;
+  // Set on the first release answer for an unlocked message
+  releasedAt?: string;
+  releasedFor?: { chainId: number; contractAddress: string; messageId: string };
+}
+
+// Keyed by manifest hash (lowercase)
+export async function getDeposit(manifestHash: string): Promise<DepositRecord | null> {
+  return (await getRecord<DepositRecord>("escrowOperatorDeposits", manifestHash.toLowerCase())) ?? null;
+}
+
+/** Idempotent: depositing the same manifest again keeps the first record. */
+export async function saveDeposit(manifestHash: string, manifest: ThresholdEscrowManifest): Promise<DepositRecord> {
+  return upsertRecord<DepositRecord>(
+    "escrowOperatorDeposits",
+    manifestHash.toLowerCase(),
+    (existing) => existing ?? { manifest, depositedAt: new Date().toISOString() }
+  );
+}
+
+export async function markDepositReleased(
+  manifestHash: string,
+  releasedFor: { chainId: number; contractAddress: string; messageId: string }
+): Promise<void> {
+  const key = manifestHash.toLowerCase();
+  const deposit = await getDeposit(key);
+  if (!deposit || deposit.releasedAt) {
+    return;
+  }
+  await upsertRecord<DepositRecord>("escrowOperatorDeposits", key, (record) => {
+    if (!record) {
+      throw new Error("Deposit not found");
+    }
+    // A concurrent release answer got here first: keep its record
+    return record.releasedAt ? record : { ...record, releasedAt: new Date().toISOString(), releasedFor };
+  });
+}
@@ -0,0 +1,308 @@
+import { randomUUID } from "crypto";
+import { createPublicClient, createWalletClient, http, isHex, keccak256, type PublicClient } from "viem";
+import { privateKeyToAccount, type PrivateKeyAccount } from "viem/accounts";
+import { sealedMessageAbi } from "./sealedMessageAbi";
+import { supportedChains, toViemChain, ZERO_ADDRESS, type ChainConfig } from "./chains";
+import { appConfig } from "./env";
+import { resolveRpcUrl } from "./serverChains";
+import { unwrapSessionKey } from "./escrowKey";
+import { resolveEscrowWrap } from "./escrowKeyRotation";
+import { markEnvelopeReleased } from "./escrowStore";
+import { EscrowKeyLockedError } from "./escrowUnlock";
+import {
+  acquireReleaseLease,
+  deferLockedRelease,
+  getReleaseState,
+  releaseReleaseLease,
+  saveReleaseState,
+  type ContractReleaseState
+} from "./escrowReleaseStore";
+import { readOnchainMessage } from "./onchainMessage";
+import { recoverThresholdSessionKey, THRESHOLD_ESCROW_VERSION } from "./thresholdEscrow";
+
+const CONDITION_TIME = 0x01;
+const CONDITION_EXPIRY = 0x04;
+// Only messages whose sender opted in may have their session key published
+const FLAG_KEY_RELEASE = 0x80;
+const ZERO_KEY = `0x${"0".repeat(64)}`;
+// First sweep of a contract looks this far back; later sweeps continue from the stored cursor
+const LOOKBACK_BLOCKS = 10000n;
+const BLOCK_CHUNK_SIZE = 5000n;
+// Back-off after a failed unwrap or release (e.g. message wrapped to an escrow key this server does not hold)
+const RETRY_DELAY_SECONDS = 60 * 60;
+// Longer than a sweep normally takes; the lease is extended before every chain
+const SWEEP_LEASE_MS = 10 * 60 * 1000;
+
+export interface ReleaseSweepResult {
+  chainId: number;
+  scannedTo: string;
+  queued: number;
+  released: { messageId: string; txHash: `0x${string}` }[];
+  dropped: string[];
+  failed: { messageId: string; error: string }[];
+}
+
+/** A chain the sweep could not process (RPC or storage failure); the other chains are still swept */
+export interface ChainSweepFailure {
+  chainId: number;
+  error: string;
+}
+
+/** Thrown by runEscrowReleaseSweep while another sweep (in this or another server instance) holds the lease */
+export class ReleaseSweepBusyError extends Error {
+  constructor() {
+    super("Another escrow release sweep is running");
+    this.name = "ReleaseSweepBusyError";
+  }
+}
+
+function getReleaserAccount(): PrivateKeyAccount {
+  const releaserKey = process.env.ESCROW_RELEASER_PRIVATE_KEY;
+  if (!releaserKey || !isHex(releaserKey)) {
+    throw new Error("Escrow releaser is not configured");
+  }
+  return privateKeyToAccount(releaserKey);
+}
+
+async function queueNewMessages(
+  client: PublicClient,
+  contractAddress: `0x${string}`,
+  state: ContractReleaseState
+): Promise<{ latestBlock: bigint; queued: number }> {
+  const latestBlock = await client.getBlockNumber();
+  const startBlock = state.lastBlock != null
+    ? BigInt(state.lastBlock) + 1n
+    : latestBlock > LOOKBACK_BLOCKS ? latestBlock - LOOKBACK_BLOCKS : 0n;
+  let queued = 0;
+
+  for (let from = startBlock; from <= latestBlock; from += BLOCK_CHUNK_SIZE) {
+    const to = from + BLOCK_CHUNK_SIZE - 1n > latestBlock ? latestBlock : from + BLOCK_CHUNK_SIZE - 1n;
+    const [storedLogs, paidLogs] = await Promise.all([
+      client.getContractEvents({ address: contractAddress, abi: sealedMessageAbi, eventName: "MessageStored", fromBlock: from, toBlock: to }),
+      client.getContractEvents({ address: contractAddress, abi: sealedMessageAbi, eventName: "MessagePaid", fromBlock: from, toBlock: to })
+    ]);
+
+    for (const log of storedLogs) {
+      const { messageId, conditionMask, unlockTime } = log.args;
+      if (messageId == null || conditionMask == null || (conditionMask & FLAG_KEY_RELEASE) === 0) continue;
+      // Only a pure time lock has a known unlock moment; everything else backs off while locked
+      const timeOnly = (conditionMask & ~(CONDITION_EXPIRY | FLAG_KEY_RELEASE)) === CONDITION_TIME;
+      state.pending[messageId.toString()] = {
+        notBefore: timeOnly ? Number(unlockTime ?? 0n) : 0,
+        queuedAt: new Date().toISOString()
+      };
+      queued += 1;
+    }
+    for (const log of paidLogs) {
+      const messageId = log.args.messageId?.toString();
+      if (!messageId) continue;
+      const entry = state.pending[messageId];
+      if (entry) {
+        // The payment may have unlocked it: check on this sweep instead of waiting out the back-off
+        entry.notBefore = 0;
+        entry.lockedChecks = 0;
+      } else {
+        // Payment for a message sent before the cursor started (e.g. outside the first lookback); dropped on the
+        // first check if its sender did not opt in to key release
+        state.pending[messageId] = { notBefore: 0, queuedAt: new Date().toISOString() };
+        queued += 1;
+      }
+    }
+  }
+
+  state.lastBlock = latestBlock.toString();
+  return { latestBlock, queued };
+}
+
+/**
+ * Unwraps the escrowed session key of an unlocked message and publishes it with releaseSessionKey.
+ * Returns null when the message is not unlocked yet, "dropped" when its key will never be released here (revoked,
+ * expired, not opted in to key release) or already was.
+ */
+async function releaseMessage(
+  client: PublicClient,
+  contractAddress: `0x${string}`,
+  chain: ReturnType<typeof toViemChain>,
+  rpcUrl: string,
+  account: PrivateKeyAccount,
+  messageId: bigint
+): Promise<`0x${string}` | "dropped" | null> {
+  const releasedKey = await client.readContract({
+    address: contractAddress,
+    abi: sealedMessageAbi,
+    functionName: "releasedSessionKeys",
+    args: [messageId]
+  });
+  if (releasedKey !== ZERO_KEY) {
+    return "dropped";
+  }
+
+  const [header] = await client.readContract({
+    address: contractAddress,
+    abi: sealedMessageAbi,
+    functionName: "getMessageHeaders",
+    args: [[messageId]]
+  });
+  if (header.revoked || header.financial.isExpired || (header.financial.conditionMask & FLAG_KEY_RELEASE) === 0) {
+    return "dropped";
+  }
+  if (!header.financial.isUnlocked) {
+    return null;
+  }
+
+  // getMessage only answers its sender or receiver; the escrow fields are public calldata anyway
+  const message = await readOnchainMessage(client, contractAddress, messageId, header.sender);
+  const sessionKeyCommitment = message[10];
+  let sessionKey: Buffer;
+  if (Number(message[12]) === THRESHOLD_ESCROW_VERSION) {
+    // Shares come from the escrow operators, each of which checks isUnlocked itself
+    const recovered = await recoverThresholdSessionKey(
+      { chainId: chain.id, contractAddress, messageId, manifestHash: message[7], sessionKeyCommitment },
+      appConfig.escrow.operatorUrls
+    );
+    sessionKey = Buffer.from(recovered);
+  } else {
+    // Prefers a re-wrap under a newer key version over the on-chain wrap
+    const { wrap, version } = await resolveEscrowWrap(chain.id, contractAddress, messageId, message);
+    sessionKey = unwrapSessionKey(wrap, version);
+  }
+  if (keccak256(sessionKey) !== sessionKeyCommitment.toLowerCase()) {
+    throw new Error("Unwrapped session key does not match sessionKeyCommitment");
+  }
+
+  const { request } = await client.simulateContract({
+    account,
+    address: contractAddress,
+    abi: sealedMessageAbi,
+    functionName: "releaseSessionKey",
+    args: [messageId, `0x${sessionKey.toString("hex")}`]
+  });
+  const walletClient = createWalletClient({ account, chain, transport: http(rpcUrl) });
+  const txHash = await walletClient.writeContract(request);
+  await client.waitForTransactionReceipt({ hash: txHash });
+
+  try {
+    await markEnvelopeReleased({
+      commitment: sessionKeyCommitment,
+      reason: "unlocked",
+      releasedBy: account.address,
+      txHash
+    });
+  } catch (err: any) {
+    // The receiver envelope may have been stored by another server instance
+    console.warn(`⚠️ escrow release: envelope record for message ${messageId} not updated:`, err?.message || err);
+  }
+  return txHash;
+}
+
+async function sweepChain(chainKey: string, config: ChainConfig, account: PrivateKeyAccount): Promise<ReleaseSweepResult> {
+  const contractAddress = config.contractAddress;
+  const chain = toViemChain(config);
+  const rpcUrl = resolveRpcUrl(chainKey, config);
+  const client = createPublicClient({ chain, transport: http(rpcUrl) }) as PublicClient;
+
+  const state = await getReleaseState(config.id, contractAddress);
+  const { latestBlock, queued } = await queueNewMessages(client, contractAddress, state);
+  const result: ReleaseSweepResult = {
+    chainId: config.id,
+    scannedTo: latestBlock.toString(),
+    queued,
+    released: [],
+    dropped: [],
+    failed: []
+  };
+
+  const now = Math.floor(Date.now() / 1000);
+  for (const [messageId, entry] of Object.entries(state.pending)) {
+    if (entry.notBefore > now) {
+      continue;
+    }
+    try {
+      const outcome = await releaseMessage(client, contractAddress, chain, rpcUrl, account, BigInt(messageId));
+      if (outcome === "dropped") {
+        result.dropped.push(messageId);
+        delete state.pending[messageId];
+      } else if (outcome) {
+        console.log("🔓 escrow release: session key published", { chainId: config.id, messageId, txHash: outcome });
+        result.released.push({ messageId, txHash: outcome });
+        delete state.pending[messageId];
+      } else {
+        deferLockedRelease(entry, now);
+      }
+    } catch (err: any) {
+      const error = err?.shortMessage ?? err?.message ?? String(err);
+      console.error(`escrow release: message ${messageId} on chain ${config.id} failed`, error);
+      entry.lastError = error;
+      // A locked Shamir key is retried on the next sweep, as soon as custodians unlock it
+      if (!(err instanceof EscrowKeyLockedError)) {
+        entry.notBefore = now + RETRY_DELAY_SECONDS;
+      }
+      result.failed.push({ messageId, error });
+    }
+  }
+
+  await saveReleaseState(config.id, contractAddress, state);
+  return result;
+}
+
+/**
+ * One pass over every configured chain: queue new messages, then release the ones that unlocked. Holds the sweep lease
+ * in the storage backend throughout, so sweeps never overlap across server instances; a failing chain is reported in
+ * the results and does not stop the others.
+ */
+export async function runEscrowReleaseSweep(): Promise<(ReleaseSweepResult | ChainSweepFailure)[]> {
+  const account = getReleaserAccount();
+  const holder = randomUUID();
+  if (!(await acquireReleaseLease(holder, SWEEP_LEASE_MS))) {
+    throw new ReleaseSweepBusyError();
+  }
+
+  const results: (ReleaseSweepResult | ChainSweepFailure)[] = [];
+  try {
+    for (const [chainKey, config] of Object.entries(supportedChains)) {
+      if (!config.contractAddress || config.contractAddress === ZERO_ADDRESS) {
+        continue;
+      }
+      if (!(await acquireReleaseLease(holder, SWEEP_LEASE_MS))) {
+        // Expired and taken over; the new holder continues from the saved queues
+        console.warn("escrow release: sweep lease lost, stopping");
+        break;
+      }
+      try {
+        results.push(await sweepChain(chainKey, config, account));
+      } catch (err: any) {
+        const error = err?.shortMessage ?? err?.message ?? String(err);
+        console.error(`escrow release: sweep of chain ${config.id} failed`, error);
+        results.push({ chainId: config.id, error });
+      }
+    }
+  } finally {
+    await releaseReleaseLease(holder);
+  }
+  return results;
+}
+
+let watcher: ReturnType<typeof setInterval> | null = null;
+
+/** Runs a sweep every intervalMs in this server process; ticks that find a sweep running are skipped. */
+export function startEscrowReleaseWatcher(intervalMs: number): void {
+  if (watcher) {
+    return;
+  }
+  const tick = async () => {
+    try {
+      const results = await runEscrowReleaseSweep();
+      const released = results.reduce((total, result) => total + ("released" in result ? result.released.length : 0), 0);
+      if (released > 0) {
+        console.log(`🔓 escrow release: ${released} session key(s) published`);
+      }
+    } catch (err) {
+      if (!(err instanceof ReleaseSweepBusyError)) {
+        console.error("escrow release sweep failed", err);
+      }
+    }
+  };
+  watcher = setInterval(tick, intervalMs);
+  void tick();
+  console.log(`⏱️ escrow release watcher started (every ${intervalMs} ms)`);
+}
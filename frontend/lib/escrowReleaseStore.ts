@@ -0,0 +1,87 @@
+import { getRecord, upsertRecord } from "./storage";
+
+export interface PendingRelease {
+  // Unix seconds before which the message is not checked again (unlock time, retry or locked back-off), 0 = next sweep
+  notBefore: number;
+  queuedAt: string;
+  lastError?: string;
+  // Sweeps that found the message still locked since it was queued or last paid
+  lockedChecks?: number;
+}
+
+export interface ContractReleaseState {
+  // Last block whose MessageStored / MessagePaid logs were queued
+  lastBlock: string | null;
+  // messageId => pending release
+  pending: Record<string, PendingRelease>;
+}
+
+// Messages without a known unlock moment are re-read after 5 minutes, doubling up to once a day
+const LOCKED_RECHECK_SECONDS = 5 * 60;
+const MAX_LOCKED_RECHECK_SECONDS = 24 * 60 * 60;
+
+/** Pushes back the next check of a message a sweep found still locked. */
+export function deferLockedRelease(entry: PendingRelease, now: number): void {
+  const checks = (entry.lockedChecks ?? 0) + 1;
+  entry.lockedChecks = checks;
+  entry.notBefore = now + Math.min(LOCKED_RECHECK_SECONDS * 2 ** (checks - 1), MAX_LOCKED_RECHECK_SECONDS);
+}
+
+// Keyed by `${chainId}:${contract address lowercase}`
+const contractKey = (chainId: number, contractAddress: string) => `${chainId}:${contractAddress.trim().toLowerCase()}`;
+
+export async function getReleaseState(chainId: number, contractAddress: string): Promise<ContractReleaseState> {
+  return (
+    (await getRecord<ContractReleaseState>("escrowReleaseQueue", contractKey(chainId, contractAddress))) ?? {
+      lastBlock: null,
+      pending: {}
+    }
+  );
+}
+
+export async function saveReleaseState(
+  chainId: number,
+  contractAddress: string,
+  state: ContractReleaseState
+): Promise<void> {
+  await upsertRecord<ContractReleaseState>("escrowReleaseQueue", contractKey(chainId, contractAddress), () => state);
+}
+
+export interface ReleaseLease {
+  holder: string;
+  // Unix milliseconds
+  expiresAt: number;
+}
+
+const SWEEP_LEASE_KEY = "sweep";
+
+class LeaseHeldError extends Error {}
+
+/**
+ * Takes (or, for its current holder, extends) the sweep lease for ttlMs, so only one server instance sweeps at a
+ * time. Returns false while another holder's lease has not expired.
+ */
+export async function acquireReleaseLease(holder: string, ttlMs: number): Promise<boolean> {
+  const now = Date.now();
+  try {
+    await upsertRecord<ReleaseLease>("escrowReleaseLeases", SWEEP_LEASE_KEY, (current) => {
+      if (current && current.holder !== holder && current.expiresAt > now) {
+        throw new LeaseHeldError();
+      }
+      return { holder, expiresAt: now + ttlMs };
+    });
+    return true;
+  } catch (err) {
+    if (err instanceof LeaseHeldError) {
+      return false;
+    }
+    throw err;
+  }
+}
+
+/** Ends the lease early if holder still has it. */
+export async function releaseReleaseLease(holder: string): Promise<void> {
+  await upsertRecord<ReleaseLease>("escrowReleaseLeases", SWEEP_LEASE_KEY, (current) =>
+    current && current.holder !== holder ? current : { holder, expiresAt: 0 }
+  );
+}
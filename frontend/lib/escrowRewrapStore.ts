@@ -0,0 +1,51 @@
+import { getRecord, listRecordEntries, upsertRecord } from "./storage";
+import type { EscrowWrap } from "./escrowKey";
+
+/**
+ * Off-chain re-wrap of an escrowed session key under a newer escrow key version.
+ * The on-chain wrap (and its escrowKeyVersion) never changes; this record supersedes it once the
+ * server holds material for `version`.
+ */
+export interface EscrowRewrap extends EscrowWrap {
+  // escrowKeyVersion stored on-chain for the message
+  fromVersion: number;
+  // escrow key version `ciphertext` is wrapped under
+  version: number;
+  sessionKeyCommitment: `0x${string}`;
+  rewrappedAt: string;
+}
+
+// Keyed by `${chainId}:${contract address lowercase}:${messageId}`
+const contractPrefix = (chainId: number, contractAddress: string) => `${chainId}:${contractAddress.trim().toLowerCase()}:`;
+
+/** messageId => re-wrap for one contract */
+export async function getRewraps(chainId: number, contractAddress: string): Promise<Record<string, EscrowRewrap>> {
+  const prefix = contractPrefix(chainId, contractAddress);
+  const rewraps: Record<string, EscrowRewrap> = {};
+  for (const { key, record } of await listRecordEntries<EscrowRewrap>("escrowRewraps")) {
+    if (key.startsWith(prefix)) {
+      rewraps[key.slice(prefix.length)] = record;
+    }
+  }
+  return rewraps;
+}
+
+export async function getRewrap(
+  chainId: number,
+  contractAddress: string,
+  messageId: bigint | string
+): Promise<EscrowRewrap | null> {
+  return (await getRecord<EscrowRewrap>("escrowRewraps", `${contractPrefix(chainId, contractAddress)}${messageId.toString()}`)) ?? null;
+}
+
+/** Saves a batch of re-wraps (messageId => re-wrap); each one is written on its own. */
+export async function saveRewraps(
+  chainId: number,
+  contractAddress: string,
+  rewraps: Record<string, EscrowRewrap>
+): Promise<void> {
+  const prefix = contractPrefix(chainId, contractAddress);
+  for (const [messageId, rewrap] of Object.entries(rewraps)) {
+    await upsertRecord<EscrowRewrap>("escrowRewraps", `${prefix}${messageId}`, () => rewrap);
+  }
+}
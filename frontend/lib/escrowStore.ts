@@ -1,5 +1,11 @@
-import { promises as fs } from "fs";
-import path from "path";
+import {
+  appendLogEntry,
+  findRecordByIndex,
+  getRecord,
+  listLogEntries,
+  listRecords,
+  upsertRecord
+} from "./storage";
 
 export interface ReceiverEnvelopeRecord {
   commitment: string;
@@ -13,6 +19,17 @@ export interface ReceiverEnvelopeRecord {
     iv: string;
     authTag: string;
   };
+  // Wallet that signed the ReceiverEnvelope authorization and the chain it was signed for (absent on legacy records)
+  sender?: string;
+  chainId?: number;
+  contractAddress?: string;
+  // Block height at the first save: MessageStored for this commitment can only appear after it
+  createdBlock?: string;
+  // Set once a matching MessageStored event was seen; the record is immutable from then on
+  boundTo?: {
+    messageId: string;
+    boundAt: string;
+  };
   createdAt: string;
   updatedAt: string;
   release?: {
@@ -23,36 +40,34 @@ export interface ReceiverEnvelopeRecord {
   };
 }
 
-const dataDir = path.join(process.cwd(), ".data");
-const dataFile = path.join(dataDir, "escrow-envelopes.json");
-
-type StoreShape = Record<string, ReceiverEnvelopeRecord>;
+/**
+ * One rejected attempt to overwrite a stored envelope, or ("discarded") a record that someone other than the
+ * message's on-chain sender wrote before the sender did; appended to an audit log that is never rewritten.
+ */
+export interface EnvelopeRejection {
+  at: string;
+  commitment: string;
+  reason: "sender-mismatch" | "bound" | "discarded";
+  attemptedBy: string;
+  attemptedReceiverEnvelopeHash: string;
+  // Absent when the attempt was a first write for a commitment whose message has another sender
+  storedReceiverEnvelopeHash?: string;
+  boundMessageId?: string;
+}
 
-async function readStore(): Promise<StoreShape> {
-  try {
-    const raw = await fs.readFile(dataFile, "utf-8");
-    if (!raw) {
-      return {};
-    }
-    try {
-      const parsed = JSON.parse(raw) as StoreShape;
-      return parsed ?? {};
-    } catch (err) {
-      console.warn("escrowStore: corrupted JSON detected, resetting store", err);
-      await writeStore({});
-      return {};
-    }
-  } catch (err: any) {
-    if (err?.code === "ENOENT") {
-      return {};
-    }
-    throw err;
-  }
+/** MessageStored event carrying a session key commitment */
+export interface StoredCommitment {
+  messageId: string;
+  // Lowercase on-chain sender of the message
+  sender: string;
 }
 
-async function writeStore(store: StoreShape): Promise<void> {
-  await fs.mkdir(dataDir, { recursive: true });
-  await fs.writeFile(dataFile, JSON.stringify(store, null, 2), "utf-8");
+/** Envelope write refused by the write rules, with the HTTP status the route should answer with */
+export class EnvelopeWriteError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "EnvelopeWriteError";
+  }
 }
 
 interface SaveEnvelopeInput {
@@ -62,6 +77,10 @@ interface SaveEnvelopeInput {
   metadataShortHash?: string;
   metadataKeccak?: string;
   senderPublicKey: string;
+  sender: string;
+  chainId: number;
+  contractAddress: string;
+  createdBlock: string;
   envelope: {
     ciphertext: string;
     iv: string;
@@ -94,6 +113,10 @@ export async function saveReceiverEnvelope(input: SaveEnvelopeInput): Promise<Re
     metadataShortHash: input.metadataShortHash?.trim() || undefined,
     metadataKeccak: input.metadataKeccak?.trim() || undefined,
     senderPublicKey: input.senderPublicKey.trim(),
+    sender: input.sender.toLowerCase(),
+    chainId: input.chainId,
+    contractAddress: input.contractAddress.toLowerCase(),
+    createdBlock: input.createdBlock,
     envelope: {
       ciphertext: input.envelope.ciphertext.trim(),
       iv: input.envelope.iv.trim(),
@@ -103,14 +126,100 @@ export async function saveReceiverEnvelope(input: SaveEnvelopeInput): Promise<Re
     updatedAt: nowIso
   };
 
-  const store = await readStore();
-  store[commitment] = {
-    ...record,
+  return upsertRecord<ReceiverEnvelopeRecord>("escrowEnvelopes", commitment, (current) => {
+    if (current?.boundTo) {
+      throw new Error("Envelope is bound to a stored message and cannot be replaced");
+    }
     // Preserve createdAt if record already exists (idempotent save)
-    createdAt: store[commitment]?.createdAt ?? record.createdAt
+    return { ...record, createdAt: current?.createdAt ?? record.createdAt };
+  });
+}
+
+/**
+ * Applies the write rules to an envelope whose sender signature the caller has verified. Until the message is
+ * stored only the signer of a record may replace it. Once `findStored` finds its MessageStored event, a record
+ * written by the on-chain sender is bound to the message and never changes again, while a record written by anyone
+ * else is discarded when the on-chain sender writes theirs. `findStored` searches from the given block (the
+ * record's createdBlock) or a default lookback window. Refused and discarded writes go to the rejection log.
+ */
+export async function writeReceiverEnvelope(
+  input: SaveEnvelopeInput,
+  findStored: (fromBlock?: string) => Promise<StoredCommitment | null>
+): Promise<ReceiverEnvelopeRecord> {
+  const commitment = input.commitment.trim().toLowerCase();
+  const sender = input.sender.toLowerCase();
+  const receiverEnvelopeHash = input.receiverEnvelopeHash.trim().toLowerCase();
+  const existing = await getReceiverEnvelope(commitment);
+  const sameSender = existing?.sender?.toLowerCase() === sender;
+  if (
+    existing &&
+    sameSender &&
+    existing.receiverEnvelopeHash === receiverEnvelopeHash &&
+    existing.ciphertextHash === input.ciphertextHash.trim().toLowerCase()
+  ) {
+    // Retry of the same write
+    return existing;
+  }
+
+  const reject = async (reason: EnvelopeRejection["reason"], error: string, boundMessageId?: string): Promise<never> => {
+    await appendEnvelopeRejection({
+      at: new Date().toISOString(),
+      commitment,
+      reason,
+      attemptedBy: sender,
+      attemptedReceiverEnvelopeHash: receiverEnvelopeHash,
+      storedReceiverEnvelopeHash: existing?.receiverEnvelopeHash,
+      boundMessageId
+    });
+    console.warn(`⚠️ Rejected envelope write for ${commitment} by ${sender}: ${error}`);
+    throw new EnvelopeWriteError(error, 409);
   };
-  await writeStore(store);
-  return store[commitment];
+
+  if (existing?.boundTo) {
+    return reject(
+      sameSender ? "bound" : "sender-mismatch",
+      sameSender ? "Envelope is bound to a stored message" : "Envelope belongs to another sender",
+      existing.boundTo.messageId
+    );
+  }
+
+  // The record's createdBlock only bounds the search on the chain it was written for
+  const sameContract =
+    existing?.chainId === input.chainId && existing?.contractAddress === input.contractAddress.toLowerCase();
+  const stored = await findStored(sameContract ? existing?.createdBlock : undefined);
+  if (!stored) {
+    if (existing && !sameSender) {
+      return reject("sender-mismatch", "Envelope belongs to another sender");
+    }
+    return saveReceiverEnvelope({ ...input, createdBlock: existing?.createdBlock ?? input.createdBlock });
+  }
+
+  if (existing?.sender && existing.sender.toLowerCase() === stored.sender) {
+    await bindReceiverEnvelope(commitment, stored.messageId);
+    return reject(
+      sameSender ? "bound" : "sender-mismatch",
+      sameSender ? "Envelope is bound to a stored message" : "Envelope belongs to another sender",
+      stored.messageId
+    );
+  }
+  if (sender !== stored.sender) {
+    return reject("sender-mismatch", "Envelope belongs to another sender", stored.messageId);
+  }
+
+  if (existing) {
+    await appendEnvelopeRejection({
+      at: new Date().toISOString(),
+      commitment,
+      reason: "discarded",
+      attemptedBy: existing.sender?.toLowerCase() ?? "unknown",
+      attemptedReceiverEnvelopeHash: existing.receiverEnvelopeHash,
+      storedReceiverEnvelopeHash: receiverEnvelopeHash,
+      boundMessageId: stored.messageId
+    });
+    console.warn(`⚠️ Discarded envelope for ${commitment} written by ${existing.sender ?? "unknown"}, not the message's sender`);
+  }
+  await saveReceiverEnvelope(input);
+  return bindReceiverEnvelope(commitment, stored.messageId);
 }
 
 export async function getReceiverEnvelope(commitment: string): Promise<ReceiverEnvelopeRecord | undefined> {
@@ -118,8 +227,7 @@ export async function getReceiverEnvelope(commitment: string): Promise<ReceiverE
   if (!trimmed) {
     return undefined;
   }
-  const store = await readStore();
-  return store[trimmed];
+  return getRecord<ReceiverEnvelopeRecord>("escrowEnvelopes", trimmed);
 }
 
 export async function findReceiverEnvelopeByHash(receiverEnvelopeHash: string): Promise<ReceiverEnvelopeRecord | undefined> {
@@ -127,15 +235,29 @@ export async function findReceiverEnvelopeByHash(receiverEnvelopeHash: string):
   if (!trimmed) {
     return undefined;
   }
+  return findRecordByIndex<ReceiverEnvelopeRecord>("escrowEnvelopes", "receiverEnvelopeHash", trimmed);
+}
 
-  const store = await readStore();
-  for (const record of Object.values(store)) {
-    if (record.receiverEnvelopeHash.toLowerCase() === trimmed) {
-      return record;
+/** Freezes the record once its MessageStored event is known; later saves are rejected. */
+export async function bindReceiverEnvelope(commitment: string, messageId: string): Promise<ReceiverEnvelopeRecord> {
+  return upsertRecord<ReceiverEnvelopeRecord>("escrowEnvelopes", commitment.trim().toLowerCase(), (existing) => {
+    if (!existing) {
+      throw new Error("Envelope not found");
     }
-  }
+    if (existing.boundTo) {
+      return existing;
+    }
+    const boundAt = new Date().toISOString();
+    return { ...existing, boundTo: { messageId, boundAt }, updatedAt: boundAt };
+  });
+}
 
-  return undefined;
+export async function appendEnvelopeRejection(entry: EnvelopeRejection): Promise<void> {
+  await appendLogEntry("envelopeRejections", entry);
+}
+
+export async function listEnvelopeRejections(): Promise<EnvelopeRejection[]> {
+  return listLogEntries<EnvelopeRejection>("envelopeRejections");
 }
 
 interface MarkReleasedInput {
@@ -151,25 +273,23 @@ export async function markEnvelopeReleased(input: MarkReleasedInput): Promise<Re
     throw new Error("commitment is required");
   }
 
-  const store = await readStore();
-  const existing = store[commitment];
-  if (!existing) {
-    throw new Error("Envelope not found");
-  }
-
-  existing.release = {
-    releasedAt: new Date().toISOString(),
-    reason: input.reason,
-    releasedBy: input.releasedBy,
-    txHash: input.txHash
-  };
-  existing.updatedAt = new Date().toISOString();
-
-  await writeStore(store);
-  return existing;
+  return upsertRecord<ReceiverEnvelopeRecord>("escrowEnvelopes", commitment, (existing) => {
+    if (!existing) {
+      throw new Error("Envelope not found");
+    }
+    return {
+      ...existing,
+      release: {
+        releasedAt: new Date().toISOString(),
+        reason: input.reason,
+        releasedBy: input.releasedBy,
+        txHash: input.txHash
+      },
+      updatedAt: new Date().toISOString()
+    };
+  });
 }
 
 export async function listReceiverEnvelopes(): Promise<ReceiverEnvelopeRecord[]> {
-  const store = await readStore();
-  return Object.values(store);
+  return listRecords<ReceiverEnvelopeRecord>("escrowEnvelopes");
 }
@@ -0,0 +1,156 @@
+import { createHash } from "crypto";
+import { combineShares, type ShamirShare } from "./shamir";
+
+/**
+ * Escrow key versions split with Shamir k-of-n (scripts/escrow-key-ceremony.ts) are configured as
+ * ESCROW_KEY_V<n>_SHAMIR="<threshold>:<fingerprint>" and never touch disk or env as key material:
+ * custodians submit shares to /api/escrow/unlock after every start, and once `threshold` shares
+ * rebuild a key with the expected fingerprint it is kept in this process only.
+ */
+export interface EscrowShamirConfig {
+  version: number;
+  threshold: number;
+  fingerprint: string;
+}
+
+export interface EscrowUnlockStatus {
+  version: number;
+  threshold: number;
+  fingerprint: string;
+  received: number;
+  unlocked: boolean;
+}
+
+export class EscrowKeyLockedError extends Error {
+  constructor(version: number) {
+    const status = getEscrowUnlockStatus().find((entry) => entry.version === version);
+    super(
+      `Escrow key version ${version} is locked` +
+        (status ? ` (${status.received}/${status.threshold} shares submitted)` : "")
+    );
+    this.name = "EscrowKeyLockedError";
+  }
+}
+
+export class EscrowShareError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EscrowShareError";
+  }
+}
+
+// Share text handed to custodians: escrow-share:v<version>:<threshold>:<index>:<hex>
+const SHARE_PATTERN = /^escrow-share:v(\d+):(\d+):(\d+):([0-9a-f]+)$/;
+const SHAMIR_CONFIG = /^ESCROW_KEY_V(\d+)_SHAMIR$/;
+
+interface UnlockState {
+  pending: Map<number, ShamirShare[]>;
+  keys: Map<number, Buffer>;
+}
+
+// Kept on globalThis so every route bundle (and dev reloads) sees the same unlocked keys
+const globalForUnlock = globalThis as typeof globalThis & { __escrowUnlockState?: UnlockState };
+const state: UnlockState = (globalForUnlock.__escrowUnlockState ??= { pending: new Map(), keys: new Map() });
+
+/** First 8 bytes of sha256(key): identifies key material without revealing it */
+export function escrowKeyFingerprint(key: Buffer): string {
+  return createHash("sha256").update(key).digest("hex").slice(0, 16);
+}
+
+export function encodeEscrowShare(version: number, threshold: number, share: ShamirShare): string {
+  return `escrow-share:v${version}:${threshold}:${share.index}:${Buffer.from(share.data).toString("hex")}`;
+}
+
+export function getShamirConfig(version: number): EscrowShamirConfig | null {
+  const raw = process.env[`ESCROW_KEY_V${version}_SHAMIR`];
+  if (!raw) {
+    return null;
+  }
+  const [threshold, fingerprint] = raw.split(":");
+  if (!/^\d+$/.test(threshold ?? "") || Number(threshold) < 2 || !/^[0-9a-f]{16}$/.test(fingerprint ?? "")) {
+    throw new Error(`ESCROW_KEY_V${version}_SHAMIR must be "<threshold>:<fingerprint>"`);
+  }
+  return { version, threshold: Number(threshold), fingerprint };
+}
+
+export function listShamirVersions(): number[] {
+  return Object.keys(process.env)
+    .map((name) => SHAMIR_CONFIG.exec(name))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map((match) => Number(match[1]))
+    .sort((a, b) => a - b);
+}
+
+/** Reconstructed key of a Shamir-split version, or null while it is locked. */
+export function getUnlockedEscrowKey(version: number): Buffer | null {
+  return state.keys.get(version) ?? null;
+}
+
+export function getEscrowUnlockStatus(): EscrowUnlockStatus[] {
+  return listShamirVersions().map((version) => {
+    const config = getShamirConfig(version)!;
+    return {
+      version,
+      threshold: config.threshold,
+      fingerprint: config.fingerprint,
+      received: state.pending.get(version)?.length ?? 0,
+      unlocked: state.keys.has(version)
+    };
+  });
+}
+
+/**
+ * Adds one custodian share. Reaching the threshold rebuilds the key; if its fingerprint does not
+ * match the configured one every pending share of that version is discarded and the ceremony's
+ * custodians have to submit again.
+ */
+export function submitEscrowShare(encoded: string): EscrowUnlockStatus {
+  const match = SHARE_PATTERN.exec(encoded.trim().toLowerCase());
+  if (!match) {
+    throw new EscrowShareError("Malformed escrow share");
+  }
+  const version = Number(match[1]);
+  const threshold = Number(match[2]);
+  const share: ShamirShare = { index: Number(match[3]), data: Buffer.from(match[4], "hex") };
+
+  const config = getShamirConfig(version);
+  if (!config) {
+    throw new EscrowShareError(`Escrow key version ${version} is not Shamir-split on this server`);
+  }
+  if (threshold !== config.threshold) {
+    throw new EscrowShareError(`Share threshold ${threshold} does not match configured threshold ${config.threshold}`);
+  }
+
+  if (!state.keys.has(version)) {
+    const pending = state.pending.get(version) ?? [];
+    if (pending.some((existing) => existing.index === share.index)) {
+      throw new EscrowShareError(`Share ${share.index} of version ${version} was already submitted`);
+    }
+    pending.push(share);
+    state.pending.set(version, pending);
+
+    if (pending.length >= config.threshold) {
+      state.pending.delete(version);
+      let key: Buffer | null = null;
+      try {
+        const combined = combineShares(pending);
+        key = Buffer.from(combined);
+        combined.fill(0);
+      } catch {
+        // Shares of different lengths; treated like a fingerprint mismatch below
+      }
+      pending.forEach((entry) => entry.data.fill(0));
+
+      if (!key || escrowKeyFingerprint(key) !== config.fingerprint) {
+        key?.fill(0);
+        throw new EscrowShareError(
+          `Submitted shares do not rebuild escrow key version ${version}; all of its shares were discarded`
+        );
+      }
+      state.keys.set(version, key);
+      console.log(`🔑 escrow key version ${version} unlocked (${config.threshold} shares)`);
+    }
+  }
+
+  return getEscrowUnlockStatus().find((entry) => entry.version === version)!;
+}
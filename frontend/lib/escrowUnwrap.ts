@@ -0,0 +1,130 @@
+import * as secp256k1 from "@noble/secp256k1";
+import { keccak256, toHex, verifyTypedData } from "viem";
+import { openSealedBox, type SealedBox } from "./escrowKem";
+import { getSealedMessageDomain } from "./guardianApproval";
+
+/**
+ * EIP-712 request a receiver signs to get the escrowed session key of an unlocked message from /api/escrow/unwrap,
+ * for when the receiver envelope cannot be opened (derived key lost with localStorage, different wallet).
+ * Off-chain only (the contract never verifies it), but signed under the SealedMessage domain so it names the chain
+ * and contract. clientPublicKey is a one-time key the session key comes back sealed to.
+ */
+export const ESCROW_UNWRAP_TYPES = {
+  EscrowUnwrap: [
+    { name: "messageId", type: "uint256" },
+    { name: "receiver", type: "address" },
+    { name: "clientPublicKey", type: "bytes" },
+    { name: "deadline", type: "uint256" }
+  ]
+} as const;
+
+// A signature is "fresh" if its deadline is at most this far in the future
+export const ESCROW_UNWRAP_MAX_VALIDITY_SECONDS = 10 * 60;
+
+export const unwrapSealInfo = (chainId: number, messageId: bigint | string) =>
+  `sealed-message-escrow-unwrap:${chainId}:${messageId.toString()}`;
+
+export interface EscrowUnwrapMessage {
+  messageId: bigint;
+  receiver: `0x${string}`;
+  clientPublicKey: `0x${string}`;
+  deadline: bigint;
+}
+
+/** Rejected unwrap request with the HTTP status the route should answer with */
+export class EscrowUnwrapError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "EscrowUnwrapError";
+  }
+}
+
+/**
+ * Server side: checks the deadline window and that `message.receiver` signed the request for this chain and
+ * contract. Whether the signer is the message's on-chain receiver is left to the caller.
+ */
+export async function verifyEscrowUnwrap(
+  chainId: number,
+  contractAddress: `0x${string}`,
+  message: EscrowUnwrapMessage,
+  signature: `0x${string}`,
+  now = BigInt(Math.floor(Date.now() / 1000))
+): Promise<void> {
+  if (message.deadline < now) {
+    throw new EscrowUnwrapError("Signature expired", 400);
+  }
+  if (message.deadline > now + BigInt(ESCROW_UNWRAP_MAX_VALIDITY_SECONDS)) {
+    throw new EscrowUnwrapError("Signature deadline is too far in the future", 400);
+  }
+
+  const valid = await verifyTypedData({
+    address: message.receiver,
+    domain: getSealedMessageDomain(chainId, contractAddress),
+    types: ESCROW_UNWRAP_TYPES,
+    primaryType: "EscrowUnwrap",
+    message,
+    signature
+  }).catch(() => false);
+  if (!valid) {
+    throw new EscrowUnwrapError("Invalid signature", 401);
+  }
+}
+
+/** Receiver side: signs the request with `signTypedData`, posts it and opens the sealed session key. */
+export async function requestEscrowUnwrap(params: {
+  chainId: number;
+  contractAddress: `0x${string}`;
+  messageId: bigint;
+  receiver: `0x${string}`;
+  sessionKeyCommitment: string;
+  signTypedData: (
+    domain: ReturnType<typeof getSealedMessageDomain>,
+    types: typeof ESCROW_UNWRAP_TYPES,
+    message: EscrowUnwrapMessage
+  ) => Promise<string>;
+}): Promise<Uint8Array> {
+  const clientSecret = secp256k1.utils.randomSecretKey();
+  try {
+    const message: EscrowUnwrapMessage = {
+      messageId: params.messageId,
+      receiver: params.receiver,
+      clientPublicKey: toHex(secp256k1.getPublicKey(clientSecret, true)),
+      deadline: BigInt(Math.floor(Date.now() / 1000) + ESCROW_UNWRAP_MAX_VALIDITY_SECONDS - 60)
+    };
+    const signature = await params.signTypedData(
+      getSealedMessageDomain(params.chainId, params.contractAddress),
+      ESCROW_UNWRAP_TYPES,
+      message
+    );
+
+    const response = await fetch("/api/escrow/unwrap", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        chainId: params.chainId,
+        messageId: message.messageId.toString(),
+        receiver: message.receiver,
+        clientPublicKey: message.clientPublicKey,
+        deadline: message.deadline.toString(),
+        signature
+      })
+    });
+    if (!response.ok) {
+      const text = await response.text().catch(() => response.statusText);
+      throw new Error(`Escrow unwrap failed: ${response.status} ${text}`);
+    }
+
+    const result = await response.json();
+    const sessionKey = await openSealedBox(
+      clientSecret,
+      result.sealedSessionKey as SealedBox,
+      unwrapSealInfo(params.chainId, params.messageId)
+    );
+    if (keccak256(sessionKey) !== params.sessionKeyCommitment.toLowerCase()) {
+      throw new Error("Escrowed session key does not match the commitment");
+    }
+    return sessionKey;
+  } finally {
+    clientSecret.fill(0);
+  }
+}
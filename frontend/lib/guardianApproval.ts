@@ -0,0 +1,57 @@
+import { isAddress, isHex } from "viem";
+
+/**
+ * EIP-712 payload a guardian signs to approve a message unlock off-chain.
+ * Must stay in sync with UNLOCK_APPROVAL_TYPEHASH / EIP712("SealedMessage", "1") in SealedMessage.sol.
+ */
+export const UNLOCK_APPROVAL_TYPES = {
+  UnlockApproval: [
+    { name: "messageId", type: "uint256" },
+    { name: "guardian", type: "address" },
+    { name: "deadline", type: "uint256" }
+  ]
+} as const;
+
+/** EIP-712 domain shared by every typed-data signature SealedMessage accepts. */
+export function getSealedMessageDomain(chainId: number, contractAddress: `0x${string}`) {
+  return {
+    name: "SealedMessage",
+    version: "1",
+    chainId,
+    verifyingContract: contractAddress
+  } as const;
+}
+
+/** Signed approval a guardian hands to the receiver (or anyone) to submit via approveUnlockBySig. */
+export interface GuardianApprovalPayload {
+  messageId: string;
+  guardian: `0x${string}`;
+  deadline: string;
+  signature: `0x${string}`;
+}
+
+export function encodeGuardianApproval(payload: GuardianApprovalPayload): string {
+  return JSON.stringify(payload);
+}
+
+export function decodeGuardianApproval(raw: string): GuardianApprovalPayload | null {
+  try {
+    const parsed = JSON.parse(raw.trim());
+    if (
+      typeof parsed?.messageId !== "string" ||
+      typeof parsed?.deadline !== "string" ||
+      !isAddress(parsed?.guardian) ||
+      !isHex(parsed?.signature)
+    ) {
+      return null;
+    }
+    return {
+      messageId: parsed.messageId,
+      guardian: parsed.guardian,
+      deadline: parsed.deadline,
+      signature: parsed.signature
+    };
+  } catch {
+    return null;
+  }
+}
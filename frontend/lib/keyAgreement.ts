@@ -5,6 +5,8 @@ import { ethers } from 'ethers';
 
 const STORAGE_PREFIX = 'sealed-message:encryption-signature:';
 const PUBLIC_CACHE_PREFIX = 'sealed-message:encryption-pub:';
+// Every signature a key was ever derived from, so messages sealed to a previous on-chain key stay readable
+const KEYRING_PREFIX = 'sealed-message:encryption-keyring:';
 const KEY_MESSAGE_PREFIX = 'SealedMessage|EncryptionKey|v1';
 const CURVE_ORDER = BigInt('0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141');
 
@@ -55,12 +57,34 @@ function deriveKeyPairFromSignature(signature: string) {
   return { privateKey, publicKey };
 }
 
+function readKeyring(storage: Storage, normalized: string): string[] {
+  try {
+    const parsed = JSON.parse(storage.getItem(`${KEYRING_PREFIX}${normalized}`) ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter((entry): entry is string => typeof entry === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+function rememberSignature(storage: Storage, normalized: string, signature: string) {
+  const keyring = readKeyring(storage, normalized);
+  if (!keyring.includes(signature)) {
+    keyring.push(signature);
+    storage.setItem(`${KEYRING_PREFIX}${normalized}`, JSON.stringify(keyring));
+  }
+}
+
 export function getStoredEncryptionKey(address: string): DerivedKeyPair | null {
   const storage = getStorage();
   if (!storage) return null;
   const key = `${STORAGE_PREFIX}${normalizeAddress(address)}`;
   const cachedSignature = storage.getItem(key);
   if (!cachedSignature) return null;
+  try {
+    rememberSignature(storage, normalizeAddress(address), cachedSignature);
+  } catch (err) {
+    console.warn('Failed to update encryption keyring:', err);
+  }
   const message = buildKeyAgreementMessage(address);
   const { privateKey, publicKey } = deriveKeyPairFromSignature(cachedSignature);
   return {
@@ -88,6 +112,7 @@ export async function getOrCreateEncryptionKey(walletClient: any, account: strin
     try {
       storage.setItem(`${STORAGE_PREFIX}${normalized}`, signature);
       storage.setItem(`${PUBLIC_CACHE_PREFIX}${normalized}`, bytesToHex(publicKey));
+      rememberSignature(storage, normalized, signature);
     } catch (err) {
       console.warn('Failed to persist encryption key signature:', err);
     }
@@ -100,6 +125,28 @@ export async function getOrCreateEncryptionKey(walletClient: any, account: strin
   };
 }
 
+/**
+ * Looks up a key pair this device derived earlier (current or previous) by its public key.
+ * Returns null if the key was derived elsewhere or its signature was cleared.
+ */
+export function findEncryptionKeyByPublicKey(address: string, publicKey: Uint8Array): DerivedKeyPair | null {
+  const storage = getStorage();
+  if (!storage) return null;
+  const normalized = normalizeAddress(address);
+  const target = bytesToHex(publicKey).toLowerCase();
+  for (const signature of readKeyring(storage, normalized)) {
+    const derived = deriveKeyPairFromSignature(signature);
+    if (bytesToHex(derived.publicKey).toLowerCase() === target) {
+      return {
+        ...derived,
+        signature,
+        message: buildKeyAgreementMessage(normalized)
+      };
+    }
+  }
+  return null;
+}
+
 export function getCachedPublicKey(address: string): string | null {
   const storage = getStorage();
   if (!storage) return null;
@@ -0,0 +1,142 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { CollectionName, LogName, RecordWrite, StorageBackend } from "./storage";
+
+interface StoredRecord {
+  value: string;
+  indexes: Record<string, string>;
+}
+
+interface MemorySnapshot {
+  records: Record<string, [string, StoredRecord][]>;
+  logs: Record<string, string[]>;
+}
+
+/**
+ * Process-local backend for development and scripts: nothing survives a restart. Backups are JSON snapshots.
+ * Maps keep insertion order, so listings match the SQLite backend.
+ */
+export function createMemoryStorage(): StorageBackend {
+  let records = new Map<CollectionName, Map<string, StoredRecord>>();
+  let logs = new Map<LogName, string[]>();
+  // "<collection>/<index>/<value>" -> keys, so index lookups do not scan a collection
+  let lookup = new Map<string, Set<string>>();
+
+  const lookupKey = (collection: CollectionName, index: string, value: string) => `${collection}/${index}/${value}`;
+
+  const reindex = (collection: CollectionName, key: string, previous: StoredRecord | undefined, next?: StoredRecord) => {
+    for (const [index, value] of Object.entries(previous?.indexes ?? {})) {
+      lookup.get(lookupKey(collection, index, value))?.delete(key);
+    }
+    for (const [index, value] of Object.entries(next?.indexes ?? {})) {
+      const id = lookupKey(collection, index, value);
+      lookup.set(id, (lookup.get(id) ?? new Set()).add(key));
+    }
+  };
+
+  const collectionOf = (collection: CollectionName) => {
+    let entries = records.get(collection);
+    if (!entries) {
+      entries = new Map();
+      records.set(collection, entries);
+    }
+    return entries;
+  };
+
+  return {
+    kind: "memory",
+
+    async get(collection, key) {
+      return records.get(collection)?.get(key)?.value;
+    },
+
+    async findByIndex(collection, index, value) {
+      const [key] = lookup.get(lookupKey(collection, index, value)) ?? [];
+      const record = key === undefined ? undefined : records.get(collection)?.get(key);
+      return record && { key, value: record.value };
+    },
+
+    async list(collection) {
+      return Array.from(records.get(collection) ?? [], ([key, record]) => ({ key, value: record.value }));
+    },
+
+    async upsert(collection, key, update: (current: string | undefined) => RecordWrite) {
+      // update runs synchronously, so no other request can touch the record in between
+      const entries = collectionOf(collection);
+      const previous = entries.get(key);
+      const next = update(previous?.value);
+      const record = { value: next.value, indexes: next.indexes };
+      entries.set(key, record);
+      reindex(collection, key, previous, record);
+      return next.value;
+    },
+
+    async delete(collection, key) {
+      const entries = records.get(collection);
+      const previous = entries?.get(key);
+      if (!entries || !previous) {
+        return false;
+      }
+      entries.delete(key);
+      reindex(collection, key, previous);
+      return true;
+    },
+
+    async append(log, entry) {
+      logs.set(log, [...(logs.get(log) ?? []), entry]);
+    },
+
+    async listLog(log) {
+      // Ids are 1-based positions, like SQLite's AUTOINCREMENT for a single log
+      return (logs.get(log) ?? []).map((value, index) => ({ id: index + 1, value }));
+    },
+
+    async rewrapLogEntry(log, id, entry) {
+      const entries = logs.get(log) ?? [];
+      const previous = entries[id - 1];
+      if (previous === undefined) {
+        throw new Error(`Log entry ${log}/${id} does not exist`);
+      }
+      // Same rule as the SQLite update trigger: only the wrapped data key of an encrypted entry may change
+      const before = JSON.parse(previous);
+      const after = JSON.parse(entry);
+      const immutable = ["$enc", "iv", "tag", "ciphertext"];
+      if (before.$enc !== 1 || immutable.some((field) => before[field] !== after[field])) {
+        throw new Error("log entries are append-only");
+      }
+      entries[id - 1] = entry;
+    },
+
+    async backup(destination) {
+      const snapshot: MemorySnapshot = {
+        records: Object.fromEntries(Array.from(records, ([collection, entries]) => [collection, Array.from(entries)])),
+        logs: Object.fromEntries(logs)
+      };
+      await fs.mkdir(path.dirname(path.resolve(destination)), { recursive: true });
+      await fs.writeFile(destination, JSON.stringify(snapshot), "utf-8");
+    },
+
+    async restore(source) {
+      const snapshot = JSON.parse(await fs.readFile(source, "utf-8")) as MemorySnapshot;
+      if (!snapshot?.records || !snapshot?.logs) {
+        throw new Error(`${source} is not a memory storage snapshot`);
+      }
+      records = new Map(
+        Object.entries(snapshot.records).map(([collection, entries]) => [collection as CollectionName, new Map(entries)])
+      );
+      logs = new Map(Object.entries(snapshot.logs).map(([log, entries]) => [log as LogName, entries]));
+      lookup = new Map();
+      for (const [collection, entries] of records) {
+        for (const [key, record] of entries) {
+          reindex(collection, key, undefined, record);
+        }
+      }
+    },
+
+    close() {
+      records.clear();
+      logs.clear();
+      lookup.clear();
+    }
+  };
+}
@@ -0,0 +1,113 @@
+import { getAddress } from "viem";
+import type { AuthSession } from "./authSession";
+import { readOnchainMessage, type OnchainMessage } from "./onchainMessage";
+import { sealedMessageAbi } from "./sealedMessageAbi";
+import { resolveContractChain } from "./serverChains";
+
+/** Access check failure with the HTTP status the route should answer with */
+export class MessageAccessError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "MessageAccessError";
+  }
+}
+
+const MESSAGE_ID_REGEX = /^\d+$/;
+// Same short hash the message card reads from `uri`
+const URI_SHORT_HASH_REGEX = /F:([a-zA-Z0-9]{6,8})/;
+
+function sessionChain(session: AuthSession) {
+  const chain = resolveContractChain(session.chainId);
+  if (!chain) {
+    throw new MessageAccessError(`No contract is deployed on chain ${session.chainId}`, 400);
+  }
+  return chain;
+}
+
+/**
+ * Reads a message on the session's chain as the signed-in account and checks that it is the sender or the
+ * receiver. Throws MessageAccessError: 400 for a malformed id, 404 for an unknown message, 403 for anyone else.
+ */
+export async function readMessageAsParticipant(session: AuthSession, messageId: unknown): Promise<OnchainMessage> {
+  const id = typeof messageId === "number" ? String(messageId) : typeof messageId === "string" ? messageId.trim() : "";
+  if (!MESSAGE_ID_REGEX.test(id)) {
+    throw new MessageAccessError("messageId must be a decimal message id", 400);
+  }
+
+  const chain = sessionChain(session);
+  let message: OnchainMessage;
+  try {
+    message = await readOnchainMessage(chain.client, chain.contractAddress, BigInt(id), session.address);
+  } catch (err: any) {
+    const text = `${err?.shortMessage ?? ""} ${err?.message ?? ""}`;
+    if (text.includes("MessageNotFound")) {
+      throw new MessageAccessError("Message not found on this chain", 404);
+    }
+    if (text.includes("Only sender or receiver")) {
+      throw new MessageAccessError("Only the sender or receiver of this message can do this", 403);
+    }
+    throw err;
+  }
+
+  const [sender, receiver] = message;
+  if (getAddress(sender) !== session.address && getAddress(receiver) !== session.address) {
+    throw new MessageAccessError("Only the sender or receiver of this message can do this", 403);
+  }
+  return message;
+}
+
+/** Ids of every message the signed-in account sent or received on the session's chain */
+export async function listParticipantMessageIds(session: AuthSession): Promise<Set<string>> {
+  const chain = sessionChain(session);
+  const [sent, received] = await Promise.all(
+    (["getSentMessages", "getReceivedMessages"] as const).map((functionName) =>
+      chain.client.readContract({
+        address: chain.contractAddress,
+        abi: sealedMessageAbi,
+        functionName,
+        args: [session.address]
+      })
+    )
+  );
+  return new Set([...sent, ...received].map((id) => id.toString()));
+}
+
+/** Short hash of the attachment metadata a message points at through its uri, if any */
+export function messageShortHash(message: OnchainMessage): string | null {
+  return URI_SHORT_HASH_REGEX.exec(message[2])?.[1] ?? null;
+}
+
+/** On-chain keccak of the message's attachment metadata, lowercase */
+export function messageMetadataKeccak(message: OnchainMessage): string {
+  return message[6].toLowerCase();
+}
+
+const ZERO_HASH = `0x${"0".repeat(64)}`;
+
+export interface MappingRef {
+  shortHash?: string;
+  metadataKeccak?: string;
+  // Lowercase address of the account that saved the mapping
+  owner?: string;
+}
+
+/**
+ * File mappings are readable by the account that saved them, and by the sender and receiver of a message whose
+ * uri or metadataHash points at them (pass that message's id).
+ */
+export async function assertMappingAccess(session: AuthSession, mapping: MappingRef, messageId: string | null): Promise<void> {
+  if (!messageId) {
+    if (!mapping.owner || mapping.owner !== session.address.toLowerCase()) {
+      throw new MessageAccessError("Pass the messageId of a message that uses this file", 403);
+    }
+    return;
+  }
+
+  const message = await readMessageAsParticipant(session, messageId);
+  const keccak = messageMetadataKeccak(message);
+  const byShortHash = Boolean(mapping.shortHash) && mapping.shortHash === messageShortHash(message);
+  const byKeccak = keccak !== ZERO_HASH && mapping.metadataKeccak?.trim().toLowerCase() === keccak;
+  if (!byShortHash && !byKeccak) {
+    throw new MessageAccessError("The message does not use this file", 403);
+  }
+}
@@ -1,8 +1,11 @@
-import { promises as fs } from "fs";
-import path from "path";
+import { appConfig } from "./env";
+import { MessageAccessError } from "./messageAccess";
+import { getRecord, upsertRecord } from "./storage";
 
 export interface PreviewRecord {
   messageId: string;
+  // Chain of the message; previews saved before it was recorded belong to the app's default chain
+  chainId?: number;
   previewDataUrl: string;
   mimeType?: string;
   shortHash?: string | null;
@@ -11,38 +14,12 @@ export interface PreviewRecord {
   updatedAt: string;
 }
 
-const dataDir = path.join(process.cwd(), ".data");
-const dataFile = path.join(dataDir, "message-previews.json");
-
-async function readStore(): Promise<Record<string, PreviewRecord>> {
-  try {
-    const raw = await fs.readFile(dataFile, "utf-8");
-    if (!raw) {
-      return {};
-    }
-    try {
-      const parsed = JSON.parse(raw) as Record<string, PreviewRecord>;
-      return parsed ?? {};
-    } catch (err) {
-      console.warn("messagePreviewStore: corrupted JSON detected, resetting store", err);
-      await writeStore({});
-      return {};
-    }
-  } catch (err: any) {
-    if (err?.code === "ENOENT") {
-      return {};
-    }
-    throw err;
-  }
-}
-
-async function writeStore(store: Record<string, PreviewRecord>): Promise<void> {
-  await fs.mkdir(dataDir, { recursive: true });
-  await fs.writeFile(dataFile, JSON.stringify(store, null, 2), "utf-8");
-}
+const previewChainId = (record: PreviewRecord) => record.chainId ?? appConfig.chain.id;
 
+/** Previews are keyed by message id alone, so one saved for the same id on another chain is never replaced */
 export async function upsertPreview(record: {
   messageId: string;
+  chainId: number;
   previewDataUrl: string;
   mimeType?: string | null;
   shortHash?: string | null;
@@ -56,22 +33,22 @@ export async function upsertPreview(record: {
     throw new Error("previewDataUrl must be a data URI");
   }
 
-  const store = await readStore();
-  const existing = store[trimmedId];
-  const now = new Date().toISOString();
-  const payload: PreviewRecord = {
-    messageId: trimmedId,
-    previewDataUrl: record.previewDataUrl,
-    mimeType: record.mimeType ?? undefined,
-    shortHash: record.shortHash ?? existing?.shortHash ?? null,
-    fileName: record.fileName ?? existing?.fileName ?? null,
-    createdAt: existing?.createdAt ?? now,
-    updatedAt: now
-  };
-
-  store[trimmedId] = payload;
-  await writeStore(store);
-  return payload;
+  return upsertRecord<PreviewRecord>("messagePreviews", trimmedId, (existing) => {
+    if (existing && previewChainId(existing) !== record.chainId) {
+      throw new MessageAccessError(`A preview for message ${trimmedId} on chain ${previewChainId(existing)} already exists`, 409);
+    }
+    const now = new Date().toISOString();
+    return {
+      messageId: trimmedId,
+      chainId: record.chainId,
+      previewDataUrl: record.previewDataUrl,
+      mimeType: record.mimeType ?? undefined,
+      shortHash: record.shortHash ?? existing?.shortHash ?? null,
+      fileName: record.fileName ?? existing?.fileName ?? null,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    };
+  });
 }
 
 export async function getPreview(messageId: string): Promise<PreviewRecord | undefined> {
@@ -79,11 +56,17 @@ export async function getPreview(messageId: string): Promise<PreviewRecord | und
   if (!trimmedId) {
     return undefined;
   }
-  const store = await readStore();
-  return store[trimmedId];
+  return getRecord<PreviewRecord>("messagePreviews", trimmedId);
 }
 
-export async function getAllPreviews(): Promise<PreviewRecord[]> {
-  const store = await readStore();
-  return Object.values(store);
+/** Previews of the given messages on one chain */
+export async function getPreviews(chainId: number, messageIds: Iterable<string>): Promise<PreviewRecord[]> {
+  const previews: PreviewRecord[] = [];
+  for (const messageId of messageIds) {
+    const preview = await getPreview(messageId);
+    if (preview && previewChainId(preview) === chainId) {
+      previews.push(preview);
+    }
+  }
+  return previews;
 }
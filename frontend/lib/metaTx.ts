@@ -0,0 +1,161 @@
+/**
+ * EIP-712 meta-transactions: the user signs, the /api/relay route submits from a funded relayer key.
+ * Types must stay in sync with SEND_MESSAGE_TYPEHASH / REGISTER_ENCRYPTION_KEY_TYPEHASH in SealedMessage.sol
+ * and are signed under getSealedMessageDomain.
+ */
+export const MESSAGE_PARAMS_FIELDS = [
+  { name: "receiver", type: "address" },
+  { name: "uri", type: "string" },
+  { name: "iv", type: "bytes" },
+  { name: "authTag", type: "bytes" },
+  { name: "ciphertextHash", type: "bytes32" },
+  { name: "metadataHash", type: "bytes32" },
+  { name: "escrowCiphertext", type: "bytes" },
+  { name: "escrowIv", type: "bytes" },
+  { name: "escrowAuthTag", type: "bytes" },
+  { name: "sessionKeyCommitment", type: "bytes32" },
+  { name: "receiverEnvelopeHash", type: "bytes32" },
+  { name: "escrowKeyVersion", type: "uint16" },
+  { name: "encryptionKeyVersion", type: "uint32" },
+  { name: "unlockTime", type: "uint256" },
+  { name: "expiresAt", type: "uint256" },
+  { name: "checkInInterval", type: "uint256" },
+  { name: "requiredPayment", type: "uint256" },
+  { name: "paymentToken", type: "address" },
+  { name: "conditionMask", type: "uint8" },
+  { name: "guardians", type: "address[]" },
+  { name: "guardianThreshold", type: "uint8" },
+  { name: "unlockClauses", type: "uint8[]" },
+  { name: "dependsOn", type: "uint256" },
+  { name: "dependencyKind", type: "uint8" }
+] as const;
+
+export const SEND_MESSAGE_TYPES = {
+  SendMessage: [
+    { name: "sender", type: "address" },
+    { name: "params", type: "MessageParams" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" }
+  ],
+  MessageParams: MESSAGE_PARAMS_FIELDS
+} as const;
+
+export const REGISTER_ENCRYPTION_KEY_TYPES = {
+  RegisterEncryptionKey: [
+    { name: "user", type: "address" },
+    { name: "publicKey", type: "bytes" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" }
+  ]
+} as const;
+
+/** Relayed signatures are short-lived; the nonce is read right before signing. */
+export const RELAY_SIGNATURE_TTL_SECONDS = 15 * 60;
+
+/** sendMessage arguments by name (SealedMessage.MessageParams) */
+export interface SendMessageParams {
+  receiver: `0x${string}`;
+  uri: string;
+  iv: `0x${string}`;
+  authTag: `0x${string}`;
+  ciphertextHash: `0x${string}`;
+  metadataHash: `0x${string}`;
+  escrowCiphertext: `0x${string}`;
+  escrowIv: `0x${string}`;
+  escrowAuthTag: `0x${string}`;
+  sessionKeyCommitment: `0x${string}`;
+  receiverEnvelopeHash: `0x${string}`;
+  escrowKeyVersion: number;
+  // Receiver key the payload was sealed to (getEncryptionKeyAt), 0 for the fallback key
+  encryptionKeyVersion: number;
+  unlockTime: bigint;
+  expiresAt: bigint;
+  checkInInterval: bigint;
+  requiredPayment: bigint;
+  paymentToken: `0x${string}`;
+  conditionMask: number;
+  guardians: `0x${string}`[];
+  guardianThreshold: number;
+  unlockClauses: number[];
+  dependsOn: bigint;
+  dependencyKind: number;
+}
+
+/** Positional arguments for a direct sendMessage call */
+export function toSendMessageArgs(params: SendMessageParams) {
+  return [
+    params.receiver,
+    params.uri,
+    params.iv,
+    params.authTag,
+    params.ciphertextHash,
+    params.metadataHash,
+    params.escrowCiphertext,
+    params.escrowIv,
+    params.escrowAuthTag,
+    params.sessionKeyCommitment,
+    params.receiverEnvelopeHash,
+    params.escrowKeyVersion,
+    params.encryptionKeyVersion,
+    params.unlockTime,
+    params.expiresAt,
+    params.checkInInterval,
+    params.requiredPayment,
+    params.paymentToken,
+    params.conditionMask,
+    params.guardians,
+    params.guardianThreshold,
+    params.unlockClauses,
+    params.dependsOn,
+    params.dependencyKind
+  ] as const;
+}
+
+export type RelayRequest =
+  | {
+      action: "sendMessage";
+      chainId: number;
+      sender: `0x${string}`;
+      params: SendMessageParams;
+      deadline: bigint;
+      signature: `0x${string}`;
+    }
+  | {
+      action: "registerEncryptionKey";
+      chainId: number;
+      user: `0x${string}`;
+      publicKey: `0x${string}`;
+      deadline: bigint;
+      signature: `0x${string}`;
+    }
+  | {
+      action: "acknowledgeMessage";
+      chainId: number;
+      messageId: bigint;
+      receiver: `0x${string}`;
+      deadline: bigint;
+      signature: `0x${string}`;
+    };
+
+export interface RelayResponse {
+  txHash: `0x${string}`;
+  remaining: number;
+}
+
+export function relayDeadline(): bigint {
+  return BigInt(Math.floor(Date.now() / 1000) + RELAY_SIGNATURE_TTL_SECONDS);
+}
+
+/** Submits a signed request to /api/relay and returns the relayer's transaction hash. */
+export async function submitRelayRequest(request: RelayRequest): Promise<RelayResponse> {
+  const response = await fetch("/api/relay", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request, (_key, value) => (typeof value === "bigint" ? value.toString() : value))
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok || !payload?.txHash) {
+    throw new Error(payload?.error ?? `Relayer responded with ${response.status}`);
+  }
+  return { txHash: payload.txHash, remaining: Number(payload.remaining ?? 0) };
+}
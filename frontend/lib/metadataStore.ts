@@ -1,55 +1,34 @@
-import { promises as fs } from "fs";
-import path from "path";
+import { MessageAccessError } from "./messageAccess";
+import { findRecordByIndex, getRecord, listRecords, upsertRecord } from "./storage";
 
-interface MappingRecord {
+export interface MappingRecord {
   shortHash: string;
   fullHash: string;
   fileName?: string;
   fileSize?: number;
   mimeType?: string;
   metadataKeccak?: string;
+  // Lowercase address of the account that first saved the mapping (unset for mappings from before sign-in)
+  owner?: string;
   updatedAt: string;
 }
 
-const dataDir = path.join(process.cwd(), ".data");
-const dataFile = path.join(dataDir, "metadata-mapping.json");
-
-async function readStore(): Promise<Record<string, MappingRecord>> {
-  try {
-    const raw = await fs.readFile(dataFile, "utf-8");
-    if (!raw) {
-      return {};
-    }
-
-    try {
-      const parsed = JSON.parse(raw) as Record<string, MappingRecord>;
-      return parsed ?? {};
-    } catch (err) {
-      console.warn("metadataStore: corrupted JSON detected, resetting store", err);
-      await writeStore({});
-      return {};
-    }
-  } catch (err: any) {
-    if (err?.code === "ENOENT") {
-      return {};
-    }
-    throw err;
-  }
-}
-
-async function writeStore(store: Record<string, MappingRecord>): Promise<void> {
-  await fs.mkdir(dataDir, { recursive: true });
-  await fs.writeFile(dataFile, JSON.stringify(store, null, 2), "utf-8");
-}
-
-export async function upsertMapping(record: {
-  shortHash: string;
-  fullHash: string;
-  metadataKeccak?: string;
-  fileName?: string;
-  fileSize?: number;
-  mimeType?: string;
-}): Promise<MappingRecord> {
+/**
+ * Saves a mapping for `writer`. An existing mapping is only replaced when `canReplace` allows it; the first
+ * writer stays its owner.
+ */
+export async function upsertMapping(
+  record: {
+    shortHash: string;
+    fullHash: string;
+    metadataKeccak?: string;
+    fileName?: string;
+    fileSize?: number;
+    mimeType?: string;
+  },
+  writer: string,
+  canReplace: (existing: MappingRecord) => boolean
+): Promise<MappingRecord> {
   const trimmedHash = record.shortHash.trim();
   const trimmedFull = record.fullHash.trim();
   if (!trimmedHash || !trimmedFull) {
@@ -68,10 +47,12 @@ export async function upsertMapping(record: {
     updatedAt: new Date().toISOString()
   };
 
-  const store = await readStore();
-  store[trimmedHash] = payload;
-  await writeStore(store);
-  return payload;
+  return upsertRecord<MappingRecord>("metadataMappings", trimmedHash, (existing) => {
+    if (existing && !canReplace(existing)) {
+      throw new MessageAccessError("This file mapping was saved by another account", 403);
+    }
+    return { ...payload, owner: existing ? existing.owner : writer.toLowerCase() };
+  });
 }
 
 export async function getMapping(shortHash: string): Promise<MappingRecord | undefined> {
@@ -79,8 +60,7 @@ export async function getMapping(shortHash: string): Promise<MappingRecord | und
   if (!trimmedHash) {
     return undefined;
   }
-  const store = await readStore();
-  return store[trimmedHash];
+  return getRecord<MappingRecord>("metadataMappings", trimmedHash);
 }
 
 export async function getMappingByMetadataKeccak(metadataKeccak: string): Promise<MappingRecord | undefined> {
@@ -89,12 +69,10 @@ export async function getMappingByMetadataKeccak(metadataKeccak: string): Promis
     return undefined;
   }
 
-  const store = await readStore();
-  const records = Object.values(store);
-  return records.find((record) => record.metadataKeccak?.toLowerCase() === trimmed);
+  return findRecordByIndex<MappingRecord>("metadataMappings", "metadataKeccak", trimmed);
 }
 
-export async function getAllMappings(): Promise<MappingRecord[]> {
-  const store = await readStore();
-  return Object.values(store);
+export async function getMappingsByOwner(owner: string): Promise<MappingRecord[]> {
+  const normalized = owner.toLowerCase();
+  return (await listRecords<MappingRecord>("metadataMappings")).filter((record) => record.owner === normalized);
 }
@@ -0,0 +1,223 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  concat,
+  encodeAbiParameters,
+  keccak256,
+  parseAbiParameters,
+  type ContractFunctionResult,
+  type PublicClient
+} from "viem";
+import { sealedMessageAbi } from "./sealedMessageAbi";
+import { sealedMessageL2Abi } from "./sealedMessageL2Abi";
+
+/**
+ * "full": SealedMessage keeps the whole envelope in storage and getMessage returns it.
+ * "calldata": SealedMessageL2 keeps only participants, conditions and ciphertextHash; the rest is in the
+ * MessageStored / MessageEnvelope logs and bound to the message by a stored envelopeHash.
+ */
+export type StorageFlavour = "full" | "calldata";
+
+export type OnchainMessage = ContractFunctionResult<typeof sealedMessageAbi, "getMessage">;
+
+export class EnvelopeVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EnvelopeVerificationError";
+  }
+}
+
+const sealedMessageAnyAbi = [...sealedMessageAbi, ...sealedMessageL2Abi] as const;
+
+// chainId:address => flavour; a deployed contract never changes flavour
+const flavourCache = new Map<string, StorageFlavour>();
+
+function findRevert(error: unknown): ContractFunctionRevertedError | null {
+  if (!(error instanceof BaseError)) {
+    return null;
+  }
+  const revert = error.walk((cause) => cause instanceof ContractFunctionRevertedError);
+  return revert instanceof ContractFunctionRevertedError ? revert : null;
+}
+
+/** SealedMessageL2.getMessage always reverts with EnvelopeInLogs; SealedMessage reverts with anything else for id 0. */
+export async function detectStorageFlavour(
+  client: PublicClient,
+  contractAddress: `0x${string}`
+): Promise<StorageFlavour> {
+  const cacheKey = `${client.chain?.id ?? "?"}:${contractAddress.toLowerCase()}`;
+  const cached = flavourCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  let flavour: StorageFlavour = "full";
+  try {
+    await client.readContract({
+      address: contractAddress,
+      abi: sealedMessageAnyAbi,
+      functionName: "getMessage",
+      args: [0n]
+    });
+  } catch (err) {
+    const revert = findRevert(err);
+    // Transport errors say nothing about the flavour, so they are not cached
+    if (!revert) {
+      throw err;
+    }
+    if (revert.data?.errorName === "EnvelopeInLogs") {
+      flavour = "calldata";
+    }
+  }
+  flavourCache.set(cacheKey, flavour);
+  return flavour;
+}
+
+/** Mirrors SealedMessageL2._storeEnvelope: keccak256 over getMessage fields uri .. escrowKeyVersion. */
+export function computeEnvelopeHash(envelope: {
+  uri: string;
+  iv: `0x${string}`;
+  authTag: `0x${string}`;
+  ciphertextHash: `0x${string}`;
+  metadataHash: `0x${string}`;
+  escrowCiphertext: `0x${string}`;
+  escrowIv: `0x${string}`;
+  escrowAuthTag: `0x${string}`;
+  sessionKeyCommitment: `0x${string}`;
+  receiverEnvelopeHash: `0x${string}`;
+  escrowKeyVersion: number;
+}): `0x${string}` {
+  return keccak256(
+    concat([
+      encodeAbiParameters(parseAbiParameters("string, bytes, bytes, bytes32, bytes32, bytes"), [
+        envelope.uri,
+        envelope.iv,
+        envelope.authTag,
+        envelope.ciphertextHash,
+        envelope.metadataHash,
+        envelope.escrowCiphertext
+      ]),
+      encodeAbiParameters(parseAbiParameters("bytes, bytes, bytes32, bytes32, uint16"), [
+        envelope.escrowIv,
+        envelope.escrowAuthTag,
+        envelope.sessionKeyCommitment,
+        envelope.receiverEnvelopeHash,
+        envelope.escrowKeyVersion
+      ])
+    ])
+  );
+}
+
+/**
+ * Rebuilds the getMessage tuple of a SealedMessageL2 message from its logs and verifies it against the
+ * stored envelopeHash. Applies the same sender/receiver check as SealedMessage.getMessage.
+ */
+export async function reconstructMessage(
+  client: PublicClient,
+  contractAddress: `0x${string}`,
+  messageId: bigint,
+  viewer: `0x${string}`
+): Promise<OnchainMessage> {
+  const [[, envelopeHash, blockNumber], [header]] = await Promise.all([
+    client.readContract({
+      address: contractAddress,
+      abi: sealedMessageL2Abi,
+      functionName: "getMessageEnvelope",
+      args: [messageId]
+    }),
+    client.readContract({
+      address: contractAddress,
+      abi: sealedMessageAbi,
+      functionName: "getMessageHeaders",
+      args: [[messageId]]
+    })
+  ]);
+
+  const viewerKey = viewer.toLowerCase();
+  if (viewerKey !== header.sender.toLowerCase() && viewerKey !== header.receiver.toLowerCase()) {
+    throw new Error("Only sender or receiver can access message");
+  }
+
+  const [storedLogs, envelopeLogs] = await Promise.all([
+    client.getContractEvents({
+      address: contractAddress,
+      abi: sealedMessageAbi,
+      eventName: "MessageStored",
+      args: { messageId },
+      fromBlock: blockNumber,
+      toBlock: blockNumber
+    }),
+    client.getContractEvents({
+      address: contractAddress,
+      abi: sealedMessageL2Abi,
+      eventName: "MessageEnvelope",
+      args: { messageId },
+      fromBlock: blockNumber,
+      toBlock: blockNumber
+    })
+  ]);
+
+  const stored = storedLogs[0]?.args;
+  const envelope = envelopeLogs[0]?.args;
+  if (!stored?.uri || !envelope?.iv) {
+    throw new EnvelopeVerificationError(`Envelope logs of message ${messageId} not found in block ${blockNumber}`);
+  }
+
+  const rebuilt = {
+    uri: stored.uri,
+    iv: envelope.iv,
+    authTag: envelope.authTag!,
+    ciphertextHash: envelope.ciphertextHash!,
+    metadataHash: envelope.metadataHash!,
+    escrowCiphertext: envelope.escrowCiphertext!,
+    escrowIv: envelope.escrowIv!,
+    escrowAuthTag: envelope.escrowAuthTag!,
+    sessionKeyCommitment: stored.sessionKeyCommitment!,
+    receiverEnvelopeHash: envelope.receiverEnvelopeHash!,
+    escrowKeyVersion: stored.escrowKeyVersion!
+  };
+  if (computeEnvelopeHash(rebuilt) !== envelopeHash) {
+    throw new EnvelopeVerificationError(`Envelope of message ${messageId} does not match its on-chain hash`);
+  }
+
+  return [
+    header.sender,
+    header.receiver,
+    rebuilt.uri,
+    rebuilt.iv,
+    rebuilt.authTag,
+    rebuilt.ciphertextHash,
+    rebuilt.metadataHash,
+    rebuilt.escrowCiphertext,
+    rebuilt.escrowIv,
+    rebuilt.escrowAuthTag,
+    rebuilt.sessionKeyCommitment,
+    rebuilt.receiverEnvelopeHash,
+    rebuilt.escrowKeyVersion,
+    header.createdAt,
+    header.revoked,
+    header.financial.unlockTime,
+    header.financial.requiredPayment,
+    header.financial.paidAmount,
+    header.financial.conditionMask
+  ];
+}
+
+/** getMessage for either contract flavour; the result has the same shape in both cases. */
+export async function readOnchainMessage(
+  client: PublicClient,
+  contractAddress: `0x${string}`,
+  messageId: bigint,
+  viewer: `0x${string}`
+): Promise<OnchainMessage> {
+  if ((await detectStorageFlavour(client, contractAddress)) === "calldata") {
+    return reconstructMessage(client, contractAddress, messageId, viewer);
+  }
+  return client.readContract({
+    address: contractAddress,
+    abi: sealedMessageAbi,
+    functionName: "getMessage",
+    args: [messageId],
+    account: viewer
+  });
+}
@@ -0,0 +1,74 @@
+import type { PublicClient } from "viem";
+import { erc20ABI } from "wagmi";
+import { getChainById, ZERO_ADDRESS, type PaymentTokenConfig } from "./chains";
+
+/**
+ * Unit a message's required payment is denominated in.
+ * address === ZERO_ADDRESS means the chain's native currency (msg.value).
+ */
+export interface PaymentUnit {
+  address: `0x${string}`;
+  symbol: string;
+  decimals: number;
+}
+
+export const NATIVE_PAYMENT_UNIT: PaymentUnit = {
+  address: ZERO_ADDRESS as `0x${string}`,
+  symbol: "ETH",
+  decimals: 18
+};
+
+export function isNativePaymentToken(address?: string | null): boolean {
+  return !address || address.toLowerCase() === ZERO_ADDRESS;
+}
+
+export function getNativePaymentUnit(chainId?: number): PaymentUnit {
+  const chain = typeof chainId === "number" ? getChainById(chainId) : undefined;
+  if (!chain) {
+    return NATIVE_PAYMENT_UNIT;
+  }
+  return {
+    address: NATIVE_PAYMENT_UNIT.address,
+    symbol: chain.nativeCurrency.symbol,
+    decimals: chain.nativeCurrency.decimals
+  };
+}
+
+export function getPaymentTokens(chainId?: number): PaymentTokenConfig[] {
+  if (typeof chainId !== "number") {
+    return [];
+  }
+  return getChainById(chainId)?.paymentTokens ?? [];
+}
+
+export function findPaymentToken(chainId: number | undefined, address: string): PaymentTokenConfig | undefined {
+  const normalized = address.toLowerCase();
+  return getPaymentTokens(chainId).find((token) => token.address.toLowerCase() === normalized);
+}
+
+/**
+ * Resolves symbol/decimals for a payment token. Known tokens come from chains.public.json,
+ * anything else is read from the ERC-20 contract itself.
+ */
+export async function resolvePaymentUnit(
+  client: PublicClient,
+  address: string | null | undefined,
+  chainId?: number
+): Promise<PaymentUnit> {
+  if (isNativePaymentToken(address)) {
+    return getNativePaymentUnit(chainId);
+  }
+
+  const tokenAddress = address as `0x${string}`;
+  const known = findPaymentToken(chainId, tokenAddress);
+  if (known) {
+    return { address: known.address, symbol: known.symbol, decimals: known.decimals };
+  }
+
+  const [symbol, decimals] = await Promise.all([
+    client.readContract({ address: tokenAddress, abi: erc20ABI, functionName: "symbol" }),
+    client.readContract({ address: tokenAddress, abi: erc20ABI, functionName: "decimals" })
+  ]);
+
+  return { address: tokenAddress, symbol, decimals: Number(decimals) };
+}
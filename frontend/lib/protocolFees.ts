@@ -0,0 +1,34 @@
+import type { PublicClient } from "viem";
+import { sealedMessageAbi } from "./sealedMessageAbi";
+
+/**
+ * Operator fees of SealedMessage: a flat native sendFee paid with sendMessage, and protocolFeeBps taken
+ * from unlock payments when they are released to the sender. The bps rate is fixed per message at send time.
+ */
+export interface ProtocolFees {
+  protocolFeeBps: number;
+  sendFee: bigint;
+  treasury: `0x${string}`;
+}
+
+export const BPS_DENOMINATOR = 10_000n;
+
+export async function readProtocolFees(client: PublicClient, contractAddress: `0x${string}`): Promise<ProtocolFees> {
+  const [protocolFeeBps, sendFee, treasury] = await Promise.all([
+    client.readContract({ address: contractAddress, abi: sealedMessageAbi, functionName: "protocolFeeBps" }),
+    client.readContract({ address: contractAddress, abi: sealedMessageAbi, functionName: "sendFee" }),
+    client.readContract({ address: contractAddress, abi: sealedMessageAbi, functionName: "treasury" })
+  ]);
+  return { protocolFeeBps: Number(protocolFeeBps), sendFee, treasury };
+}
+
+/** Mirrors SealedMessage._releasePayment: the fee rounds down, the sender gets the rest. */
+export function splitPayment(amount: bigint, feeBps: number): { fee: bigint; net: bigint } {
+  const fee = (amount * BigInt(feeBps)) / BPS_DENOMINATOR;
+  return { fee, net: amount - fee };
+}
+
+/** 250 => "2.5%" */
+export function formatFeeBps(feeBps: number): string {
+  return `${(feeBps / 100).toLocaleString(undefined, { maximumFractionDigits: 2 })}%`;
+}
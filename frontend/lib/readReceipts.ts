@@ -0,0 +1,44 @@
+/**
+ * EIP-712 payload a receiver signs so a relayer can submit their read receipt (acknowledgeMessageBySig).
+ * Signed under getSealedMessageDomain; must stay in sync with ACKNOWLEDGEMENT_TYPEHASH in SealedMessage.sol.
+ */
+export const ACKNOWLEDGEMENT_TYPES = {
+  Acknowledgement: [
+    { name: "messageId", type: "uint256" },
+    { name: "receiver", type: "address" },
+    { name: "deadline", type: "uint256" }
+  ]
+} as const;
+
+/** Signed read receipt handed to a relayer. */
+export interface AcknowledgementPayload {
+  messageId: string;
+  receiver: `0x${string}`;
+  deadline: string;
+  signature: `0x${string}`;
+}
+
+// Read receipts are opt-in per receiver wallet; the preference stays on this device.
+const storageKey = (address: string) => `read-receipts-${address.toLowerCase()}`;
+
+export function getReadReceiptsEnabled(address: string | undefined): boolean {
+  if (!address || typeof window === "undefined") {
+    return false;
+  }
+  try {
+    return localStorage.getItem(storageKey(address)) === "true";
+  } catch {
+    return false;
+  }
+}
+
+export function setReadReceiptsEnabled(address: string, enabled: boolean): void {
+  if (typeof window === "undefined") {
+    return;
+  }
+  try {
+    localStorage.setItem(storageKey(address), enabled ? "true" : "false");
+  } catch (err) {
+    console.warn("⚠️ Failed to persist read receipt preference:", err);
+  }
+}
@@ -0,0 +1,66 @@
+import { upsertRecord } from "./storage";
+
+export interface RelayQuota {
+  used: number;
+  limit: number;
+  remaining: number;
+  resetAt: string | null;
+}
+
+// Keyed by address (lowercase): ISO timestamps of relayed transactions inside the current window
+const QUOTA_WINDOW_MS = 24 * 60 * 60 * 1000;
+function getQuotaLimit(): number {
+  return Math.max(0, Number(process.env.RELAYER_DAILY_QUOTA ?? 5) || 0);
+}
+
+function activeEntries(entries: string[] | undefined, now: number): string[] {
+  return (entries ?? []).filter((entry) => now - Date.parse(entry) < QUOTA_WINDOW_MS);
+}
+
+function toQuota(entries: string[]): RelayQuota {
+  const oldest = entries[0];
+  const quotaLimit = getQuotaLimit();
+  return {
+    used: entries.length,
+    limit: quotaLimit,
+    remaining: Math.max(0, quotaLimit - entries.length),
+    resetAt: oldest ? new Date(Date.parse(oldest) + QUOTA_WINDOW_MS).toISOString() : null
+  };
+}
+
+/** Thrown by reserveRelay when the address has no relays left in the current window */
+export class RelayQuotaExceededError extends Error {
+  constructor(readonly quota: RelayQuota) {
+    super("Relay quota exhausted for this address");
+    this.name = "RelayQuotaExceededError";
+  }
+}
+
+/**
+ * Checks the rolling 24h quota (RELAYER_DAILY_QUOTA, default 5) and takes one slot in the same write, so concurrent
+ * requests from one address cannot all pass the check. Returns the slot, to hand back with releaseRelay if the
+ * transaction is never submitted.
+ */
+export async function reserveRelay(address: string): Promise<{ quota: RelayQuota; reservedAt: string }> {
+  const now = Date.now();
+  const reservedAt = new Date(now).toISOString();
+  const entries = await upsertRecord<string[]>("relayerQuotas", address.trim().toLowerCase(), (current) => {
+    const active = activeEntries(current, now);
+    if (active.length >= getQuotaLimit()) {
+      throw new RelayQuotaExceededError(toQuota(active));
+    }
+    return [...active, reservedAt];
+  });
+  return { quota: toQuota(entries), reservedAt };
+}
+
+export async function releaseRelay(address: string, reservedAt: string): Promise<void> {
+  await upsertRecord<string[]>("relayerQuotas", address.trim().toLowerCase(), (current) => {
+    const entries = [...(current ?? [])];
+    const index = entries.indexOf(reservedAt);
+    if (index >= 0) {
+      entries.splice(index, 1);
+    }
+    return entries;
+  });
+}
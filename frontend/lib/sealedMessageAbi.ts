@@ -1,182 +1,2339 @@
 export const sealedMessageAbi = [
 	{
 		"inputs": [],
-		"name": "MessageNotFound",
-		"type": "error"
+		"stateMutability": "nonpayable",
+		"type": "constructor"
 	},
 	{
 		"inputs": [],
-		"name": "NotSender",
+		"name": "AccessControlBadConfirmation",
 		"type": "error"
 	},
 	{
-		"anonymous": false,
 		"inputs": [
 			{
-				"indexed": true,
 				"internalType": "address",
-				"name": "user",
+				"name": "account",
 				"type": "address"
 			},
 			{
-				"indexed": false,
-				"internalType": "bytes",
-				"name": "publicKey",
-				"type": "bytes"
+				"internalType": "bytes32",
+				"name": "neededRole",
+				"type": "bytes32"
+			}
+		],
+		"name": "AccessControlUnauthorizedAccount",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "AlreadyAcknowledged",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "AlreadyApproved",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "AlreadyConsented",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "AlreadyPaid",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "AlreadyRevoked",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "ChainTooDeep",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "CheckInMissed",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "DependencyRevoked",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "DuplicateGuardian",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "ECDSAInvalidSignature",
+		"type": "error"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "length",
+				"type": "uint256"
+			}
+		],
+		"name": "ECDSAInvalidSignatureLength",
+		"type": "error"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "bytes32",
+				"name": "s",
+				"type": "bytes32"
+			}
+		],
+		"name": "ECDSAInvalidSignatureS",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "EmptyMask",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "EmptyUri",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "Expired",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "ExpiryBeforeUnlock",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "ExpiryInPast",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "FeeTooHigh",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "IncorrectSendFee",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "InvalidCheckInInterval",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "InvalidClause",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "InvalidClauseCount",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "InvalidDependencyKind",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "InvalidEscrowCipherLength",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "InvalidEscrowIvLength",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "InvalidEscrowKeyVersion",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "InvalidEscrowTagLength",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "InvalidGuardian",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "InvalidGuardianCount",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "InvalidGuardianThreshold",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "InvalidIvLength",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "InvalidKeyLength",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "InvalidReceiver",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "InvalidRecipient",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "InvalidSessionKey",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "InvalidShortString",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "InvalidSignature",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "InvalidTagLength",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "InvalidToken",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "InvalidTreasury",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "KeyReleaseNotAllowed",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "Locked",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "MessageNotFound",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "MissingCiphertextHash",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "MissingMetadataHash",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "MissingReceiverEnvelopeHash",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "MissingSessionKeyCommitment",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "NativePayment",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "NoConsentCondition",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "NoHeartbeatCondition",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "NoPayment",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "NoPaymentCondition",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "NotGuardian",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "NotReceiver",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "NotRefundable",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "NotSender",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "NothingHeld",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "NothingToRefund",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "NothingToWithdraw",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "PaymentAlreadyReleased",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "PaymentRequired",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "Reentrancy",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "RefundFailed",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "Revoked",
+		"type": "error"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint8",
+				"name": "bits",
+				"type": "uint8"
+			},
+			{
+				"internalType": "uint256",
+				"name": "value",
+				"type": "uint256"
+			}
+		],
+		"name": "SafeCastOverflowedUintDowncast",
+		"type": "error"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "token",
+				"type": "address"
+			}
+		],
+		"name": "SafeERC20FailedOperation",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "SelfTarget",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "SessionKeyAlreadyReleased",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "SignatureExpired",
+		"type": "error"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "string",
+				"name": "str",
+				"type": "string"
+			}
+		],
+		"name": "StringTooLong",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "TokenPayment",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "UnknownDependency",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "UnknownKeyVersion",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "UnlockInPast",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "UnusedCondition",
+		"type": "error"
+	},
+	{
+		"inputs": [],
+		"name": "WithdrawFailed",
+		"type": "error"
+	},
+	{
+		"anonymous": false,
+		"inputs": [],
+		"name": "EIP712DomainChanged",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "user",
+				"type": "address"
+			},
+			{
+				"indexed": false,
+				"internalType": "bytes",
+				"name": "publicKey",
+				"type": "bytes"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint256",
+				"name": "version",
+				"type": "uint256"
+			}
+		],
+		"name": "EncryptionKeyRegistered",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "uint256",
+				"name": "messageId",
+				"type": "uint256"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "guardian",
+				"type": "address"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint8",
+				"name": "approvals",
+				"type": "uint8"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint8",
+				"name": "threshold",
+				"type": "uint8"
+			}
+		],
+		"name": "GuardianApproved",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "uint256",
+				"name": "messageId",
+				"type": "uint256"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "receiver",
+				"type": "address"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint256",
+				"name": "acknowledgedAt",
+				"type": "uint256"
+			}
+		],
+		"name": "MessageAcknowledged",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "uint256",
+				"name": "messageId",
+				"type": "uint256"
+			},
+			{
+				"indexed": true,
+				"internalType": "uint256",
+				"name": "dependsOn",
+				"type": "uint256"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint8",
+				"name": "dependencyKind",
+				"type": "uint8"
+			}
+		],
+		"name": "MessageChained",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "uint256",
+				"name": "messageId",
+				"type": "uint256"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "payer",
+				"type": "address"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "token",
+				"type": "address"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint256",
+				"name": "amount",
+				"type": "uint256"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint256",
+				"name": "totalPaid",
+				"type": "uint256"
+			}
+		],
+		"name": "MessagePaid",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "uint256",
+				"name": "messageId",
+				"type": "uint256"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "sender",
+				"type": "address"
+			}
+		],
+		"name": "MessageRevoked",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "uint256",
+				"name": "messageId",
+				"type": "uint256"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "sender",
+				"type": "address"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "receiver",
+				"type": "address"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint8",
+				"name": "conditionMask",
+				"type": "uint8"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint256",
+				"name": "unlockTime",
+				"type": "uint256"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint256",
+				"name": "requiredPayment",
+				"type": "uint256"
+			},
+			{
+				"indexed": false,
+				"internalType": "string",
+				"name": "uri",
+				"type": "string"
+			},
+			{
+				"indexed": false,
+				"internalType": "bytes32",
+				"name": "sessionKeyCommitment",
+				"type": "bytes32"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint16",
+				"name": "escrowKeyVersion",
+				"type": "uint16"
+			}
+		],
+		"name": "MessageStored",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "uint256",
+				"name": "messageId",
+				"type": "uint256"
+			},
+			{
+				"indexed": false,
+				"internalType": "string",
+				"name": "reason",
+				"type": "string"
+			}
+		],
+		"name": "MessageUnlocked",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "uint256",
+				"name": "messageId",
+				"type": "uint256"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "recipient",
+				"type": "address"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "token",
+				"type": "address"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint256",
+				"name": "amount",
+				"type": "uint256"
+			}
+		],
+		"name": "PaymentCredited",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "uint256",
+				"name": "messageId",
+				"type": "uint256"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "payer",
+				"type": "address"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "token",
+				"type": "address"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint256",
+				"name": "amount",
+				"type": "uint256"
+			}
+		],
+		"name": "PaymentRefunded",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": false,
+				"internalType": "uint16",
+				"name": "oldFeeBps",
+				"type": "uint16"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint16",
+				"name": "newFeeBps",
+				"type": "uint16"
+			}
+		],
+		"name": "ProtocolFeeUpdated",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "bytes32",
+				"name": "role",
+				"type": "bytes32"
+			},
+			{
+				"indexed": true,
+				"internalType": "bytes32",
+				"name": "previousAdminRole",
+				"type": "bytes32"
+			},
+			{
+				"indexed": true,
+				"internalType": "bytes32",
+				"name": "newAdminRole",
+				"type": "bytes32"
+			}
+		],
+		"name": "RoleAdminChanged",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "bytes32",
+				"name": "role",
+				"type": "bytes32"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "account",
+				"type": "address"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "sender",
+				"type": "address"
+			}
+		],
+		"name": "RoleGranted",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "bytes32",
+				"name": "role",
+				"type": "bytes32"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "account",
+				"type": "address"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "sender",
+				"type": "address"
+			}
+		],
+		"name": "RoleRevoked",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": false,
+				"internalType": "uint256",
+				"name": "oldFee",
+				"type": "uint256"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint256",
+				"name": "newFee",
+				"type": "uint256"
+			}
+		],
+		"name": "SendFeeUpdated",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "uint256",
+				"name": "messageId",
+				"type": "uint256"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "sender",
+				"type": "address"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint256",
+				"name": "nextCheckInDue",
+				"type": "uint256"
+			}
+		],
+		"name": "SenderCheckedIn",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "uint256",
+				"name": "messageId",
+				"type": "uint256"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "sender",
+				"type": "address"
+			}
+		],
+		"name": "SenderConsented",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "uint256",
+				"name": "messageId",
+				"type": "uint256"
+			},
+			{
+				"indexed": false,
+				"internalType": "bytes32",
+				"name": "sessionKey",
+				"type": "bytes32"
+			}
+		],
+		"name": "SessionKeyReleased",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "oldTreasury",
+				"type": "address"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "newTreasury",
+				"type": "address"
+			}
+		],
+		"name": "TreasuryUpdated",
+		"type": "event"
+	},
+	{
+		"anonymous": false,
+		"inputs": [
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "account",
+				"type": "address"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "to",
+				"type": "address"
+			},
+			{
+				"indexed": true,
+				"internalType": "address",
+				"name": "token",
+				"type": "address"
+			},
+			{
+				"indexed": false,
+				"internalType": "uint256",
+				"name": "amount",
+				"type": "uint256"
+			}
+		],
+		"name": "Withdrawn",
+		"type": "event"
+	},
+	{
+		"inputs": [],
+		"name": "ADMIN_ROLE",
+		"outputs": [
+			{
+				"internalType": "bytes32",
+				"name": "",
+				"type": "bytes32"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [],
+		"name": "DEFAULT_ADMIN_ROLE",
+		"outputs": [
+			{
+				"internalType": "bytes32",
+				"name": "",
+				"type": "bytes32"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [],
+		"name": "DOMAIN_SEPARATOR",
+		"outputs": [
+			{
+				"internalType": "bytes32",
+				"name": "",
+				"type": "bytes32"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [],
+		"name": "MAX_PROTOCOL_FEE_BPS",
+		"outputs": [
+			{
+				"internalType": "uint16",
+				"name": "",
+				"type": "uint16"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "messageId",
+				"type": "uint256"
+			}
+		],
+		"name": "acknowledgeMessage",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "messageId",
+				"type": "uint256"
+			},
+			{
+				"internalType": "address",
+				"name": "receiver",
+				"type": "address"
+			},
+			{
+				"internalType": "uint256",
+				"name": "deadline",
+				"type": "uint256"
+			},
+			{
+				"internalType": "bytes",
+				"name": "signature",
+				"type": "bytes"
+			}
+		],
+		"name": "acknowledgeMessageBySig",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "messageId",
+				"type": "uint256"
+			}
+		],
+		"name": "approveUnlock",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "messageId",
+				"type": "uint256"
+			},
+			{
+				"internalType": "address",
+				"name": "guardian",
+				"type": "address"
+			},
+			{
+				"internalType": "uint256",
+				"name": "deadline",
+				"type": "uint256"
+			},
+			{
+				"internalType": "bytes",
+				"name": "signature",
+				"type": "bytes"
+			}
+		],
+		"name": "approveUnlockBySig",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "messageId",
+				"type": "uint256"
+			}
+		],
+		"name": "checkIn",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "offset",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "limit",
+				"type": "uint256"
+			}
+		],
+		"name": "checkInAll",
+		"outputs": [
+			{
+				"internalType": "uint256",
+				"name": "refreshed",
+				"type": "uint256"
+			}
+		],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "messageId",
+				"type": "uint256"
+			}
+		],
+		"name": "claimRefund",
+		"outputs": [
+			{
+				"internalType": "uint256",
+				"name": "amount",
+				"type": "uint256"
+			}
+		],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "messageId",
+				"type": "uint256"
+			}
+		],
+		"name": "consentToUnlock",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "messageId",
+				"type": "uint256"
+			},
+			{
+				"internalType": "address",
+				"name": "payer",
+				"type": "address"
+			}
+		],
+		"name": "contributionOf",
+		"outputs": [
+			{
+				"internalType": "uint256",
+				"name": "",
+				"type": "uint256"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [],
+		"name": "eip712Domain",
+		"outputs": [
+			{
+				"internalType": "bytes1",
+				"name": "fields",
+				"type": "bytes1"
+			},
+			{
+				"internalType": "string",
+				"name": "name",
+				"type": "string"
+			},
+			{
+				"internalType": "string",
+				"name": "version",
+				"type": "string"
+			},
+			{
+				"internalType": "uint256",
+				"name": "chainId",
+				"type": "uint256"
+			},
+			{
+				"internalType": "address",
+				"name": "verifyingContract",
+				"type": "address"
+			},
+			{
+				"internalType": "bytes32",
+				"name": "salt",
+				"type": "bytes32"
+			},
+			{
+				"internalType": "uint256[]",
+				"name": "extensions",
+				"type": "uint256[]"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "messageId",
+				"type": "uint256"
+			}
+		],
+		"name": "getDependentMessages",
+		"outputs": [
+			{
+				"internalType": "uint256[]",
+				"name": "",
+				"type": "uint256[]"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "user",
+				"type": "address"
+			}
+		],
+		"name": "getEncryptionKey",
+		"outputs": [
+			{
+				"internalType": "bytes",
+				"name": "",
+				"type": "bytes"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "user",
+				"type": "address"
+			},
+			{
+				"internalType": "uint256",
+				"name": "version",
+				"type": "uint256"
+			}
+		],
+		"name": "getEncryptionKeyAt",
+		"outputs": [
+			{
+				"internalType": "bytes",
+				"name": "publicKey",
+				"type": "bytes"
+			},
+			{
+				"internalType": "uint256",
+				"name": "registeredAt",
+				"type": "uint256"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "user",
+				"type": "address"
+			}
+		],
+		"name": "getEncryptionKeyCount",
+		"outputs": [
+			{
+				"internalType": "uint256",
+				"name": "",
+				"type": "uint256"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "messageId",
+				"type": "uint256"
+			}
+		],
+		"name": "getGuardianApprovals",
+		"outputs": [
+			{
+				"internalType": "address[]",
+				"name": "guardians",
+				"type": "address[]"
+			},
+			{
+				"internalType": "bool[]",
+				"name": "approved",
+				"type": "bool[]"
+			},
+			{
+				"internalType": "uint8",
+				"name": "threshold",
+				"type": "uint8"
+			},
+			{
+				"internalType": "uint8",
+				"name": "approvals",
+				"type": "uint8"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "guardian",
+				"type": "address"
+			}
+		],
+		"name": "getGuardianMessages",
+		"outputs": [
+			{
+				"internalType": "uint256[]",
+				"name": "",
+				"type": "uint256[]"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "messageId",
+				"type": "uint256"
+			}
+		],
+		"name": "getMessage",
+		"outputs": [
+			{
+				"internalType": "address",
+				"name": "sender",
+				"type": "address"
+			},
+			{
+				"internalType": "address",
+				"name": "receiver",
+				"type": "address"
+			},
+			{
+				"internalType": "string",
+				"name": "uri",
+				"type": "string"
+			},
+			{
+				"internalType": "bytes",
+				"name": "iv",
+				"type": "bytes"
+			},
+			{
+				"internalType": "bytes",
+				"name": "authTag",
+				"type": "bytes"
+			},
+			{
+				"internalType": "bytes32",
+				"name": "ciphertextHash",
+				"type": "bytes32"
+			},
+			{
+				"internalType": "bytes32",
+				"name": "metadataHash",
+				"type": "bytes32"
+			},
+			{
+				"internalType": "bytes",
+				"name": "escrowCiphertext",
+				"type": "bytes"
+			},
+			{
+				"internalType": "bytes",
+				"name": "escrowIv",
+				"type": "bytes"
+			},
+			{
+				"internalType": "bytes",
+				"name": "escrowAuthTag",
+				"type": "bytes"
+			},
+			{
+				"internalType": "bytes32",
+				"name": "sessionKeyCommitment",
+				"type": "bytes32"
+			},
+			{
+				"internalType": "bytes32",
+				"name": "receiverEnvelopeHash",
+				"type": "bytes32"
+			},
+			{
+				"internalType": "uint16",
+				"name": "escrowKeyVersion",
+				"type": "uint16"
+			},
+			{
+				"internalType": "uint256",
+				"name": "createdAt",
+				"type": "uint256"
+			},
+			{
+				"internalType": "bool",
+				"name": "revoked",
+				"type": "bool"
+			},
+			{
+				"internalType": "uint256",
+				"name": "unlockTime",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "requiredPayment",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "paidAmount",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint8",
+				"name": "conditionMask",
+				"type": "uint8"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "messageId",
+				"type": "uint256"
+			}
+		],
+		"name": "getMessageDependency",
+		"outputs": [
+			{
+				"internalType": "bool",
+				"name": "chained",
+				"type": "bool"
+			},
+			{
+				"internalType": "uint256",
+				"name": "dependsOn",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint8",
+				"name": "dependencyKind",
+				"type": "uint8"
+			},
+			{
+				"internalType": "bool",
+				"name": "satisfied",
+				"type": "bool"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "messageId",
+				"type": "uint256"
+			}
+		],
+		"name": "getMessageFinancialView",
+		"outputs": [
+			{
+				"components": [
+					{
+						"internalType": "uint256",
+						"name": "unlockTime",
+						"type": "uint256"
+					},
+					{
+						"internalType": "uint256",
+						"name": "requiredPayment",
+						"type": "uint256"
+					},
+					{
+						"internalType": "uint256",
+						"name": "paidAmount",
+						"type": "uint256"
+					},
+					{
+						"internalType": "uint8",
+						"name": "conditionMask",
+						"type": "uint8"
+					},
+					{
+						"internalType": "bool",
+						"name": "isUnlocked",
+						"type": "bool"
+					},
+					{
+						"internalType": "address",
+						"name": "paymentToken",
+						"type": "address"
+					},
+					{
+						"internalType": "uint256",
+						"name": "expiresAt",
+						"type": "uint256"
+					},
+					{
+						"internalType": "bool",
+						"name": "isExpired",
+						"type": "bool"
+					},
+					{
+						"internalType": "uint256",
+						"name": "checkInInterval",
+						"type": "uint256"
+					},
+					{
+						"internalType": "uint256",
+						"name": "lastCheckIn",
+						"type": "uint256"
+					},
+					{
+						"internalType": "uint8",
+						"name": "guardianThreshold",
+						"type": "uint8"
+					},
+					{
+						"internalType": "uint8",
+						"name": "guardianApprovals",
+						"type": "uint8"
+					},
+					{
+						"internalType": "uint256",
+						"name": "dependsOn",
+						"type": "uint256"
+					},
+					{
+						"internalType": "uint8",
+						"name": "dependencyKind",
+						"type": "uint8"
+					},
+					{
+						"internalType": "uint256",
+						"name": "acknowledgedAt",
+						"type": "uint256"
+					},
+					{
+						"internalType": "uint256",
+						"name": "encryptionKeyVersion",
+						"type": "uint256"
+					},
+					{
+						"internalType": "uint256",
+						"name": "heldAmount",
+						"type": "uint256"
+					},
+					{
+						"internalType": "uint16",
+						"name": "protocolFeeBps",
+						"type": "uint16"
+					}
+				],
+				"internalType": "struct SealedMessage.MessageFinancialView",
+				"name": "viewData",
+				"type": "tuple"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256[]",
+				"name": "ids",
+				"type": "uint256[]"
+			}
+		],
+		"name": "getMessageHeaders",
+		"outputs": [
+			{
+				"components": [
+					{
+						"internalType": "uint256",
+						"name": "id",
+						"type": "uint256"
+					},
+					{
+						"internalType": "address",
+						"name": "sender",
+						"type": "address"
+					},
+					{
+						"internalType": "address",
+						"name": "receiver",
+						"type": "address"
+					},
+					{
+						"internalType": "uint256",
+						"name": "createdAt",
+						"type": "uint256"
+					},
+					{
+						"internalType": "bool",
+						"name": "revoked",
+						"type": "bool"
+					},
+					{
+						"components": [
+							{
+								"internalType": "uint256",
+								"name": "unlockTime",
+								"type": "uint256"
+							},
+							{
+								"internalType": "uint256",
+								"name": "requiredPayment",
+								"type": "uint256"
+							},
+							{
+								"internalType": "uint256",
+								"name": "paidAmount",
+								"type": "uint256"
+							},
+							{
+								"internalType": "uint8",
+								"name": "conditionMask",
+								"type": "uint8"
+							},
+							{
+								"internalType": "bool",
+								"name": "isUnlocked",
+								"type": "bool"
+							},
+							{
+								"internalType": "address",
+								"name": "paymentToken",
+								"type": "address"
+							},
+							{
+								"internalType": "uint256",
+								"name": "expiresAt",
+								"type": "uint256"
+							},
+							{
+								"internalType": "bool",
+								"name": "isExpired",
+								"type": "bool"
+							},
+							{
+								"internalType": "uint256",
+								"name": "checkInInterval",
+								"type": "uint256"
+							},
+							{
+								"internalType": "uint256",
+								"name": "lastCheckIn",
+								"type": "uint256"
+							},
+							{
+								"internalType": "uint8",
+								"name": "guardianThreshold",
+								"type": "uint8"
+							},
+							{
+								"internalType": "uint8",
+								"name": "guardianApprovals",
+								"type": "uint8"
+							},
+							{
+								"internalType": "uint256",
+								"name": "dependsOn",
+								"type": "uint256"
+							},
+							{
+								"internalType": "uint8",
+								"name": "dependencyKind",
+								"type": "uint8"
+							},
+							{
+								"internalType": "uint256",
+								"name": "acknowledgedAt",
+								"type": "uint256"
+							},
+							{
+								"internalType": "uint256",
+								"name": "encryptionKeyVersion",
+								"type": "uint256"
+							},
+							{
+								"internalType": "uint256",
+								"name": "heldAmount",
+								"type": "uint256"
+							},
+							{
+								"internalType": "uint16",
+								"name": "protocolFeeBps",
+								"type": "uint16"
+							}
+						],
+						"internalType": "struct SealedMessage.MessageFinancialView",
+						"name": "financial",
+						"type": "tuple"
+					}
+				],
+				"internalType": "struct SealedMessage.MessageHeader[]",
+				"name": "headers",
+				"type": "tuple[]"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "user",
+				"type": "address"
+			}
+		],
+		"name": "getReceivedMessageCount",
+		"outputs": [
+			{
+				"internalType": "uint256",
+				"name": "",
+				"type": "uint256"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "user",
+				"type": "address"
+			}
+		],
+		"name": "getReceivedMessages",
+		"outputs": [
+			{
+				"internalType": "uint256[]",
+				"name": "",
+				"type": "uint256[]"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "user",
+				"type": "address"
+			},
+			{
+				"internalType": "uint256",
+				"name": "offset",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "limit",
+				"type": "uint256"
+			}
+		],
+		"name": "getReceivedMessagesPage",
+		"outputs": [
+			{
+				"internalType": "uint256[]",
+				"name": "",
+				"type": "uint256[]"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "bytes32",
+				"name": "role",
+				"type": "bytes32"
+			}
+		],
+		"name": "getRoleAdmin",
+		"outputs": [
+			{
+				"internalType": "bytes32",
+				"name": "",
+				"type": "bytes32"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "user",
+				"type": "address"
+			}
+		],
+		"name": "getSentMessageCount",
+		"outputs": [
+			{
+				"internalType": "uint256",
+				"name": "",
+				"type": "uint256"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "user",
+				"type": "address"
+			}
+		],
+		"name": "getSentMessages",
+		"outputs": [
+			{
+				"internalType": "uint256[]",
+				"name": "",
+				"type": "uint256[]"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "user",
+				"type": "address"
+			},
+			{
+				"internalType": "uint256",
+				"name": "offset",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "limit",
+				"type": "uint256"
+			}
+		],
+		"name": "getSentMessagesPage",
+		"outputs": [
+			{
+				"internalType": "uint256[]",
+				"name": "",
+				"type": "uint256[]"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "messageId",
+				"type": "uint256"
+			}
+		],
+		"name": "getUnlockState",
+		"outputs": [
+			{
+				"internalType": "uint8[]",
+				"name": "clauses",
+				"type": "uint8[]"
+			},
+			{
+				"internalType": "uint8",
+				"name": "satisfiedConditions",
+				"type": "uint8"
+			},
+			{
+				"internalType": "bool",
+				"name": "unlocked",
+				"type": "bool"
+			},
+			{
+				"internalType": "uint8",
+				"name": "matchedClause",
+				"type": "uint8"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "bytes32",
+				"name": "role",
+				"type": "bytes32"
+			},
+			{
+				"internalType": "address",
+				"name": "account",
+				"type": "address"
+			}
+		],
+		"name": "grantRole",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "user",
+				"type": "address"
+			}
+		],
+		"name": "hasEncryptionKey",
+		"outputs": [
+			{
+				"internalType": "bool",
+				"name": "",
+				"type": "bool"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "bytes32",
+				"name": "role",
+				"type": "bytes32"
+			},
+			{
+				"internalType": "address",
+				"name": "account",
+				"type": "address"
+			}
+		],
+		"name": "hasRole",
+		"outputs": [
+			{
+				"internalType": "bool",
+				"name": "",
+				"type": "bool"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "messageId",
+				"type": "uint256"
+			}
+		],
+		"name": "isExpired",
+		"outputs": [
+			{
+				"internalType": "bool",
+				"name": "",
+				"type": "bool"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "messageId",
+				"type": "uint256"
+			}
+		],
+		"name": "isUnlocked",
+		"outputs": [
+			{
+				"internalType": "bool",
+				"name": "",
+				"type": "bool"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [],
+		"name": "messageCount",
+		"outputs": [
+			{
+				"internalType": "uint256",
+				"name": "",
+				"type": "uint256"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "address",
+				"name": "",
+				"type": "address"
+			}
+		],
+		"name": "nonces",
+		"outputs": [
+			{
+				"internalType": "uint256",
+				"name": "",
+				"type": "uint256"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "messageId",
+				"type": "uint256"
+			}
+		],
+		"name": "payToUnlock",
+		"outputs": [],
+		"stateMutability": "payable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "uint256",
+				"name": "messageId",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "amount",
+				"type": "uint256"
 			}
 		],
-		"name": "EncryptionKeyRegistered",
-		"type": "event"
+		"name": "payToUnlockWithToken",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
 	},
 	{
-		"anonymous": false,
 		"inputs": [
 			{
-				"indexed": true,
 				"internalType": "uint256",
 				"name": "messageId",
 				"type": "uint256"
 			},
 			{
-				"indexed": true,
-				"internalType": "address",
-				"name": "payer",
-				"type": "address"
-			},
-			{
-				"indexed": false,
 				"internalType": "uint256",
 				"name": "amount",
 				"type": "uint256"
 			},
 			{
-				"indexed": false,
 				"internalType": "uint256",
-				"name": "totalPaid",
+				"name": "deadline",
 				"type": "uint256"
+			},
+			{
+				"internalType": "uint8",
+				"name": "v",
+				"type": "uint8"
+			},
+			{
+				"internalType": "bytes32",
+				"name": "r",
+				"type": "bytes32"
+			},
+			{
+				"internalType": "bytes32",
+				"name": "s",
+				"type": "bytes32"
 			}
 		],
-		"name": "MessagePaid",
-		"type": "event"
+		"name": "payToUnlockWithTokenPermit",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
 	},
 	{
-		"anonymous": false,
 		"inputs": [
 			{
-				"indexed": true,
-				"internalType": "uint256",
-				"name": "messageId",
-				"type": "uint256"
+				"internalType": "address",
+				"name": "account",
+				"type": "address"
 			},
 			{
-				"indexed": true,
 				"internalType": "address",
-				"name": "sender",
+				"name": "token",
 				"type": "address"
 			}
 		],
-		"name": "MessageRevoked",
-		"type": "event"
+		"name": "pendingTokenWithdrawal",
+		"outputs": [
+			{
+				"internalType": "uint256",
+				"name": "",
+				"type": "uint256"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
 	},
 	{
-		"anonymous": false,
 		"inputs": [
 			{
-				"indexed": true,
+				"internalType": "address",
+				"name": "account",
+				"type": "address"
+			}
+		],
+		"name": "pendingWithdrawal",
+		"outputs": [
+			{
 				"internalType": "uint256",
-				"name": "messageId",
+				"name": "",
 				"type": "uint256"
-			},
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [],
+		"name": "protocolFeeBps",
+		"outputs": [
 			{
-				"indexed": true,
-				"internalType": "address",
-				"name": "sender",
-				"type": "address"
-			},
+				"internalType": "uint16",
+				"name": "",
+				"type": "uint16"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "bytes",
+				"name": "publicKey",
+				"type": "bytes"
+			}
+		],
+		"name": "registerEncryptionKey",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
 			{
-				"indexed": true,
 				"internalType": "address",
-				"name": "receiver",
+				"name": "user",
 				"type": "address"
 			},
 			{
-				"indexed": false,
-				"internalType": "uint8",
-				"name": "conditionMask",
-				"type": "uint8"
+				"internalType": "bytes",
+				"name": "publicKey",
+				"type": "bytes"
 			},
 			{
-				"indexed": false,
 				"internalType": "uint256",
-				"name": "unlockTime",
+				"name": "deadline",
 				"type": "uint256"
 			},
 			{
-				"indexed": false,
+				"internalType": "bytes",
+				"name": "signature",
+				"type": "bytes"
+			}
+		],
+		"name": "registerEncryptionKeyBySig",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
 				"internalType": "uint256",
-				"name": "requiredPayment",
+				"name": "messageId",
 				"type": "uint256"
-			},
-			{
-				"indexed": false,
-				"internalType": "string",
-				"name": "uri",
-				"type": "string"
-			},
-			{
-				"indexed": false,
-				"internalType": "bytes32",
-				"name": "sessionKeyCommitment",
-				"type": "bytes32"
-			},
-			{
-				"indexed": false,
-				"internalType": "uint16",
-				"name": "escrowKeyVersion",
-				"type": "uint16"
 			}
 		],
-		"name": "MessageStored",
-		"type": "event"
+		"name": "releasePayment",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
 	},
 	{
-		"anonymous": false,
 		"inputs": [
 			{
-				"indexed": true,
 				"internalType": "uint256",
 				"name": "messageId",
 				"type": "uint256"
 			},
 			{
-				"indexed": false,
-				"internalType": "string",
-				"name": "reason",
-				"type": "string"
+				"internalType": "bytes32",
+				"name": "sessionKey",
+				"type": "bytes32"
 			}
 		],
-		"name": "MessageUnlocked",
-		"type": "event"
+		"name": "releaseSessionKey",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
 	},
 	{
 		"inputs": [
 			{
-				"internalType": "address",
-				"name": "user",
-				"type": "address"
+				"internalType": "uint256",
+				"name": "",
+				"type": "uint256"
 			}
 		],
-		"name": "getEncryptionKey",
+		"name": "releasedSessionKeys",
 		"outputs": [
 			{
-				"internalType": "bytes",
+				"internalType": "bytes32",
 				"name": "",
-				"type": "bytes"
+				"type": "bytes32"
 			}
 		],
 		"stateMutability": "view",
 		"type": "function"
 	},
+	{
+		"inputs": [
+			{
+				"internalType": "bytes32",
+				"name": "role",
+				"type": "bytes32"
+			},
+			{
+				"internalType": "address",
+				"name": "callerConfirmation",
+				"type": "address"
+			}
+		],
+		"name": "renounceRole",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
 	{
 		"inputs": [
 			{
@@ -185,13 +2342,44 @@ export const sealedMessageAbi = [
 				"type": "uint256"
 			}
 		],
-		"name": "getMessage",
-		"outputs": [
+		"name": "revokeMessage",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
+			{
+				"internalType": "bytes32",
+				"name": "role",
+				"type": "bytes32"
+			},
 			{
 				"internalType": "address",
-				"name": "sender",
+				"name": "account",
 				"type": "address"
-			},
+			}
+		],
+		"name": "revokeRole",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [],
+		"name": "sendFee",
+		"outputs": [
+			{
+				"internalType": "uint256",
+				"name": "",
+				"type": "uint256"
+			}
+		],
+		"stateMutability": "view",
+		"type": "function"
+	},
+	{
+		"inputs": [
 			{
 				"internalType": "address",
 				"name": "receiver",
@@ -252,52 +2440,147 @@ export const sealedMessageAbi = [
 				"name": "escrowKeyVersion",
 				"type": "uint16"
 			},
+			{
+				"internalType": "uint32",
+				"name": "encryptionKeyVersion",
+				"type": "uint32"
+			},
 			{
 				"internalType": "uint256",
-				"name": "createdAt",
+				"name": "unlockTime",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "expiresAt",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "checkInInterval",
+				"type": "uint256"
+			},
+			{
+				"internalType": "uint256",
+				"name": "requiredPayment",
 				"type": "uint256"
 			},
 			{
-				"internalType": "bool",
-				"name": "revoked",
-				"type": "bool"
+				"internalType": "address",
+				"name": "paymentToken",
+				"type": "address"
+			},
+			{
+				"internalType": "uint8",
+				"name": "conditionMask",
+				"type": "uint8"
+			},
+			{
+				"internalType": "address[]",
+				"name": "guardians",
+				"type": "address[]"
 			},
 			{
-				"internalType": "uint256",
-				"name": "unlockTime",
-				"type": "uint256"
+				"internalType": "uint8",
+				"name": "guardianThreshold",
+				"type": "uint8"
 			},
 			{
-				"internalType": "uint256",
-				"name": "requiredPayment",
-				"type": "uint256"
+				"internalType": "uint8[]",
+				"name": "unlockClauses",
+				"type": "uint8[]"
 			},
 			{
 				"internalType": "uint256",
-				"name": "paidAmount",
+				"name": "dependsOn",
 				"type": "uint256"
 			},
 			{
 				"internalType": "uint8",
-				"name": "conditionMask",
+				"name": "dependencyKind",
 				"type": "uint8"
 			}
 		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
+		"name": "sendMessage",
+		"outputs": [
 			{
 				"internalType": "uint256",
 				"name": "messageId",
 				"type": "uint256"
 			}
 		],
-		"name": "getMessageFinancialView",
-		"outputs": [
+		"stateMutability": "payable",
+		"type": "function"
+	},
+	{
+		"inputs": [
 			{
 				"components": [
+					{
+						"internalType": "address",
+						"name": "receiver",
+						"type": "address"
+					},
+					{
+						"internalType": "string",
+						"name": "uri",
+						"type": "string"
+					},
+					{
+						"internalType": "bytes",
+						"name": "iv",
+						"type": "bytes"
+					},
+					{
+						"internalType": "bytes",
+						"name": "authTag",
+						"type": "bytes"
+					},
+					{
+						"internalType": "bytes32",
+						"name": "ciphertextHash",
+						"type": "bytes32"
+					},
+					{
+						"internalType": "bytes32",
+						"name": "metadataHash",
+						"type": "bytes32"
+					},
+					{
+						"internalType": "bytes",
+						"name": "escrowCiphertext",
+						"type": "bytes"
+					},
+					{
+						"internalType": "bytes",
+						"name": "escrowIv",
+						"type": "bytes"
+					},
+					{
+						"internalType": "bytes",
+						"name": "escrowAuthTag",
+						"type": "bytes"
+					},
+					{
+						"internalType": "bytes32",
+						"name": "sessionKeyCommitment",
+						"type": "bytes32"
+					},
+					{
+						"internalType": "bytes32",
+						"name": "receiverEnvelopeHash",
+						"type": "bytes32"
+					},
+					{
+						"internalType": "uint16",
+						"name": "escrowKeyVersion",
+						"type": "uint16"
+					},
+					{
+						"internalType": "uint32",
+						"name": "encryptionKeyVersion",
+						"type": "uint32"
+					},
 					{
 						"internalType": "uint256",
 						"name": "unlockTime",
@@ -305,99 +2588,134 @@ export const sealedMessageAbi = [
 					},
 					{
 						"internalType": "uint256",
-						"name": "requiredPayment",
+						"name": "expiresAt",
 						"type": "uint256"
 					},
 					{
 						"internalType": "uint256",
-						"name": "paidAmount",
+						"name": "checkInInterval",
+						"type": "uint256"
+					},
+					{
+						"internalType": "uint256",
+						"name": "requiredPayment",
 						"type": "uint256"
 					},
+					{
+						"internalType": "address",
+						"name": "paymentToken",
+						"type": "address"
+					},
 					{
 						"internalType": "uint8",
 						"name": "conditionMask",
 						"type": "uint8"
 					},
 					{
-						"internalType": "bool",
-						"name": "isUnlocked",
-						"type": "bool"
+						"internalType": "address[]",
+						"name": "guardians",
+						"type": "address[]"
+					},
+					{
+						"internalType": "uint8",
+						"name": "guardianThreshold",
+						"type": "uint8"
+					},
+					{
+						"internalType": "uint8[]",
+						"name": "unlockClauses",
+						"type": "uint8[]"
+					},
+					{
+						"internalType": "uint256",
+						"name": "dependsOn",
+						"type": "uint256"
+					},
+					{
+						"internalType": "uint8",
+						"name": "dependencyKind",
+						"type": "uint8"
 					}
 				],
-				"internalType": "struct SealedMessage.MessageFinancialView",
-				"name": "viewData",
+				"internalType": "struct SealedMessage.MessageParams",
+				"name": "params",
 				"type": "tuple"
-			}
-		],
-		"stateMutability": "view",
-		"type": "function"
-	},
-	{
-		"inputs": [
+			},
 			{
 				"internalType": "address",
-				"name": "user",
+				"name": "sender",
 				"type": "address"
+			},
+			{
+				"internalType": "uint256",
+				"name": "deadline",
+				"type": "uint256"
+			},
+			{
+				"internalType": "bytes",
+				"name": "signature",
+				"type": "bytes"
 			}
 		],
-		"name": "getReceivedMessages",
+		"name": "sendMessageBySig",
 		"outputs": [
 			{
-				"internalType": "uint256[]",
-				"name": "",
-				"type": "uint256[]"
+				"internalType": "uint256",
+				"name": "messageId",
+				"type": "uint256"
 			}
 		],
-		"stateMutability": "view",
+		"stateMutability": "payable",
 		"type": "function"
 	},
 	{
 		"inputs": [
 			{
-				"internalType": "address",
-				"name": "user",
-				"type": "address"
+				"internalType": "uint16",
+				"name": "newFeeBps",
+				"type": "uint16"
 			}
 		],
-		"name": "getSentMessages",
-		"outputs": [
+		"name": "setProtocolFee",
+		"outputs": [],
+		"stateMutability": "nonpayable",
+		"type": "function"
+	},
+	{
+		"inputs": [
 			{
-				"internalType": "uint256[]",
-				"name": "",
-				"type": "uint256[]"
+				"internalType": "uint256",
+				"name": "newFee",
+				"type": "uint256"
 			}
 		],
-		"stateMutability": "view",
+		"name": "setSendFee",
+		"outputs": [],
+		"stateMutability": "nonpayable",
 		"type": "function"
 	},
 	{
 		"inputs": [
 			{
 				"internalType": "address",
-				"name": "user",
+				"name": "newTreasury",
 				"type": "address"
 			}
 		],
-		"name": "hasEncryptionKey",
-		"outputs": [
-			{
-				"internalType": "bool",
-				"name": "",
-				"type": "bool"
-			}
-		],
-		"stateMutability": "view",
+		"name": "setTreasury",
+		"outputs": [],
+		"stateMutability": "nonpayable",
 		"type": "function"
 	},
 	{
 		"inputs": [
 			{
-				"internalType": "uint256",
-				"name": "messageId",
-				"type": "uint256"
+				"internalType": "bytes4",
+				"name": "interfaceId",
+				"type": "bytes4"
 			}
 		],
-		"name": "isUnlocked",
+		"name": "supportsInterface",
 		"outputs": [
 			{
 				"internalType": "bool",
@@ -410,53 +2728,65 @@ export const sealedMessageAbi = [
 	},
 	{
 		"inputs": [],
-		"name": "messageCount",
+		"name": "treasury",
 		"outputs": [
 			{
-				"internalType": "uint256",
+				"internalType": "address",
 				"name": "",
-				"type": "uint256"
+				"type": "address"
 			}
 		],
 		"stateMutability": "view",
 		"type": "function"
 	},
 	{
-		"inputs": [
+		"inputs": [],
+		"name": "withdraw",
+		"outputs": [
 			{
 				"internalType": "uint256",
-				"name": "messageId",
+				"name": "amount",
 				"type": "uint256"
 			}
 		],
-		"name": "payToUnlock",
-		"outputs": [],
-		"stateMutability": "payable",
+		"stateMutability": "nonpayable",
 		"type": "function"
 	},
 	{
 		"inputs": [
 			{
-				"internalType": "bytes",
-				"name": "publicKey",
-				"type": "bytes"
+				"internalType": "address payable",
+				"name": "to",
+				"type": "address"
+			}
+		],
+		"name": "withdrawTo",
+		"outputs": [
+			{
+				"internalType": "uint256",
+				"name": "amount",
+				"type": "uint256"
 			}
 		],
-		"name": "registerEncryptionKey",
-		"outputs": [],
 		"stateMutability": "nonpayable",
 		"type": "function"
 	},
 	{
 		"inputs": [
+			{
+				"internalType": "address",
+				"name": "token",
+				"type": "address"
+			}
+		],
+		"name": "withdrawToken",
+		"outputs": [
 			{
 				"internalType": "uint256",
-				"name": "messageId",
+				"name": "amount",
 				"type": "uint256"
 			}
 		],
-		"name": "revokeMessage",
-		"outputs": [],
 		"stateMutability": "nonpayable",
 		"type": "function"
 	},
@@ -464,85 +2794,20 @@ export const sealedMessageAbi = [
 		"inputs": [
 			{
 				"internalType": "address",
-				"name": "receiver",
+				"name": "token",
 				"type": "address"
 			},
 			{
-				"internalType": "string",
-				"name": "uri",
-				"type": "string"
-			},
-			{
-				"internalType": "bytes",
-				"name": "iv",
-				"type": "bytes"
-			},
-			{
-				"internalType": "bytes",
-				"name": "authTag",
-				"type": "bytes"
-			},
-			{
-				"internalType": "bytes32",
-				"name": "ciphertextHash",
-				"type": "bytes32"
-			},
-			{
-				"internalType": "bytes32",
-				"name": "metadataHash",
-				"type": "bytes32"
-			},
-			{
-				"internalType": "bytes",
-				"name": "escrowCiphertext",
-				"type": "bytes"
-			},
-			{
-				"internalType": "bytes",
-				"name": "escrowIv",
-				"type": "bytes"
-			},
-			{
-				"internalType": "bytes",
-				"name": "escrowAuthTag",
-				"type": "bytes"
-			},
-			{
-				"internalType": "bytes32",
-				"name": "sessionKeyCommitment",
-				"type": "bytes32"
-			},
-			{
-				"internalType": "bytes32",
-				"name": "receiverEnvelopeHash",
-				"type": "bytes32"
-			},
-			{
-				"internalType": "uint16",
-				"name": "escrowKeyVersion",
-				"type": "uint16"
-			},
-			{
-				"internalType": "uint256",
-				"name": "unlockTime",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint256",
-				"name": "requiredPayment",
-				"type": "uint256"
-			},
-			{
-				"internalType": "uint8",
-				"name": "conditionMask",
-				"type": "uint8"
+				"internalType": "address",
+				"name": "to",
+				"type": "address"
 			}
 		],
-		"name": "sendMessage",
+		"name": "withdrawTokenTo",
 		"outputs": [
 			{
 				"internalType": "uint256",
-				"name": "messageId",
+				"name": "amount",
 				"type": "uint256"
 			}
 		],
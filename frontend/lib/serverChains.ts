@@ -0,0 +1,48 @@
+import { createPublicClient, http, type PublicClient } from "viem";
+import { appConfig } from "./env";
+import { getChainById, getChainByKey, supportedChains, toViemChain, ZERO_ADDRESS, type ChainConfig } from "./chains";
+
+/**
+ * Server-side RPC endpoint of a chain: `<CHAIN_KEY>_RPC_URL` (e.g. SEPOLIA_RPC_URL) when set, otherwise the
+ * app's configured endpoint for the active chain and the public default for the others.
+ */
+export function resolveRpcUrl(chainKey: string | undefined, config: ChainConfig): string {
+  const envRpcUrl = chainKey
+    ? process.env[`${chainKey.replace(/[^a-zA-Z0-9]/g, "_").toUpperCase()}_RPC_URL`]
+    : undefined;
+  return envRpcUrl || (config.id === appConfig.chain.id ? appConfig.chain.rpcUrl : config.rpcUrls.default);
+}
+
+export interface ContractChain {
+  chainId: number;
+  config: ChainConfig;
+  rpcUrl: string;
+  client: PublicClient;
+  contractAddress: `0x${string}`;
+}
+
+/** Chain of a request's `chainId` (default: the active chain), or null when no contract is deployed there */
+export function resolveContractChain(rawChainId: unknown): ContractChain | null {
+  const chainId = rawChainId == null ? appConfig.chain.id : Number(rawChainId);
+  const config = Number.isFinite(chainId) ? getChainById(chainId) : undefined;
+  if (!config || !config.contractAddress || config.contractAddress === ZERO_ADDRESS) {
+    return null;
+  }
+
+  const chainKey = Object.keys(supportedChains).find((key) => supportedChains[key].id === config.id);
+  const rpcUrl = resolveRpcUrl(chainKey, config);
+  return {
+    chainId: config.id,
+    config,
+    rpcUrl,
+    client: createPublicClient({ chain: toViemChain(config), transport: http(rpcUrl) }) as PublicClient,
+    contractAddress: config.contractAddress as `0x${string}`
+  };
+}
+
+/** Like resolveContractChain, for routes that also accept a `chainKey` (e.g. "sepolia"); a known key wins over the id */
+export function resolveRequestChain(input: { chainKey?: unknown; chainId?: unknown }): ContractChain | null {
+  const keyed = typeof input.chainKey === "string" ? getChainByKey(input.chainKey.trim()) : undefined;
+  const rawChainId = input.chainId === "" ? undefined : input.chainId;
+  return resolveContractChain(keyed?.id ?? rawChainId);
+}
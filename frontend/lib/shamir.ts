@@ -0,0 +1,98 @@
+/**
+ * Shamir secret sharing over GF(2^8) (AES field, x^8 + x^4 + x^3 + x + 1), applied byte by byte.
+ * Share x-coordinates are 1..n; any `threshold` shares rebuild the secret, fewer reveal nothing about it.
+ * Runs in the browser too (threshold escrow splits session keys client-side).
+ */
+export interface ShamirShare {
+  index: number;
+  data: Uint8Array;
+}
+
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+
+// Tables over generator 3; EXP is doubled so products never need a modulo
+(() => {
+  let value = 1;
+  for (let power = 0; power < 255; power += 1) {
+    EXP[power] = value;
+    LOG[value] = power;
+    const doubled = (value << 1) ^ (value & 0x80 ? 0x11b : 0);
+    value = (doubled ^ value) & 0xff;
+  }
+  for (let power = 255; power < 510; power += 1) {
+    EXP[power] = EXP[power - 255];
+  }
+})();
+
+function mul(a: number, b: number): number {
+  if (a === 0 || b === 0) return 0;
+  return EXP[LOG[a] + LOG[b]];
+}
+
+function div(a: number, b: number): number {
+  if (b === 0) throw new Error("Division by zero in GF(256)");
+  if (a === 0) return 0;
+  return EXP[LOG[a] + 255 - LOG[b]];
+}
+
+export function splitSecret(secret: Uint8Array, shareCount: number, threshold: number): ShamirShare[] {
+  if (!Number.isInteger(threshold) || threshold < 2) {
+    throw new Error("Shamir threshold must be at least 2");
+  }
+  if (!Number.isInteger(shareCount) || shareCount < threshold || shareCount > 255) {
+    throw new Error("Shamir share count must be between the threshold and 255");
+  }
+
+  const shares: ShamirShare[] = Array.from({ length: shareCount }, (_, i) => ({
+    index: i + 1,
+    data: new Uint8Array(secret.length)
+  }));
+
+  for (let byte = 0; byte < secret.length; byte += 1) {
+    // f(x) = secret + c1 x + ... + c(k-1) x^(k-1)
+    const coefficients = [secret[byte], ...globalThis.crypto.getRandomValues(new Uint8Array(threshold - 1))];
+    for (const share of shares) {
+      let y = 0;
+      for (let c = coefficients.length - 1; c >= 0; c -= 1) {
+        y = mul(y, share.index) ^ coefficients[c];
+      }
+      share.data[byte] = y;
+    }
+    coefficients.fill(0);
+  }
+
+  return shares;
+}
+
+/** Lagrange interpolation at x = 0. Pass exactly the shares to combine; extra shares are harmless. */
+export function combineShares(shares: ShamirShare[]): Uint8Array {
+  if (shares.length < 2) {
+    throw new Error("At least two shares are required");
+  }
+  const length = shares[0].data.length;
+  const indices = new Set<number>();
+  for (const share of shares) {
+    if (share.data.length !== length) {
+      throw new Error("Shares have different lengths");
+    }
+    if (!Number.isInteger(share.index) || share.index < 1 || share.index > 255 || indices.has(share.index)) {
+      throw new Error(`Invalid or duplicate share index ${share.index}`);
+    }
+    indices.add(share.index);
+  }
+
+  const secret = new Uint8Array(length);
+  for (const [i, share] of shares.entries()) {
+    let basis = 1;
+    for (const [j, other] of shares.entries()) {
+      if (i !== j) {
+        basis = mul(basis, div(other.index, other.index ^ share.index));
+      }
+    }
+    for (let byte = 0; byte < length; byte += 1) {
+      secret[byte] ^= mul(share.data[byte], basis);
+    }
+  }
+  return secret;
+}
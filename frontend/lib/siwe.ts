@@ -0,0 +1,143 @@
+import { getAddress, isAddress } from "viem";
+
+/** EIP-4361 (Sign-In with Ethereum) message fields */
+export interface SiweMessage {
+  domain: string;
+  address: `0x${string}`;
+  statement?: string;
+  uri: string;
+  version: "1";
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+export const SIWE_STATEMENT = "Sign in to SealedMessage to read your messages.";
+
+export class SiweMessageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SiweMessageError";
+  }
+}
+
+const HEADER_SUFFIX = " wants you to sign in with your Ethereum account:";
+const NONCE_REGEX = /^[a-zA-Z0-9]{8,}$/;
+
+// Optional fields in the order EIP-4361 puts them after Issued At
+const OPTIONAL_FIELDS = [
+  ["Expiration Time", "expirationTime"],
+  ["Not Before", "notBefore"],
+  ["Request ID", "requestId"]
+] as const;
+
+export function formatSiweMessage(message: SiweMessage): string {
+  const lines = [`${message.domain}${HEADER_SUFFIX}`, message.address, ""];
+  if (message.statement) {
+    lines.push(message.statement, "");
+  }
+  lines.push(
+    `URI: ${message.uri}`,
+    `Version: ${message.version}`,
+    `Chain ID: ${message.chainId}`,
+    `Nonce: ${message.nonce}`,
+    `Issued At: ${message.issuedAt}`
+  );
+  for (const [label, key] of OPTIONAL_FIELDS) {
+    const value = message[key];
+    if (value) {
+      lines.push(`${label}: ${value}`);
+    }
+  }
+  if (message.resources && message.resources.length > 0) {
+    lines.push("Resources:", ...message.resources.map((resource) => `- ${resource}`));
+  }
+  return lines.join("\n");
+}
+
+const isTimestamp = (value: string) => !Number.isNaN(Date.parse(value));
+
+/** Parses the exact layout formatSiweMessage produces; throws SiweMessageError on anything else */
+export function parseSiweMessage(text: string): SiweMessage {
+  const lines = text.split("\n");
+  let cursor = 0;
+  const next = () => lines[cursor++];
+
+  const header = next();
+  if (!header?.endsWith(HEADER_SUFFIX) || header.length === HEADER_SUFFIX.length) {
+    throw new SiweMessageError("Missing sign-in header");
+  }
+  const domain = header.slice(0, -HEADER_SUFFIX.length);
+
+  const address = next();
+  if (!address || !isAddress(address) || getAddress(address) !== address) {
+    throw new SiweMessageError("Address must be EIP-55 checksummed");
+  }
+  if (next() !== "") {
+    throw new SiweMessageError("Malformed message");
+  }
+
+  let statement: string | undefined;
+  if (lines[cursor] !== undefined && !lines[cursor].startsWith("URI: ")) {
+    statement = next();
+    if (next() !== "") {
+      throw new SiweMessageError("Malformed statement");
+    }
+  }
+
+  const field = (label: string, optional = false): string | undefined => {
+    const line = lines[cursor];
+    if (line?.startsWith(`${label}: `)) {
+      cursor += 1;
+      return line.slice(label.length + 2);
+    }
+    if (!optional) {
+      throw new SiweMessageError(`Missing ${label}`);
+    }
+    return undefined;
+  };
+
+  const uri = field("URI") as string;
+  const version = field("Version");
+  if (version !== "1") {
+    throw new SiweMessageError("Unsupported version");
+  }
+  const chainId = Number(field("Chain ID"));
+  if (!Number.isSafeInteger(chainId) || chainId <= 0) {
+    throw new SiweMessageError("Invalid chain ID");
+  }
+  const nonce = field("Nonce") as string;
+  if (!NONCE_REGEX.test(nonce)) {
+    throw new SiweMessageError("Invalid nonce");
+  }
+  const issuedAt = field("Issued At") as string;
+
+  const message: SiweMessage = { domain, address, statement, uri, version, chainId, nonce, issuedAt };
+  for (const [label, key] of OPTIONAL_FIELDS) {
+    const value = field(label, true);
+    if (value !== undefined) {
+      message[key] = value;
+    }
+  }
+  for (const timestamp of [message.issuedAt, message.expirationTime, message.notBefore]) {
+    if (timestamp !== undefined && !isTimestamp(timestamp)) {
+      throw new SiweMessageError("Invalid timestamp");
+    }
+  }
+
+  if (lines[cursor] === "Resources:") {
+    cursor += 1;
+    message.resources = [];
+    while (lines[cursor]?.startsWith("- ")) {
+      message.resources.push(next().slice(2));
+    }
+  }
+  if (cursor !== lines.length) {
+    throw new SiweMessageError("Unexpected trailing content");
+  }
+  return message;
+}
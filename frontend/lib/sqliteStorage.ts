@@ -0,0 +1,220 @@
+import { promises as fs } from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import type { CollectionName, LogName, RecordWrite, StorageBackend, StoredLogEntry, StoredValue } from "./storage";
+
+/**
+ * Schema migrations, applied in order on open and recorded in schema_migrations. Never edit a released one:
+ * append a new version instead.
+ */
+const MIGRATIONS: { version: number; name: string; sql: string }[] = [
+  {
+    version: 1,
+    name: "records",
+    sql: `
+      CREATE TABLE records (
+        collection TEXT NOT NULL,
+        key TEXT NOT NULL,
+        value TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (collection, key)
+      );
+      CREATE TABLE record_indexes (
+        collection TEXT NOT NULL,
+        name TEXT NOT NULL,
+        value TEXT NOT NULL,
+        key TEXT NOT NULL,
+        PRIMARY KEY (collection, name, key)
+      );
+      CREATE INDEX record_indexes_lookup ON record_indexes (collection, name, value);
+    `
+  },
+  {
+    version: 2,
+    name: "append-only logs",
+    sql: `
+      CREATE TABLE log_entries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        log TEXT NOT NULL,
+        value TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX log_entries_by_log ON log_entries (log, id);
+      CREATE TRIGGER log_entries_no_update BEFORE UPDATE ON log_entries
+        BEGIN SELECT RAISE(ABORT, 'log entries are append-only'); END;
+      CREATE TRIGGER log_entries_no_delete BEFORE DELETE ON log_entries
+        BEGIN SELECT RAISE(ABORT, 'log entries are append-only'); END;
+    `
+  },
+  {
+    version: 3,
+    name: "log entry key re-wrap",
+    // Master key rotation may swap the wrapped data key of an encrypted entry; its content stays immutable
+    sql: `
+      DROP TRIGGER log_entries_no_update;
+      CREATE TRIGGER log_entries_no_update BEFORE UPDATE ON log_entries
+        WHEN NEW.id IS NOT OLD.id OR NEW.log IS NOT OLD.log OR NEW.created_at IS NOT OLD.created_at
+          OR json_extract(OLD.value, '$."$enc"') IS NOT 1 OR json_extract(NEW.value, '$."$enc"') IS NOT 1
+          OR json_extract(NEW.value, '$.iv') IS NOT json_extract(OLD.value, '$.iv')
+          OR json_extract(NEW.value, '$.tag') IS NOT json_extract(OLD.value, '$.tag')
+          OR json_extract(NEW.value, '$.ciphertext') IS NOT json_extract(OLD.value, '$.ciphertext')
+        BEGIN SELECT RAISE(ABORT, 'log entries are append-only'); END;
+    `
+  }
+];
+
+export const SQLITE_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+function schemaVersion(db: Database.Database): number {
+  const table = db
+    .prepare<[], { name: string }>("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'")
+    .get();
+  if (!table) {
+    return 0;
+  }
+  return db.prepare<[], { version: number | null }>("SELECT MAX(version) AS version FROM schema_migrations").get()?.version ?? 0;
+}
+
+function migrate(db: Database.Database, file: string): void {
+  db.exec(
+    "CREATE TABLE IF NOT EXISTS schema_migrations (version INTEGER PRIMARY KEY, name TEXT NOT NULL, applied_at TEXT NOT NULL)"
+  );
+  const current = schemaVersion(db);
+  if (current > SQLITE_SCHEMA_VERSION) {
+    throw new Error(`${file} has schema v${current}, newer than this build (v${SQLITE_SCHEMA_VERSION})`);
+  }
+
+  for (const migration of MIGRATIONS.filter((entry) => entry.version > current)) {
+    db.transaction(() => {
+      db.exec(migration.sql);
+      db.prepare("INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)").run(
+        migration.version,
+        migration.name,
+        new Date().toISOString()
+      );
+    }).immediate();
+    console.log(`🗄️ storage: applied migration ${migration.version} (${migration.name}) to ${file}`);
+  }
+}
+
+function openDatabase(file: string): Database.Database {
+  const db = new Database(file);
+  // WAL lets readers continue during a write; busy_timeout waits for another process' write lock instead of failing
+  db.pragma("journal_mode = WAL");
+  db.pragma("busy_timeout = 5000");
+  migrate(db, file);
+  return db;
+}
+
+export async function openSqliteStorage(file: string): Promise<StorageBackend> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  let db = openDatabase(file);
+
+  const readValue = (collection: CollectionName, key: string) =>
+    db
+      .prepare<[string, string], { value: string }>("SELECT value FROM records WHERE collection = ? AND key = ?")
+      .get(collection, key)?.value;
+
+  return {
+    kind: "sqlite",
+
+    async get(collection, key) {
+      return readValue(collection, key);
+    },
+
+    async findByIndex(collection, index, value) {
+      return db
+        .prepare<[string, string, string], StoredValue>(
+          `SELECT r.key, r.value FROM record_indexes i
+           JOIN records r ON r.collection = i.collection AND r.key = i.key
+           WHERE i.collection = ? AND i.name = ? AND i.value = ?
+           ORDER BY r.rowid LIMIT 1`
+        )
+        .get(collection, index, value);
+    },
+
+    async list(collection) {
+      return db
+        .prepare<[string], StoredValue>("SELECT key, value FROM records WHERE collection = ? ORDER BY rowid")
+        .all(collection);
+    },
+
+    async upsert(collection, key, update: (current: string | undefined) => RecordWrite) {
+      // IMMEDIATE takes the write lock before reading, so another process cannot update the record in between
+      return db.transaction(() => {
+        const next = update(readValue(collection, key));
+        db.prepare(
+          `INSERT INTO records (collection, key, value, updated_at) VALUES (?, ?, ?, ?)
+           ON CONFLICT (collection, key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`
+        ).run(collection, key, next.value, new Date().toISOString());
+        db.prepare("DELETE FROM record_indexes WHERE collection = ? AND key = ?").run(collection, key);
+        const insertIndex = db.prepare("INSERT INTO record_indexes (collection, name, value, key) VALUES (?, ?, ?, ?)");
+        for (const [name, value] of Object.entries(next.indexes)) {
+          insertIndex.run(collection, name, value, key);
+        }
+        return next.value;
+      }).immediate();
+    },
+
+    async delete(collection, key) {
+      return db.transaction(() => {
+        db.prepare("DELETE FROM record_indexes WHERE collection = ? AND key = ?").run(collection, key);
+        return db.prepare("DELETE FROM records WHERE collection = ? AND key = ?").run(collection, key).changes === 1;
+      }).immediate();
+    },
+
+    async append(log: LogName, entry: string) {
+      db.prepare("INSERT INTO log_entries (log, value, created_at) VALUES (?, ?, ?)").run(log, entry, new Date().toISOString());
+    },
+
+    async listLog(log: LogName) {
+      return db.prepare<[string], StoredLogEntry>("SELECT id, value FROM log_entries WHERE log = ? ORDER BY id").all(log);
+    },
+
+    async rewrapLogEntry(log: LogName, id: number, entry: string) {
+      // The update trigger rejects anything but a new wrapped data key
+      const result = db.prepare("UPDATE log_entries SET value = ? WHERE log = ? AND id = ?").run(entry, log, id);
+      if (result.changes !== 1) {
+        throw new Error(`Log entry ${log}/${id} does not exist`);
+      }
+    },
+
+    async backup(destination) {
+      // Online backup: a consistent copy even while requests keep writing
+      await fs.mkdir(path.dirname(path.resolve(destination)), { recursive: true });
+      await db.backup(destination);
+    },
+
+    async restore(source) {
+      const candidate = new Database(source, { readonly: true, fileMustExist: true });
+      try {
+        const integrity = candidate.pragma("integrity_check", { simple: true });
+        if (integrity !== "ok") {
+          throw new Error(`${source} failed the integrity check: ${integrity}`);
+        }
+        const version = schemaVersion(candidate);
+        if (version === 0 || version > SQLITE_SCHEMA_VERSION) {
+          throw new Error(`${source} has schema v${version}, this build restores v1-v${SQLITE_SCHEMA_VERSION}`);
+        }
+      } finally {
+        candidate.close();
+      }
+
+      // Swap the file while no handle is open; older backups are migrated forward on reopen
+      db.close();
+      try {
+        const staged = `${file}.restore`;
+        await fs.copyFile(source, staged);
+        await fs.rm(`${file}-wal`, { force: true });
+        await fs.rm(`${file}-shm`, { force: true });
+        await fs.rename(staged, file);
+      } finally {
+        db = openDatabase(file);
+      }
+    },
+
+    close() {
+      db.close();
+    }
+  };
+}
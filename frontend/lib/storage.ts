@@ -0,0 +1,239 @@
+import path from "path";
+import { decodeValue, encodeValue, logContext, preEncryptionEntries, recordContext } from "./storageEncryption";
+
+/**
+ * Shared persistence for the escrow envelope, metadata mapping, message preview, escrow operator, release queue
+ * (and its sweep lease), re-wrap and relayer quota stores, and the used Sign-In with Ethereum nonces.
+ * STORAGE_BACKEND selects the implementation: "sqlite" (default, STORAGE_SQLITE_PATH or <data dir>/sealed-message.sqlite)
+ * or "memory" (process-local, for development). Records are JSON documents keyed per collection; the indexes
+ * declared below are maintained on every write so lookups by them never scan a collection.
+ * With STORAGE_ENCRYPTION set, record values and log entries are encrypted at rest (storageEncryption.ts); keys and
+ * index values stay plaintext, they are hashes and ids that are public on-chain anyway. STORAGE_ENCRYPTION_STRICT
+ * additionally rejects plaintext values on read.
+ */
+export type CollectionName =
+  | "escrowEnvelopes"
+  | "metadataMappings"
+  | "messagePreviews"
+  | "escrowOperatorDeposits"
+  | "escrowReleaseQueue"
+  | "escrowReleaseLeases"
+  | "escrowRewraps"
+  | "relayerQuotas"
+  | "siweNonces";
+export type LogName = "envelopeRejections";
+
+interface CollectionConfig {
+  // Pre-storage JSON file under the data dir, read once by the importer (none for collections that started here)
+  legacyFile?: string;
+  // Secondary index name -> value extracted from a record (lower-cased by the backend; undefined is not indexed)
+  indexes: Record<string, (record: any) => string | undefined>;
+}
+
+export const COLLECTIONS: Record<CollectionName, CollectionConfig> = {
+  escrowEnvelopes: {
+    legacyFile: "escrow-envelopes.json",
+    indexes: { receiverEnvelopeHash: (record) => record.receiverEnvelopeHash }
+  },
+  metadataMappings: {
+    legacyFile: "metadata-mapping.json",
+    indexes: { metadataKeccak: (record) => record.metadataKeccak }
+  },
+  messagePreviews: {
+    legacyFile: "message-previews.json",
+    indexes: {}
+  },
+  escrowOperatorDeposits: {
+    legacyFile: "escrow-operator-deposits.json",
+    indexes: {}
+  },
+  escrowReleaseQueue: {
+    legacyFile: "escrow-release-queue.json",
+    indexes: {}
+  },
+  escrowReleaseLeases: {
+    indexes: {}
+  },
+  escrowRewraps: {
+    legacyFile: "escrow-rewraps.json",
+    indexes: {}
+  },
+  relayerQuotas: {
+    legacyFile: "relayer-quotas.json",
+    indexes: {}
+  },
+  siweNonces: {
+    indexes: {}
+  }
+};
+
+// Append-only logs: entries are never updated or deleted
+export const LOGS: Record<LogName, { legacyFile: string }> = {
+  envelopeRejections: { legacyFile: "escrow-envelope-rejections.jsonl" }
+};
+
+/** Encoded record as the backend stores it, with its index values */
+export interface RecordWrite {
+  value: string;
+  indexes: Record<string, string>;
+}
+
+export interface StoredValue {
+  key: string;
+  value: string;
+}
+
+export interface StoredLogEntry {
+  id: number;
+  value: string;
+}
+
+export interface StorageBackend {
+  readonly kind: "sqlite" | "memory";
+  get(collection: CollectionName, key: string): Promise<string | undefined>;
+  findByIndex(collection: CollectionName, index: string, value: string): Promise<StoredValue | undefined>;
+  list(collection: CollectionName): Promise<StoredValue[]>;
+  /**
+   * Reads the record and writes what `update` returns in one transaction; concurrent upserts of the same key
+   * never interleave. An exception thrown by `update` aborts the write.
+   */
+  upsert(collection: CollectionName, key: string, update: (current: string | undefined) => RecordWrite): Promise<string>;
+  /** Removes the record and its index values; false when there was none */
+  delete(collection: CollectionName, key: string): Promise<boolean>;
+  append(log: LogName, entry: string): Promise<void>;
+  listLog(log: LogName): Promise<StoredLogEntry[]>;
+  /**
+   * Replaces the wrapped data key of an encrypted log entry, for master key rotation. Anything else about the entry,
+   * including its iv, tag and ciphertext, must stay the same; the backend rejects other changes.
+   */
+  rewrapLogEntry(log: LogName, id: number, entry: string): Promise<void>;
+  backup(destination: string): Promise<void>;
+  /** Replaces every record and log entry with the contents of a backup made by `backup` */
+  restore(source: string): Promise<void>;
+  close(): void;
+}
+
+// ESCROW_OPERATOR_DATA_DIR lets several local operator instances run from the same checkout, each with its own database
+export function getStorageDataDir(): string {
+  const dataDir = process.env.STORAGE_DATA_DIR || process.env.ESCROW_OPERATOR_DATA_DIR;
+  return dataDir ? path.resolve(dataDir) : path.join(process.cwd(), ".data");
+}
+
+const globalForStorage = globalThis as typeof globalThis & { __storageBackend?: Promise<StorageBackend> };
+
+async function openStorage(): Promise<StorageBackend> {
+  const kind = process.env.STORAGE_BACKEND?.trim() || "sqlite";
+  if (kind === "memory") {
+    const { createMemoryStorage } = await import("./memoryStorage");
+    return createMemoryStorage();
+  }
+  if (kind === "sqlite") {
+    const { openSqliteStorage } = await import("./sqliteStorage");
+    return openSqliteStorage(process.env.STORAGE_SQLITE_PATH || path.join(getStorageDataDir(), "sealed-message.sqlite"));
+  }
+  throw new Error(`Unknown STORAGE_BACKEND "${kind}" (expected sqlite or memory)`);
+}
+
+/** Process-wide backend, opened (and for SQLite migrated) on first use */
+export function getStorage(): Promise<StorageBackend> {
+  globalForStorage.__storageBackend ??= openStorage().catch((err) => {
+    globalForStorage.__storageBackend = undefined;
+    throw err;
+  });
+  return globalForStorage.__storageBackend;
+}
+
+export async function closeStorage(): Promise<void> {
+  const pending = globalForStorage.__storageBackend;
+  globalForStorage.__storageBackend = undefined;
+  if (pending) {
+    (await pending).close();
+  }
+}
+
+function indexValues(collection: CollectionName, record: unknown): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const [name, extract] of Object.entries(COLLECTIONS[collection].indexes)) {
+    const value = extract(record)?.trim().toLowerCase();
+    if (value) {
+      values[name] = value;
+    }
+  }
+  return values;
+}
+
+// Thrown inside a backend transaction when the record changed since it was read, to abort and retry the write
+class WriteConflictError extends Error {}
+
+const MAX_WRITE_ATTEMPTS = 5;
+
+export async function getRecord<T>(collection: CollectionName, key: string): Promise<T | undefined> {
+  const value = await (await getStorage()).get(collection, key);
+  return value === undefined ? undefined : decodeValue<T>(value, recordContext(collection, key));
+}
+
+export async function findRecordByIndex<T>(collection: CollectionName, index: string, value: string): Promise<T | undefined> {
+  const found = await (await getStorage()).findByIndex(collection, index, value.trim().toLowerCase());
+  return found === undefined ? undefined : decodeValue<T>(found.value, recordContext(collection, found.key));
+}
+
+export async function listRecords<T>(collection: CollectionName): Promise<T[]> {
+  return (await listRecordEntries<T>(collection)).map((entry) => entry.record);
+}
+
+/** Every record of a collection with its key, for stores whose key carries data the record does not */
+export async function listRecordEntries<T>(collection: CollectionName): Promise<{ key: string; record: T }[]> {
+  const entries = await (await getStorage()).list(collection);
+  return Promise.all(
+    entries.map(async (entry) => ({
+      key: entry.key,
+      record: await decodeValue<T>(entry.value, recordContext(collection, entry.key))
+    }))
+  );
+}
+
+/**
+ * Read-modify-write of one record. Decrypting and encrypting may wait on a key service, so they run outside the
+ * backend transaction: the write only commits if the record is still the one `update` saw, otherwise it is
+ * retried. `update` must be synchronous and may therefore run more than once.
+ */
+export async function upsertRecord<T>(
+  collection: CollectionName,
+  key: string,
+  update: (current: T | undefined) => T
+): Promise<T> {
+  const storage = await getStorage();
+  const context = recordContext(collection, key);
+  for (let attempt = 1; ; attempt += 1) {
+    const read = await storage.get(collection, key);
+    const next = update(read === undefined ? undefined : await decodeValue<T>(read, context));
+    const write: RecordWrite = { value: await encodeValue(next, context), indexes: indexValues(collection, next) };
+    try {
+      await storage.upsert(collection, key, (current) => {
+        if (current !== read) {
+          throw new WriteConflictError(`${collection}/${key} changed during the write`);
+        }
+        return write;
+      });
+      return next;
+    } catch (err) {
+      if (!(err instanceof WriteConflictError) || attempt >= MAX_WRITE_ATTEMPTS) {
+        throw err;
+      }
+    }
+  }
+}
+
+export async function deleteRecord(collection: CollectionName, key: string): Promise<boolean> {
+  return (await getStorage()).delete(collection, key);
+}
+
+export async function appendLogEntry<T>(log: LogName, entry: T): Promise<void> {
+  await (await getStorage()).append(log, await encodeValue(entry, logContext(log)));
+}
+
+export async function listLogEntries<T>(log: LogName): Promise<T[]> {
+  const entries = await (await getStorage()).listLog(log);
+  const legacy = preEncryptionEntries(entries.map((entry) => entry.value));
+  return Promise.all(entries.map((entry, index) => decodeValue<T>(entry.value, logContext(log), legacy[index])));
+}
@@ -0,0 +1,179 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+import { getMasterKeyProvider, type MasterKeyProvider, type MasterKeyProviderName } from "./storageKeys";
+
+/**
+ * Envelope encryption of stored values. Each record gets a random AES-256-GCM data key, wrapped by the current
+ * master key (storageKeys.ts) and kept next to the ciphertext. Both layers authenticate the record's location
+ * (collection and key, or log name), so a value copied to another key does not decrypt.
+ * Values written before STORAGE_ENCRYPTION was set stay readable as plaintext JSON until they are rewritten, unless
+ * STORAGE_ENCRYPTION_STRICT=true: then plaintext is rejected, so a value written straight into the database without
+ * the keys is never trusted. Turn it on after rotate-keys has encrypted the existing records.
+ */
+export interface EncryptedValue {
+  $enc: 1;
+  provider: MasterKeyProviderName;
+  keyId: string;
+  // Wrapped data key, base64
+  dataKey: string;
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+export type ValueState =
+  | { encrypted: false }
+  | { encrypted: true; provider: MasterKeyProviderName; keyId: string };
+
+export class StorageDecryptionError extends Error {}
+
+export const recordContext = (collection: string, key: string) => `sealed-message/record/${collection}/${key}`;
+export const logContext = (log: string) => `sealed-message/log/${log}`;
+
+// Unwrapped data keys by wrapped key, so reading a collection does not call a remote key service once per record
+const DATA_KEY_CACHE_SIZE = 1024;
+const globalForDataKeys = globalThis as typeof globalThis & { __storageDataKeys?: Map<string, Buffer> };
+const dataKeyCache = (globalForDataKeys.__storageDataKeys ??= new Map());
+
+const isEncryptedValue = (parsed: any): parsed is EncryptedValue =>
+  parsed !== null && typeof parsed === "object" && parsed.$enc === 1;
+
+function requireProvider(envelope: EncryptedValue): MasterKeyProvider {
+  const provider = getMasterKeyProvider();
+  if (!provider) {
+    throw new StorageDecryptionError(`Value is encrypted (${envelope.provider} ${envelope.keyId}) but STORAGE_ENCRYPTION is not set`);
+  }
+  if (provider.name !== envelope.provider) {
+    throw new StorageDecryptionError(
+      `Value was encrypted by the ${envelope.provider} key provider, STORAGE_ENCRYPTION is ${provider.name}`
+    );
+  }
+  return provider;
+}
+
+async function unwrapDataKey(envelope: EncryptedValue, context: string): Promise<Buffer> {
+  const cacheKey = `${envelope.provider}/${envelope.keyId}/${envelope.dataKey}/${context}`;
+  const cached = dataKeyCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+  const dataKey = await requireProvider(envelope).unwrap(envelope.keyId, Buffer.from(envelope.dataKey, "base64"), context);
+  if (dataKeyCache.size >= DATA_KEY_CACHE_SIZE) {
+    dataKeyCache.delete(dataKeyCache.keys().next().value as string);
+  }
+  dataKeyCache.set(cacheKey, dataKey);
+  return dataKey;
+}
+
+/** Whether STORAGE_ENCRYPTION_STRICT is on; it only makes sense together with a key provider */
+export function isPlaintextRejected(): boolean {
+  if (process.env.STORAGE_ENCRYPTION_STRICT !== "true") {
+    return false;
+  }
+  if (!getMasterKeyProvider()) {
+    throw new Error("STORAGE_ENCRYPTION_STRICT=true requires STORAGE_ENCRYPTION");
+  }
+  return true;
+}
+
+/** JSON-encodes a value, encrypted when a key provider is configured */
+export async function encodeValue(value: unknown, context: string): Promise<string> {
+  // Fails on STORAGE_ENCRYPTION_STRICT without a provider instead of writing plaintext that reads would reject
+  isPlaintextRejected();
+  const provider = getMasterKeyProvider();
+  const plaintext = JSON.stringify(value);
+  if (!provider) {
+    return plaintext;
+  }
+
+  const dataKey = randomBytes(32);
+  const wrapped = await provider.wrap(dataKey, context);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", dataKey, iv);
+  cipher.setAAD(Buffer.from(context, "utf-8"));
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf-8"), cipher.final()]);
+  const envelope: EncryptedValue = {
+    $enc: 1,
+    provider: provider.name,
+    keyId: wrapped.keyId,
+    dataKey: wrapped.wrappedKey.toString("base64"),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    ciphertext: ciphertext.toString("base64")
+  };
+  return JSON.stringify(envelope);
+}
+
+/**
+ * Inverse of encodeValue; throws StorageDecryptionError when an encrypted value cannot be opened, or when the value
+ * is plaintext in strict mode and `allowPlaintext` does not exempt it.
+ */
+export async function decodeValue<T>(value: string, context: string, allowPlaintext = false): Promise<T> {
+  const parsed = JSON.parse(value);
+  if (!isEncryptedValue(parsed)) {
+    if (!allowPlaintext && isPlaintextRejected()) {
+      throw new StorageDecryptionError(`${context} is stored as plaintext, STORAGE_ENCRYPTION_STRICT rejects it`);
+    }
+    return parsed as T;
+  }
+
+  let dataKey: Buffer;
+  try {
+    dataKey = await unwrapDataKey(parsed, context);
+  } catch (err: any) {
+    if (err instanceof StorageDecryptionError) {
+      throw err;
+    }
+    throw new StorageDecryptionError(`Cannot decrypt ${context}: ${err?.message ?? err}`);
+  }
+
+  let plaintext: string;
+  try {
+    const decipher = createDecipheriv("aes-256-gcm", dataKey, Buffer.from(parsed.iv, "base64"));
+    decipher.setAAD(Buffer.from(context, "utf-8"));
+    decipher.setAuthTag(Buffer.from(parsed.tag, "base64"));
+    plaintext = Buffer.concat([decipher.update(Buffer.from(parsed.ciphertext, "base64")), decipher.final()]).toString("utf-8");
+  } catch {
+    throw new StorageDecryptionError(`Cannot decrypt ${context}: ciphertext failed authentication (tampered or moved value)`);
+  }
+  return JSON.parse(plaintext) as T;
+}
+
+/**
+ * Which entries of an append-only log predate encryption: the ones before its first encrypted entry. Those can
+ * never be rewritten and stay readable in strict mode; a plaintext entry after an encrypted one was not appended
+ * by the app.
+ */
+export function preEncryptionEntries(values: string[]): boolean[] {
+  let encryptedSeen = false;
+  return values.map((value) => {
+    try {
+      encryptedSeen ||= isEncryptedValue(JSON.parse(value));
+    } catch {
+      // Unparseable entries fail when they are decoded
+    }
+    return !encryptedSeen;
+  });
+}
+
+export function inspectValue(value: string): ValueState {
+  const parsed = JSON.parse(value);
+  return isEncryptedValue(parsed) ? { encrypted: true, provider: parsed.provider, keyId: parsed.keyId } : { encrypted: false };
+}
+
+/**
+ * Wraps the data key of an encrypted value under the current master key and leaves iv, tag and ciphertext as
+ * they are. Used for append-only log entries, whose content may never change.
+ */
+export async function rewrapValue(value: string, context: string): Promise<string> {
+  const parsed = JSON.parse(value);
+  if (!isEncryptedValue(parsed)) {
+    throw new StorageDecryptionError(`${context} is not encrypted, there is no data key to re-wrap`);
+  }
+  // Never re-wrap a key whose value does not decrypt: that would hide tampering from verify
+  await decodeValue(value, context);
+  const dataKey = await unwrapDataKey(parsed, context);
+  const provider = requireProvider(parsed);
+  const wrapped = await provider.wrap(dataKey, context);
+  const envelope: EncryptedValue = { ...parsed, keyId: wrapped.keyId, dataKey: wrapped.wrappedKey.toString("base64") };
+  return JSON.stringify(envelope);
+}
@@ -0,0 +1,115 @@
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  appendLogEntry,
+  COLLECTIONS,
+  getStorageDataDir,
+  listLogEntries,
+  LOGS,
+  upsertRecord,
+  type CollectionName,
+  type LogName
+} from "./storage";
+
+export interface LegacyImportResult {
+  file: string;
+  imported: number;
+  skipped: number;
+}
+
+async function readLegacyFile(file: string): Promise<string | null> {
+  try {
+    return await fs.readFile(file, "utf-8");
+  } catch (err: any) {
+    if (err?.code === "ENOENT") {
+      return null;
+    }
+    throw err;
+  }
+}
+
+/** Pre-storage JSON files that were not imported yet */
+export async function findLegacyJsonStores(dataDir = getStorageDataDir()): Promise<string[]> {
+  const files = [...Object.values(COLLECTIONS), ...Object.values(LOGS)]
+    .filter((config) => config.legacyFile !== undefined)
+    .map((config) => path.join(dataDir, config.legacyFile!));
+  const found: string[] = [];
+  for (const file of files) {
+    const exists = await fs.access(file).then(() => true, () => false);
+    if (exists) {
+      found.push(file);
+    }
+  }
+  return found;
+}
+
+/**
+ * One-time import of the pre-storage JSON files (.data/*.json and the rejection log) into the configured backend.
+ * Records that already exist are kept, so a rerun never overwrites newer data. Each imported file is renamed to
+ * <name>.imported and stays on disk as a fallback. A corrupted file aborts the import instead of being reset.
+ */
+export async function importLegacyJsonStores(dataDir = getStorageDataDir()): Promise<LegacyImportResult[]> {
+  const results: LegacyImportResult[] = [];
+
+  for (const [collection, config] of Object.entries(COLLECTIONS) as [CollectionName, (typeof COLLECTIONS)[CollectionName]][]) {
+    if (!config.legacyFile) {
+      continue;
+    }
+    const file = path.join(dataDir, config.legacyFile);
+    const raw = await readLegacyFile(file);
+    if (raw === null) {
+      continue;
+    }
+
+    let parsed: Record<string, unknown>;
+    try {
+      parsed = raw.trim() ? JSON.parse(raw) : {};
+    } catch (err: any) {
+      throw new Error(`${file} is not valid JSON (${err?.message}); repair it or move it away, then rerun`);
+    }
+
+    const result: LegacyImportResult = { file, imported: 0, skipped: 0 };
+    for (const [key, record] of Object.entries(parsed ?? {})) {
+      let created = false;
+      await upsertRecord(collection, key, (current) => {
+        created = current === undefined;
+        return current ?? record;
+      });
+      if (created) {
+        result.imported += 1;
+      } else {
+        result.skipped += 1;
+      }
+    }
+    await fs.rename(file, `${file}.imported`);
+    results.push(result);
+  }
+
+  for (const [log, config] of Object.entries(LOGS) as [LogName, (typeof LOGS)[LogName]][]) {
+    const file = path.join(dataDir, config.legacyFile);
+    const raw = await readLegacyFile(file);
+    if (raw === null) {
+      continue;
+    }
+
+    const result: LegacyImportResult = { file, imported: 0, skipped: 0 };
+    // Logs have no keys to deduplicate by: only import into an empty log
+    const existing = await listLogEntries(log);
+    for (const line of raw.split("\n").filter((entry) => entry.trim())) {
+      if (existing.length > 0) {
+        result.skipped += 1;
+        continue;
+      }
+      try {
+        await appendLogEntry(log, JSON.parse(line));
+        result.imported += 1;
+      } catch {
+        result.skipped += 1;
+      }
+    }
+    await fs.rename(file, `${file}.imported`);
+    results.push(result);
+  }
+
+  return results;
+}
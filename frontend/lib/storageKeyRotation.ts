@@ -0,0 +1,191 @@
+import { COLLECTIONS, getStorage, LOGS, upsertRecord, type CollectionName, type LogName } from "./storage";
+import {
+  decodeValue,
+  inspectValue,
+  isPlaintextRejected,
+  logContext,
+  preEncryptionEntries,
+  recordContext,
+  rewrapValue,
+  type ValueState
+} from "./storageEncryption";
+import { getMasterKeyProvider } from "./storageKeys";
+
+export interface StorageValueFailure {
+  // "<collection>/<key>" or "<log>#<id>"
+  location: string;
+  error: string;
+}
+
+export interface StorageVerifyReport {
+  checked: number;
+  plaintext: number;
+  // Locations of the plaintext values; in strict mode the ones not exempt also appear in failures
+  plaintextLocations: string[];
+  // STORAGE_ENCRYPTION_STRICT was on
+  strict: boolean;
+  // Encrypted values per "<provider>/<keyId>"
+  byMasterKey: Record<string, number>;
+  failures: StorageValueFailure[];
+}
+
+export interface StorageRotateReport {
+  currentKey: string;
+  // Records re-encrypted under the current master key (including formerly plaintext ones)
+  records: number;
+  // Log entries whose data key was re-wrapped
+  logEntries: number;
+  // Log entries written before encryption was enabled; append-only, so they stay plaintext
+  plaintextLogEntries: number;
+  failures: StorageValueFailure[];
+}
+
+interface StoredItem {
+  location: string;
+  value: string;
+  context: string;
+  // Log entry from before encryption, readable as plaintext even in strict mode
+  allowPlaintext: boolean;
+}
+
+interface StoredRecordItem extends StoredItem {
+  collection: CollectionName;
+  key: string;
+}
+
+interface StoredLogItem extends StoredItem {
+  log: LogName;
+  id: number;
+}
+
+async function listStoredItems(): Promise<{ records: StoredRecordItem[]; logs: StoredLogItem[] }> {
+  const storage = await getStorage();
+  const records: StoredRecordItem[] = [];
+  for (const collection of Object.keys(COLLECTIONS) as CollectionName[]) {
+    for (const { key, value } of await storage.list(collection)) {
+      records.push({
+        collection,
+        key,
+        value,
+        location: `${collection}/${key}`,
+        context: recordContext(collection, key),
+        allowPlaintext: false
+      });
+    }
+  }
+  const logs: StoredLogItem[] = [];
+  for (const log of Object.keys(LOGS) as LogName[]) {
+    const entries = await storage.listLog(log);
+    const legacy = preEncryptionEntries(entries.map((entry) => entry.value));
+    entries.forEach(({ id, value }, index) => {
+      logs.push({ log, id, value, location: `${log}#${id}`, context: logContext(log), allowPlaintext: legacy[index] });
+    });
+  }
+  return { records, logs };
+}
+
+const errorMessage = (err: any) => err?.message ?? String(err);
+
+function safeInspect(value: string): ValueState | null {
+  try {
+    return inspectValue(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decrypts every record and log entry and reports the ones that cannot be read with the configured keys (in strict
+ * mode including plaintext ones), and where plaintext values are left.
+ */
+export async function verifyStorageEncryption(): Promise<StorageVerifyReport> {
+  const { records, logs } = await listStoredItems();
+  const report: StorageVerifyReport = {
+    checked: 0,
+    plaintext: 0,
+    plaintextLocations: [],
+    strict: isPlaintextRejected(),
+    byMasterKey: {},
+    failures: []
+  };
+
+  for (const item of [...records, ...logs]) {
+    report.checked += 1;
+    const state = safeInspect(item.value);
+    if (state && !state.encrypted) {
+      report.plaintext += 1;
+      report.plaintextLocations.push(item.location);
+    }
+    try {
+      await decodeValue(item.value, item.context, item.allowPlaintext);
+      if (state?.encrypted) {
+        const id = `${state.provider}/${state.keyId}`;
+        report.byMasterKey[id] = (report.byMasterKey[id] ?? 0) + 1;
+      }
+    } catch (err) {
+      report.failures.push({ location: item.location, error: errorMessage(err) });
+    }
+  }
+  return report;
+}
+
+/**
+ * Moves everything to the current master key: records are re-encrypted with a fresh data key (plaintext records
+ * get encrypted), encrypted log entries get their data key re-wrapped. Values already under the current key are
+ * skipped, so an interrupted rotation can simply be rerun. Afterwards retired master keys can be removed.
+ */
+export async function rotateStorageKeys(): Promise<StorageRotateReport> {
+  const provider = getMasterKeyProvider();
+  if (!provider) {
+    throw new Error("Set STORAGE_ENCRYPTION (and the master keys of its provider) before rotating");
+  }
+  const currentKeyId = await provider.currentKeyId();
+  const isCurrent = (state: ValueState | null) =>
+    state?.encrypted === true && state.provider === provider.name && state.keyId === currentKeyId;
+
+  const storage = await getStorage();
+  const { records, logs } = await listStoredItems();
+  const report: StorageRotateReport = {
+    currentKey: `${provider.name}/${currentKeyId}`,
+    records: 0,
+    logEntries: 0,
+    plaintextLogEntries: 0,
+    failures: []
+  };
+
+  for (const item of records) {
+    if (isCurrent(safeInspect(item.value))) {
+      continue;
+    }
+    try {
+      // Decoding and re-encoding inside upsertRecord uses the current master key and a fresh data key
+      await upsertRecord(item.collection, item.key, (current) => {
+        if (current === undefined) {
+          throw new Error("Record disappeared during rotation");
+        }
+        return current;
+      });
+      report.records += 1;
+    } catch (err) {
+      report.failures.push({ location: item.location, error: errorMessage(err) });
+    }
+  }
+
+  for (const item of logs) {
+    const state = safeInspect(item.value);
+    if (isCurrent(state)) {
+      continue;
+    }
+    if (state && !state.encrypted) {
+      report.plaintextLogEntries += 1;
+      continue;
+    }
+    try {
+      await storage.rewrapLogEntry(item.log, item.id, await rewrapValue(item.value, item.context));
+      report.logEntries += 1;
+    } catch (err) {
+      report.failures.push({ location: item.location, error: errorMessage(err) });
+    }
+  }
+  return report;
+}
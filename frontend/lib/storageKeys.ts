@@ -0,0 +1,238 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * Master keys for storage encryption at rest. A master key never encrypts records itself: it wraps the random
+ * data key of each record (storageEncryption.ts).
+ * STORAGE_ENCRYPTION selects where the master keys live:
+ * - "env": STORAGE_MASTER_KEY_V<n> (32 bytes hex), STORAGE_MASTER_KEY_VERSION picks the current one (default: highest)
+ * - "file": keyring JSON at STORAGE_MASTER_KEY_FILE, { "current": n, "keys": { "<n>": "<hex>" } }
+ * - "kms": the key service at STORAGE_KMS_URL (bearer STORAGE_KMS_TOKEN); scripts/local-kms.ts is a stand-in
+ * Versions other than the current one are retired: they keep unwrapping until every record was re-wrapped.
+ */
+export type MasterKeyProviderName = "env" | "file" | "kms";
+
+export interface WrappedDataKey {
+  keyId: string;
+  wrappedKey: Buffer;
+}
+
+export interface MasterKeyProvider {
+  readonly name: MasterKeyProviderName;
+  currentKeyId(): Promise<string>;
+  /** Wraps under the current master key; `context` is authenticated and must be passed again to unwrap */
+  wrap(dataKey: Buffer, context: string): Promise<WrappedDataKey>;
+  unwrap(keyId: string, wrappedKey: Buffer, context: string): Promise<Buffer>;
+}
+
+export class MasterKeyError extends Error {}
+
+export interface Keyring {
+  current: number;
+  keys: Record<string, string>;
+}
+
+const VERSIONED_MASTER_KEY = /^STORAGE_MASTER_KEY_V(\d+)$/;
+const MASTER_KEY_HEX = /^(0x)?[0-9a-fA-F]{64}$/;
+
+const keyIdOf = (version: number) => `v${version}`;
+
+function versionOf(keyId: string): number {
+  const match = /^v(\d+)$/.exec(keyId);
+  if (!match) {
+    throw new MasterKeyError(`Malformed master key id "${keyId}"`);
+  }
+  return Number(match[1]);
+}
+
+function parseMasterKey(hex: string | undefined, label: string): Buffer {
+  if (!hex || !MASTER_KEY_HEX.test(hex.trim())) {
+    throw new MasterKeyError(`${label} must be 32 bytes of hex`);
+  }
+  return Buffer.from(hex.trim().replace(/^0x/, ""), "hex");
+}
+
+/** AES-256-GCM under a master key: iv (12) || tag (16) || ciphertext */
+export function sealWithMasterKey(masterKey: Buffer, plaintext: Buffer, context: string): Buffer {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", masterKey, iv);
+  cipher.setAAD(Buffer.from(context, "utf-8"));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+export function openWithMasterKey(masterKey: Buffer, sealed: Buffer, context: string): Buffer {
+  if (sealed.length < 28) {
+    throw new MasterKeyError("Wrapped key is truncated");
+  }
+  const decipher = createDecipheriv("aes-256-gcm", masterKey, sealed.subarray(0, 12));
+  decipher.setAAD(Buffer.from(context, "utf-8"));
+  decipher.setAuthTag(sealed.subarray(12, 28));
+  try {
+    return Buffer.concat([decipher.update(sealed.subarray(28)), decipher.final()]);
+  } catch {
+    throw new MasterKeyError("Wrapped key failed authentication (wrong master key or tampered record)");
+  }
+}
+
+/** Master keys from versioned environment variables, in the same layout as the ESCROW_KEY_V<n> registry */
+function createEnvProvider(): MasterKeyProvider {
+  const versions = Object.keys(process.env)
+    .map((name) => VERSIONED_MASTER_KEY.exec(name)?.[1])
+    .filter((version): version is string => version !== undefined)
+    .map(Number);
+  if (versions.length === 0) {
+    throw new MasterKeyError("STORAGE_ENCRYPTION=env needs at least one STORAGE_MASTER_KEY_V<n>");
+  }
+  const current = Number(process.env.STORAGE_MASTER_KEY_VERSION ?? Math.max(...versions));
+  const keyFor = (version: number) => {
+    const hex = process.env[`STORAGE_MASTER_KEY_V${version}`];
+    if (!hex) {
+      throw new MasterKeyError(`Master key ${keyIdOf(version)} is not configured (STORAGE_MASTER_KEY_V${version})`);
+    }
+    return parseMasterKey(hex, `STORAGE_MASTER_KEY_V${version}`);
+  };
+  // Fail at startup rather than on the first write
+  keyFor(current);
+
+  return {
+    name: "env",
+    async currentKeyId() {
+      return keyIdOf(current);
+    },
+    async wrap(dataKey, context) {
+      return { keyId: keyIdOf(current), wrappedKey: sealWithMasterKey(keyFor(current), dataKey, context) };
+    },
+    async unwrap(keyId, wrappedKey, context) {
+      return openWithMasterKey(keyFor(versionOf(keyId)), wrappedKey, context);
+    }
+  };
+}
+
+export async function readKeyring(file: string): Promise<Keyring> {
+  const keyring = JSON.parse(await fs.readFile(file, "utf-8")) as Keyring;
+  if (!Number.isInteger(keyring?.current) || typeof keyring.keys !== "object" || !keyring.keys[String(keyring.current)]) {
+    throw new MasterKeyError(`${file} is not a keyring ({ "current": n, "keys": { "<n>": "<hex>" } })`);
+  }
+  return keyring;
+}
+
+/**
+ * Adds a fresh random master key to the keyring (creating the file if needed) and makes it current.
+ * The file is replaced atomically and only readable by its owner. Returns the new key id.
+ */
+export async function addKeyringVersion(file: string): Promise<string> {
+  const exists = await fs.access(file).then(() => true, () => false);
+  const keyring: Keyring = exists ? await readKeyring(file) : { current: 0, keys: {} };
+  const version = Math.max(0, ...Object.keys(keyring.keys).map(Number)) + 1;
+  keyring.keys[String(version)] = randomBytes(32).toString("hex");
+  keyring.current = version;
+
+  await fs.mkdir(path.dirname(path.resolve(file)), { recursive: true });
+  const staged = `${file}.tmp`;
+  await fs.writeFile(staged, `${JSON.stringify(keyring, null, 2)}\n`, { encoding: "utf-8", mode: 0o600 });
+  await fs.rename(staged, file);
+  return keyIdOf(version);
+}
+
+export function keyringMasterKey(keyring: Keyring, keyId: string): Buffer {
+  const hex = keyring.keys[String(versionOf(keyId))];
+  if (!hex) {
+    throw new MasterKeyError(`Master key ${keyId} is not in the keyring`);
+  }
+  return parseMasterKey(hex, `Keyring key ${keyId}`);
+}
+
+/** Keyring file; re-read on every call so a version added by another process is picked up without a restart */
+function createFileProvider(): MasterKeyProvider {
+  const file = process.env.STORAGE_MASTER_KEY_FILE;
+  if (!file) {
+    throw new MasterKeyError("STORAGE_ENCRYPTION=file needs STORAGE_MASTER_KEY_FILE");
+  }
+
+  return {
+    name: "file",
+    async currentKeyId() {
+      return keyIdOf((await readKeyring(file)).current);
+    },
+    async wrap(dataKey, context) {
+      const keyring = await readKeyring(file);
+      const keyId = keyIdOf(keyring.current);
+      return { keyId, wrappedKey: sealWithMasterKey(keyringMasterKey(keyring, keyId), dataKey, context) };
+    },
+    async unwrap(keyId, wrappedKey, context) {
+      return openWithMasterKey(keyringMasterKey(await readKeyring(file), keyId), wrappedKey, context);
+    }
+  };
+}
+
+/** Remote key service: master keys never enter this process, only wrap / unwrap requests leave it */
+function createKmsProvider(): MasterKeyProvider {
+  const baseUrl = process.env.STORAGE_KMS_URL?.replace(/\/+$/, "");
+  const token = process.env.STORAGE_KMS_TOKEN;
+  if (!baseUrl || !token) {
+    throw new MasterKeyError("STORAGE_ENCRYPTION=kms needs STORAGE_KMS_URL and STORAGE_KMS_TOKEN");
+  }
+
+  const call = async <T>(route: string, body?: unknown): Promise<T> => {
+    const response = await fetch(`${baseUrl}${route}`, {
+      method: body === undefined ? "GET" : "POST",
+      headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    }).catch((err) => {
+      throw new MasterKeyError(`Key service at ${baseUrl} is unreachable: ${err?.message ?? err}`);
+    });
+    const payload = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new MasterKeyError(`Key service ${route} failed (${response.status}): ${payload?.error ?? "no details"}`);
+    }
+    return payload as T;
+  };
+
+  return {
+    name: "kms",
+    async currentKeyId() {
+      return (await call<{ keyId: string }>("/key")).keyId;
+    },
+    async wrap(dataKey, context) {
+      const result = await call<{ keyId: string; ciphertext: string }>("/encrypt", {
+        plaintext: dataKey.toString("base64"),
+        context
+      });
+      return { keyId: result.keyId, wrappedKey: Buffer.from(result.ciphertext, "base64") };
+    },
+    async unwrap(keyId, wrappedKey, context) {
+      const result = await call<{ plaintext: string }>("/decrypt", {
+        keyId,
+        ciphertext: wrappedKey.toString("base64"),
+        context
+      });
+      return Buffer.from(result.plaintext, "base64");
+    }
+  };
+}
+
+const globalForMasterKeys = globalThis as typeof globalThis & { __masterKeyProvider?: MasterKeyProvider | null };
+
+/** Provider selected by STORAGE_ENCRYPTION, or null when records are written in plaintext */
+export function getMasterKeyProvider(): MasterKeyProvider | null {
+  if (globalForMasterKeys.__masterKeyProvider !== undefined) {
+    return globalForMasterKeys.__masterKeyProvider;
+  }
+  const name = process.env.STORAGE_ENCRYPTION?.trim() || "";
+  let provider: MasterKeyProvider | null;
+  if (name === "" || name === "off") {
+    provider = null;
+  } else if (name === "env") {
+    provider = createEnvProvider();
+  } else if (name === "file") {
+    provider = createFileProvider();
+  } else if (name === "kms") {
+    provider = createKmsProvider();
+  } else {
+    throw new MasterKeyError(`Unknown STORAGE_ENCRYPTION "${name}" (expected env, file, kms or off)`);
+  }
+  globalForMasterKeys.__masterKeyProvider = provider;
+  return provider;
+}
@@ -0,0 +1,219 @@
+import { encodeAbiParameters, encodePacked, hexToBytes, keccak256, parseAbiParameters, toHex } from "viem";
+import { openSealedBox, sealToPublicKey, type SealedBox } from "./escrowKem";
+import { combineShares, splitSecret, type ShamirShare } from "./shamir";
+
+/**
+ * Threshold escrow across independent escrow operators (each one an instance of this app with
+ * ESCROW_OPERATOR_ID / ESCROW_OPERATOR_PRIVATE_KEY set):
+ * 1. The sender splits the session key k-of-n, seals share i to operator i's public key and deposits the
+ *    manifest (threshold, sessionKeyCommitment, per-operator share commitment and sealed share) with every operator.
+ * 2. On-chain the message carries escrowKeyVersion = THRESHOLD_ESCROW_VERSION and escrowCiphertext = manifest hash,
+ *    so operators only ever act on the manifest the sender committed to.
+ * 3. After unlock anyone asks the operators for their shares; each one checks isUnlocked on its own RPC and
+ *    the configured contract before answering, so the key needs k operators to agree the message is unlocked.
+ *    The client checks every share against its commitment and the rebuilt key against sessionKeyCommitment.
+ */
+export const THRESHOLD_ESCROW_VERSION = 0xffff;
+
+export interface EscrowOperator {
+  url: string;
+  operatorId: string;
+  publicKey: `0x${string}`;
+}
+
+export interface ThresholdEscrowShare {
+  operatorId: string;
+  operatorPublicKey: `0x${string}`;
+  // Shamir x-coordinate, 1..n
+  index: number;
+  // keccak256(uint8 index, bytes share)
+  shareCommitment: `0x${string}`;
+  sealedShare: SealedBox;
+}
+
+export interface ThresholdEscrowManifest {
+  threshold: number;
+  sessionKeyCommitment: `0x${string}`;
+  shares: ThresholdEscrowShare[];
+}
+
+/** Operator answer to a release request */
+export interface ReleasedShare {
+  operatorId: string;
+  index: number;
+  share: `0x${string}`;
+  manifest: ThresholdEscrowManifest;
+}
+
+const MANIFEST_ABI = parseAbiParameters(
+  "uint8 threshold, bytes32 sessionKeyCommitment, (string operatorId, bytes operatorPublicKey, uint8 index, bytes32 shareCommitment, bytes ciphertext, bytes iv, bytes authTag)[] shares"
+);
+
+export function hashManifest(manifest: ThresholdEscrowManifest): `0x${string}` {
+  return keccak256(
+    encodeAbiParameters(MANIFEST_ABI, [
+      manifest.threshold,
+      manifest.sessionKeyCommitment,
+      manifest.shares.map((share) => ({
+        operatorId: share.operatorId,
+        operatorPublicKey: share.operatorPublicKey,
+        index: share.index,
+        shareCommitment: share.shareCommitment,
+        ciphertext: share.sealedShare.ciphertext,
+        iv: share.sealedShare.iv,
+        authTag: share.sealedShare.authTag
+      }))
+    ])
+  );
+}
+
+export function shareCommitment(index: number, data: Uint8Array): `0x${string}` {
+  return keccak256(encodePacked(["uint8", "bytes"], [index, toHex(data)]));
+}
+
+// Binds a sealed share to its message and position so it cannot be replayed into another manifest
+export const shareSealInfo = (sessionKeyCommitment: string, index: number) =>
+  `sealed-message-threshold-share:${sessionKeyCommitment.toLowerCase()}:${index}`;
+
+export function openOperatorShare(privateKey: Uint8Array, manifest: ThresholdEscrowManifest, share: ThresholdEscrowShare) {
+  return openSealedBox(privateKey, share.sealedShare, shareSealInfo(manifest.sessionKeyCommitment, share.index));
+}
+
+export async function fetchEscrowOperators(urls: string[]): Promise<EscrowOperator[]> {
+  return Promise.all(
+    urls.map(async (url) => {
+      const response = await fetch(`${url}/api/operator/info`);
+      if (!response.ok) {
+        throw new Error(`Escrow operator ${url} unavailable: ${response.status}`);
+      }
+      const info = await response.json();
+      if (!info?.ok || !info.operatorId || !info.publicKey) {
+        throw new Error(`Escrow operator ${url} returned an invalid identity`);
+      }
+      return { url, operatorId: String(info.operatorId), publicKey: info.publicKey as `0x${string}` };
+    })
+  );
+}
+
+/** Splits and seals the session key; the returned escrow fields go to sendMessage. */
+export async function createThresholdEscrow(sessionKey: Uint8Array, operators: EscrowOperator[], threshold: number) {
+  if (new Set(operators.map((operator) => operator.operatorId)).size !== operators.length) {
+    throw new Error("Escrow operators must have distinct ids");
+  }
+  const sessionKeyCommitment = keccak256(sessionKey);
+  const shares = splitSecret(sessionKey, operators.length, threshold);
+
+  const manifest: ThresholdEscrowManifest = {
+    threshold,
+    sessionKeyCommitment,
+    shares: await Promise.all(
+      shares.map(async (share, i) => ({
+        operatorId: operators[i].operatorId,
+        operatorPublicKey: operators[i].publicKey,
+        index: share.index,
+        shareCommitment: shareCommitment(share.index, share.data),
+        sealedShare: await sealToPublicKey(share.data, operators[i].publicKey, shareSealInfo(sessionKeyCommitment, share.index))
+      }))
+    )
+  };
+  shares.forEach((share) => share.data.fill(0));
+
+  const manifestHash = hashManifest(manifest);
+  return {
+    manifest,
+    manifestHash,
+    escrowCiphertext: manifestHash,
+    escrowIv: toHex(new Uint8Array(12)),
+    escrowAuthTag: toHex(new Uint8Array(16)),
+    escrowKeyVersion: THRESHOLD_ESCROW_VERSION
+  };
+}
+
+/** Every operator must accept its share before the message is sent; otherwise fewer than n could ever answer. */
+export async function depositThresholdEscrow(manifest: ThresholdEscrowManifest, operators: EscrowOperator[]): Promise<void> {
+  await Promise.all(
+    operators.map(async (operator) => {
+      const response = await fetch(`${operator.url}/api/operator/shares`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ manifest })
+      });
+      if (!response.ok) {
+        const text = await response.text().catch(() => response.statusText);
+        throw new Error(`Escrow operator ${operator.operatorId} rejected its share: ${response.status} ${text}`);
+      }
+    })
+  );
+}
+
+/**
+ * Asks every operator for its share of an unlocked message and rebuilds the session key from the first
+ * `threshold` shares that match the on-chain manifest hash and their commitments.
+ */
+export async function recoverThresholdSessionKey(
+  request: {
+    chainId: number;
+    contractAddress: `0x${string}`;
+    messageId: bigint;
+    manifestHash: `0x${string}`;
+    sessionKeyCommitment: `0x${string}`;
+  },
+  operatorUrls: string[]
+): Promise<Uint8Array> {
+  const answers = await Promise.allSettled(
+    operatorUrls.map(async (url) => {
+      const response = await fetch(`${url}/api/operator/release`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          chainId: request.chainId,
+          contractAddress: request.contractAddress,
+          messageId: request.messageId.toString()
+        })
+      });
+      if (!response.ok) {
+        const text = await response.text().catch(() => response.statusText);
+        throw new Error(`${url}: ${response.status} ${text}`);
+      }
+      return (await response.json()) as ReleasedShare;
+    })
+  );
+
+  const shares: ShamirShare[] = [];
+  const errors: string[] = [];
+  let threshold = 0;
+  for (const answer of answers) {
+    if (answer.status === "rejected") {
+      errors.push(String(answer.reason?.message ?? answer.reason));
+      continue;
+    }
+    const { manifest, operatorId, index, share } = answer.value;
+    try {
+      const entry = manifest.shares.find((candidate) => candidate.index === index);
+      const data = hexToBytes(share);
+      if (
+        hashManifest(manifest) !== request.manifestHash.toLowerCase() ||
+        manifest.sessionKeyCommitment.toLowerCase() !== request.sessionKeyCommitment.toLowerCase() ||
+        !entry ||
+        entry.operatorId !== operatorId ||
+        shareCommitment(index, data) !== entry.shareCommitment.toLowerCase() ||
+        shares.some((existing) => existing.index === index)
+      ) {
+        throw new Error("share does not match the manifest");
+      }
+      threshold = manifest.threshold;
+      shares.push({ index, data });
+    } catch (err: any) {
+      errors.push(`${operatorId}: ${err?.message ?? err}`);
+    }
+  }
+
+  if (threshold === 0 || shares.length < threshold) {
+    throw new Error(`Only ${shares.length} escrow operator(s) released a valid share (${errors.join("; ")})`);
+  }
+  const sessionKey = combineShares(shares.slice(0, threshold));
+  if (keccak256(sessionKey) !== request.sessionKeyCommitment.toLowerCase()) {
+    throw new Error("Recovered session key does not match sessionKeyCommitment");
+  }
+  return sessionKey;
+}
@@ -1,6 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: false, // Disable strict mode to reduce console warnings
+  experimental: {
+    instrumentationHook: true, // instrumentation.ts starts the escrow release watcher
+    serverComponentsExternalPackages: ["better-sqlite3"], // native addon, loaded from node_modules at runtime
+  },
   eslint: {
     // Warning: This allows production builds to successfully complete even if
     // your project has ESLint errors.
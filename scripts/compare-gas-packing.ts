@@ -0,0 +1,156 @@
+import { execFileSync } from "child_process";
+import { readFileSync } from "fs";
+import path from "path";
+import hre, { ethers, network } from "hardhat";
+import {
+  TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD,
+  TASK_COMPILE_SOLIDITY_RUN_SOLC,
+  TASK_COMPILE_SOLIDITY_RUN_SOLCJS
+} from "hardhat/builtin-tasks/task-names";
+import type { ContractFactory } from "ethers";
+
+// Compares gas of the packed SealedMessage storage layout with the unpacked one it replaced. The baseline is
+// contracts/SealedMessage.sol as of GAS_BASELINE_REV (required: the last revision before the packed layout), read
+// from git and compiled with the project's compiler settings, so no copy of it is kept in the tree.
+// Run on the in-process network: GAS_BASELINE_REV=<rev> npx hardhat run scripts/compare-gas-packing.ts
+const BASELINE_REV = process.env.GAS_BASELINE_REV?.trim();
+const BASELINE_SOURCE = "contracts/SealedMessage.sol";
+const IMPORT = /^\s*import\s+(?:[^"']*\sfrom\s+)?["']([^"']+)["'];/gm;
+
+// Standard JSON sources for the baseline and everything it imports (all from node_modules)
+function collectSources(): Record<string, { content: string }> {
+  const root = hre.config.paths.root;
+  const sources: Record<string, { content: string }> = {
+    [BASELINE_SOURCE]: {
+      content: execFileSync("git", ["show", `${BASELINE_REV}:${BASELINE_SOURCE}`], { cwd: root, encoding: "utf-8" })
+    }
+  };
+  const pending = [BASELINE_SOURCE];
+  while (pending.length > 0) {
+    const from = pending.pop()!;
+    for (const [, specifier] of sources[from].content.matchAll(IMPORT)) {
+      const name = specifier.startsWith(".") ? path.posix.join(path.posix.dirname(from), specifier) : specifier;
+      if (!sources[name]) {
+        sources[name] = { content: readFileSync(require.resolve(name, { paths: [root] }), "utf-8") };
+        pending.push(name);
+      }
+    }
+  }
+  return sources;
+}
+
+async function baselineFactory(): Promise<ContractFactory> {
+  const { version, settings } = hre.config.solidity.compilers[0];
+  const input = {
+    language: "Solidity",
+    sources: collectSources(),
+    settings: { ...settings, outputSelection: { "*": { SealedMessage: ["abi", "evm.bytecode.object"] } } }
+  };
+  const build = await hre.run(TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD, { quiet: true, solcVersion: version });
+  const output = build.isSolcJs
+    ? await hre.run(TASK_COMPILE_SOLIDITY_RUN_SOLCJS, { input, solcJsPath: build.compilerPath })
+    : await hre.run(TASK_COMPILE_SOLIDITY_RUN_SOLC, { input, solcPath: build.compilerPath, solcVersion: version });
+  const errors = (output.errors ?? []).filter((error: any) => error.severity === "error");
+  if (errors.length > 0) {
+    throw new Error(errors.map((error: any) => error.formattedMessage).join("\n"));
+  }
+  const contract = output.contracts[BASELINE_SOURCE].SealedMessage;
+  const [deployer] = await ethers.getSigners();
+  return new ethers.ContractFactory(contract.abi, contract.evm.bytecode.object, deployer);
+}
+
+const filler = (length: number) => "0x" + "ab".repeat(length);
+
+async function measure(Factory: ContractFactory): Promise<Record<string, bigint>> {
+  const [sender, receiver, payer] = await ethers.getSigners();
+  const contract: any = await Factory.deploy();
+  const deployment = await contract.deploymentTransaction()!.wait();
+
+  const now = BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+  const inputs = Factory.interface.getFunction("sendMessage")!.inputs;
+  const messageArgs = (conditionMask: number, overrides: Record<string, unknown> = {}) => {
+    const params: Record<string, unknown> = {
+      receiver: receiver.address,
+      uri: "ipfs://bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi",
+      iv: filler(12),
+      authTag: filler(16),
+      ciphertextHash: filler(32),
+      metadataHash: filler(32),
+      escrowCiphertext: filler(32),
+      escrowIv: filler(12),
+      escrowAuthTag: filler(16),
+      sessionKeyCommitment: filler(32),
+      receiverEnvelopeHash: filler(32),
+      escrowKeyVersion: 1,
+      encryptionKeyVersion: 0,
+      unlockTime: now + 3600n,
+      expiresAt: 0n,
+      checkInInterval: 0n,
+      requiredPayment: 0n,
+      paymentToken: ethers.ZeroAddress,
+      conditionMask,
+      guardians: [],
+      guardianThreshold: 0,
+      unlockClauses: [],
+      dependsOn: 0n,
+      dependencyKind: 0,
+      ...overrides
+    };
+    // By name, since the baseline's sendMessage predates later parameters
+    return inputs.map((input) => params[input.name]);
+  };
+  const gasOf = async (pending: Promise<any>) => (await (await pending).wait()).gasUsed as bigint;
+
+  const results: Record<string, bigint> = { deploy: deployment!.gasUsed };
+  results["sendMessage (time lock)"] = await gasOf(contract.sendMessage(...messageArgs(0x01)));
+  results["sendMessage (time + payment + expiry)"] = await gasOf(
+    contract.sendMessage(...messageArgs(0x07, { requiredPayment: ethers.parseEther("1"), expiresAt: now + 7200n }))
+  );
+  results["sendMessage (heartbeat)"] = await gasOf(contract.sendMessage(...messageArgs(0x08, { checkInInterval: 86400n })));
+  results["payToUnlock (partial)"] = await gasOf(
+    contract.connect(payer).payToUnlock(1n, { value: ethers.parseEther("0.4") })
+  );
+
+  await network.provider.send("evm_increaseTime", [3700]);
+  await network.provider.send("evm_mine");
+
+  results["payToUnlock (completes + releases)"] = await gasOf(
+    contract.connect(receiver).payToUnlock(1n, { value: ethers.parseEther("0.6") })
+  );
+  results["checkIn"] = await gasOf(contract.connect(sender).checkIn(2n));
+  results["acknowledgeMessage"] = await gasOf(contract.connect(receiver).acknowledgeMessage(0n));
+  results["getMessage (estimateGas)"] = await contract.getMessage.estimateGas(0n);
+  return results;
+}
+
+async function main() {
+  if (!BASELINE_REV) {
+    throw new Error(
+      "Set GAS_BASELINE_REV to the last revision before the packed layout (the parent of the commit that packed Message)"
+    );
+  }
+  const factories = [await baselineFactory(), await ethers.getContractFactory("SealedMessage")];
+  const measured: Record<string, bigint>[] = [];
+  for (const Factory of factories) {
+    await network.provider.send("hardhat_reset");
+    measured.push(await measure(Factory));
+  }
+
+  console.log("\n⛽ Gas: unpacked vs packed storage layout\n");
+  console.log("| Operation | Unpacked | Packed | Δ |");
+  console.log("| --- | ---: | ---: | ---: |");
+  for (const operation of Object.keys(measured[0])) {
+    const before = measured[0][operation];
+    const after = measured[1][operation];
+    const delta = Number(after - before);
+    const percent = ((delta / Number(before)) * 100).toFixed(1);
+    console.log(`| ${operation} | ${before} | ${after} | ${delta} (${percent}%) |`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
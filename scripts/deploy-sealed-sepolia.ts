@@ -1,7 +1,10 @@
 import { ethers } from "hardhat";
 
+// STORAGE_MODE=calldata deploys SealedMessageL2, which keeps the message envelope in logs instead of storage
+const contractName = process.env.STORAGE_MODE === "calldata" ? "SealedMessageL2" : "SealedMessage";
+
 async function main() {
-  console.log("🚀 Deploying SealedMessage to Sepolia...\n");
+  console.log(`🚀 Deploying ${contractName} to Sepolia...\n`);
 
   const [deployer] = await ethers.getSigners();
   const balance = await ethers.provider.getBalance(deployer.address);
@@ -18,14 +21,17 @@ async function main() {
   }
 
   // Deploy SealedMessage
-  console.log("📦 Deploying SealedMessage contract...");
-  const SealedMessage = await ethers.getContractFactory("SealedMessage");
-  const sealedMessage = await SealedMessage.deploy();
-  
+  console.log(`📦 Deploying ${contractName} contract...`);
+  // Branch on the literal names so each factory keeps its typed contract
+  const sealedMessage =
+    contractName === "SealedMessageL2"
+      ? await (await ethers.getContractFactory("SealedMessageL2")).deploy()
+      : await (await ethers.getContractFactory("SealedMessage")).deploy();
+
   await sealedMessage.waitForDeployment();
   const contractAddress = await sealedMessage.getAddress();
 
-  console.log("✅ SealedMessage deployed to:", contractAddress);
+  console.log(`✅ ${contractName} deployed to:`, contractAddress);
   console.log("");
 
   // Verify deployment
@@ -36,7 +42,7 @@ async function main() {
   console.log("");
   console.log("📝 Deployment Summary:");
   console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
-  console.log("Contract:        SealedMessage");
+  console.log("Contract:       ", contractName);
   console.log("Address:        ", contractAddress);
   console.log("Network:         Sepolia Testnet");
   console.log("Chain ID:        11155111");
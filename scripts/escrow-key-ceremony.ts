@@ -0,0 +1,65 @@
+import { createECDH, randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { splitSecret } from "../frontend/lib/shamir";
+import { encodeEscrowShare, escrowKeyFingerprint } from "../frontend/lib/escrowUnlock";
+
+// Escrow key ceremony: generates a fresh secp256k1 escrow key, splits it k-of-n and writes one share file per custodian.
+// The key itself is never written anywhere; hand each file to its custodian over a separate channel, then delete it.
+//   ESCROW_KEY_VERSION=2 ESCROW_THRESHOLD=3 ESCROW_CUSTODIANS=alice,bob,carol,dave,erin npx ts-node scripts/escrow-key-ceremony.ts
+// Without ESCROW_CUSTODIANS, ESCROW_SHARES (default 5) unnamed shares are written. Output: ESCROW_SHARE_DIR (default ./escrow-shares).
+async function main() {
+  const version = Number(process.env.ESCROW_KEY_VERSION ?? 1);
+  const threshold = Number(process.env.ESCROW_THRESHOLD ?? 3);
+  const custodians = process.env.ESCROW_CUSTODIANS
+    ? process.env.ESCROW_CUSTODIANS.split(",").map((name) => name.trim()).filter(Boolean)
+    : Array.from({ length: Number(process.env.ESCROW_SHARES ?? 5) }, (_, i) => `custodian-${i + 1}`);
+  const outDir = path.resolve(process.env.ESCROW_SHARE_DIR ?? "escrow-shares", `v${version}`);
+
+  if (!Number.isInteger(version) || version < 1 || version > 0xffff) {
+    throw new Error("ESCROW_KEY_VERSION must fit the on-chain uint16 escrowKeyVersion");
+  }
+  if (new Set(custodians).size !== custodians.length) {
+    throw new Error("ESCROW_CUSTODIANS contains duplicate names");
+  }
+
+  // The escrow key is the private key senders encapsulate session keys to; retry the (negligible) invalid scalars
+  const ecdh = createECDH("secp256k1");
+  let key = randomBytes(32);
+  for (;;) {
+    try {
+      ecdh.setPrivateKey(key);
+      break;
+    } catch {
+      key = randomBytes(32);
+    }
+  }
+  const publicKey = `0x${ecdh.getPublicKey("hex", "compressed")}`;
+  const fingerprint = escrowKeyFingerprint(key);
+  const shares = splitSecret(key, custodians.length, threshold);
+  key.fill(0);
+
+  await fs.mkdir(outDir, { recursive: true });
+  for (const [i, share] of shares.entries()) {
+    const file = path.join(outDir, `${custodians[i]}.share`);
+    // wx: never overwrite shares of an earlier ceremony
+    await fs.writeFile(file, `${encodeEscrowShare(version, threshold, share)}\n`, { mode: 0o600, flag: "wx" });
+    share.data.fill(0);
+    console.log(`🧩 share ${share.index} -> ${file}`);
+  }
+
+  console.log(`\n✅ escrow key version ${version}: ${threshold}-of-${custodians.length}, fingerprint ${fingerprint}`);
+  console.log("Add to the server environment (no key material):");
+  console.log(`  ESCROW_KEY_V${version}_SHAMIR=${threshold}:${fingerprint}`);
+  console.log(`  ESCROW_KEY_V${version}_PUBLIC_KEY=${publicKey}`);
+  console.log(`  ESCROW_KEY_VERSION=${version}   # once senders should escrow to it`);
+  console.log("After every start, custodians submit their share:");
+  console.log(
+    `  curl -X POST $APP_URL/api/escrow/unlock -H "Authorization: Bearer $ESCROW_ADMIN_SECRET" -H "Content-Type: application/json" -d '{"share":"<contents of the .share file>"}'`
+  );
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,130 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { promises as fs } from "fs";
+import http from "http";
+import path from "path";
+import {
+  addKeyringVersion,
+  keyringMasterKey,
+  openWithMasterKey,
+  readKeyring,
+  sealWithMasterKey
+} from "../frontend/lib/storageKeys";
+
+// Local stand-in for a key management service, for STORAGE_ENCRYPTION=kms during development. It keeps the master
+// keys in its own keyring file (LOCAL_KMS_KEYRING, default .kms/keyring.json) and only wraps / unwraps data keys,
+// so the app process never holds a master key. Listens on 127.0.0.1:LOCAL_KMS_PORT (default 8899); callers need
+// `Authorization: Bearer <LOCAL_KMS_TOKEN>`, the app's STORAGE_KMS_TOKEN.
+//   npx ts-node scripts/local-kms.ts serve     start the service (creates the keyring on first start)
+//   npx ts-node scripts/local-kms.ts rotate    add a master key version and make it current
+const keyringFile = path.resolve(process.env.LOCAL_KMS_KEYRING || path.join(__dirname, "../.kms/keyring.json"));
+
+class KmsRequestError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+  }
+}
+
+const digest = (value: string) => createHash("sha256").update(value).digest();
+
+async function readBody(request: http.IncomingMessage): Promise<any> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+  } catch {
+    throw new KmsRequestError("Body must be JSON", 400);
+  }
+}
+
+function requireString(body: any, field: string): string {
+  if (typeof body?.[field] !== "string" || !body[field]) {
+    throw new KmsRequestError(`${field} is required`, 400);
+  }
+  return body[field];
+}
+
+async function handle(request: http.IncomingMessage, token: string): Promise<unknown> {
+  const presented = request.headers.authorization?.replace(/^Bearer\s+/i, "") ?? "";
+  if (!timingSafeEqual(digest(presented), digest(token))) {
+    throw new KmsRequestError("Unauthorized", 401);
+  }
+
+  const keyring = await readKeyring(keyringFile);
+  const currentKeyId = `v${keyring.current}`;
+  if (request.method === "GET" && request.url === "/key") {
+    return { keyId: currentKeyId };
+  }
+  if (request.method === "POST" && request.url === "/encrypt") {
+    const body = await readBody(request);
+    const plaintext = Buffer.from(requireString(body, "plaintext"), "base64");
+    const sealed = sealWithMasterKey(keyringMasterKey(keyring, currentKeyId), plaintext, requireString(body, "context"));
+    return { keyId: currentKeyId, ciphertext: sealed.toString("base64") };
+  }
+  if (request.method === "POST" && request.url === "/decrypt") {
+    const body = await readBody(request);
+    const keyId = requireString(body, "keyId");
+    let masterKey: Buffer;
+    try {
+      masterKey = keyringMasterKey(keyring, keyId);
+    } catch {
+      throw new KmsRequestError(`Unknown key ${keyId}`, 404);
+    }
+    try {
+      const ciphertext = Buffer.from(requireString(body, "ciphertext"), "base64");
+      return { plaintext: openWithMasterKey(masterKey, ciphertext, requireString(body, "context")).toString("base64") };
+    } catch (err: any) {
+      throw err instanceof KmsRequestError ? err : new KmsRequestError(err?.message ?? "Decryption failed", 422);
+    }
+  }
+  throw new KmsRequestError("Not found", 404);
+}
+
+async function serve() {
+  const token = process.env.LOCAL_KMS_TOKEN;
+  if (!token || token.length < 16) {
+    throw new Error("Set LOCAL_KMS_TOKEN (at least 16 characters)");
+  }
+  const exists = await fs.access(keyringFile).then(() => true, () => false);
+  if (!exists) {
+    console.log(`🔑 created ${keyringFile} with master key ${await addKeyringVersion(keyringFile)}`);
+  }
+
+  const port = Number(process.env.LOCAL_KMS_PORT ?? 8899);
+  const server = http.createServer((request, response) => {
+    handle(request, token)
+      .then((result) => {
+        response.writeHead(200, { "Content-Type": "application/json" });
+        response.end(JSON.stringify(result));
+      })
+      .catch((err: any) => {
+        const status = err instanceof KmsRequestError ? err.status : 500;
+        if (status === 500) {
+          console.error(err);
+        }
+        response.writeHead(status, { "Content-Type": "application/json" });
+        response.end(JSON.stringify({ error: status === 500 ? "Internal error" : err.message }));
+      });
+  });
+  server.listen(port, "127.0.0.1", () => {
+    console.log(`🔐 local KMS on http://127.0.0.1:${port} (keyring ${keyringFile})`);
+  });
+}
+
+async function main() {
+  const command = process.argv[2] ?? "serve";
+  if (command === "serve") {
+    await serve();
+  } else if (command === "rotate") {
+    // The service re-reads the keyring per request, so a running instance picks the new version up immediately
+    console.log(`🔑 ${await addKeyringVersion(keyringFile)} is now the current master key in ${keyringFile}`);
+  } else {
+    throw new Error("Usage: local-kms.ts serve | rotate");
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
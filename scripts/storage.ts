@@ -0,0 +1,115 @@
+import path from "path";
+import { closeStorage, getStorage } from "../frontend/lib/storage";
+import { importLegacyJsonStores } from "../frontend/lib/storageImport";
+import { rotateStorageKeys, verifyStorageEncryption } from "../frontend/lib/storageKeyRotation";
+import { addKeyringVersion } from "../frontend/lib/storageKeys";
+
+// Maintenance commands for the frontend's SQLite storage. Run from the repository root; like the app started in
+// frontend/, the database defaults to frontend/.data/sealed-message.sqlite (STORAGE_DATA_DIR / STORAGE_SQLITE_PATH override it).
+//   npx ts-node scripts/storage.ts migrate               apply pending schema migrations
+//   npx ts-node scripts/storage.ts backup [file]         online copy, default storage-backups/<timestamp>.sqlite
+//   npx ts-node scripts/storage.ts restore <file>        replace the database with a backup (stop the app first)
+//   npx ts-node scripts/storage.ts import-json           one-time import of the old .data/*.json stores
+//   npx ts-node scripts/storage.ts verify                decrypt every value and list plaintext ones, exit 1 if any cannot be read
+//   npx ts-node scripts/storage.ts rotate-keys           move every value to the current master key
+//   npx ts-node scripts/storage.ts new-master-key        add a master key version to STORAGE_MASTER_KEY_FILE
+async function main() {
+  const [command, target] = process.argv.slice(2);
+  process.env.STORAGE_DATA_DIR ||= path.resolve(__dirname, "../frontend/.data");
+
+  // Only touches the keyring file, the database stays closed
+  if (command === "new-master-key") {
+    const file = process.env.STORAGE_MASTER_KEY_FILE;
+    if (process.env.STORAGE_ENCRYPTION !== "file" || !file) {
+      throw new Error(
+        "new-master-key manages STORAGE_ENCRYPTION=file keyrings; for env add STORAGE_MASTER_KEY_V<n>, for the local KMS run scripts/local-kms.ts rotate"
+      );
+    }
+    console.log(`🔑 ${await addKeyringVersion(file)} is now the current master key in ${file}; run rotate-keys to re-wrap`);
+    return;
+  }
+
+  if (process.env.STORAGE_BACKEND && process.env.STORAGE_BACKEND !== "sqlite") {
+    throw new Error("Storage commands only apply to STORAGE_BACKEND=sqlite");
+  }
+
+  // Opening the backend applies pending migrations
+  const storage = await getStorage();
+  try {
+    switch (command) {
+      case "migrate":
+        console.log("✅ schema is up to date");
+        break;
+      case "backup": {
+        const file = path.resolve(target ?? path.join("storage-backups", `${new Date().toISOString().replace(/[:.]/g, "-")}.sqlite`));
+        await storage.backup(file);
+        console.log(`✅ backup written to ${file}`);
+        break;
+      }
+      case "restore":
+        if (!target) {
+          throw new Error("Usage: storage.ts restore <file>");
+        }
+        await storage.restore(path.resolve(target));
+        console.log(`✅ restored from ${path.resolve(target)}`);
+        break;
+      case "import-json": {
+        const results = await importLegacyJsonStores();
+        if (results.length === 0) {
+          console.log(`Nothing to import in ${process.env.STORAGE_DATA_DIR}`);
+        }
+        for (const result of results) {
+          console.log(`📥 ${result.file}: ${result.imported} imported, ${result.skipped} skipped (renamed to .imported)`);
+        }
+        break;
+      }
+      case "verify": {
+        const report = await verifyStorageEncryption();
+        const keys = Object.entries(report.byMasterKey).map(([key, count]) => `${count} under ${key}`);
+        console.log(`🔎 ${report.checked} values: ${[`${report.plaintext} plaintext`, ...keys].join(", ")}`);
+        for (const location of report.plaintextLocations) {
+          console.log(`⚠️ ${location} is plaintext`);
+        }
+        if (report.plaintext > 0 && !report.strict) {
+          console.log("ℹ️ run rotate-keys, then set STORAGE_ENCRYPTION_STRICT=true to reject plaintext values");
+        }
+        for (const failure of report.failures) {
+          console.log(`❌ ${failure.location}: ${failure.error}`);
+        }
+        if (report.failures.length > 0) {
+          process.exitCode = 1;
+        } else {
+          console.log("✅ every value can be read");
+        }
+        break;
+      }
+      case "rotate-keys": {
+        const report = await rotateStorageKeys();
+        console.log(
+          `🔑 current master key ${report.currentKey}: ${report.records} records re-encrypted, ${report.logEntries} log entries re-wrapped`
+        );
+        if (report.plaintextLogEntries > 0) {
+          console.log(`ℹ️ ${report.plaintextLogEntries} log entries predate encryption and stay plaintext (append-only)`);
+        }
+        for (const failure of report.failures) {
+          console.log(`❌ ${failure.location}: ${failure.error}`);
+        }
+        if (report.failures.length > 0) {
+          process.exitCode = 1;
+        }
+        break;
+      }
+      default:
+        throw new Error(
+          "Usage: storage.ts migrate | backup [file] | restore <file> | import-json | verify | rotate-keys | new-master-key"
+        );
+    }
+  } finally {
+    await closeStorage();
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,723 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { MESSAGE_PARAMS_FIELDS, REGISTER_ENCRYPTION_KEY_TYPES, SEND_MESSAGE_TYPES } from "../frontend/lib/metaTx";
+
+const CONDITION_TIME = 0x01;
+const CONDITION_PAYMENT = 0x02;
+const CONDITION_EXPIRY = 0x04;
+const CONDITION_HEARTBEAT = 0x08;
+const CONDITION_GUARDIANS = 0x10;
+const CONDITION_DEPENDENCY = 0x40;
+const FLAG_KEY_RELEASE = 0x80;
+const DEPENDENCY_UNLOCKED = 1;
+const DEPENDENCY_ACKNOWLEDGED = 2;
+const NO_CLAUSE = 255n;
+const HOUR = 3600;
+
+const filler = (length: number) => "0x" + "ab".repeat(length);
+const publicKey = (fill: string) => "0x02" + fill.repeat(32);
+
+// EIP-712 domain the contract's BySig functions verify against
+async function domainOf(contract: { getAddress(): Promise<string> }) {
+  return {
+    name: "SealedMessage",
+    version: "1",
+    chainId: (await ethers.provider.getNetwork()).chainId,
+    verifyingContract: await contract.getAddress()
+  };
+}
+
+describe("SealedMessage", function () {
+  async function deployFixture() {
+    const [owner, sender, receiver, payer, other] = await ethers.getSigners();
+    const contract = await ethers.deployContract("SealedMessage");
+
+    // sendMessage arguments in ABI order; only the condition fields vary between tests
+    const messageParams = async (conditionMask: number, overrides: Record<string, unknown> = {}) => {
+      const now = BigInt(await time.latest());
+      return {
+        receiver: receiver.address,
+        uri: "ipfs://bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi",
+        iv: filler(12),
+        authTag: filler(16),
+        ciphertextHash: filler(32),
+        metadataHash: filler(32),
+        escrowCiphertext: filler(32),
+        escrowIv: filler(12),
+        escrowAuthTag: filler(16),
+        sessionKeyCommitment: filler(32),
+        receiverEnvelopeHash: filler(32),
+        escrowKeyVersion: 1,
+        encryptionKeyVersion: 0,
+        unlockTime: now + BigInt(HOUR),
+        expiresAt: 0n,
+        checkInInterval: 0n,
+        requiredPayment: 0n,
+        paymentToken: ethers.ZeroAddress,
+        conditionMask,
+        guardians: [],
+        guardianThreshold: 0,
+        unlockClauses: [],
+        dependsOn: 0n,
+        dependencyKind: 0,
+        ...overrides
+      } as Record<string, unknown>;
+    };
+    const send = async (conditionMask: number, overrides: Record<string, unknown> = {}) => {
+      const params = await messageParams(conditionMask, overrides);
+      await (await contract.connect(sender).sendMessage(...(Object.values(params) as Parameters<typeof contract.sendMessage>))).wait();
+      return (await contract.messageCount()) - 1n;
+    };
+
+    return { contract, owner, sender, receiver, payer, other, messageParams, send };
+  }
+
+  describe("pull payments", function () {
+    it("holds payments until the message unlocks, then credits the sender instead of forwarding", async function () {
+      const { contract, sender, payer, send } = await loadFixture(deployFixture);
+      const price = ethers.parseEther("1");
+      const id = await send(CONDITION_TIME | CONDITION_PAYMENT, { requiredPayment: price });
+
+      await expect(contract.connect(payer).payToUnlock(id, { value: price })).to.changeEtherBalances(
+        [payer, sender, contract],
+        [-price, 0n, price]
+      );
+      expect(await contract.pendingWithdrawal(sender.address)).to.equal(0n);
+      expect(await contract.contributionOf(id, payer.address)).to.equal(price);
+
+      await time.increase(HOUR);
+      await expect(contract.releasePayment(id))
+        .to.emit(contract, "PaymentCredited")
+        .withArgs(id, sender.address, ethers.ZeroAddress, price);
+      expect(await contract.pendingWithdrawal(sender.address)).to.equal(price);
+    });
+
+    it("lets the sender withdraw the credited balance once", async function () {
+      const { contract, sender, payer, send } = await loadFixture(deployFixture);
+      const price = ethers.parseEther("0.5");
+      const id = await send(CONDITION_PAYMENT, { requiredPayment: price });
+      await contract.connect(payer).payToUnlock(id, { value: price });
+
+      await expect(contract.connect(sender).withdraw())
+        .to.emit(contract, "Withdrawn")
+        .withArgs(sender.address, sender.address, ethers.ZeroAddress, price);
+      expect(await contract.pendingWithdrawal(sender.address)).to.equal(0n);
+      await expect(contract.connect(sender).withdraw()).to.be.revertedWithCustomError(contract, "NothingToWithdraw");
+    });
+
+    it("withdrawTo sends the balance to another address", async function () {
+      const { contract, sender, payer, other, send } = await loadFixture(deployFixture);
+      const price = ethers.parseEther("0.5");
+      const id = await send(CONDITION_PAYMENT, { requiredPayment: price });
+      await contract.connect(payer).payToUnlock(id, { value: price });
+
+      await expect(contract.connect(sender).withdrawTo(other.address)).to.changeEtherBalances(
+        [sender, other],
+        [0n, price]
+      );
+      await expect(contract.connect(sender).withdrawTo(ethers.ZeroAddress)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidRecipient"
+      );
+    });
+
+    it("keeps the balance when the withdrawal target rejects ETH", async function () {
+      const { contract, sender, payer, send } = await loadFixture(deployFixture);
+      const price = ethers.parseEther("0.5");
+      const id = await send(CONDITION_PAYMENT, { requiredPayment: price });
+      await contract.connect(payer).payToUnlock(id, { value: price });
+
+      // The contract itself has no receive function
+      await expect(contract.connect(sender).withdrawTo(await contract.getAddress())).to.be.revertedWithCustomError(
+        contract,
+        "WithdrawFailed"
+      );
+      expect(await contract.pendingWithdrawal(sender.address)).to.equal(price);
+    });
+
+    it("refunds an overpayment to the payer", async function () {
+      const { contract, payer, send } = await loadFixture(deployFixture);
+      const price = ethers.parseEther("0.5");
+      const id = await send(CONDITION_PAYMENT, { requiredPayment: price });
+
+      await expect(contract.connect(payer).payToUnlock(id, { value: price * 2n })).to.changeEtherBalance(payer, -price);
+      expect((await contract.getMessageFinancialView(id)).paidAmount).to.equal(price);
+    });
+
+    it("refunds held contributions of a revoked message", async function () {
+      const { contract, sender, payer, send } = await loadFixture(deployFixture);
+      const price = ethers.parseEther("1");
+      const id = await send(CONDITION_TIME | CONDITION_PAYMENT, { requiredPayment: price });
+      await contract.connect(payer).payToUnlock(id, { value: price / 2n });
+      await contract.connect(sender).revokeMessage(id);
+
+      await expect(contract.connect(payer).claimRefund(id)).to.changeEtherBalance(payer, price / 2n);
+      await expect(contract.connect(payer).claimRefund(id)).to.be.revertedWithCustomError(contract, "NothingToRefund");
+    });
+  });
+
+  describe("checkInAll", function () {
+    async function heartbeatFixture() {
+      const fixture = await deployFixture();
+      const heartbeat = { checkInInterval: BigInt(24 * HOUR) };
+      // Newest first: 3 (heartbeat), 2 (time lock), 1 (heartbeat), 0 (heartbeat)
+      const ids = [
+        await fixture.send(CONDITION_HEARTBEAT, heartbeat),
+        await fixture.send(CONDITION_HEARTBEAT, heartbeat),
+        await fixture.send(CONDITION_TIME),
+        await fixture.send(CONDITION_HEARTBEAT, heartbeat)
+      ];
+      return { ...fixture, ids };
+    }
+
+    const lastCheckIn = async (contract: any, id: bigint) => (await contract.getMessageFinancialView(id)).lastCheckIn;
+
+    it("refreshes one page of sent messages, newest first", async function () {
+      const { contract, sender, ids } = await loadFixture(heartbeatFixture);
+      const before = await Promise.all(ids.map((id) => lastCheckIn(contract, id)));
+      await time.increase(HOUR);
+
+      // Page 0..2 holds ids 3 and 2; only 3 has a heartbeat
+      expect(await contract.connect(sender).checkInAll.staticCall(0, 2)).to.equal(1n);
+      await contract.connect(sender).checkInAll(0, 2);
+      expect(await lastCheckIn(contract, ids[3])).to.be.greaterThan(before[3]);
+      expect(await lastCheckIn(contract, ids[1])).to.equal(before[1]);
+      expect(await lastCheckIn(contract, ids[0])).to.equal(before[0]);
+
+      await expect(contract.connect(sender).checkInAll(2, 2))
+        .to.emit(contract, "SenderCheckedIn")
+        .withArgs(ids[1], sender.address, (due: bigint) => due > before[1]);
+      expect(await lastCheckIn(contract, ids[0])).to.be.greaterThan(before[0]);
+    });
+
+    it("skips revoked messages and returns 0 past the end", async function () {
+      const { contract, sender, ids } = await loadFixture(heartbeatFixture);
+      await contract.connect(sender).revokeMessage(ids[1]);
+
+      expect(await contract.connect(sender).checkInAll.staticCall(0, 10)).to.equal(2n);
+      expect(await contract.connect(sender).checkInAll.staticCall(4, 10)).to.equal(0n);
+      expect(await contract.connect(sender).checkInAll.staticCall(0, 0)).to.equal(0n);
+    });
+
+    it("never re-seals a message whose check-in was missed", async function () {
+      const { contract, sender, ids } = await loadFixture(heartbeatFixture);
+      await time.increase(25 * HOUR);
+
+      expect(await contract.connect(sender).checkInAll.staticCall(0, 10)).to.equal(0n);
+      await expect(contract.connect(sender).checkIn(ids[0])).to.be.revertedWithCustomError(contract, "CheckInMissed");
+      expect(await contract.isUnlocked(ids[0])).to.equal(true);
+    });
+  });
+
+  describe("getUnlockState", function () {
+    it("reports a message without clauses as one AND clause", async function () {
+      const { contract, send } = await loadFixture(deployFixture);
+      const id = await send(CONDITION_TIME | CONDITION_PAYMENT, { requiredPayment: 1000n });
+
+      const [clauses, satisfied, unlocked, matched] = await contract.getUnlockState(id);
+      expect(clauses).to.deep.equal([BigInt(CONDITION_TIME | CONDITION_PAYMENT)]);
+      expect(satisfied).to.equal(0n);
+      expect(unlocked).to.equal(false);
+      expect(matched).to.equal(NO_CLAUSE);
+    });
+
+    it("returns the stored clauses and the first one that unlocks", async function () {
+      const { contract, payer, send } = await loadFixture(deployFixture);
+      const id = await send(CONDITION_TIME | CONDITION_PAYMENT, {
+        requiredPayment: 1000n,
+        unlockClauses: [CONDITION_TIME, CONDITION_PAYMENT]
+      });
+      await contract.connect(payer).payToUnlock(id, { value: 1000n });
+
+      const [clauses, satisfied, unlocked, matched] = await contract.getUnlockState(id);
+      expect(clauses).to.deep.equal([BigInt(CONDITION_TIME), BigInt(CONDITION_PAYMENT)]);
+      expect(satisfied).to.equal(BigInt(CONDITION_PAYMENT));
+      expect(unlocked).to.equal(true);
+      expect(matched).to.equal(1n);
+    });
+  });
+
+  describe("chained messages", function () {
+    it("keeps a dependent unlocked when its already unlocked dependency is revoked", async function () {
+      const { contract, sender, send } = await loadFixture(deployFixture);
+      const dependency = await send(CONDITION_TIME);
+      const chained = await send(CONDITION_DEPENDENCY, { dependsOn: dependency, dependencyKind: DEPENDENCY_UNLOCKED });
+      await time.increase(HOUR);
+      expect(await contract.isUnlocked(chained)).to.equal(true);
+
+      await contract.connect(sender).revokeMessage(dependency);
+      expect(await contract.isUnlocked(chained)).to.equal(true);
+      expect((await contract.getMessageDependency(chained)).satisfied).to.equal(true);
+    });
+
+    it("never unlocks a dependent whose dependency was revoked while locked", async function () {
+      const { contract, sender, send } = await loadFixture(deployFixture);
+      const dependency = await send(CONDITION_TIME);
+      const chained = await send(CONDITION_DEPENDENCY, { dependsOn: dependency, dependencyKind: DEPENDENCY_UNLOCKED });
+
+      await contract.connect(sender).revokeMessage(dependency);
+      await time.increase(2 * HOUR);
+      expect(await contract.isUnlocked(chained)).to.equal(false);
+      await expect(
+        send(CONDITION_DEPENDENCY, { dependsOn: dependency, dependencyKind: DEPENDENCY_UNLOCKED })
+      ).to.be.revertedWithCustomError(contract, "DependencyRevoked");
+    });
+  });
+
+  describe("receiver key versions", function () {
+    it("records the key version the sender encrypted to, even after a newer key is registered", async function () {
+      const { contract, receiver, send } = await loadFixture(deployFixture);
+      await contract.connect(receiver).registerEncryptionKey(publicKey("11"));
+      await contract.connect(receiver).registerEncryptionKey(publicKey("22"));
+
+      const stale = await send(CONDITION_TIME, { encryptionKeyVersion: 1 });
+      const fallback = await send(CONDITION_TIME);
+      expect((await contract.getMessageFinancialView(stale)).encryptionKeyVersion).to.equal(1n);
+      expect((await contract.getMessageFinancialView(fallback)).encryptionKeyVersion).to.equal(0n);
+    });
+
+    it("rejects a version the receiver never registered", async function () {
+      const { contract, receiver, send } = await loadFixture(deployFixture);
+      await expect(send(CONDITION_TIME, { encryptionKeyVersion: 1 })).to.be.revertedWithCustomError(
+        contract,
+        "UnknownKeyVersion"
+      );
+
+      await contract.connect(receiver).registerEncryptionKey(publicKey("11"));
+      await expect(send(CONDITION_TIME, { encryptionKeyVersion: 2 })).to.be.revertedWithCustomError(
+        contract,
+        "UnknownKeyVersion"
+      );
+    });
+
+    it("covers the version with the sender's signature", async function () {
+      const { contract, sender, receiver, other, messageParams } = await loadFixture(deployFixture);
+      await contract.connect(receiver).registerEncryptionKey(publicKey("11"));
+      await contract.connect(receiver).registerEncryptionKey(publicKey("22"));
+
+      const params = await messageParams(CONDITION_TIME, { encryptionKeyVersion: 2 });
+      const deadline = BigInt(await time.latest()) + BigInt(HOUR);
+      const types = { SendMessage: [...SEND_MESSAGE_TYPES.SendMessage], MessageParams: [...MESSAGE_PARAMS_FIELDS] };
+      const signature = await sender.signTypedData(await domainOf(contract), types, {
+        sender: sender.address,
+        params,
+        nonce: await contract.nonces(sender.address),
+        deadline
+      });
+
+      // A relayer cannot point the message at an older key than the one the sender signed for
+      const relay = (relayed: Record<string, unknown>) =>
+        contract
+          .connect(other)
+          .sendMessageBySig(relayed as Parameters<typeof contract.sendMessageBySig>[0], sender.address, deadline, signature);
+      await expect(relay({ ...params, encryptionKeyVersion: 1 })).to.be.revertedWithCustomError(contract, "InvalidSignature");
+
+      await relay(params);
+      const id = (await contract.messageCount()) - 1n;
+      expect((await contract.getMessageFinancialView(id)).encryptionKeyVersion).to.equal(2n);
+    });
+  });
+
+  describe("session key release", function () {
+    const sessionKey = "0x" + "5e".repeat(32);
+
+    it("publishes the key of an unlocked message whose sender opted in", async function () {
+      const { contract, other, send } = await loadFixture(deployFixture);
+      const id = await send(CONDITION_TIME | FLAG_KEY_RELEASE, { sessionKeyCommitment: ethers.keccak256(sessionKey) });
+      await expect(contract.connect(other).releaseSessionKey(id, sessionKey)).to.be.revertedWithCustomError(contract, "Locked");
+
+      await time.increase(HOUR);
+      await expect(contract.connect(other).releaseSessionKey(id, "0x" + "00".repeat(31) + "01")).to.be.revertedWithCustomError(
+        contract,
+        "InvalidSessionKey"
+      );
+      await expect(contract.connect(other).releaseSessionKey(id, sessionKey))
+        .to.emit(contract, "SessionKeyReleased")
+        .withArgs(id, sessionKey);
+      expect(await contract.releasedSessionKeys(id)).to.equal(sessionKey);
+    });
+
+    it("never publishes the key of a message without the opt-in", async function () {
+      const { contract, other, send } = await loadFixture(deployFixture);
+      const id = await send(CONDITION_TIME, { sessionKeyCommitment: ethers.keccak256(sessionKey) });
+      await time.increase(HOUR);
+
+      await expect(contract.connect(other).releaseSessionKey(id, sessionKey)).to.be.revertedWithCustomError(
+        contract,
+        "KeyReleaseNotAllowed"
+      );
+    });
+  });
+
+  describe("ERC-20 payments", function () {
+    async function tokenFixture() {
+      const fixture = await deployFixture();
+      const token = await ethers.deployContract("TestPermitToken");
+      await token.mint(fixture.payer.address, ethers.parseEther("10"));
+      return { ...fixture, token };
+    }
+
+    it("pulls only the outstanding amount and credits the sender in the token", async function () {
+      const { contract, sender, payer, send, token } = await loadFixture(tokenFixture);
+      const price = ethers.parseEther("1");
+      const id = await send(CONDITION_PAYMENT, { requiredPayment: price, paymentToken: await token.getAddress() });
+
+      await token.connect(payer).approve(await contract.getAddress(), ethers.parseEther("5"));
+      await contract.connect(payer).payToUnlockWithToken(id, ethers.parseEther("0.4"));
+      expect(await contract.isUnlocked(id)).to.equal(false);
+      await contract.connect(payer).payToUnlockWithToken(id, ethers.parseEther("5"));
+
+      expect(await contract.isUnlocked(id)).to.equal(true);
+      expect(await token.balanceOf(payer.address)).to.equal(ethers.parseEther("9"));
+      expect(await contract.pendingTokenWithdrawal(sender.address, await token.getAddress())).to.equal(price);
+      await contract.connect(sender).withdrawToken(await token.getAddress());
+      expect(await token.balanceOf(sender.address)).to.equal(price);
+    });
+
+    it("sets the allowance with a permit and ignores a permit that was already used", async function () {
+      const { contract, sender, payer, other, send, token } = await loadFixture(tokenFixture);
+      const price = ethers.parseEther("1");
+      const id = await send(CONDITION_PAYMENT, { requiredPayment: price, paymentToken: await token.getAddress() });
+
+      const deadline = BigInt(await time.latest()) + BigInt(HOUR);
+      const signature = ethers.Signature.from(
+        await payer.signTypedData(
+          {
+            name: "Test Token",
+            version: "1",
+            chainId: (await ethers.provider.getNetwork()).chainId,
+            verifyingContract: await token.getAddress()
+          },
+          {
+            Permit: [
+              { name: "owner", type: "address" },
+              { name: "spender", type: "address" },
+              { name: "value", type: "uint256" },
+              { name: "nonce", type: "uint256" },
+              { name: "deadline", type: "uint256" }
+            ]
+          },
+          { owner: payer.address, spender: await contract.getAddress(), value: price, nonce: 0n, deadline }
+        )
+      );
+
+      // Someone front-runs the permit; the payment still goes through on the allowance it set
+      await token.connect(other).permit(payer.address, await contract.getAddress(), price, deadline, signature.v, signature.r, signature.s);
+      await contract
+        .connect(payer)
+        .payToUnlockWithTokenPermit(id, price, deadline, signature.v, signature.r, signature.s);
+      expect(await contract.isUnlocked(id)).to.equal(true);
+      expect(await contract.pendingTokenWithdrawal(sender.address, await token.getAddress())).to.equal(price);
+      expect(await token.balanceOf(await contract.getAddress())).to.equal(price);
+    });
+
+    it("keeps native and token payments apart", async function () {
+      const { contract, payer, send, token } = await loadFixture(tokenFixture);
+      const tokenMessage = await send(CONDITION_PAYMENT, { requiredPayment: 1n, paymentToken: await token.getAddress() });
+      const nativeMessage = await send(CONDITION_PAYMENT, { requiredPayment: 1n });
+
+      await expect(contract.connect(payer).payToUnlock(tokenMessage, { value: 1n })).to.be.revertedWithCustomError(
+        contract,
+        "TokenPayment"
+      );
+      await expect(contract.connect(payer).payToUnlockWithToken(nativeMessage, 1n)).to.be.revertedWithCustomError(
+        contract,
+        "NativePayment"
+      );
+    });
+  });
+
+  describe("expiry and refunds", function () {
+    it("voids a message whose payment was not completed by expiresAt and refunds each payer once", async function () {
+      const { contract, payer, other, send } = await loadFixture(deployFixture);
+      const expiresAt = BigInt(await time.latest()) + BigInt(2 * HOUR);
+      const id = await send(CONDITION_PAYMENT | CONDITION_EXPIRY, { requiredPayment: ethers.parseEther("1"), expiresAt });
+      const part = ethers.parseEther("0.4");
+      await contract.connect(payer).payToUnlock(id, { value: part });
+      await expect(contract.connect(payer).claimRefund(id)).to.be.revertedWithCustomError(contract, "NotRefundable");
+
+      await time.increaseTo(expiresAt);
+      expect((await contract.getMessageFinancialView(id)).isExpired).to.equal(true);
+      await expect(contract.connect(payer).payToUnlock(id, { value: part })).to.be.revertedWithCustomError(contract, "Expired");
+
+      await expect(contract.connect(payer).claimRefund(id)).to.changeEtherBalances([payer, contract], [part, -part]);
+      await expect(contract.connect(payer).claimRefund(id)).to.be.revertedWithCustomError(contract, "NothingToRefund");
+      await expect(contract.connect(other).claimRefund(id)).to.be.revertedWithCustomError(contract, "NothingToRefund");
+    });
+
+    it("never expires a message that unlocked before expiresAt", async function () {
+      const { contract, payer, send } = await loadFixture(deployFixture);
+      const expiresAt = BigInt(await time.latest()) + BigInt(2 * HOUR);
+      const id = await send(CONDITION_PAYMENT | CONDITION_EXPIRY, { requiredPayment: 1n, expiresAt });
+      await contract.connect(payer).payToUnlock(id, { value: 1n });
+
+      await time.increaseTo(expiresAt + 1n);
+      expect((await contract.getMessageFinancialView(id)).isExpired).to.equal(false);
+      expect(await contract.isUnlocked(id)).to.equal(true);
+      await expect(contract.connect(payer).claimRefund(id)).to.be.revertedWithCustomError(contract, "NotRefundable");
+    });
+
+    it("rejects an expiry that is not after the unlock time", async function () {
+      const { contract, send } = await loadFixture(deployFixture);
+      const unlockTime = BigInt(await time.latest()) + BigInt(2 * HOUR);
+      await expect(
+        send(CONDITION_TIME | CONDITION_PAYMENT | CONDITION_EXPIRY, { unlockTime, requiredPayment: 1n, expiresAt: unlockTime })
+      ).to.be.revertedWithCustomError(contract, "ExpiryBeforeUnlock");
+    });
+  });
+
+  describe("guardians", function () {
+    const UNLOCK_APPROVAL_TYPES = {
+      UnlockApproval: [
+        { name: "messageId", type: "uint256" },
+        { name: "guardian", type: "address" },
+        { name: "deadline", type: "uint256" }
+      ]
+    };
+
+    it("unlocks once the quorum approved, on-chain or by signature", async function () {
+      const { contract, owner, receiver, payer, other, send } = await loadFixture(deployFixture);
+      const id = await send(CONDITION_GUARDIANS, { guardians: [owner.address, payer.address, other.address], guardianThreshold: 2 });
+
+      await expect(contract.connect(payer).approveUnlock(id))
+        .to.emit(contract, "GuardianApproved")
+        .withArgs(id, payer.address, 1, 2);
+      expect(await contract.isUnlocked(id)).to.equal(false);
+
+      const deadline = BigInt(await time.latest()) + BigInt(HOUR);
+      const signature = await other.signTypedData(await domainOf(contract), UNLOCK_APPROVAL_TYPES, {
+        messageId: id,
+        guardian: other.address,
+        deadline
+      });
+      await expect(contract.connect(receiver).approveUnlockBySig(id, other.address, deadline, signature))
+        .to.emit(contract, "MessageUnlocked")
+        .withArgs(id, "guardians");
+      expect(await contract.isUnlocked(id)).to.equal(true);
+
+      await expect(
+        contract.connect(receiver).approveUnlockBySig(id, other.address, deadline, signature)
+      ).to.be.revertedWithCustomError(contract, "AlreadyApproved");
+    });
+
+    it("rejects approvals from non-guardians, wrong signers and past deadlines", async function () {
+      const { contract, owner, sender, receiver, payer, other, send } = await loadFixture(deployFixture);
+      const id = await send(CONDITION_GUARDIANS, { guardians: [owner.address, payer.address], guardianThreshold: 2 });
+      await expect(contract.connect(other).approveUnlock(id)).to.be.revertedWithCustomError(contract, "NotGuardian");
+
+      const deadline = BigInt(await time.latest()) + BigInt(HOUR);
+      const forged = await sender.signTypedData(await domainOf(contract), UNLOCK_APPROVAL_TYPES, {
+        messageId: id,
+        guardian: payer.address,
+        deadline
+      });
+      await expect(
+        contract.connect(receiver).approveUnlockBySig(id, payer.address, deadline, forged)
+      ).to.be.revertedWithCustomError(contract, "InvalidSignature");
+
+      const signature = await payer.signTypedData(await domainOf(contract), UNLOCK_APPROVAL_TYPES, {
+        messageId: id,
+        guardian: payer.address,
+        deadline
+      });
+      await time.increaseTo(deadline + 1n);
+      await expect(
+        contract.connect(receiver).approveUnlockBySig(id, payer.address, deadline, signature)
+      ).to.be.revertedWithCustomError(contract, "SignatureExpired");
+    });
+
+    it("rejects the receiver as a guardian and a threshold above the guardian count", async function () {
+      const { contract, receiver, payer, send } = await loadFixture(deployFixture);
+      await expect(
+        send(CONDITION_GUARDIANS, { guardians: [payer.address, receiver.address], guardianThreshold: 1 })
+      ).to.be.revertedWithCustomError(contract, "InvalidGuardian");
+      await expect(
+        send(CONDITION_GUARDIANS, { guardians: [payer.address], guardianThreshold: 2 })
+      ).to.be.revertedWithCustomError(contract, "InvalidGuardianThreshold");
+    });
+  });
+
+  describe("acknowledgements", function () {
+    it("records the receiver's read receipt once the message unlocked, exactly once", async function () {
+      const { contract, sender, receiver, send } = await loadFixture(deployFixture);
+      const id = await send(CONDITION_TIME);
+      await expect(contract.connect(receiver).acknowledgeMessage(id)).to.be.revertedWithCustomError(contract, "Locked");
+
+      await time.increase(HOUR);
+      await expect(contract.connect(sender).acknowledgeMessage(id)).to.be.revertedWithCustomError(contract, "NotReceiver");
+      await expect(contract.connect(receiver).acknowledgeMessage(id)).to.emit(contract, "MessageAcknowledged");
+      const acknowledgedAt = (await ethers.provider.getBlock("latest"))!.timestamp;
+      expect((await contract.getMessageFinancialView(id)).acknowledgedAt).to.equal(BigInt(acknowledgedAt));
+
+      await expect(contract.connect(receiver).acknowledgeMessage(id)).to.be.revertedWithCustomError(
+        contract,
+        "AlreadyAcknowledged"
+      );
+    });
+
+    it("accepts the receiver's signed receipt from a relayer and unlocks messages chained to it", async function () {
+      const { contract, sender, receiver, other, send } = await loadFixture(deployFixture);
+      const id = await send(CONDITION_TIME);
+      const chained = await send(CONDITION_DEPENDENCY, { dependsOn: id, dependencyKind: DEPENDENCY_ACKNOWLEDGED });
+      await time.increase(HOUR);
+      expect(await contract.isUnlocked(chained)).to.equal(false);
+
+      const deadline = BigInt(await time.latest()) + BigInt(HOUR);
+      const types = {
+        Acknowledgement: [
+          { name: "messageId", type: "uint256" },
+          { name: "receiver", type: "address" },
+          { name: "deadline", type: "uint256" }
+        ]
+      };
+      const forged = await sender.signTypedData(await domainOf(contract), types, { messageId: id, receiver: receiver.address, deadline });
+      await expect(
+        contract.connect(other).acknowledgeMessageBySig(id, receiver.address, deadline, forged)
+      ).to.be.revertedWithCustomError(contract, "InvalidSignature");
+
+      const signature = await receiver.signTypedData(await domainOf(contract), types, {
+        messageId: id,
+        receiver: receiver.address,
+        deadline
+      });
+      await contract.connect(other).acknowledgeMessageBySig(id, receiver.address, deadline, signature);
+      expect(await contract.isUnlocked(chained)).to.equal(true);
+    });
+  });
+
+  describe("meta-transactions", function () {
+    const registerTypes = { RegisterEncryptionKey: [...REGISTER_ENCRYPTION_KEY_TYPES.RegisterEncryptionKey] };
+    const sendTypes = { SendMessage: [...SEND_MESSAGE_TYPES.SendMessage], MessageParams: [...MESSAGE_PARAMS_FIELDS] };
+
+    it("registers a key for a user without gas and refuses to replay the signature", async function () {
+      const { contract, receiver, other } = await loadFixture(deployFixture);
+      const key = publicKey("11");
+      const deadline = BigInt(await time.latest()) + BigInt(HOUR);
+      const signature = await receiver.signTypedData(await domainOf(contract), registerTypes, {
+        user: receiver.address,
+        publicKey: key,
+        nonce: 0n,
+        deadline
+      });
+
+      await contract.connect(other).registerEncryptionKeyBySig(receiver.address, key, deadline, signature);
+      expect(await contract.getEncryptionKey(receiver.address)).to.equal(key);
+      expect(await contract.nonces(receiver.address)).to.equal(1n);
+      await expect(
+        contract.connect(other).registerEncryptionKeyBySig(receiver.address, key, deadline, signature)
+      ).to.be.revertedWithCustomError(contract, "InvalidSignature");
+    });
+
+    it("stores a relayed message for its signer, once, before the deadline", async function () {
+      const { contract, sender, receiver, other, messageParams } = await loadFixture(deployFixture);
+      const relay = (params: Record<string, unknown>, deadline: bigint, signature: string) =>
+        contract
+          .connect(other)
+          .sendMessageBySig(params as Parameters<typeof contract.sendMessageBySig>[0], sender.address, deadline, signature);
+      const sign = async (params: Record<string, unknown>, nonce: bigint, deadline: bigint) =>
+        sender.signTypedData(await domainOf(contract), sendTypes, { sender: sender.address, params, nonce, deadline });
+
+      const params = await messageParams(CONDITION_TIME);
+      const deadline = BigInt(await time.latest()) + BigInt(HOUR);
+      const signature = await sign(params, 0n, deadline);
+      await relay(params, deadline, signature);
+      const id = (await contract.messageCount()) - 1n;
+      expect((await contract.getMessageHeaders([id]))[0].sender).to.equal(sender.address);
+      expect(await contract.getSentMessages(sender.address)).to.deep.equal([id]);
+      expect(await contract.getSentMessages(other.address)).to.deep.equal([]);
+      expect(await contract.getReceivedMessages(receiver.address)).to.deep.equal([id]);
+
+      await expect(relay(params, deadline, signature)).to.be.revertedWithCustomError(contract, "InvalidSignature");
+
+      const late = await sign(params, 1n, deadline);
+      await time.increaseTo(deadline + 1n);
+      await expect(relay(params, deadline, late)).to.be.revertedWithCustomError(contract, "SignatureExpired");
+    });
+  });
+
+  describe("fees", function () {
+    it("lets only ADMIN_ROLE tune the fees and only the owner move the treasury", async function () {
+      const { contract, owner, other } = await loadFixture(deployFixture);
+      await expect(contract.connect(other).setProtocolFee(100)).to.be.revertedWithCustomError(
+        contract,
+        "AccessControlUnauthorizedAccount"
+      );
+      await expect(contract.connect(other).setSendFee(1n)).to.be.revertedWithCustomError(
+        contract,
+        "AccessControlUnauthorizedAccount"
+      );
+
+      await contract.connect(owner).grantRole(await contract.ADMIN_ROLE(), other.address);
+      await expect(contract.connect(other).setProtocolFee(100)).to.emit(contract, "ProtocolFeeUpdated").withArgs(0, 100);
+      await expect(contract.connect(other).setProtocolFee(1001)).to.be.revertedWithCustomError(contract, "FeeTooHigh");
+      await expect(contract.connect(other).setTreasury(other.address)).to.be.revertedWithCustomError(
+        contract,
+        "AccessControlUnauthorizedAccount"
+      );
+      await expect(contract.connect(owner).setTreasury(ethers.ZeroAddress)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidTreasury"
+      );
+    });
+
+    it("charges the exact send fee to the treasury", async function () {
+      const { contract, owner, sender, other, messageParams } = await loadFixture(deployFixture);
+      const fee = ethers.parseEther("0.01");
+      await contract.connect(owner).setSendFee(fee);
+      await contract.connect(owner).setTreasury(other.address);
+      const args = Object.values(await messageParams(CONDITION_TIME));
+      const sendWith = (value: bigint) =>
+        contract.connect(sender).sendMessage(...([...args, { value }] as Parameters<typeof contract.sendMessage>));
+
+      await expect(sendWith(0n)).to.be.revertedWithCustomError(contract, "IncorrectSendFee");
+      await expect(sendWith(fee + 1n)).to.be.revertedWithCustomError(contract, "IncorrectSendFee");
+      await sendWith(fee);
+      expect(await contract.pendingWithdrawal(other.address)).to.equal(fee);
+    });
+
+    it("takes the protocol fee in force when the message was sent from its payments", async function () {
+      const { contract, owner, sender, payer, send } = await loadFixture(deployFixture);
+      await contract.connect(owner).setProtocolFee(500);
+      const price = ethers.parseEther("1");
+      const id = await send(CONDITION_PAYMENT, { requiredPayment: price });
+      await contract.connect(owner).setProtocolFee(0);
+
+      await contract.connect(payer).payToUnlock(id, { value: price });
+      expect(await contract.pendingWithdrawal(owner.address)).to.equal(ethers.parseEther("0.05"));
+      expect(await contract.pendingWithdrawal(sender.address)).to.equal(ethers.parseEther("0.95"));
+    });
+  });
+
+  describe("listing", function () {
+    it("pages sent and received ids newest first", async function () {
+      const { contract, sender, receiver, send } = await loadFixture(deployFixture);
+      for (let i = 0; i < 5; i++) {
+        await send(CONDITION_TIME);
+      }
+
+      expect(await contract.getSentMessageCount(sender.address)).to.equal(5n);
+      expect(await contract.getReceivedMessageCount(receiver.address)).to.equal(5n);
+      expect(await contract.getSentMessagesPage(sender.address, 0, 2)).to.deep.equal([4n, 3n]);
+      expect(await contract.getSentMessagesPage(sender.address, 2, 2)).to.deep.equal([2n, 1n]);
+      expect(await contract.getReceivedMessagesPage(receiver.address, 4, 10)).to.deep.equal([0n]);
+      expect(await contract.getReceivedMessagesPage(receiver.address, 5, 10)).to.deep.equal([]);
+    });
+
+    it("returns headers for a batch of ids and rejects unknown ones", async function () {
+      const { contract, sender, receiver, send } = await loadFixture(deployFixture);
+      const locked = await send(CONDITION_TIME);
+      const revoked = await send(CONDITION_PAYMENT, { requiredPayment: 5n });
+      await contract.connect(sender).revokeMessage(revoked);
+
+      const [first, second] = await contract.getMessageHeaders([locked, revoked]);
+      expect([first.id, first.sender, first.receiver, first.revoked]).to.deep.equal([locked, sender.address, receiver.address, false]);
+      expect(first.financial.conditionMask).to.equal(CONDITION_TIME);
+      expect(first.financial.isUnlocked).to.equal(false);
+      expect(second.revoked).to.equal(true);
+      expect(second.financial.requiredPayment).to.equal(5n);
+
+      await expect(contract.getMessageHeaders([locked, 99n])).to.be.revertedWithCustomError(contract, "MessageNotFound");
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { computeEnvelopeHash } from "../frontend/lib/onchainMessage";
+
+const CONDITION_TIME = 0x01;
+const HOUR = 3600;
+
+// A different byte per field, so a field hashed in the wrong position changes the hash
+const bytesOf = (fill: string, length: number) => `0x${fill.repeat(length)}` as const;
+
+describe("SealedMessageL2", function () {
+  async function deployFixture() {
+    const [, sender, receiver] = await ethers.getSigners();
+    const contract = await ethers.deployContract("SealedMessageL2");
+
+    const params = {
+      receiver: receiver.address,
+      uri: "ipfs://bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi",
+      iv: bytesOf("01", 12),
+      authTag: bytesOf("02", 16),
+      ciphertextHash: bytesOf("03", 32),
+      metadataHash: bytesOf("04", 32),
+      escrowCiphertext: bytesOf("05", 32),
+      escrowIv: bytesOf("06", 12),
+      escrowAuthTag: bytesOf("07", 16),
+      sessionKeyCommitment: bytesOf("08", 32),
+      receiverEnvelopeHash: bytesOf("09", 32),
+      escrowKeyVersion: 3,
+      encryptionKeyVersion: 0,
+      unlockTime: BigInt(await time.latest()) + BigInt(HOUR),
+      expiresAt: 0n,
+      checkInInterval: 0n,
+      requiredPayment: 0n,
+      paymentToken: ethers.ZeroAddress,
+      conditionMask: CONDITION_TIME,
+      guardians: [],
+      guardianThreshold: 0,
+      unlockClauses: [],
+      dependsOn: 0n,
+      dependencyKind: 0
+    };
+    const args = Object.values(params) as Parameters<typeof contract.sendMessage>;
+    const receipt = await (await contract.connect(sender).sendMessage(...args)).wait();
+    const logs = receipt!.logs.map((log) => contract.interface.parseLog(log)!);
+
+    return { contract, params, receipt: receipt!, logs };
+  }
+
+  it("keeps the envelope in logs and only its hash in storage", async function () {
+    const { contract, receipt } = await loadFixture(deployFixture);
+    const [ciphertextHash, , blockNumber] = await contract.getMessageEnvelope(0n);
+    expect(ciphertextHash).to.equal(bytesOf("03", 32));
+    expect(blockNumber).to.equal(BigInt(receipt.blockNumber));
+    await expect(contract.getMessage(0n)).to.be.revertedWithCustomError(contract, "EnvelopeInLogs");
+  });
+
+  it("rebuilds the stored envelope hash from the MessageStored and MessageEnvelope logs", async function () {
+    const { contract, logs } = await loadFixture(deployFixture);
+    const stored = logs.find((log) => log.name === "MessageStored")!.args;
+    const envelope = logs.find((log) => log.name === "MessageEnvelope")!.args;
+    const rebuilt = {
+      uri: stored.uri,
+      iv: envelope.iv,
+      authTag: envelope.authTag,
+      ciphertextHash: envelope.ciphertextHash,
+      metadataHash: envelope.metadataHash,
+      escrowCiphertext: envelope.escrowCiphertext,
+      escrowIv: envelope.escrowIv,
+      escrowAuthTag: envelope.escrowAuthTag,
+      sessionKeyCommitment: stored.sessionKeyCommitment,
+      receiverEnvelopeHash: envelope.receiverEnvelopeHash,
+      escrowKeyVersion: Number(stored.escrowKeyVersion)
+    };
+
+    const [, envelopeHash] = await contract.getMessageEnvelope(0n);
+    expect(computeEnvelopeHash(rebuilt)).to.equal(envelopeHash);
+    // A log rewritten by a lying RPC no longer matches
+    expect(computeEnvelopeHash({ ...rebuilt, escrowKeyVersion: 1 })).to.not.equal(envelopeHash);
+    expect(computeEnvelopeHash({ ...rebuilt, escrowIv: bytesOf("0a", 12) })).to.not.equal(envelopeHash);
+  });
+});
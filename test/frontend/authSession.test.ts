@@ -0,0 +1,96 @@
+import { expect } from "chai";
+import { Wallet } from "ethers";
+import { AUTH_NONCE_COOKIE, AuthSessionError, issueNonce, verifySiweLogin } from "../../frontend/lib/authSession";
+import { formatSiweMessage, SIWE_STATEMENT } from "../../frontend/lib/siwe";
+import { closeStorage, listRecordEntries, upsertRecord } from "../../frontend/lib/storage";
+
+// Error a promise rejected with; fails the test if it resolved
+async function rejection(promise: Promise<unknown>): Promise<Error> {
+  try {
+    await promise;
+  } catch (err) {
+    return err as Error;
+  }
+  throw new Error("Expected the promise to reject");
+}
+
+const ENV_NAMES = ["STORAGE_BACKEND", "AUTH_SESSION_SECRET", "AUTH_SIWE_DOMAIN"];
+const DOMAIN = "app.example.org";
+
+describe("authSession", function () {
+  const saved = Object.fromEntries(ENV_NAMES.map((name) => [name, process.env[name]]));
+  const account = new Wallet(`0x${"42".repeat(32)}`);
+
+  // Signed login for a fresh nonce, with the request that carries its nonce cookie
+  async function login(fields: { uri?: string; domain?: string } = {}) {
+    const { nonce, cookie } = issueNonce();
+    const text = formatSiweMessage({
+      domain: fields.domain ?? DOMAIN,
+      address: account.address as `0x${string}`,
+      statement: SIWE_STATEMENT,
+      uri: fields.uri ?? `https://${DOMAIN}`,
+      version: "1",
+      chainId: 11155111,
+      nonce,
+      issuedAt: new Date().toISOString()
+    });
+    const request = new Request(`https://${DOMAIN}/api/auth/login`, {
+      headers: { cookie: `${AUTH_NONCE_COOKIE}=${encodeURIComponent(cookie)}` }
+    });
+    return { nonce, text, request, signature: (await account.signMessage(text)) as `0x${string}` };
+  }
+
+  beforeEach(async function () {
+    process.env.STORAGE_BACKEND = "memory";
+    process.env.AUTH_SESSION_SECRET = "s".repeat(32);
+    process.env.AUTH_SIWE_DOMAIN = DOMAIN;
+    await closeStorage();
+  });
+
+  after(async function () {
+    await closeStorage();
+    for (const name of ENV_NAMES) {
+      if (saved[name] === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = saved[name];
+      }
+    }
+  });
+
+  it("signs in once per nonce", async function () {
+    const { text, request, signature } = await login();
+
+    const session = await verifySiweLogin(request, text, signature);
+    expect(session.address).to.equal(account.address);
+    expect(session.chainId).to.equal(11155111);
+
+    expect(await rejection(verifySiweLogin(request, text, signature)))
+      .to.be.instanceOf(AuthSessionError)
+      .with.property("message")
+      .that.includes("already used");
+  });
+
+  it("rejects messages for another domain or with a URI on another host", async function () {
+    const otherDomain = await login({ domain: "evil.example.org" });
+    expect((await rejection(verifySiweLogin(otherDomain.request, otherDomain.text, otherDomain.signature))).message).to.include(
+      "was issued for evil.example.org"
+    );
+
+    for (const uri of ["https://evil.example.org", "not a uri"]) {
+      const attempt = await login({ uri });
+      expect(await rejection(verifySiweLogin(attempt.request, attempt.text, attempt.signature)))
+        .to.be.instanceOf(AuthSessionError)
+        .with.property("message")
+        .that.includes(`is not on ${DOMAIN}`);
+    }
+  });
+
+  it("prunes used nonces whose cookie has expired", async function () {
+    await upsertRecord("siweNonces", "stale", () => ({ usedAt: "2026-01-01T00:00:00.000Z", expiresAt: "2026-01-01T00:05:00.000Z" }));
+    const { nonce, text, request, signature } = await login();
+
+    await verifySiweLogin(request, text, signature);
+    expect((await listRecordEntries("siweNonces")).map((entry) => entry.key)).to.deep.equal([nonce]);
+  });
+});
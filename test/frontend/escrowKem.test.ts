@@ -0,0 +1,80 @@
+import { expect } from "chai";
+import { hexlify } from "ethers";
+import {
+  decapsulateEscrowKey,
+  encapsulateEscrowKey,
+  escrowPublicKeyFromSecret,
+  openSealedBox,
+  sealToPublicKey
+} from "../../frontend/lib/escrowKem";
+
+// Error a promise rejected with; fails the test if it resolved
+async function rejection(promise: Promise<unknown>): Promise<Error> {
+  try {
+    await promise;
+  } catch (err) {
+    return err as Error;
+  }
+  throw new Error("Expected the promise to reject");
+}
+
+const ESCROW_SECRET = Uint8Array.from(Buffer.from("5e".repeat(32), "hex"));
+const OTHER_SECRET = Uint8Array.from(Buffer.from("6f".repeat(32), "hex"));
+const ESCROW_PUBLIC_KEY = escrowPublicKeyFromSecret(ESCROW_SECRET);
+
+describe("escrowKem", function () {
+  it("derives the compressed public key of a secret", function () {
+    expect(ESCROW_PUBLIC_KEY).to.match(/^0x0[23][0-9a-f]{64}$/);
+    expect(escrowPublicKeyFromSecret(OTHER_SECRET)).to.not.equal(ESCROW_PUBLIC_KEY);
+  });
+
+  it("rebuilds the sender's session key from the escrow fields", function () {
+    const { sessionKey, escrowCiphertext, escrowIv, escrowAuthTag } = encapsulateEscrowKey(ESCROW_PUBLIC_KEY, 4);
+    // The fields fit the on-chain slots: x(R), parity(R) || 0^11, confirmation tag
+    expect(escrowCiphertext).to.have.length(2 + 64);
+    expect(escrowIv).to.match(/^0x0[23]0{22}$/);
+    expect(escrowAuthTag).to.have.length(2 + 32);
+
+    const fields = { ciphertext: escrowCiphertext, iv: escrowIv, authTag: escrowAuthTag };
+    expect(hexlify(decapsulateEscrowKey(ESCROW_SECRET, fields, 4))).to.equal(hexlify(sessionKey));
+
+    // Every encapsulation draws a fresh session key
+    expect(hexlify(encapsulateEscrowKey(ESCROW_PUBLIC_KEY, 4).sessionKey)).to.not.equal(hexlify(sessionKey));
+  });
+
+  it("fails key confirmation for another private key or key version", function () {
+    const { escrowCiphertext, escrowIv, escrowAuthTag } = encapsulateEscrowKey(ESCROW_PUBLIC_KEY, 4);
+    const fields = { ciphertext: escrowCiphertext, iv: escrowIv, authTag: escrowAuthTag };
+
+    expect(() => decapsulateEscrowKey(OTHER_SECRET, fields, 4)).to.throw("Escrow key confirmation failed for version 4");
+    expect(() => decapsulateEscrowKey(ESCROW_SECRET, fields, 5)).to.throw("Escrow key confirmation failed for version 5");
+    expect(() => decapsulateEscrowKey(ESCROW_SECRET, { ...fields, authTag: `0x${"00".repeat(16)}` }, 4)).to.throw(
+      "Escrow key confirmation failed"
+    );
+  });
+
+  it("rejects escrow fields that are not an encapsulation", function () {
+    const { escrowCiphertext, escrowIv, escrowAuthTag } = encapsulateEscrowKey(ESCROW_PUBLIC_KEY, 4);
+    const fields = { ciphertext: escrowCiphertext, iv: escrowIv, authTag: escrowAuthTag };
+
+    // A legacy AES-GCM wrap has a random IV
+    const legacyIv = `0x${"0a".repeat(12)}`;
+    expect(() => decapsulateEscrowKey(ESCROW_SECRET, { ...fields, iv: legacyIv }, 4)).to.throw("not an escrow KEM encapsulation");
+    expect(() => decapsulateEscrowKey(ESCROW_SECRET, { ...fields, ciphertext: `0x${"11".repeat(33)}` }, 4)).to.throw(
+      "not an escrow KEM encapsulation"
+    );
+  });
+
+  it("opens a sealed box only with the recipient's key and the same info", async function () {
+    const plaintext = new TextEncoder().encode("operator share");
+    const box = await sealToPublicKey(plaintext, ESCROW_PUBLIC_KEY, "sealed-message-test:v1");
+    expect(hexlify(await openSealedBox(ESCROW_SECRET, box, "sealed-message-test:v1"))).to.equal(hexlify(plaintext));
+
+    expect(await rejection(openSealedBox(OTHER_SECRET, box, "sealed-message-test:v1"))).to.be.instanceOf(Error);
+    expect(await rejection(openSealedBox(ESCROW_SECRET, box, "sealed-message-test:v2"))).to.be.instanceOf(Error);
+    // Ephemeral key only, no ciphertext
+    const keyOnly = { ...box, ciphertext: box.ciphertext.slice(0, 2 + 66) as `0x${string}` };
+    const truncated = await rejection(openSealedBox(ESCROW_SECRET, keyOnly, "sealed-message-test:v1"));
+    expect(truncated.message).to.equal("Sealed box is too short");
+  });
+});
@@ -0,0 +1,133 @@
+import { expect } from "chai";
+import { createHash, randomBytes } from "crypto";
+import { keccak256 } from "ethers";
+import { encapsulateEscrowKey, escrowPublicKeyFromSecret } from "../../frontend/lib/escrowKem";
+import { listEscrowKeyVersions, unwrapSessionKey, wrapSessionKey } from "../../frontend/lib/escrowKey";
+import { selectEscrowWrap } from "../../frontend/lib/escrowKeyRotation";
+import type { EscrowRewrap } from "../../frontend/lib/escrowRewrapStore";
+import type { OnchainMessage } from "../../frontend/lib/onchainMessage";
+
+// Material of each version: env parts, and the public key of sha256(PART_A || PART_B)
+const PARTS: Record<number, [string, string]> = { 1: ["a1".repeat(16), "b1".repeat(16)], 2: ["a2".repeat(16), "b2".repeat(16)] };
+const publicKeyOf = (version: number) =>
+  escrowPublicKeyFromSecret(createHash("sha256").update(Buffer.from(PARTS[version].join(""), "hex")).digest());
+
+const ENV_NAMES = [
+  "ESCROW_KEY_VERSION",
+  "ESCROW_KEY_PART_A",
+  "ESCROW_KEY_PART_B",
+  ...[1, 2, 3].flatMap((version) => ["PART_A", "PART_B", "PUBLIC_KEY"].map((part) => `ESCROW_KEY_V${version}_${part}`))
+];
+
+// Only the fields selectEscrowWrap reads: [7..9] escrow wrap, [10] sessionKeyCommitment, [12] escrowKeyVersion
+function onchainMessage(fields: { ciphertext: string; iv: string; authTag: string }, commitment: string, version: number) {
+  const message: unknown[] = new Array(13).fill(null);
+  message[7] = fields.ciphertext;
+  message[8] = fields.iv;
+  message[9] = fields.authTag;
+  message[10] = commitment;
+  message[12] = version;
+  return message as unknown as OnchainMessage;
+}
+
+describe("escrow key rotation", function () {
+  const saved = Object.fromEntries(ENV_NAMES.map((name) => [name, process.env[name]]));
+
+  beforeEach(function () {
+    for (const name of ENV_NAMES) {
+      delete process.env[name];
+    }
+    for (const version of [1, 2]) {
+      process.env[`ESCROW_KEY_V${version}_PART_A`] = PARTS[version][0];
+      process.env[`ESCROW_KEY_V${version}_PART_B`] = PARTS[version][1];
+      process.env[`ESCROW_KEY_V${version}_PUBLIC_KEY`] = publicKeyOf(version);
+    }
+    process.env.ESCROW_KEY_VERSION = "2";
+  });
+
+  after(function () {
+    for (const name of ENV_NAMES) {
+      if (saved[name] === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = saved[name];
+      }
+    }
+  });
+
+  it("lists the current version first and keeps retired versions for unwrapping", function () {
+    expect(listEscrowKeyVersions().map(({ version, status }) => [version, status])).to.deep.equal([
+      [2, "current"],
+      [1, "retired"]
+    ]);
+  });
+
+  it("re-wraps to the current version while retired versions still unwrap", function () {
+    const sessionKey = randomBytes(32);
+
+    process.env.ESCROW_KEY_VERSION = "1";
+    const old = wrapSessionKey(sessionKey);
+    expect(old.keyVersion).to.equal(1);
+
+    process.env.ESCROW_KEY_VERSION = "2";
+    const rewrapped = wrapSessionKey(unwrapSessionKey(old, 1));
+    expect(rewrapped.keyVersion).to.equal(2);
+    expect(unwrapSessionKey(rewrapped, 2).equals(sessionKey)).to.equal(true);
+    expect(unwrapSessionKey(old, 1).equals(sessionKey)).to.equal(true);
+
+    // A wrap only opens under the version it was made for
+    expect(() => unwrapSessionKey(rewrapped, 1)).to.throw();
+  });
+
+  it("unwraps the sender's on-chain encapsulation under a retired version", function () {
+    const { sessionKey, escrowCiphertext, escrowIv, escrowAuthTag } = encapsulateEscrowKey(publicKeyOf(1), 1);
+    const unwrapped = unwrapSessionKey({ ciphertext: escrowCiphertext, iv: escrowIv, authTag: escrowAuthTag }, 1);
+    expect(unwrapped.equals(Buffer.from(sessionKey))).to.equal(true);
+  });
+
+  it("refuses material that does not match the published public key", function () {
+    const { escrowCiphertext, escrowIv, escrowAuthTag } = encapsulateEscrowKey(publicKeyOf(1), 1);
+    process.env.ESCROW_KEY_V1_PUBLIC_KEY = publicKeyOf(2);
+    expect(() => unwrapSessionKey({ ciphertext: escrowCiphertext, iv: escrowIv, authTag: escrowAuthTag }, 1)).to.throw(
+      "does not match ESCROW_KEY_V1_PUBLIC_KEY"
+    );
+  });
+
+  describe("selectEscrowWrap", function () {
+    const encapsulation = () => {
+      const { sessionKey, escrowCiphertext, escrowIv, escrowAuthTag } = encapsulateEscrowKey(publicKeyOf(1), 1);
+      const commitment = keccak256(sessionKey);
+      const message = onchainMessage({ ciphertext: escrowCiphertext, iv: escrowIv, authTag: escrowAuthTag }, commitment, 1);
+      const { keyVersion, ...wrap } = wrapSessionKey(Buffer.from(sessionKey));
+      const rewrap: EscrowRewrap = {
+        ...wrap,
+        fromVersion: 1,
+        version: keyVersion,
+        sessionKeyCommitment: commitment as `0x${string}`,
+        rewrappedAt: new Date().toISOString()
+      };
+      return { sessionKey: Buffer.from(sessionKey), message, rewrap };
+    };
+
+    it("prefers a re-wrap of the same session key under a version the server holds", function () {
+      const { sessionKey, message, rewrap } = encapsulation();
+      const resolved = selectEscrowWrap(message, rewrap);
+      expect(resolved).to.deep.include({ version: 2, source: "rewrap" });
+      expect(unwrapSessionKey(resolved.wrap, resolved.version).equals(sessionKey)).to.equal(true);
+
+      expect(selectEscrowWrap(message, null)).to.deep.include({ version: 1, source: "onchain" });
+    });
+
+    it("falls back to the on-chain wrap for a re-wrap of another key or an unknown version", function () {
+      const { sessionKey, message, rewrap } = encapsulation();
+
+      const otherKey = { ...rewrap, sessionKeyCommitment: keccak256(new Uint8Array(32)) as `0x${string}` };
+      expect(selectEscrowWrap(message, otherKey).source).to.equal("onchain");
+
+      const unknownVersion = { ...rewrap, version: 3 };
+      const resolved = selectEscrowWrap(message, unknownVersion);
+      expect(resolved).to.deep.include({ version: 1, source: "onchain" });
+      expect(unwrapSessionKey(resolved.wrap, resolved.version).equals(sessionKey)).to.equal(true);
+    });
+  });
+});
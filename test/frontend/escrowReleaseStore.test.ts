@@ -0,0 +1,58 @@
+import { expect } from "chai";
+import {
+  acquireReleaseLease,
+  deferLockedRelease,
+  releaseReleaseLease,
+  type PendingRelease
+} from "../../frontend/lib/escrowReleaseStore";
+import { closeStorage, upsertRecord } from "../../frontend/lib/storage";
+
+const MINUTE = 60;
+
+describe("escrowReleaseStore", function () {
+  const previousBackend = process.env.STORAGE_BACKEND;
+
+  beforeEach(async function () {
+    process.env.STORAGE_BACKEND = "memory";
+    await closeStorage();
+  });
+
+  after(async function () {
+    await closeStorage();
+    if (previousBackend === undefined) {
+      delete process.env.STORAGE_BACKEND;
+    } else {
+      process.env.STORAGE_BACKEND = previousBackend;
+    }
+  });
+
+  it("backs off locked messages, doubling up to a day", function () {
+    const entry: PendingRelease = { notBefore: 0, queuedAt: "2026-10-19T00:00:00.000Z" };
+    const delays = [];
+    for (let check = 0; check < 12; check++) {
+      deferLockedRelease(entry, 1000);
+      delays.push(entry.notBefore - 1000);
+    }
+    expect(delays.slice(0, 4)).to.deep.equal([5 * MINUTE, 10 * MINUTE, 20 * MINUTE, 40 * MINUTE]);
+    expect(delays.at(-1)).to.equal(24 * 60 * MINUTE);
+    expect(entry.lockedChecks).to.equal(12);
+  });
+
+  it("lets one sweep hold the lease until it ends it", async function () {
+    expect(await acquireReleaseLease("first", 60_000)).to.equal(true);
+    expect(await acquireReleaseLease("second", 60_000)).to.equal(false);
+    // The holder extends its own lease
+    expect(await acquireReleaseLease("first", 60_000)).to.equal(true);
+
+    // Only the holder can end it
+    await releaseReleaseLease("second");
+    expect(await acquireReleaseLease("second", 60_000)).to.equal(false);
+    await releaseReleaseLease("first");
+    expect(await acquireReleaseLease("second", 60_000)).to.equal(true);
+  });
+
+  it("hands an expired lease to the next sweep", async function () {
+    await upsertRecord("escrowReleaseLeases", "sweep", () => ({ holder: "crashed", expiresAt: Date.now() - 1 }));
+    expect(await acquireReleaseLease("next", 60_000)).to.equal(true);
+  });
+});
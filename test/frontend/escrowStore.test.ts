@@ -0,0 +1,118 @@
+import { expect } from "chai";
+import {
+  EnvelopeWriteError,
+  getReceiverEnvelope,
+  listEnvelopeRejections,
+  writeReceiverEnvelope,
+  type StoredCommitment
+} from "../../frontend/lib/escrowStore";
+import { closeStorage } from "../../frontend/lib/storage";
+
+// Error a promise rejected with; fails the test if it resolved
+async function rejection(promise: Promise<unknown>): Promise<Error> {
+  try {
+    await promise;
+  } catch (err) {
+    return err as Error;
+  }
+  throw new Error("Expected the promise to reject");
+}
+
+const COMMITMENT = "0x" + "c1".repeat(32);
+const SENDER = "0x" + "aa".repeat(20);
+const SQUATTER = "0x" + "bb".repeat(20);
+
+// Signed write as the route hands it over after checking the signature
+const input = (sender: string, receiverEnvelopeHash: string) => ({
+  commitment: COMMITMENT,
+  receiverEnvelopeHash,
+  ciphertextHash: "0x" + "c3".repeat(32),
+  senderPublicKey: "0x04" + "d4".repeat(64),
+  sender,
+  chainId: 11155111,
+  contractAddress: "0x" + "e5".repeat(20),
+  createdBlock: "100",
+  envelope: { ciphertext: "0x" + "f6".repeat(32), iv: "0x" + "f7".repeat(12), authTag: "0x" + "f8".repeat(16) }
+});
+const HASH_1 = "0x" + "01".repeat(32);
+const HASH_2 = "0x" + "02".repeat(32);
+
+const notStored = async () => null;
+const storedBy = (sender: string) => async (): Promise<StoredCommitment> => ({ messageId: "7", sender });
+
+describe("escrowStore envelope writes", function () {
+  const previousBackend = process.env.STORAGE_BACKEND;
+
+  beforeEach(async function () {
+    process.env.STORAGE_BACKEND = "memory";
+    await closeStorage();
+  });
+
+  after(async function () {
+    await closeStorage();
+    if (previousBackend === undefined) {
+      delete process.env.STORAGE_BACKEND;
+    } else {
+      process.env.STORAGE_BACKEND = previousBackend;
+    }
+  });
+
+  it("lets only the signer replace a record before the message is stored", async function () {
+    await writeReceiverEnvelope(input(SENDER, HASH_1), notStored);
+    const replaced = await writeReceiverEnvelope(input(SENDER, HASH_2), notStored);
+    expect(replaced.receiverEnvelopeHash).to.equal(HASH_2);
+    expect(replaced.boundTo).to.equal(undefined);
+
+    const overwrite = await rejection(writeReceiverEnvelope(input(SQUATTER, HASH_1), notStored));
+    expect(overwrite).to.be.instanceOf(EnvelopeWriteError).with.property("status", 409);
+    expect((await getReceiverEnvelope(COMMITMENT))?.receiverEnvelopeHash).to.equal(HASH_2);
+    expect(await listEnvelopeRejections()).to.have.length(1).and.to.have.nested.property("[0].reason", "sender-mismatch");
+  });
+
+  it("binds the on-chain sender's record once the message is stored and freezes it", async function () {
+    await writeReceiverEnvelope(input(SENDER, HASH_1), notStored);
+
+    // A retry of the same write is still accepted
+    expect((await writeReceiverEnvelope(input(SENDER, HASH_1), storedBy(SENDER))).boundTo).to.equal(undefined);
+    const change = await rejection(writeReceiverEnvelope(input(SENDER, HASH_2), storedBy(SENDER)));
+    expect(change.message).to.equal("Envelope is bound to a stored message");
+
+    const record = await getReceiverEnvelope(COMMITMENT);
+    expect(record?.boundTo?.messageId).to.equal("7");
+    expect(record?.receiverEnvelopeHash).to.equal(HASH_1);
+    expect((await listEnvelopeRejections()).map((entry) => entry.reason)).to.deep.equal(["bound"]);
+  });
+
+  it("rejects a first write after the message was stored by someone else", async function () {
+    const claim = await rejection(writeReceiverEnvelope(input(SQUATTER, HASH_1), storedBy(SENDER)));
+    expect(claim.message).to.equal("Envelope belongs to another sender");
+    expect(await getReceiverEnvelope(COMMITMENT)).to.equal(undefined);
+
+    const first = await writeReceiverEnvelope(input(SENDER, HASH_1), storedBy(SENDER));
+    expect(first.boundTo?.messageId).to.equal("7");
+  });
+
+  it("discards a record written by someone other than the on-chain sender", async function () {
+    await writeReceiverEnvelope(input(SQUATTER, HASH_1), notStored);
+
+    // The squatter's record is never bound, and only the message's sender may replace it
+    const squat = await rejection(writeReceiverEnvelope(input(SQUATTER, HASH_2), storedBy(SENDER)));
+    expect(squat.message).to.equal("Envelope belongs to another sender");
+    expect((await getReceiverEnvelope(COMMITMENT))?.boundTo).to.equal(undefined);
+
+    const record = await writeReceiverEnvelope(input(SENDER, HASH_2), storedBy(SENDER));
+    expect(record.sender).to.equal(SENDER);
+    expect(record.receiverEnvelopeHash).to.equal(HASH_2);
+    expect(record.boundTo?.messageId).to.equal("7");
+
+    const [rejected, discarded] = await listEnvelopeRejections();
+    expect(rejected.reason).to.equal("sender-mismatch");
+    expect(discarded).to.deep.include({
+      reason: "discarded",
+      attemptedBy: SQUATTER,
+      attemptedReceiverEnvelopeHash: HASH_1,
+      storedReceiverEnvelopeHash: HASH_2,
+      boundMessageId: "7"
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { expect } from "chai";
+import { Wallet, type TypedDataField } from "ethers";
+import { escrowPublicKeyFromSecret } from "../../frontend/lib/escrowKem";
+import {
+  ESCROW_UNWRAP_MAX_VALIDITY_SECONDS,
+  ESCROW_UNWRAP_TYPES,
+  EscrowUnwrapError,
+  verifyEscrowUnwrap,
+  type EscrowUnwrapMessage
+} from "../../frontend/lib/escrowUnwrap";
+import { getSealedMessageDomain } from "../../frontend/lib/guardianApproval";
+
+// Error a promise rejected with; fails the test if it resolved
+async function rejection(promise: Promise<unknown>): Promise<Error> {
+  try {
+    await promise;
+  } catch (err) {
+    return err as Error;
+  }
+  throw new Error("Expected the promise to reject");
+}
+
+const CHAIN_ID = 11155111;
+const CONTRACT = `0x${"e5".repeat(20)}` as `0x${string}`;
+const NOW = 1_800_000_000n;
+const TYPES = ESCROW_UNWRAP_TYPES as unknown as Record<string, TypedDataField[]>;
+
+describe("escrowUnwrap signature checks", function () {
+  const receiver = new Wallet(`0x${"42".repeat(32)}`);
+  const stranger = new Wallet(`0x${"43".repeat(32)}`);
+
+  const request = (deadline = NOW + 300n): EscrowUnwrapMessage => ({
+    messageId: 7n,
+    receiver: receiver.address as `0x${string}`,
+    clientPublicKey: escrowPublicKeyFromSecret(Uint8Array.from(Buffer.from("5e".repeat(32), "hex"))),
+    deadline
+  });
+  const sign = async (signer: Wallet, message: EscrowUnwrapMessage, chainId = CHAIN_ID, contract = CONTRACT) =>
+    (await signer.signTypedData(getSealedMessageDomain(chainId, contract), TYPES, message)) as `0x${string}`;
+
+  const failure = async (message: EscrowUnwrapMessage, signature: `0x${string}`) =>
+    rejection(verifyEscrowUnwrap(CHAIN_ID, CONTRACT, message, signature, NOW));
+
+  it("accepts the receiver's signature within the deadline window", async function () {
+    const message = request();
+    await verifyEscrowUnwrap(CHAIN_ID, CONTRACT, message, await sign(receiver, message), NOW);
+
+    const longest = request(NOW + BigInt(ESCROW_UNWRAP_MAX_VALIDITY_SECONDS));
+    await verifyEscrowUnwrap(CHAIN_ID, CONTRACT, longest, await sign(receiver, longest), NOW);
+  });
+
+  it("rejects expired or long-lived deadlines", async function () {
+    const expired = request(NOW - 1n);
+    expect(await failure(expired, await sign(receiver, expired)))
+      .to.be.instanceOf(EscrowUnwrapError)
+      .and.to.include({ message: "Signature expired", status: 400 });
+
+    const tooLong = request(NOW + BigInt(ESCROW_UNWRAP_MAX_VALIDITY_SECONDS) + 1n);
+    expect(await failure(tooLong, await sign(receiver, tooLong))).to.include({
+      message: "Signature deadline is too far in the future",
+      status: 400
+    });
+  });
+
+  it("rejects a signature by anyone other than the named receiver", async function () {
+    const message = request();
+    expect(await failure(message, await sign(stranger, message)))
+      .to.be.instanceOf(EscrowUnwrapError)
+      .and.to.include({ message: "Invalid signature", status: 401 });
+
+    // Naming the stranger as receiver does not reuse the receiver's signature either
+    const renamed = { ...message, receiver: stranger.address as `0x${string}` };
+    expect(await failure(renamed, await sign(receiver, message))).to.include({ status: 401 });
+  });
+
+  it("binds the signature to the chain, contract, message and client key", async function () {
+    const message = request();
+    const signature = await sign(receiver, message);
+
+    expect(await failure({ ...message, messageId: 8n }, signature)).to.include({ status: 401 });
+    const otherClientKey = escrowPublicKeyFromSecret(Uint8Array.from(Buffer.from("6f".repeat(32), "hex")));
+    expect(await failure({ ...message, clientPublicKey: otherClientKey }, signature)).to.include({ status: 401 });
+
+    expect(await failure(message, await sign(receiver, message, 1))).to.include({ status: 401 });
+    expect(await failure(message, await sign(receiver, message, CHAIN_ID, `0x${"e6".repeat(20)}`))).to.include({
+      status: 401
+    });
+  });
+
+  it("answers a malformed signature with 401", async function () {
+    expect(await failure(request(), "0x1234")).to.include({ message: "Invalid signature", status: 401 });
+  });
+});
@@ -0,0 +1,59 @@
+import { expect } from "chai";
+import { RelayQuotaExceededError, releaseRelay, reserveRelay } from "../../frontend/lib/relayerQuotaStore";
+import { closeStorage } from "../../frontend/lib/storage";
+
+// Error a promise rejected with; fails the test if it resolved
+async function rejection(promise: Promise<unknown>): Promise<Error> {
+  try {
+    await promise;
+  } catch (err) {
+    return err as Error;
+  }
+  throw new Error("Expected the promise to reject");
+}
+
+const SIGNER = "0x" + "ab".repeat(20);
+
+describe("relayerQuotaStore", function () {
+  const saved = { STORAGE_BACKEND: process.env.STORAGE_BACKEND, RELAYER_DAILY_QUOTA: process.env.RELAYER_DAILY_QUOTA };
+
+  beforeEach(async function () {
+    process.env.STORAGE_BACKEND = "memory";
+    process.env.RELAYER_DAILY_QUOTA = "2";
+    await closeStorage();
+  });
+
+  after(async function () {
+    await closeStorage();
+    for (const [name, value] of Object.entries(saved)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  });
+
+  it("never lets concurrent requests of one address exceed the quota", async function () {
+    const results = await Promise.allSettled(Array.from({ length: 4 }, () => reserveRelay(SIGNER)));
+
+    const reserved = results.filter((result) => result.status === "fulfilled");
+    const refused = results.filter((result): result is PromiseRejectedResult => result.status === "rejected");
+    expect(reserved).to.have.length(2);
+    expect(refused).to.have.length(2);
+    for (const { reason } of refused) {
+      expect(reason).to.be.instanceOf(RelayQuotaExceededError);
+      expect(reason.quota).to.deep.include({ used: 2, limit: 2, remaining: 0 });
+    }
+  });
+
+  it("hands a released slot back", async function () {
+    await reserveRelay(SIGNER);
+    const second = await reserveRelay(SIGNER);
+    expect(second.quota.remaining).to.equal(0);
+
+    await releaseRelay(SIGNER, second.reservedAt);
+    expect((await reserveRelay(SIGNER)).quota).to.deep.include({ used: 2, remaining: 0 });
+    expect(await rejection(reserveRelay(SIGNER))).to.be.instanceOf(RelayQuotaExceededError);
+  });
+});
@@ -0,0 +1,42 @@
+import { expect } from "chai";
+import { randomBytes } from "crypto";
+import { combineShares, splitSecret } from "../../frontend/lib/shamir";
+
+describe("shamir", function () {
+  const secret = new Uint8Array(randomBytes(32));
+
+  it("rebuilds the secret from any threshold-sized subset of shares", function () {
+    const shares = splitSecret(secret, 5, 3);
+    expect(shares.map((share) => share.index)).to.deep.equal([1, 2, 3, 4, 5]);
+
+    for (const subset of [[0, 1, 2], [0, 2, 4], [2, 3, 4], [4, 1, 3]]) {
+      expect(combineShares(subset.map((i) => shares[i]))).to.deep.equal(secret);
+    }
+    expect(combineShares(shares)).to.deep.equal(secret);
+  });
+
+  it("does not rebuild the secret from fewer shares than the threshold", function () {
+    const shares = splitSecret(secret, 5, 3);
+    expect(combineShares(shares.slice(0, 2))).to.not.deep.equal(secret);
+  });
+
+  it("uses fresh coefficients on every split", function () {
+    const [first] = splitSecret(secret, 3, 2);
+    const [second] = splitSecret(secret, 3, 2);
+    expect(first.data).to.not.deep.equal(second.data);
+  });
+
+  it("rejects invalid parameters", function () {
+    expect(() => splitSecret(secret, 3, 1)).to.throw("threshold must be at least 2");
+    expect(() => splitSecret(secret, 2, 3)).to.throw("between the threshold and 255");
+    expect(() => splitSecret(secret, 256, 3)).to.throw("between the threshold and 255");
+  });
+
+  it("rejects duplicate, out-of-range and mismatched shares", function () {
+    const shares = splitSecret(secret, 3, 2);
+    expect(() => combineShares([shares[0]])).to.throw("At least two shares");
+    expect(() => combineShares([shares[0], shares[0]])).to.throw("duplicate share index 1");
+    expect(() => combineShares([shares[0], { index: 0, data: shares[1].data }])).to.throw("share index 0");
+    expect(() => combineShares([shares[0], { index: 2, data: shares[1].data.slice(1) }])).to.throw("different lengths");
+  });
+});
@@ -0,0 +1,61 @@
+import { expect } from "chai";
+import { formatSiweMessage, parseSiweMessage, SIWE_STATEMENT, SiweMessageError, type SiweMessage } from "../../frontend/lib/siwe";
+
+describe("siwe", function () {
+  const message: SiweMessage = {
+    domain: "app.example.org",
+    address: "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266",
+    statement: SIWE_STATEMENT,
+    uri: "https://app.example.org",
+    version: "1",
+    chainId: 11155111,
+    nonce: "a1b2c3d4e5f6",
+    issuedAt: "2026-01-01T00:00:00.000Z",
+    expirationTime: "2026-01-01T00:10:00.000Z"
+  };
+
+  it("formats the EIP-4361 layout", function () {
+    expect(formatSiweMessage(message).split("\n")).to.deep.equal([
+      "app.example.org wants you to sign in with your Ethereum account:",
+      "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266",
+      "",
+      SIWE_STATEMENT,
+      "",
+      "URI: https://app.example.org",
+      "Version: 1",
+      "Chain ID: 11155111",
+      "Nonce: a1b2c3d4e5f6",
+      "Issued At: 2026-01-01T00:00:00.000Z",
+      "Expiration Time: 2026-01-01T00:10:00.000Z"
+    ]);
+  });
+
+  it("parses what it formats", function () {
+    expect(parseSiweMessage(formatSiweMessage(message))).to.deep.equal(message);
+
+    const minimal: SiweMessage = { ...message, statement: undefined };
+    delete minimal.expirationTime;
+    expect(parseSiweMessage(formatSiweMessage(minimal))).to.deep.equal(minimal);
+
+    const withResources: SiweMessage = { ...message, requestId: "42", resources: ["ipfs://a", "https://b"] };
+    expect(parseSiweMessage(formatSiweMessage(withResources))).to.deep.equal(withResources);
+  });
+
+  const tampered = (from: string, to: string) => formatSiweMessage(message).replace(from, to);
+
+  it("rejects malformed messages", function () {
+    const cases: [string, string][] = [
+      [tampered(" wants you to sign in", " would like you to sign in"), "Missing sign-in header"],
+      [tampered(message.address, message.address.toLowerCase()), "Address must be EIP-55 checksummed"],
+      [tampered("Version: 1", "Version: 2"), "Unsupported version"],
+      [tampered("Chain ID: 11155111", "Chain ID: -1"), "Invalid chain ID"],
+      [tampered("Nonce: a1b2c3d4e5f6", "Nonce: short"), "Invalid nonce"],
+      [tampered("Issued At: 2026-01-01T00:00:00.000Z", "Issued At: yesterday"), "Invalid timestamp"],
+      [tampered("URI: ", "Url: "), "Missing URI"],
+      [`${formatSiweMessage(message)}\nextra`, "Unexpected trailing content"]
+    ];
+    for (const [text, error] of cases) {
+      expect(() => parseSiweMessage(text), error).to.throw(SiweMessageError, error);
+    }
+  });
+});
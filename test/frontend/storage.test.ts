@@ -0,0 +1,183 @@
+import { expect } from "chai";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { createMemoryStorage } from "../../frontend/lib/memoryStorage";
+import { openSqliteStorage } from "../../frontend/lib/sqliteStorage";
+import {
+  appendLogEntry,
+  closeStorage,
+  findRecordByIndex,
+  getRecord,
+  listLogEntries,
+  listRecordEntries,
+  upsertRecord,
+  type StorageBackend
+} from "../../frontend/lib/storage";
+
+// Error a promise rejected with; fails the test if it resolved
+async function rejection(promise: Promise<unknown>): Promise<Error> {
+  try {
+    await promise;
+  } catch (err) {
+    return err as Error;
+  }
+  throw new Error("Expected the promise to reject");
+}
+
+const write = (value: unknown, indexes: Record<string, string> = {}) => () => ({ value: JSON.stringify(value), indexes });
+
+// Both backends have to behave the same; every case runs against each of them
+const BACKENDS: [string, (dir: string) => Promise<StorageBackend>][] = [
+  ["memory", async () => createMemoryStorage()],
+  ["sqlite", (dir) => openSqliteStorage(path.join(dir, "sealed-message.sqlite"))]
+];
+
+for (const [kind, open] of BACKENDS) {
+  describe(`${kind} storage backend`, function () {
+    let dir: string;
+    let storage: StorageBackend;
+
+    beforeEach(async function () {
+      dir = mkdtempSync(path.join(tmpdir(), "sealed-message-storage-"));
+      storage = await open(dir);
+    });
+
+    afterEach(function () {
+      storage.close();
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("upserts, reads and lists records in insertion order", async function () {
+      await storage.upsert("messagePreviews", "b", write({ n: 1 }));
+      await storage.upsert("messagePreviews", "a", write({ n: 2 }));
+      await storage.upsert("messagePreviews", "b", write({ n: 3 }));
+
+      expect(await storage.get("messagePreviews", "b")).to.equal('{"n":3}');
+      expect(await storage.get("messagePreviews", "missing")).to.equal(undefined);
+      expect((await storage.list("messagePreviews")).map((entry) => entry.key)).to.deep.equal(["b", "a"]);
+      expect(await storage.list("metadataMappings")).to.deep.equal([]);
+    });
+
+    it("keeps indexes in step with the record", async function () {
+      await storage.upsert("metadataMappings", "short", write({ v: 1 }, { metadataKeccak: "0xaa" }));
+      expect(await storage.findByIndex("metadataMappings", "metadataKeccak", "0xaa")).to.deep.equal({
+        key: "short",
+        value: '{"v":1}'
+      });
+
+      await storage.upsert("metadataMappings", "short", write({ v: 2 }, { metadataKeccak: "0xbb" }));
+      expect(await storage.findByIndex("metadataMappings", "metadataKeccak", "0xaa")).to.equal(undefined);
+      expect((await storage.findByIndex("metadataMappings", "metadataKeccak", "0xbb"))?.key).to.equal("short");
+    });
+
+    it("deletes a record together with its indexes", async function () {
+      await storage.upsert("metadataMappings", "short", write({ v: 1 }, { metadataKeccak: "0xaa" }));
+
+      expect(await storage.delete("metadataMappings", "short")).to.equal(true);
+      expect(await storage.get("metadataMappings", "short")).to.equal(undefined);
+      expect(await storage.findByIndex("metadataMappings", "metadataKeccak", "0xaa")).to.equal(undefined);
+      expect(await storage.delete("metadataMappings", "short")).to.equal(false);
+    });
+
+    it("does not write when the update throws", async function () {
+      await storage.upsert("messagePreviews", "a", write({ n: 1 }));
+      const failed = storage.upsert("messagePreviews", "a", () => {
+        throw new Error("abort");
+      });
+      expect((await rejection(failed)).message).to.equal("abort");
+      expect(await storage.get("messagePreviews", "a")).to.equal('{"n":1}');
+    });
+
+    it("keeps log entries append-only", async function () {
+      await storage.append("envelopeRejections", '{"first":true}');
+      await storage.append("envelopeRejections", '{"second":true}');
+      expect(await storage.listLog("envelopeRejections")).to.deep.equal([
+        { id: 1, value: '{"first":true}' },
+        { id: 2, value: '{"second":true}' }
+      ]);
+
+      const rewrite = storage.rewrapLogEntry("envelopeRejections", 1, '{"first":false}');
+      expect((await rejection(rewrite)).message).to.include("append-only");
+    });
+
+    it("only lets the wrapped data key of an encrypted log entry change", async function () {
+      const entry = { $enc: 1, provider: "env", keyId: "v1", dataKey: "old", iv: "iv", tag: "tag", ciphertext: "ct" };
+      await storage.append("envelopeRejections", JSON.stringify(entry));
+
+      await storage.rewrapLogEntry("envelopeRejections", 1, JSON.stringify({ ...entry, keyId: "v2", dataKey: "new" }));
+      expect(JSON.parse((await storage.listLog("envelopeRejections"))[0].value).dataKey).to.equal("new");
+      const rewrite = storage.rewrapLogEntry("envelopeRejections", 1, JSON.stringify({ ...entry, ciphertext: "other" }));
+      expect((await rejection(rewrite)).message).to.include("append-only");
+    });
+
+    it("restores a backup", async function () {
+      await storage.upsert("metadataMappings", "short", write({ v: 1 }, { metadataKeccak: "0xaa" }));
+      await storage.append("envelopeRejections", '{"entry":1}');
+      const backup = path.join(dir, "backup");
+      await storage.backup(backup);
+
+      await storage.upsert("metadataMappings", "short", write({ v: 2 }, { metadataKeccak: "0xbb" }));
+      await storage.upsert("messagePreviews", "later", write({}));
+      await storage.restore(backup);
+
+      expect(await storage.get("metadataMappings", "short")).to.equal('{"v":1}');
+      expect(await storage.get("messagePreviews", "later")).to.equal(undefined);
+      expect((await storage.findByIndex("metadataMappings", "metadataKeccak", "0xaa"))?.key).to.equal("short");
+      expect(await storage.listLog("envelopeRejections")).to.have.length(1);
+    });
+  });
+}
+
+describe("storage", function () {
+  const previousBackend = process.env.STORAGE_BACKEND;
+
+  beforeEach(async function () {
+    process.env.STORAGE_BACKEND = "memory";
+    await closeStorage();
+  });
+
+  after(async function () {
+    await closeStorage();
+    if (previousBackend === undefined) {
+      delete process.env.STORAGE_BACKEND;
+    } else {
+      process.env.STORAGE_BACKEND = previousBackend;
+    }
+  });
+
+  it("stores JSON records and finds them by index, case-insensitively", async function () {
+    await upsertRecord("metadataMappings", "short", () => ({ shortHash: "short", metadataKeccak: "0xABCD" }));
+
+    expect(await getRecord("metadataMappings", "short")).to.deep.equal({ shortHash: "short", metadataKeccak: "0xABCD" });
+    expect(await findRecordByIndex("metadataMappings", "metadataKeccak", " 0xabcd ")).to.deep.equal({
+      shortHash: "short",
+      metadataKeccak: "0xABCD"
+    });
+    expect(await listRecordEntries("metadataMappings")).to.deep.equal([
+      { key: "short", record: { shortHash: "short", metadataKeccak: "0xABCD" } }
+    ]);
+  });
+
+  it("retries concurrent read-modify-writes of one record instead of losing updates", async function () {
+    const increment = () => upsertRecord<number[]>("relayerQuotas", "relayer", (current) => [...(current ?? []), Date.now()]);
+    await Promise.all([increment(), increment(), increment(), increment()]);
+
+    expect(await getRecord<number[]>("relayerQuotas", "relayer")).to.have.length(4);
+  });
+
+  it("passes errors thrown by the update through without writing", async function () {
+    await upsertRecord("messagePreviews", "a", () => ({ n: 1 }));
+    const failed = upsertRecord("messagePreviews", "a", () => {
+      throw new Error("not allowed");
+    });
+    expect((await rejection(failed)).message).to.equal("not allowed");
+    expect(await getRecord("messagePreviews", "a")).to.deep.equal({ n: 1 });
+  });
+
+  it("appends and lists log entries", async function () {
+    await appendLogEntry("envelopeRejections", { n: 1 });
+    await appendLogEntry("envelopeRejections", { n: 2 });
+    expect(await listLogEntries("envelopeRejections")).to.deep.equal([{ n: 1 }, { n: 2 }]);
+  });
+});
@@ -0,0 +1,184 @@
+import { expect } from "chai";
+import {
+  decodeValue,
+  encodeValue,
+  inspectValue,
+  preEncryptionEntries,
+  recordContext,
+  rewrapValue,
+  StorageDecryptionError
+} from "../../frontend/lib/storageEncryption";
+import { appendLogEntry, closeStorage, getRecord, getStorage, upsertRecord } from "../../frontend/lib/storage";
+import { rotateStorageKeys, verifyStorageEncryption } from "../../frontend/lib/storageKeyRotation";
+
+// Error a promise rejected with; fails the test if it resolved
+async function rejection(promise: Promise<unknown>): Promise<Error> {
+  try {
+    await promise;
+  } catch (err) {
+    return err as Error;
+  }
+  throw new Error("Expected the promise to reject");
+}
+
+const ENV_NAMES = [
+  "STORAGE_BACKEND",
+  "STORAGE_ENCRYPTION",
+  "STORAGE_ENCRYPTION_STRICT",
+  "STORAGE_MASTER_KEY_V1",
+  "STORAGE_MASTER_KEY_V2",
+  "STORAGE_MASTER_KEY_VERSION"
+];
+const KEY_V1 = "11".repeat(32);
+const KEY_V2 = "22".repeat(32);
+
+// The key provider is resolved once per process; drop it so the next call reads the changed environment
+function configure(env: Record<string, string | undefined>) {
+  for (const name of ENV_NAMES) {
+    if (name in env) {
+      if (env[name] === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = env[name];
+      }
+    }
+  }
+  (globalThis as { __masterKeyProvider?: unknown }).__masterKeyProvider = undefined;
+}
+
+describe("storageEncryption", function () {
+  const saved = Object.fromEntries(ENV_NAMES.map((name) => [name, process.env[name]]));
+  const context = recordContext("messagePreviews", "1");
+
+  beforeEach(async function () {
+    configure({
+      STORAGE_BACKEND: "memory",
+      STORAGE_ENCRYPTION: "env",
+      STORAGE_ENCRYPTION_STRICT: undefined,
+      STORAGE_MASTER_KEY_V1: KEY_V1,
+      STORAGE_MASTER_KEY_V2: undefined,
+      STORAGE_MASTER_KEY_VERSION: undefined
+    });
+    await closeStorage();
+  });
+
+  after(async function () {
+    await closeStorage();
+    configure(saved);
+  });
+
+  it("encrypts values under the current master key and decrypts them", async function () {
+    const encoded = await encodeValue({ secret: "hello" }, context);
+
+    expect(encoded).to.not.include("hello");
+    expect(inspectValue(encoded)).to.deep.equal({ encrypted: true, provider: "env", keyId: "v1" });
+    expect(await decodeValue(encoded, context)).to.deep.equal({ secret: "hello" });
+  });
+
+  it("writes plaintext JSON without STORAGE_ENCRYPTION", async function () {
+    configure({ STORAGE_ENCRYPTION: undefined });
+    const encoded = await encodeValue({ n: 1 }, context);
+
+    expect(encoded).to.equal('{"n":1}');
+    expect(inspectValue(encoded)).to.deep.equal({ encrypted: false });
+  });
+
+  it("rejects values moved to another location or tampered with", async function () {
+    const encoded = await encodeValue({ n: 1 }, context);
+    const moved = decodeValue(encoded, recordContext("messagePreviews", "2"));
+    expect(await rejection(moved)).to.be.instanceOf(StorageDecryptionError);
+
+    const envelope = JSON.parse(encoded);
+    const ciphertext = Buffer.from(envelope.ciphertext, "base64");
+    ciphertext[0] ^= 1;
+    const tampered = JSON.stringify({ ...envelope, ciphertext: ciphertext.toString("base64") });
+    expect(await rejection(decodeValue(tampered, context)))
+      .to.be.instanceOf(StorageDecryptionError)
+      .with.property("message")
+      .that.includes("failed authentication");
+  });
+
+  it("fails clearly when the master key is missing", async function () {
+    const encoded = await encodeValue({ n: 1 }, context);
+    configure({ STORAGE_ENCRYPTION: undefined });
+    expect(await rejection(decodeValue(encoded, context)))
+      .to.be.instanceOf(StorageDecryptionError)
+      .with.property("message")
+      .that.includes("STORAGE_ENCRYPTION is not set");
+  });
+
+  it("accepts plaintext unless STORAGE_ENCRYPTION_STRICT is on", async function () {
+    expect(await decodeValue('{"n":1}', context)).to.deep.equal({ n: 1 });
+
+    configure({ STORAGE_ENCRYPTION_STRICT: "true" });
+    expect(await rejection(decodeValue('{"n":1}', context)))
+      .to.be.instanceOf(StorageDecryptionError)
+      .with.property("message")
+      .that.includes("stored as plaintext");
+    expect(await decodeValue('{"n":1}', context, true)).to.deep.equal({ n: 1 });
+
+    configure({ STORAGE_ENCRYPTION: undefined });
+    expect((await rejection(encodeValue({ n: 1 }, context))).message).to.include("requires STORAGE_ENCRYPTION");
+  });
+
+  it("treats only log entries before the first encrypted one as pre-encryption", async function () {
+    const encrypted = await encodeValue({ n: 2 }, context);
+    expect(preEncryptionEntries(['{"n":1}', '{"n":2}', encrypted, '{"n":3}'])).to.deep.equal([true, true, false, false]);
+    expect(preEncryptionEntries([])).to.deep.equal([]);
+  });
+
+  it("re-wraps a data key under a new master key without touching the ciphertext", async function () {
+    const encoded = await encodeValue({ n: 1 }, context);
+    configure({ STORAGE_MASTER_KEY_V2: KEY_V2 });
+
+    const rewrapped = await rewrapValue(encoded, context);
+    const [before, after] = [JSON.parse(encoded), JSON.parse(rewrapped)];
+    expect(after.keyId).to.equal("v2");
+    expect([after.iv, after.tag, after.ciphertext]).to.deep.equal([before.iv, before.tag, before.ciphertext]);
+    expect(await decodeValue(rewrapped, context)).to.deep.equal({ n: 1 });
+    expect(await rejection(rewrapValue('{"n":1}', context)))
+      .to.be.instanceOf(StorageDecryptionError)
+      .with.property("message")
+      .that.includes("not encrypted");
+  });
+
+  it("rotates stored values and verify reports what is left in plaintext", async function () {
+    configure({ STORAGE_ENCRYPTION: undefined });
+    await upsertRecord("messagePreviews", "legacy", () => ({ n: 1 }));
+    await appendLogEntry("envelopeRejections", { n: 1 });
+
+    configure({ STORAGE_ENCRYPTION: "env" });
+    await upsertRecord("messagePreviews", "current", () => ({ n: 2 }));
+    configure({ STORAGE_MASTER_KEY_V2: KEY_V2 });
+
+    const before = await verifyStorageEncryption();
+    expect(before.plaintextLocations).to.deep.equal(["messagePreviews/legacy", "envelopeRejections#1"]);
+    expect(before.byMasterKey).to.deep.equal({ "env/v1": 1 });
+    expect(before.failures).to.deep.equal([]);
+
+    const rotated = await rotateStorageKeys();
+    expect(rotated).to.deep.include({ currentKey: "env/v2", records: 2, logEntries: 0, plaintextLogEntries: 1 });
+
+    configure({ STORAGE_ENCRYPTION_STRICT: "true" });
+    const after = await verifyStorageEncryption();
+    expect(after.plaintextLocations).to.deep.equal(["envelopeRejections#1"]);
+    expect(after.byMasterKey).to.deep.equal({ "env/v2": 2 });
+    expect(after.failures).to.deep.equal([]);
+    expect(await getRecord("messagePreviews", "legacy")).to.deep.equal({ n: 1 });
+  });
+
+  it("rejects a plaintext value written straight into the database in strict mode", async function () {
+    configure({ STORAGE_ENCRYPTION_STRICT: "true" });
+    await appendLogEntry("envelopeRejections", { n: 1 });
+    const storage = await getStorage();
+    await storage.upsert("messagePreviews", "injected", () => ({ value: '{"n":1}', indexes: {} }));
+    await storage.append("envelopeRejections", '{"n":2}');
+
+    expect(await rejection(getRecord("messagePreviews", "injected"))).to.be.instanceOf(StorageDecryptionError);
+    const report = await verifyStorageEncryption();
+    expect(report.failures.map((failure) => failure.location)).to.deep.equal([
+      "messagePreviews/injected",
+      "envelopeRejections#2"
+    ]);
+  });
+});
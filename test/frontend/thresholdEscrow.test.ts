@@ -0,0 +1,105 @@
+import { expect } from "chai";
+import { hexlify, keccak256 } from "ethers";
+import { escrowPublicKeyFromSecret } from "../../frontend/lib/escrowKem";
+import {
+  createThresholdEscrow,
+  openOperatorShare,
+  recoverThresholdSessionKey,
+  type EscrowOperator,
+  type ReleasedShare,
+  type ThresholdEscrowManifest
+} from "../../frontend/lib/thresholdEscrow";
+
+// Error a promise rejected with; fails the test if it resolved
+async function rejection(promise: Promise<unknown>): Promise<Error> {
+  try {
+    await promise;
+  } catch (err) {
+    return err as Error;
+  }
+  throw new Error("Expected the promise to reject");
+}
+
+const SESSION_KEY = Uint8Array.from({ length: 32 }, (_, i) => i + 1);
+const OPERATOR_SECRETS = ["11", "22", "33"].map((fill) => Uint8Array.from(Buffer.from(fill.repeat(32), "hex")));
+const OPERATORS: EscrowOperator[] = OPERATOR_SECRETS.map((secret, i) => ({
+  url: `https://operator-${i + 1}.example.org`,
+  operatorId: `operator-${i + 1}`,
+  publicKey: escrowPublicKeyFromSecret(secret)
+}));
+
+describe("thresholdEscrow", function () {
+  const originalFetch = globalThis.fetch;
+  let manifest: ThresholdEscrowManifest;
+  let manifestHash: `0x${string}`;
+  // What each operator's /api/operator/release answers, by URL
+  let answers: Map<string, ReleasedShare>;
+
+  const request = (sessionKeyCommitment = keccak256(SESSION_KEY) as `0x${string}`) => ({
+    chainId: 11155111,
+    contractAddress: `0x${"e5".repeat(20)}` as `0x${string}`,
+    messageId: 7n,
+    manifestHash,
+    sessionKeyCommitment
+  });
+
+  before(async function () {
+    ({ manifest, manifestHash } = await createThresholdEscrow(SESSION_KEY, OPERATORS, 2));
+  });
+
+  beforeEach(async function () {
+    // Each operator opens its own share, as releaseShare does once the message is unlocked
+    answers = new Map();
+    for (const [i, operator] of OPERATORS.entries()) {
+      const entry = manifest.shares.find((share) => share.operatorId === operator.operatorId)!;
+      const share = await openOperatorShare(OPERATOR_SECRETS[i], manifest, entry);
+      answers.set(operator.url, { operatorId: operator.operatorId, index: entry.index, share: hexlify(share) as `0x${string}`, manifest });
+    }
+    globalThis.fetch = (async (input: string | URL | Request) => {
+      const answer = answers.get(String(input).replace("/api/operator/release", ""));
+      return answer ? new Response(JSON.stringify(answer)) : new Response("unreachable", { status: 503 });
+    }) as typeof fetch;
+  });
+
+  after(function () {
+    globalThis.fetch = originalFetch;
+  });
+
+  it("seals one share per operator that only that operator can open", async function () {
+    expect(manifest.threshold).to.equal(2);
+    expect(manifest.shares.map((share) => share.index)).to.deep.equal([1, 2, 3]);
+
+    const foreign = await rejection(openOperatorShare(OPERATOR_SECRETS[1], manifest, manifest.shares[0]));
+    expect(foreign).to.be.instanceOf(Error);
+  });
+
+  it("rebuilds the session key from any two of the three operators", async function () {
+    const urls = OPERATORS.map((operator) => operator.url);
+    for (const pair of [[urls[0], urls[1]], [urls[0], urls[2]], [urls[1], urls[2]]]) {
+      const sessionKey = await recoverThresholdSessionKey(request(), pair);
+      expect(hexlify(sessionKey)).to.equal(hexlify(SESSION_KEY));
+    }
+  });
+
+  it("needs the threshold of valid shares", async function () {
+    const lone = await rejection(recoverThresholdSessionKey(request(), [OPERATORS[0].url]));
+    expect(lone.message).to.include("Only 1 escrow operator(s) released a valid share");
+
+    // A tampered share fails its commitment and does not count
+    const tampered = answers.get(OPERATORS[1].url)!;
+    answers.set(OPERATORS[1].url, { ...tampered, share: `0x${"00".repeat(32)}` });
+    const withTampered = await rejection(recoverThresholdSessionKey(request(), [OPERATORS[0].url, OPERATORS[1].url]));
+    expect(withTampered.message).to.include("operator-2: share does not match the manifest");
+
+    const sessionKey = await recoverThresholdSessionKey(request(), OPERATORS.map((operator) => operator.url));
+    expect(hexlify(sessionKey)).to.equal(hexlify(SESSION_KEY));
+  });
+
+  it("rejects shares for another sessionKeyCommitment", async function () {
+    const otherCommitment = keccak256(new Uint8Array(32)) as `0x${string}`;
+    const error = await rejection(
+      recoverThresholdSessionKey(request(otherCommitment), OPERATORS.map((operator) => operator.url))
+    );
+    expect(error.message).to.include("Only 0 escrow operator(s) released a valid share");
+  });
+});